@@ -0,0 +1,165 @@
+#!/usr/bin/env node
+/**
+ * Mock EEG stream server for offline testing of the WebSocket source.
+ *
+ * Speaks the frame protocol documented in src/utils/eeg/webSocketSource.ts:
+ * sends a `hello` header on connect, then sample packets in real time, and
+ * honours `pause` / `resume` from the client.
+ *
+ * Usage:
+ *   npm run eeg:mock -- [--port 8765] [--file recording.json|recording.csv]
+ *                       [--rate 256] [--chunk 32] [--binary] [--no-loop]
+ *
+ * Without --file a synthetic 4-channel signal is generated (alpha bursts every
+ * 20 s on top of pink-ish noise). JSON files use the simulator's raw format
+ * `{ sampleRate, channels, data }`; CSV files have one column per channel and
+ * need --rate.
+ */
+
+import { readFileSync } from 'node:fs';
+import { WebSocketServer } from 'ws';
+
+const PROTOCOL_VERSION = 1;
+const BINARY_MAGIC = 0xee;
+// Hold back while this many bytes are waiting in a socket's send buffer
+const MAX_BUFFERED_BYTES = 256 * 1024;
+
+const parseArgs = argv => {
+  const args = { port: 8765, rate: 256, chunk: 32, binary: false, loop: true, file: null };
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--port') args.port = Number(argv[++i]);
+    else if (arg === '--rate') args.rate = Number(argv[++i]);
+    else if (arg === '--chunk') args.chunk = Number(argv[++i]);
+    else if (arg === '--file') args.file = argv[++i];
+    else if (arg === '--binary') args.binary = true;
+    else if (arg === '--no-loop') args.loop = false;
+    else if (arg === '--help' || arg === '-h') {
+      console.log('Usage: eeg-mock-server [--port 8765] [--file path] [--rate 256] [--chunk 32] [--binary] [--no-loop]');
+      process.exit(0);
+    }
+  }
+  return args;
+};
+
+const loadRecording = (file, rate) => {
+  const text = readFileSync(file, 'utf8');
+  if (file.toLowerCase().endsWith('.json')) {
+    const json = JSON.parse(text);
+    if (typeof json.sampleRate !== 'number' || !Array.isArray(json.data)) {
+      throw new Error('JSON recording must contain "sampleRate" and "data"');
+    }
+    return {
+      sampleRate: json.sampleRate,
+      channels: json.channels ?? json.data.map((_, i) => `Ch${i + 1}`),
+      data: json.data.map(ch => Float32Array.from(ch)),
+    };
+  }
+  const [header, ...lines] = text.split(/\r?\n/).filter(l => l.trim());
+  const cols = header.split(',').map(c => c.trim());
+  const keep = cols.map((c, i) => ({ c, i })).filter(({ c }) => !/^(time|timestamp|index|sample)$/i.test(c));
+  const rows = lines.map(l => l.split(',')).filter(p => keep.every(({ i }) => Number.isFinite(Number(p[i]))));
+  return {
+    sampleRate: rate,
+    channels: keep.map(({ c }) => c),
+    data: keep.map(({ i }) => Float32Array.from(rows, r => Number(r[i]))),
+  };
+};
+
+const synthesize = rate => {
+  const seconds = 60;
+  const n = seconds * rate;
+  const channels = ['TP9', 'AF7', 'AF8', 'TP10'];
+  const data = channels.map((_, c) => {
+    const out = new Float32Array(n);
+    let brown = 0;
+    for (let i = 0; i < n; i++) {
+      const t = i / rate;
+      brown = 0.98 * brown + (Math.random() - 0.5) * 4;
+      const alphaOn = Math.floor(t / 10) % 2 === 1 ? 1 : 0.25;
+      out[i] =
+        brown +
+        18 * alphaOn * Math.sin(2 * Math.PI * 10 * t + c) +
+        6 * Math.sin(2 * Math.PI * 6 * t) +
+        4 * Math.sin(2 * Math.PI * 20 * t + c * 0.5) +
+        (Math.random() - 0.5) * 6;
+    }
+    return out;
+  });
+  return { sampleRate: rate, channels, data };
+};
+
+const encodeBinary = (seq, block) => {
+  const samples = block[0].length;
+  const buffer = Buffer.alloc(12 + block.length * samples * 4);
+  buffer.writeUInt8(BINARY_MAGIC, 0);
+  buffer.writeUInt8(PROTOCOL_VERSION, 1);
+  buffer.writeUInt16LE(block.length, 2);
+  buffer.writeUInt32LE(seq, 4);
+  buffer.writeUInt16LE(samples, 8);
+  block.forEach((ch, c) => {
+    ch.forEach((v, i) => buffer.writeFloatLE(v, 12 + (c * samples + i) * 4));
+  });
+  return buffer;
+};
+
+const args = parseArgs(process.argv.slice(2));
+const recording = args.file ? loadRecording(args.file, args.rate) : synthesize(args.rate);
+const total = recording.data[0].length;
+const intervalMs = (args.chunk / recording.sampleRate) * 1000;
+
+const wss = new WebSocketServer({ port: args.port });
+console.log(
+  `EEG mock server on ws://localhost:${args.port} — ${recording.channels.length} ch @ ${recording.sampleRate} Hz, ` +
+    `${(total / recording.sampleRate).toFixed(1)} s${args.file ? ` from ${args.file}` : ' synthetic'}, ` +
+    `${args.binary ? 'binary' : 'JSON'} packets of ${args.chunk}`,
+);
+
+wss.on('connection', (ws, req) => {
+  console.log(`client connected from ${req.socket.remoteAddress}`);
+  let position = 0;
+  let seq = 0;
+  let paused = false;
+
+  ws.send(
+    JSON.stringify({
+      type: 'hello',
+      protocol: PROTOCOL_VERSION,
+      channels: recording.channels,
+      sampleRate: recording.sampleRate,
+      units: 'uV',
+    }),
+  );
+
+  const timer = setInterval(() => {
+    if (paused || ws.readyState !== ws.OPEN || ws.bufferedAmount > MAX_BUFFERED_BYTES) return;
+    if (position >= total) {
+      if (!args.loop) {
+        ws.close(1000, 'end of recording');
+        return;
+      }
+      position = 0;
+      ws.send(JSON.stringify({ type: 'marker', text: 'Recording restarted' }));
+    }
+    const end = Math.min(total, position + args.chunk);
+    const block = recording.data.map(ch => ch.subarray(position, end));
+    position = end;
+    if (args.binary) ws.send(encodeBinary(seq++, block));
+    else ws.send(JSON.stringify({ type: 'samples', seq: seq++, data: block.map(ch => Array.from(ch, v => Math.round(v * 100) / 100)) }));
+  }, intervalMs);
+
+  ws.on('message', raw => {
+    try {
+      const message = JSON.parse(raw.toString());
+      if (message.type === 'pause') paused = true;
+      if (message.type === 'resume') paused = false;
+    } catch {
+      // ignore non-JSON control frames
+    }
+  });
+
+  ws.on('close', () => {
+    clearInterval(timer);
+    console.log('client disconnected');
+  });
+});
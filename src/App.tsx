@@ -8,6 +8,7 @@ import NotFound from "./pages/NotFound";
 import MainDashboard from "./pages/MainDashboard";
 import SubDashboard from "./pages/SubDashboard";
 import EEGSimulatorPage from "./pages/EEGSimulatorPage";
+import ConsentCenter from "./components/ConsentCenter";
 
 const queryClient = new QueryClient();
 
@@ -16,6 +17,7 @@ const App = () => (
     <TooltipProvider>
       <Toaster />
       <Sonner />
+      <ConsentCenter />
       <BrowserRouter>
         <Routes>
           <Route path="/" element={<Index />} />
@@ -1,9 +1,10 @@
-import { useState, useRef, useEffect } from "react";
+import { useState, useRef, useEffect, useEffectEvent } from "react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Card } from "@/components/ui/card";
 import { MessageSquare, Send, Mic, Volume2 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { onConsentWithdrawn, requestConsent } from "@/hooks/useConsent";
 
 type Message = { role: "user" | "assistant"; content: string };
 
@@ -14,6 +15,8 @@ export const AIChat = () => {
   const [isListening, setIsListening] = useState(false);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const recognitionRef = useRef<any>(null);
+  // In-flight chat request, aborted if chat consent is withdrawn
+  const requestRef = useRef<AbortController | null>(null);
   const { toast } = useToast();
 
   const scrollToBottom = () => {
@@ -62,11 +65,29 @@ export const AIChat = () => {
     }
   };
 
-  const toggleVoiceInput = () => {
+  // Withdrawing consent stops dictation and cancels a reply being streamed
+  const stopVoiceInput = useEffectEvent(() => {
+    if (!isListening) return;
+    recognitionRef.current?.stop();
+    setIsListening(false);
+  });
+
+  useEffect(() => {
+    const unsubscribe = [
+      onConsentWithdrawn("microphone", "processing", () => stopVoiceInput()),
+      onConsentWithdrawn("microphone", "cloud", () => stopVoiceInput()),
+      onConsentWithdrawn("chat", "cloud", () => requestRef.current?.abort()),
+    ];
+    return () => unsubscribe.forEach(u => u());
+  }, []);
+
+  const toggleVoiceInput = async () => {
     if (isListening) {
       recognitionRef.current?.stop();
       setIsListening(false);
     } else {
+      // Browser speech recognition may send the audio to a cloud service
+      if (!(await requestConsent("microphone"))) return;
       recognitionRef.current?.start();
       setIsListening(true);
     }
@@ -74,11 +95,14 @@ export const AIChat = () => {
 
   const sendMessage = async () => {
     if (!input.trim() || isLoading) return;
+    if (!(await requestConsent("chat"))) return;
 
     const userMessage: Message = { role: "user", content: input };
     setMessages((prev) => [...prev, userMessage]);
     setInput("");
     setIsLoading(true);
+    const controller = new AbortController();
+    requestRef.current = controller;
 
     try {
       const response = await fetch(
@@ -90,6 +114,7 @@ export const AIChat = () => {
             Authorization: `Bearer ${import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY}`,
           },
           body: JSON.stringify({ messages: [...messages, userMessage] }),
+          signal: controller.signal,
         }
       );
 
@@ -144,14 +169,19 @@ export const AIChat = () => {
         speak(assistantContent);
       }
     } catch (error) {
-      console.error("Error:", error);
-      toast({
-        title: "Error",
-        description: "Failed to send message. Please try again.",
-        variant: "destructive",
-      });
+      if (controller.signal.aborted) {
+        toast({ title: "Chat stopped", description: "Chat consent was withdrawn." });
+      } else {
+        console.error("Error:", error);
+        toast({
+          title: "Error",
+          description: "Failed to send message. Please try again.",
+          variant: "destructive",
+        });
+      }
       setMessages((prev) => prev.slice(0, -1));
     } finally {
+      requestRef.current = null;
       setIsLoading(false);
     }
   };
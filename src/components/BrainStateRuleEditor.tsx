@@ -0,0 +1,102 @@
+import React, { useMemo, useState } from 'react';
+import type { MetricFrame } from '@/types/eeg';
+import {
+  DEFAULT_RULE_SET,
+  parseRuleSet,
+  stateRuns,
+  type BrainState,
+  type BrainStateRuleSet,
+} from '@/utils/eeg/brainStateRules';
+import { getEEGWorker } from '@/utils/eeg/workerClient';
+import { useAsyncResult } from '@/hooks/useAsyncResult';
+
+interface BrainStateRuleEditorProps {
+  ruleSet: BrainStateRuleSet;
+  // Loaded recording to preview against, with its length in seconds
+  frames: MetricFrame[] | null;
+  duration: number;
+  onApply: (ruleSet: BrainStateRuleSet) => void;
+  onClose: () => void;
+}
+
+const toText = (ruleSet: BrainStateRuleSet) => JSON.stringify(ruleSet, null, 2);
+
+// Share of frames per state, in first-seen order
+const shares = (states: BrainState[]) => {
+  const counts = new Map<string, { state: BrainState; count: number }>();
+  states.forEach(s => {
+    const entry = counts.get(s.label);
+    if (entry) entry.count++;
+    else counts.set(s.label, { state: s, count: 1 });
+  });
+  return [...counts.values()].map(({ state, count }) => ({ ...state, pct: (count / (states.length || 1)) * 100 }));
+};
+
+const Track: React.FC<{ title: string; frames: MetricFrame[]; states: BrainState[]; duration: number }> = ({ title, frames, states, duration }) => {
+  const runs = stateRuns(frames, states, duration);
+  const pct = (t: number) => (t / (duration || 1)) * 100;
+  return (
+    <div className="rule-preview-row">
+      <span className="rule-preview-title">{title}</span>
+      <div className="rule-preview-track">
+        {runs.map((r, i) => (
+          <div key={i} className="transport-segment" title={r.label} style={{ left: `${pct(r.start)}%`, width: `${pct(r.end) - pct(r.start)}%`, background: r.color }} />
+        ))}
+      </div>
+      <span className="rule-preview-meta">{Math.max(0, runs.length - 1)} changes</span>
+    </div>
+  );
+};
+
+const BrainStateRuleEditor: React.FC<BrainStateRuleEditorProps> = ({ ruleSet, frames, duration, onApply, onClose }) => {
+  const [text, setText] = useState(() => toText(ruleSet));
+  const parsed = useMemo(() => parseRuleSet(text), [text]);
+
+  // Both labellings run in the EEG worker
+  const currentTask = useMemo(() => (frames ? () => getEEGWorker().request('labelFrames', { ruleSet, frames }) : null), [ruleSet, frames]);
+  const editedTask = useMemo(() => {
+    const edit = parsed.ruleSet;
+    return frames && edit ? () => getEEGWorker().request('labelFrames', { ruleSet: edit, frames }) : null;
+  }, [parsed.ruleSet, frames]);
+  const current = useAsyncResult(currentTask);
+  const edited = useAsyncResult(editedTask);
+  const relabelled = current && edited && current.length === edited.length ? edited.filter((s, i) => s.label !== current[i].label).length : 0;
+
+  return (
+    <div className="rule-editor">
+      <div className="edf-picker-header">
+        <div>
+          <h4>Brain-state rules</h4>
+          <p className="notice">Highest priority match wins; hysteresis and minimum dwell keep labels steady.</p>
+        </div>
+        <div className="edf-picker-actions">
+          <button className="btn subtle" onClick={() => setText(toText(DEFAULT_RULE_SET))}>Defaults</button>
+          <button className="btn subtle" onClick={onClose}>Close</button>
+          <button className="btn primary" onClick={() => parsed.ruleSet && onApply(parsed.ruleSet)} disabled={!parsed.ruleSet}>Apply</button>
+        </div>
+      </div>
+      <textarea className="rule-editor-text" value={text} onChange={e => setText(e.target.value)} spellCheck={false} />
+      {parsed.errors.length > 0 && (
+        <ul className="rule-editor-errors">
+          {parsed.errors.slice(0, 6).map((e, i) => <li key={i}>{e}</li>)}
+        </ul>
+      )}
+      {frames && current ? (
+        <div className="rule-preview">
+          <Track title="Current" frames={frames} states={current} duration={duration} />
+          {edited && <Track title="Edited" frames={frames} states={edited} duration={duration} />}
+          {edited && (
+            <p className="notice">
+              {relabelled} of {frames.length} frames relabelled •{' '}
+              {shares(edited).map(s => `${s.label} ${s.pct.toFixed(0)}%`).join(', ')}
+            </p>
+          )}
+        </div>
+      ) : (
+        <p className="notice">Load a dataset to preview how it would be labelled.</p>
+      )}
+    </div>
+  );
+};
+
+export default BrainStateRuleEditor;
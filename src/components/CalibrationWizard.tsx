@@ -0,0 +1,179 @@
+import React, { useEffect, useRef, useState } from 'react';
+import type { EEGMetrics } from '@/types/eeg';
+import {
+  CALIBRATION_BLOCKS,
+  MIN_BLOCK_FRAMES,
+  computeBaseline,
+  type CalibrationBlockId,
+  type EEGBaseline,
+} from '@/utils/eeg/calibration';
+
+interface CalibrationWizardProps {
+  metrics: EEGMetrics;
+  // Timestamp of the latest frame; each new value is one sample
+  timestamp: number | null;
+  // Frames flagged by artifact screening are left out of the baseline
+  contaminated: boolean;
+  running: boolean;
+  sourceLabel: string;
+  profileName: string;
+  onSave: (baseline: EEGBaseline) => void;
+  onCancel: () => void;
+}
+
+const METRIC_LABELS: Array<{ key: keyof EEGMetrics; label: string }> = [
+  { key: 'attention', label: 'Attention' },
+  { key: 'relaxation', label: 'Relaxation' },
+  { key: 'drowsiness', label: 'Drowsiness' },
+  { key: 'engagement', label: 'Engagement' },
+];
+
+// Short tone marking the end of a block, for the eyes-closed step
+const chime = () => {
+  try {
+    const ctx = new AudioContext();
+    const osc = ctx.createOscillator();
+    const gain = ctx.createGain();
+    osc.frequency.value = 880;
+    gain.gain.setValueAtTime(0.15, ctx.currentTime);
+    gain.gain.exponentialRampToValueAtTime(0.001, ctx.currentTime + 0.4);
+    osc.connect(gain).connect(ctx.destination);
+    osc.start();
+    osc.stop(ctx.currentTime + 0.4);
+    osc.onended = () => ctx.close();
+  } catch {
+    // No audio output; the on-screen countdown still ends the block
+  }
+};
+
+const CalibrationWizard: React.FC<CalibrationWizardProps> = ({ metrics, timestamp, contaminated, running, sourceLabel, profileName, onSave, onCancel }) => {
+  const [step, setStep] = useState(0);
+  const [recording, setRecording] = useState(false);
+  const [remaining, setRemaining] = useState(0);
+  const [frameCount, setFrameCount] = useState(0);
+  const [result, setResult] = useState<EEGBaseline | null>(null);
+  const [error, setError] = useState('');
+  const framesRef = useRef<Partial<Record<CalibrationBlockId, EEGMetrics[]>>>({});
+
+  const block = CALIBRATION_BLOCKS[step];
+  const done = step >= CALIBRATION_BLOCKS.length;
+
+  // One sample per new frame while a block is recording
+  useEffect(() => {
+    if (!recording || timestamp === null || !block || contaminated) return;
+    (framesRef.current[block.id] ??= []).push(metrics);
+  }, [recording, timestamp, metrics, block, contaminated]);
+
+  useEffect(() => {
+    if (!recording || !block) return;
+    const endsAt = Date.now() + block.seconds * 1000;
+    const timer = setInterval(() => {
+      const left = Math.max(0, (endsAt - Date.now()) / 1000);
+      setRemaining(left);
+      setFrameCount(framesRef.current[block.id]?.length ?? 0);
+      if (left > 0) return;
+      clearInterval(timer);
+      chime();
+      setRecording(false);
+      setStep(s => s + 1);
+      if (step + 1 < CALIBRATION_BLOCKS.length) return;
+      try {
+        setResult(computeBaseline(framesRef.current, sourceLabel));
+        setError('');
+      } catch (e) {
+        setError(e instanceof Error ? e.message : 'Calibration failed');
+      }
+    }, 250);
+    return () => clearInterval(timer);
+  }, [recording, block, step, sourceLabel]);
+
+  const startBlock = () => {
+    if (!block) return;
+    framesRef.current[block.id] = [];
+    setFrameCount(0);
+    setRemaining(block.seconds);
+    setRecording(true);
+  };
+
+  const restart = () => {
+    framesRef.current = {};
+    setRecording(false);
+    setStep(0);
+    setResult(null);
+    setError('');
+  };
+
+  return (
+    <div className="rule-editor calibration">
+      <div className="edf-picker-header">
+        <div>
+          <h4>Baseline calibration • {profileName}</h4>
+          <p className="notice">
+            Three {CALIBRATION_BLOCKS[0].seconds}-second blocks record your resting levels; brain states are then judged relative to them.
+          </p>
+        </div>
+        <div className="edf-picker-actions">
+          <button className="btn subtle" onClick={onCancel}>Cancel</button>
+        </div>
+      </div>
+
+      <ol className="calibration-steps">
+        {CALIBRATION_BLOCKS.map((b, i) => (
+          <li key={b.id} data-state={i < step ? 'done' : i === step ? 'current' : 'pending'}>{b.title}</li>
+        ))}
+      </ol>
+
+      {!done && (
+        <div className="calibration-block">
+          <h4>{block.title}</h4>
+          <p>{block.instruction}</p>
+          {recording ? (
+            <>
+              <div className="band-bar"><div style={{ width: `${(1 - remaining / block.seconds) * 100}%` }} /></div>
+              <span className="upload-status">{Math.ceil(remaining)} s left • {frameCount} frames</span>
+            </>
+          ) : (
+            <div className="upload-row">
+              <button className="btn primary" onClick={startBlock} disabled={!running}>Start {block.title.toLowerCase()}</button>
+              {!running && <span className="upload-status">Start an EEG source first (simulated, dataset or live)</span>}
+              {step > 0 && frameCount < MIN_BLOCK_FRAMES && (
+                <>
+                  <span className="upload-status">Only {frameCount} frames in the last block</span>
+                  <button className="btn subtle" onClick={() => setStep(s => s - 1)}>Redo {CALIBRATION_BLOCKS[step - 1].title.toLowerCase()}</button>
+                </>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+
+      {done && (
+        <div className="calibration-block">
+          {error && <p className="rule-editor-errors">{error}</p>}
+          {result && (
+            <div className="calibration-summary">
+              <div className="calibration-row calibration-head">
+                <span />
+                {CALIBRATION_BLOCKS.map(b => <span key={b.id}>{b.title}</span>)}
+                <span>Baseline</span>
+              </div>
+              {METRIC_LABELS.map(({ key, label }) => (
+                <div key={key} className="calibration-row">
+                  <span>{label}</span>
+                  {CALIBRATION_BLOCKS.map(b => <span key={b.id}>{result.blocks[b.id]?.mean[key].toFixed(1)}</span>)}
+                  <span>{result.mean[key].toFixed(1)} ± {result.std[key].toFixed(1)}</span>
+                </div>
+              ))}
+            </div>
+          )}
+          <div className="upload-row">
+            <button className="btn subtle" onClick={restart}>Restart</button>
+            <button className="btn primary" onClick={() => result && onSave(result)} disabled={!result}>Save to {profileName}</button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CalibrationWizard;
@@ -1,4 +1,4 @@
-import { useState, useRef, useEffect, useCallback } from 'react';
+import { useState, useRef, useEffect, useCallback, useEffectEvent } from 'react';
 import { Video, VideoOff, Cpu, Zap, Volume2, VolumeX } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
@@ -6,12 +6,22 @@ import { Badge } from '@/components/ui/badge';
 import { useToast } from '@/hooks/use-toast';
 import { useEmotionDetection } from '@/hooks/useEmotionDetection';
 import { useEmotionSpeech } from '@/hooks/useEmotionSpeech';
+import { onConsentWithdrawn, requestConsent } from '@/hooks/useConsent';
+import { setFaceBaseline, useProfiles } from '@/hooks/useProfiles';
+import { EmotionSmoother } from '@/utils/emotionSmoothing';
+import { ATTENTION_WINDOW_SECONDS, AttentionTracker, type AttentionEstimate } from '@/utils/faceAttention';
+import { EYE_SAMPLE_MS, FatigueTracker, cameraMetrics, eyeAspectRatio, type FatigueEstimate } from '@/utils/faceFatigue';
+import { BrainStateClassifier, loadSavedRuleSet, type BrainState } from '@/utils/eeg/brainStateRules';
+import { feedbackFor } from '@/utils/eeg/stateFeedback';
+import type { FaceBaseline } from '@/utils/faceCalibration';
+import { NeutralFaceCalibration } from './NeutralFaceCalibration';
 import { Switch } from '@/components/ui/switch';
 import { Label } from '@/components/ui/label';
 import emotionThemeConfigJson from '@/config/emotionThemes.json';
 
 interface CameraEmotionAnalyzerProps {
   onEmotionChange?: (emotion: string, engagement: number, attention: number) => void;
+  onActiveChange?: (active: boolean) => void;
 }
 
 // Emotion types for type safety
@@ -247,7 +257,7 @@ const PREVIEW_EMOTIONS: EmotionType[] = [
 // Constants for magic numbers
 const ANALYSIS_INTERVAL_MS = 1000;
 
-export const CameraEmotionAnalyzer = ({ onEmotionChange }: CameraEmotionAnalyzerProps) => {
+export const CameraEmotionAnalyzer = ({ onEmotionChange, onActiveChange }: CameraEmotionAnalyzerProps) => {
   const [isActive, setIsActive] = useState(false);
   const [emotion, setEmotion] = useState('neutral');
   const [engagement, setEngagement] = useState(0);
@@ -258,6 +268,12 @@ export const CameraEmotionAnalyzer = ({ onEmotionChange }: CameraEmotionAnalyzer
   const [manualEmotion, setManualEmotion] = useState<keyof typeof BASE_EMOTION_THEMES | null>(null);
   const [activeTheme, setActiveTheme] = useState<EmotionTheme>(DEFAULT_THEME);
   const [isMounted, setIsMounted] = useState(true);
+  const [faceInView, setFaceInView] = useState(true);
+  const [showFaceCalibration, setShowFaceCalibration] = useState(false);
+  const [fatigue, setFatigue] = useState<FatigueEstimate | null>(null);
+  const [cameraState, setCameraState] = useState<BrainState | null>(null);
+  const [headAttention, setHeadAttention] = useState<AttentionEstimate | null>(null);
+  const [frameEmotion, setFrameEmotion] = useState<{ emotion: string; confidence: number } | null>(null);
 
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
@@ -266,9 +282,20 @@ export const CameraEmotionAnalyzer = ({ onEmotionChange }: CameraEmotionAnalyzer
   const defaultThemeVarsRef = useRef<Record<string, string> | null>(null);
   const isStartingRef = useRef(false);
   const isMountedRef = useRef(true);
+  // Smooths the per-frame results for the current camera session
+  const smootherRef = useRef<EmotionSmoother | null>(null);
+  // Attention and engagement from head pose over the same session
+  const attentionRef = useRef<AttentionTracker | null>(null);
+  // Blinks and PERCLOS from fast eye sampling, labelled with the EEG brain-state rules
+  const fatigueRef = useRef<FatigueTracker | null>(null);
+  const latestFatigueRef = useRef<FatigueEstimate | null>(null);
+  const stateClassifierRef = useRef<BrainStateClassifier | null>(null);
+  // Last queued face-api.js detection; the emotion and eye loops wait their turn so they never overlap
+  const detectionQueueRef = useRef<Promise<unknown>>(Promise.resolve());
 
   const { toast } = useToast();
-  const { isLoading, detectFacialEmotion, modelsReady } = useEmotionDetection();
+  const { isLoading, detectFacialEmotion, detectFaceLandmarks, modelsReady, modelState, modelError, retryModels, faceBaseline } = useEmotionDetection();
+  const profileName = useProfiles().active.name;
   const { cancelSpeech } = useEmotionSpeech({
     enabled: speechEnabled && isActive,
     emotion,
@@ -284,6 +311,10 @@ export const CameraEmotionAnalyzer = ({ onEmotionChange }: CameraEmotionAnalyzer
     };
   }, []);
 
+  useEffect(() => {
+    onActiveChange?.(isActive);
+  }, [isActive, onActiveChange]);
+
   // Monitor video stream health
   useEffect(() => {
     if (!isActive || !streamRef.current) return;
@@ -576,6 +607,16 @@ export const CameraEmotionAnalyzer = ({ onEmotionChange }: CameraEmotionAnalyzer
       window.clearInterval(analysisIntervalRef.current);
       analysisIntervalRef.current = null;
     }
+    smootherRef.current = null;
+    attentionRef.current = null;
+    fatigueRef.current = null;
+    latestFatigueRef.current = null;
+    stateClassifierRef.current = null;
+    setFrameEmotion(null);
+    setHeadAttention(null);
+    setFatigue(null);
+    setCameraState(null);
+    setShowFaceCalibration(false);
     console.log('Camera stopped');
   }, []);
 
@@ -604,6 +645,12 @@ export const CameraEmotionAnalyzer = ({ onEmotionChange }: CameraEmotionAnalyzer
     applyManualEmotion(initialEmotion);
   }, [manualMode, manualEmotion, deactivateManualTester, applyManualEmotion]);
 
+  const queueDetection = useCallback(<T,>(detect: () => Promise<T>): Promise<T> => {
+    const run = detectionQueueRef.current.then(detect);
+    detectionQueueRef.current = run;
+    return run;
+  }, []);
+
   // Analyze emotions function with proper checks
   const startEmotionDetection = useCallback(() => {
     if (!videoRef.current || !canvasRef.current || !useAI || !modelsReady) {
@@ -615,6 +662,7 @@ export const CameraEmotionAnalyzer = ({ onEmotionChange }: CameraEmotionAnalyzer
       window.clearInterval(analysisIntervalRef.current);
     }
 
+    let analysing = false;
     analysisIntervalRef.current = window.setInterval(async () => {
       if (!videoRef.current || !canvasRef.current || !isMountedRef.current || !isActive) {
         return;
@@ -624,29 +672,65 @@ export const CameraEmotionAnalyzer = ({ onEmotionChange }: CameraEmotionAnalyzer
       const canvas = canvasRef.current;
       const context = canvas.getContext('2d');
 
-      if (!context) return;
+      // A slow analysis holds the next tick back rather than piling ticks up behind it
+      if (!context || analysing) return;
 
       canvas.width = video.videoWidth;
       canvas.height = video.videoHeight;
       context.drawImage(video, 0, 0, canvas.width, canvas.height);
 
-      const result = await detectFacialEmotion(video);
+      analysing = true;
+      const result = await queueDetection(() => detectFacialEmotion(video));
+      analysing = false;
       
       if (!isMountedRef.current) return;
 
+      const time = performance.now() / 1000;
+      setFaceInView(result !== null);
+
+      // Attention counts frames without a face too: looking away or leaving lowers it
+      attentionRef.current ??= new AttentionTracker();
+      const estimate = attentionRef.current.update(result?.pose ?? null, time);
+      setHeadAttention(estimate);
+      setEngagement(estimate.engagement);
+
+      // With enough eye data, the camera's metrics go through the brain-state rules
+      const fatigueNow = latestFatigueRef.current;
+      setFatigue(fatigueNow);
+      const metrics = fatigueNow ? cameraMetrics(estimate, fatigueNow) : null;
+      setAttention(metrics?.attention ?? estimate.attention);
+      if (metrics && fatigueNow?.drowsiness !== null) {
+        stateClassifierRef.current ??= new BrainStateClassifier(loadSavedRuleSet());
+        const previous = stateClassifierRef.current.state.label;
+        const state = stateClassifierRef.current.update(metrics, time);
+        setCameraState(state);
+        if (state.label === 'Drowsy' && previous !== 'Drowsy') {
+          const feedback = feedbackFor(state);
+          toast({
+            title: feedback.title,
+            description: feedback.message,
+            variant: 'destructive',
+          });
+        }
+      }
+
+      // Theme, speech and the robot follow the smoothed emotion, not single frames
+      smootherRef.current ??= new EmotionSmoother();
       if (result) {
-        const normalizedEmotion = result.emotion.toLowerCase();
-        const theme = EMOTION_THEME_ALIASES[normalizedEmotion] ?? DEFAULT_THEME;
+        setFrameEmotion({ emotion: result.emotion, confidence: result.confidence });
+        smootherRef.current.update(result, time);
+      }
+      const smoothed = smootherRef.current.state;
+      if (smoothed) {
+        const theme = EMOTION_THEME_ALIASES[smoothed.emotion.toLowerCase()] ?? DEFAULT_THEME;
 
-        setEmotion(result.emotion);
-        setEngagement(result.engagement);
-        setAttention(result.attention);
+        setEmotion(smoothed.emotion);
         setActiveTheme(theme);
 
-        onEmotionChange?.(result.emotion, result.engagement, result.attention);
+        onEmotionChange?.(smoothed.emotion, estimate.engagement, metrics?.attention ?? estimate.attention);
       }
     }, ANALYSIS_INTERVAL_MS);
-  }, [useAI, modelsReady, detectFacialEmotion, onEmotionChange, isMounted, isActive]);
+  }, [useAI, modelsReady, detectFacialEmotion, queueDetection, onEmotionChange, isMounted, isActive, toast]);
 
   // Toggle camera with proper cleanup
   const toggleCamera = useCallback(async () => {
@@ -658,6 +742,7 @@ export const CameraEmotionAnalyzer = ({ onEmotionChange }: CameraEmotionAnalyzer
         description: 'Emotion analysis has been disabled.',
       });
     } else {
+      if (!(await requestConsent('camera', ['processing']))) return;
       // Set active state first, then start camera
       setIsActive(true);
       // Small delay to ensure state is set
@@ -667,9 +752,23 @@ export const CameraEmotionAnalyzer = ({ onEmotionChange }: CameraEmotionAnalyzer
     }
   }, [isActive, startCamera, stopCamera, toast]);
 
+  // Withdrawing camera consent turns the camera off straight away
+  const onCameraConsentWithdrawn = useEffectEvent(() => {
+    if (!isActive) return;
+    stopCamera();
+    setIsActive(false);
+    toast({
+      title: 'Camera stopped',
+      description: 'Camera consent was withdrawn.',
+    });
+  });
+
+  useEffect(() => onConsentWithdrawn('camera', 'processing', () => onCameraConsentWithdrawn()), []);
+
   // Effect: Start/stop emotion detection based on camera and AI settings
   useEffect(() => {
-    if (isActive && useAI && modelsReady) {
+    // Paused while the neutral-face calibration samples the camera
+    if (isActive && useAI && modelsReady && !showFaceCalibration) {
       startEmotionDetection();
     } else if (analysisIntervalRef.current !== null) {
       window.clearInterval(analysisIntervalRef.current);
@@ -682,7 +781,51 @@ export const CameraEmotionAnalyzer = ({ onEmotionChange }: CameraEmotionAnalyzer
         analysisIntervalRef.current = null;
       }
     };
-  }, [isActive, useAI, modelsReady, startEmotionDetection]);
+  }, [isActive, useAI, modelsReady, showFaceCalibration, startEmotionDetection]);
+
+  // Eyes are sampled every EYE_SAMPLE_MS (or as fast as detection allows) so
+  // blinks are not missed; the 1 s analysis picks up the latest estimate
+  const sampleEyes = useEffectEvent(async () => {
+    const video = videoRef.current;
+    if (!video) return;
+    const landmarks = await queueDetection(() => detectFaceLandmarks(video));
+    fatigueRef.current ??= new FatigueTracker();
+    latestFatigueRef.current = fatigueRef.current.update(landmarks ? eyeAspectRatio(landmarks) : null, performance.now() / 1000);
+  });
+
+  useEffect(() => {
+    if (!isActive || !useAI || !modelsReady || showFaceCalibration) return;
+    let stopped = false;
+    let timer: number | null = null;
+    const loop = async () => {
+      await sampleEyes();
+      if (!stopped) timer = window.setTimeout(loop, EYE_SAMPLE_MS);
+    };
+    loop();
+    return () => {
+      stopped = true;
+      if (timer !== null) window.clearTimeout(timer);
+    };
+  }, [isActive, useAI, modelsReady, showFaceCalibration]);
+
+  const captureNeutralFace = async () => {
+    if (!videoRef.current) return null;
+    const result = await detectFacialEmotion(videoRef.current);
+    return result?.rawScores ?? null;
+  };
+
+  // The baseline is kept with the profile, so it needs camera storage consent
+  const saveFaceBaseline = async (baseline: FaceBaseline) => {
+    if (!(await requestConsent('camera', ['storage']))) return;
+    setFaceBaseline(baseline);
+    // Start smoothing afresh against the new baseline
+    smootherRef.current = null;
+    setShowFaceCalibration(false);
+    toast({
+      title: 'Neutral face saved',
+      description: `Expressions are now scored against ${profileName}'s resting face.`,
+    });
+  };
 
   // Effect: drive global background animation and theme variables
   useEffect(() => {
@@ -776,6 +919,9 @@ export const CameraEmotionAnalyzer = ({ onEmotionChange }: CameraEmotionAnalyzer
           <CardTitle className="flex items-center gap-2">
             <Video className="h-5 w-5" aria-hidden="true" />
             Camera Emotion Analyzer
+            <Badge variant={modelState === 'ready' ? 'default' : 'secondary'} className="ml-auto">
+              {modelState === 'ready' ? 'AI' : modelState === 'loading' ? 'LOADING' : 'SIMULATED'}
+            </Badge>
           </CardTitle>
           <CardDescription>
             Real-time facial emotion detection and engagement tracking
@@ -856,8 +1002,18 @@ export const CameraEmotionAnalyzer = ({ onEmotionChange }: CameraEmotionAnalyzer
             )}
           </div>
 
-          {/* Emotion Stats */}
-          {isActive && (
+          {/* Emotion Stats: only model output or the tester's choice, never made-up readings */}
+          {isActive && !(useAI && modelsReady) && !manualMode && (
+            <p className="text-sm text-muted-foreground text-center" role="status">
+              {modelsReady
+                ? 'AI detection is off, so no emotion is read from the video.'
+                : 'Simulated mode: the face models are unavailable, so no emotion is read from the video. Use the Emotion Tester to preview emotions.'}
+            </p>
+          )}
+          {isActive && useAI && modelsReady && !manualMode && !faceInView && (
+            <p className="text-sm text-yellow-600 text-center" role="status">No face detected: the emotion keeps its last reading and attention falls.</p>
+          )}
+          {isActive && ((useAI && modelsReady) || manualMode) && (
             <div className="grid grid-cols-3 gap-4" role="region" aria-label="Emotion statistics">
               <div className="text-center">
                 <p className="text-sm text-muted-foreground">Emotion</p>
@@ -875,6 +1031,34 @@ export const CameraEmotionAnalyzer = ({ onEmotionChange }: CameraEmotionAnalyzer
               </div>
             </div>
           )}
+          {isActive && useAI && modelsReady && !manualMode && frameEmotion && (
+            <p className="text-xs text-muted-foreground text-center">
+              This frame: {frameEmotion.emotion} ({Math.round(frameEmotion.confidence * 100)}%). The emotion above is smoothed over recent frames.
+            </p>
+          )}
+          {isActive && useAI && modelsReady && !manualMode && headAttention && (
+            <p className="text-xs text-muted-foreground text-center">
+              {headAttention.pose
+                ? `Head yaw ${Math.round(headAttention.pose.yaw)}°, pitch ${Math.round(headAttention.pose.pitch)}°, roll ${Math.round(headAttention.pose.roll)}° · ${headAttention.facingScreen ? 'facing the screen' : 'looking away'}`
+                : 'No face'}
+              {` · face present ${Math.round(headAttention.presence * 100)}%, on screen ${Math.round(headAttention.onScreen * 100)}% of the last ${ATTENTION_WINDOW_SECONDS} s`}
+            </p>
+          )}
+          {isActive && useAI && modelsReady && !manualMode && fatigue && (
+            <p className="text-xs text-muted-foreground text-center">
+              Blinks {Math.round(fatigue.blinkRate)}/min
+              {fatigue.meanBlinkMs !== null && ` (${Math.round(fatigue.meanBlinkMs)} ms)`}
+              {` · PERCLOS ${Math.round(fatigue.perclos * 100)}% · drowsiness ${fatigue.drowsiness ?? 'measuring…'}`}
+              {cameraState && ` · state ${cameraState.label}`}
+              {` · eyes sampled at ${fatigue.sampleRate.toFixed(0)} Hz`}
+            </p>
+          )}
+          {isActive && cameraState?.label === 'Drowsy' && (
+            <div className="rounded-lg border border-yellow-500/40 bg-yellow-500/10 p-3 text-sm" role="alert">
+              <p className="font-semibold">{feedbackFor(cameraState).title}</p>
+              <p className="text-muted-foreground">{feedbackFor(cameraState).message}</p>
+            </div>
+          )}
 
           {/* Controls */}
           <div className="space-y-2">
@@ -950,6 +1134,41 @@ export const CameraEmotionAnalyzer = ({ onEmotionChange }: CameraEmotionAnalyzer
             </div>
           )}
 
+          {/* Neutral-face calibration */}
+          {showFaceCalibration ? (
+            <NeutralFaceCalibration
+              capture={captureNeutralFace}
+              profileName={profileName}
+              onSave={saveFaceBaseline}
+              onCancel={() => setShowFaceCalibration(false)}
+            />
+          ) : (
+            <div className="flex items-center justify-between gap-2 text-sm">
+              <span className="text-muted-foreground">
+                {faceBaseline
+                  ? `Calibrated to ${profileName}'s neutral face`
+                  : 'Not calibrated: a resting face may read as sad or angry'}
+              </span>
+              <div className="flex gap-2">
+                {faceBaseline && (
+                  <Button type="button" size="sm" variant="ghost" onClick={() => setFaceBaseline(null)}>
+                    Clear
+                  </Button>
+                )}
+                <Button
+                  type="button"
+                  size="sm"
+                  variant="outline"
+                  onClick={() => setShowFaceCalibration(true)}
+                  disabled={!isActive || !modelsReady}
+                  title={!isActive || !modelsReady ? 'Start the camera with the face models loaded first' : undefined}
+                >
+                  {faceBaseline ? 'Recalibrate' : 'Calibrate'}
+                </Button>
+              </div>
+            </div>
+          )}
+
           {/* Action Button */}
           <Button
             onClick={toggleCamera}
@@ -971,10 +1190,13 @@ export const CameraEmotionAnalyzer = ({ onEmotionChange }: CameraEmotionAnalyzer
           </Button>
 
           {/* Status Messages */}
-          {!modelsReady && !isLoading && (
-            <p className="text-sm text-yellow-600 text-center" role="alert">
-              AI models not loaded. Emotion detection will be limited.
-            </p>
+          {modelState === 'simulated' && (
+            <div className="text-sm text-yellow-600 text-center space-y-2" role="alert">
+              <p>Face models unavailable{modelError ? ` (${modelError})` : ''}. Emotion detection is simulated.</p>
+              <Button type="button" size="sm" variant="outline" onClick={retryModels}>
+                Retry loading models
+              </Button>
+            </div>
           )}
         </CardContent>
       </Card>
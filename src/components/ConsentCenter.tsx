@@ -0,0 +1,148 @@
+import React from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Switch } from '@/components/ui/switch';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useConsent } from '@/hooks/useConsent';
+import { CONSENT_MODALITIES, purposesOf, type ConsentAction, type ConsentStatus } from '@/utils/consent';
+
+// Entries of the consent history shown, newest first
+const HISTORY_ROWS = 25;
+
+const STATUS_LABELS: Record<ConsentStatus, string> = {
+  granted: 'Allowed',
+  denied: 'Declined',
+  unset: 'Not asked',
+  stale: 'Policy updated',
+};
+
+const ACTION_LABELS: Record<ConsentAction, string> = {
+  grant: 'Allowed',
+  deny: 'Declined',
+  withdraw: 'Withdrawn',
+};
+
+/**
+ * The app-wide consent dialog: asks for pending consent requests, and
+ * otherwise lists every permission with its history when opened from a
+ * "Privacy & consent" button. Mounted once in App.
+ */
+const ConsentCenter: React.FC = () => {
+  const consent = useConsent();
+  const { policy, request } = consent;
+
+  if (request) {
+    const modality = policy.modalities[request.modality];
+    return (
+      <Dialog open onOpenChange={open => !open && consent.dismissConsentRequest()}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Allow {modality.label.toLowerCase()} data?</DialogTitle>
+            <DialogDescription>{modality.description}</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-3 text-sm">
+            {request.purposes.map(purpose => (
+              <div key={purpose} className="rounded-lg border border-primary/20 p-3">
+                <div className="flex items-center justify-between">
+                  <span className="font-semibold">{policy.purposes[purpose].label}</span>
+                  {consent.status(request.modality, purpose) === 'stale' && <Badge variant="outline">Policy updated</Badge>}
+                </div>
+                <p className="text-muted-foreground mt-1">{policy.purposes[purpose].text}</p>
+              </div>
+            ))}
+            <p className="text-xs text-muted-foreground">
+              Privacy policy version {policy.version}, effective {policy.effective}. You can withdraw at any time under Privacy & consent.
+            </p>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => consent.answerConsentRequest(false)}>Decline</Button>
+            <Button onClick={() => consent.answerConsentRequest(true)}>Allow</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    );
+  }
+
+  const history = consent.consent.history.slice(-HISTORY_ROWS).reverse();
+
+  return (
+    <Dialog open={consent.managerOpen} onOpenChange={open => !open && consent.closeConsentManager()}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Privacy & consent</DialogTitle>
+          <DialogDescription>{policy.summary}</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4 text-sm">
+          {CONSENT_MODALITIES.map(m => (
+            <div key={m} className="rounded-lg border border-primary/20 p-3">
+              <div className="font-semibold">{policy.modalities[m].label}</div>
+              <p className="text-muted-foreground">{policy.modalities[m].description}</p>
+              <div className="mt-2 space-y-2">
+                {purposesOf(m).map(purpose => {
+                  const status = consent.status(m, purpose);
+                  return (
+                    <div key={purpose} className="flex items-center justify-between gap-3">
+                      <span title={policy.purposes[purpose].text}>{policy.purposes[purpose].label}</span>
+                      <div className="flex items-center gap-2">
+                        <Badge variant={status === 'granted' ? 'default' : 'outline'}>{STATUS_LABELS[status]}</Badge>
+                        <Switch
+                          checked={status === 'granted'}
+                          onCheckedChange={checked => (checked ? consent.grantConsent(m, [purpose]) : consent.withdrawConsent(m, [purpose]))}
+                          aria-label={`${policy.modalities[m].label} ${policy.purposes[purpose].label.toLowerCase()}`}
+                        />
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          ))}
+          <details>
+            <summary className="cursor-pointer font-semibold">What each purpose means</summary>
+            <ul className="mt-2 space-y-1 text-muted-foreground">
+              {Object.entries(policy.purposes).map(([purpose, p]) => (
+                <li key={purpose}><span className="text-foreground">{p.label}:</span> {p.text}</li>
+              ))}
+            </ul>
+          </details>
+          <div>
+            <div className="font-semibold mb-1">History</div>
+            {history.length === 0 ? (
+              <p className="text-muted-foreground">No choices recorded yet.</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>When</TableHead>
+                    <TableHead>Data</TableHead>
+                    <TableHead>Purpose</TableHead>
+                    <TableHead>Choice</TableHead>
+                    <TableHead className="text-right">Policy</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {history.map((e, i) => (
+                    <TableRow key={`${e.at}-${i}`}>
+                      <TableCell>{new Date(e.at).toLocaleString()}</TableCell>
+                      <TableCell>{policy.modalities[e.modality].label}</TableCell>
+                      <TableCell>{policy.purposes[e.purpose].label}</TableCell>
+                      <TableCell>{ACTION_LABELS[e.action]}</TableCell>
+                      <TableCell className="text-right">v{e.policyVersion}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={consent.withdrawAll}>Withdraw all</Button>
+          <Button onClick={consent.closeConsentManager}>Done</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ConsentCenter;
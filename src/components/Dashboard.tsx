@@ -10,12 +10,25 @@ import { RobotAssistant } from './RobotAssistant';
 import { Video, Mic, MessageSquare, Headphones } from 'lucide-react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
+import { useEEGSource } from '@/hooks/useEEGSource';
+import { SOURCE_LABELS } from '@/utils/eeg/sources';
 
 export const Dashboard = () => {
   const [facialEmotion, setFacialEmotion] = useState('neutral');
   const [voiceEmotion, setVoiceEmotion] = useState<string | null>(null);
   const [engagement, setEngagement] = useState(0);
   const [attention, setAttention] = useState(0);
+  const [cameraActive, setCameraActive] = useState(false);
+  const [micActive, setMicActive] = useState(false);
+  const eeg = useEEGSource();
+
+  const eegStatus = !eeg.kind || eeg.status === 'idle'
+    ? 'Off'
+    : eeg.status === 'streaming'
+      ? SOURCE_LABELS[eeg.kind]
+      : eeg.status === 'error'
+        ? 'Error'
+        : 'Connecting';
 
   const handleCameraEmotionChange = (emotion: string, eng: number, att: number) => {
     setFacialEmotion(emotion);
@@ -55,10 +68,10 @@ export const Dashboard = () => {
             </CardHeader>
             <CardContent className="space-y-3">
               {[
-                { icon: Video, label: 'Webcam', status: 'Active', color: 'primary' },
-                { icon: Mic, label: 'Microphone', status: 'Active', color: 'secondary' },
+                { icon: Video, label: 'Webcam', status: cameraActive ? 'Active' : 'Off', color: 'primary' },
+                { icon: Mic, label: 'Microphone', status: micActive ? 'Active' : 'Off', color: 'secondary' },
                 { icon: MessageSquare, label: 'Text Input', status: 'Ready', color: 'accent' },
-                { icon: Headphones, label: 'EEG/BCI', status: 'Simulated', color: 'primary' },
+                { icon: Headphones, label: 'EEG/BCI', status: eegStatus, color: 'primary' },
               ].map((modality, i) => (
                 <div
                   key={i}
@@ -81,8 +94,8 @@ export const Dashboard = () => {
         </div>
 
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 mb-6">
-          <CameraEmotionAnalyzer onEmotionChange={handleCameraEmotionChange} />
-          <MicrophoneEmotionAnalyzer onEmotionChange={handleMicEmotionChange} />
+          <CameraEmotionAnalyzer onEmotionChange={handleCameraEmotionChange} onActiveChange={setCameraActive} />
+          <MicrophoneEmotionAnalyzer onEmotionChange={handleMicEmotionChange} onActiveChange={setMicActive} />
           <RobotAssistant 
             facialEmotion={facialEmotion}
             voiceEmotion={voiceEmotion}
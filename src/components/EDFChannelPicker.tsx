@@ -0,0 +1,62 @@
+import React from 'react';
+import type { EdfHeader } from '@/utils/eeg/edf';
+
+interface EDFChannelPickerProps {
+  header: EdfHeader;
+  annotationCount: number;
+  selected: number[];
+  onChange: (selected: number[]) => void;
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+const formatDuration = (seconds: number) => {
+  const m = Math.floor(seconds / 60);
+  const s = Math.round(seconds % 60);
+  return `${m}m ${s.toString().padStart(2, '0')}s`;
+};
+
+const EDFChannelPicker: React.FC<EDFChannelPickerProps> = ({ header, annotationCount, selected, onChange, onConfirm, onCancel }) => {
+  const toggle = (index: number) => {
+    onChange(selected.includes(index) ? selected.filter(i => i !== index) : [...selected, index].sort((a, b) => a - b));
+  };
+  const firstRate = selected.length > 0 ? header.signals[selected[0]].sampleRate : null;
+
+  return (
+    <div className="edf-picker">
+      <div className="edf-picker-header">
+        <div>
+          <h4>{header.format} recording</h4>
+          <p className="notice">
+            {header.signals.filter(s => !s.isAnnotation).length} signals • {formatDuration(header.recordCount * header.recordDuration)}
+            {header.startTime && ` • ${header.startTime.toLocaleString()}`}
+            {annotationCount > 0 && ` • ${annotationCount} annotations`}
+          </p>
+        </div>
+        <div className="edf-picker-actions">
+          <button className="btn subtle" onClick={() => onChange([])}>Clear</button>
+          <button className="btn subtle" onClick={onCancel}>Cancel</button>
+          <button className="btn primary" onClick={onConfirm} disabled={selected.length === 0}>Load {selected.length} channel{selected.length === 1 ? '' : 's'}</button>
+        </div>
+      </div>
+      <div className="edf-channel-list">
+        {header.signals.map((signal, i) => {
+          if (signal.isAnnotation) return null;
+          const resampled = firstRate !== null && selected.includes(i) && signal.sampleRate !== firstRate;
+          return (
+            <label key={i} className="edf-channel">
+              <input type="checkbox" checked={selected.includes(i)} onChange={() => toggle(i)} />
+              <span className="edf-channel-label">{signal.label}</span>
+              <span className="edf-channel-meta">
+                {signal.sampleRate} Hz • {signal.physicalDimension || '—'}
+                {resampled && ` → ${firstRate} Hz`}
+              </span>
+            </label>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default EDFChannelPicker;
@@ -1,53 +1,112 @@
 import { useState, useRef } from 'react';
-import { Upload, Bluetooth, Wifi, Zap, Info } from 'lucide-react';
+import { Upload, Bluetooth, Wifi, Zap, Info, AlertTriangle } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { toast } from 'sonner';
+import { summarizeIssues, RecordingParseError, type ParsedRecording } from '@/utils/eeg/formats';
+import { getEEGWorker } from '@/utils/eeg/workerClient';
+import { MuseBluetoothDevice, getWebBluetooth } from '@/utils/eeg/museBluetooth';
+import { FakeMuseHeadset } from '@/utils/eeg/fakeGattServer';
+import {
+  DeviceStreamSource,
+  FileReplaySource,
+  SOURCE_LABELS,
+  SyntheticEEGSource,
+  WebSocketStreamSource,
+  type EEGSource,
+} from '@/utils/eeg/sources';
+import { useEEGSource } from '@/hooks/useEEGSource';
+import { requestConsent } from '@/hooks/useConsent';
+import { ARTIFACT_LABELS } from '@/utils/eeg/artifacts';
+
+const QUALITY_STYLES = {
+  good: 'bg-green-500',
+  fair: 'bg-amber-400',
+  poor: 'bg-red-500',
+};
+
+const formatDuration = (seconds: number) => {
+  const m = Math.floor(seconds / 60);
+  const s = Math.round(seconds % 60);
+  return m > 0 ? `${m} min ${s}s` : `${s}s`;
+};
 
 export const EEGControlPanel = () => {
-  const [activeSource, setActiveSource] = useState<string>('none');
+  const eeg = useEEGSource();
   const [uploadedFile, setUploadedFile] = useState<string | null>(null);
+  const [parsed, setParsed] = useState<ParsedRecording | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const [showWifi, setShowWifi] = useState(false);
+  const [streamUrl, setStreamUrl] = useState('ws://localhost:8765');
+  const [showBluetooth, setShowBluetooth] = useState(false);
 
   const handleFileUpload = () => {
     fileInputRef.current?.click();
   };
 
-  const processFile = (file: File) => {
+  // Connection feedback for sources started from this panel
+  const withToasts = (source: EEGSource) => {
+    source.onStatus(status => {
+      if (status === 'streaming') toast.success(`Streaming from ${source.label}`);
+      if (status === 'reconnecting') toast.warning('Stream interrupted, reconnecting…');
+    });
+    source.onError(message => toast.error(message));
+    return source;
+  };
+
+  const processFile = async (file: File) => {
+    if (!(await requestConsent('eeg', ['processing']))) return;
     const reader = new FileReader();
-    reader.onload = (e) => {
+    reader.onload = async (e) => {
       try {
         const content = e.target?.result as string;
-        if (file.name.endsWith('.json')) {
-          JSON.parse(content);
-          toast.success(`✓ ${file.name} loaded successfully!`);
-        } else if (file.name.endsWith('.csv')) {
-          toast.success(`✓ ${file.name} loaded successfully!`);
+        const { parsed: result, frames } = await getEEGWorker().request('parseRecordingText', { text: content, fileName: file.name });
+        const { recording, issues } = result;
+        const seconds = recording.data[0].length / recording.sampleRate;
+        eeg.selectSource(new FileReplaySource(file.name, frames, recording.annotations, recording));
+        toast.success(`✓ ${file.name} loaded (${result.formatLabel})`, {
+          description: `${recording.channels.length} channels @ ${recording.sampleRate} Hz • ${formatDuration(seconds)}`,
+        });
+        if (issues.length > 0) {
+          toast.warning(`Skipped ${issues.length} malformed row${issues.length === 1 ? '' : 's'}`, {
+            description: summarizeIssues(issues),
+          });
         }
+        setParsed(result);
         setUploadedFile(file.name);
-        setActiveSource('file');
       } catch (error) {
-        toast.error('Invalid file format. Please upload .csv or .json');
+        const description = error instanceof RecordingParseError ? summarizeIssues(error.issues) || undefined : undefined;
+        toast.error(error instanceof Error ? `Could not load ${file.name}: ${error.message}` : 'Invalid file format', { description });
       }
     };
     reader.readAsText(file);
   };
 
   const handleBluetoothConnect = () => {
-    toast.info('Scanning for Bluetooth EEG devices...');
-    setActiveSource('bluetooth');
+    setShowBluetooth(true);
+  };
+
+  const connectDevice = (simulated: boolean) => {
+    const device = new MuseBluetoothDevice({ bluetooth: simulated ? new FakeMuseHeadset() : getWebBluetooth() });
+    eeg.selectSource(withToasts(new DeviceStreamSource(device, simulated ? 'Simulated headset' : 'Muse headset')));
   };
 
   const handleWiFiConnect = () => {
-    toast.info('Enter device IP to connect via WiFi');
-    setActiveSource('wifi');
+    setShowWifi(true);
   };
 
+  const connectStream = () => {
+    eeg.selectSource(withToasts(new WebSocketStreamSource(streamUrl.trim())));
+  };
+
+  const deviceActive = eeg.kind === 'bluetooth' && eeg.active;
+  const streamActive = eeg.kind === 'websocket' && eeg.active;
+
   const handleSimulate = () => {
-    toast.success('Simulating EEG data for demo mode');
-    setActiveSource('simulate');
+    eeg.selectSource(withToasts(new SyntheticEEGSource()));
   };
 
   return (
@@ -58,9 +117,9 @@ export const EEGControlPanel = () => {
             <CardTitle className="text-2xl gradient-text">EEG Control Center</CardTitle>
             <CardDescription>Connect your brain-computer interface</CardDescription>
           </div>
-          {activeSource !== 'none' && (
+          {eeg.kind && eeg.active && (
             <Badge className="neon-border bg-primary/20 text-primary">
-              {activeSource.toUpperCase()} ACTIVE
+              {SOURCE_LABELS[eeg.kind].toUpperCase()} {eeg.status === 'streaming' ? 'ACTIVE' : eeg.status.toUpperCase()}
             </Badge>
           )}
         </div>
@@ -76,7 +135,7 @@ export const EEGControlPanel = () => {
             <input
               ref={fileInputRef}
               type="file"
-              accept=".csv,.json"
+              accept=".csv,.txt,.json"
               className="hidden"
               onChange={(e) => {
                 const file = e.target.files?.[0];
@@ -93,7 +152,7 @@ export const EEGControlPanel = () => {
                 <Upload className="w-6 h-6 text-primary" />
                 <span className="text-sm">Upload File</span>
                 <span className="text-xs text-muted-foreground">
-                  {uploadedFile || '.csv / .json'}
+                  {uploadedFile || '.csv / .txt / .json'}
                 </span>
               </Button>
 
@@ -128,12 +187,140 @@ export const EEGControlPanel = () => {
               </Button>
             </div>
 
+            {eeg.kind && eeg.timestamp !== null && (
+              <div className="grid grid-cols-4 gap-2 text-center">
+                {(['attention', 'relaxation', 'drowsiness', 'engagement'] as const).map(metric => (
+                  <div key={metric} className="p-2 rounded-lg bg-card border border-primary/20">
+                    <p className="text-lg font-semibold text-primary">{Math.round(eeg.metrics[metric])}</p>
+                    <p className="text-xs text-muted-foreground capitalize">{metric}</p>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {eeg.quality && (
+              <div className="p-3 rounded-lg bg-card border border-primary/20 space-y-2">
+                <div className="flex items-center gap-2">
+                  <span className="text-sm font-medium">Signal quality</span>
+                  {eeg.quality.contaminated && (
+                    <Badge variant="outline" className="ml-auto border-destructive/40 text-destructive">
+                      <AlertTriangle className="w-3 h-3 mr-1" />
+                      Artifact – epoch skipped
+                    </Badge>
+                  )}
+                </div>
+                <div className="flex flex-wrap gap-3">
+                  {eeg.quality.channels.map(channel => (
+                    <div
+                      key={channel.channel}
+                      className="flex items-center gap-1.5 text-xs"
+                      title={
+                        channel.artifacts.length > 0
+                          ? channel.artifacts.map(a => ARTIFACT_LABELS[a]).join(', ')
+                          : `Clean • ${Math.round(channel.peakToPeak)} µV peak-to-peak`
+                      }
+                    >
+                      <span className={`w-2.5 h-2.5 rounded-full ${QUALITY_STYLES[channel.quality]}`} />
+                      <span>{channel.channel}</span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {showBluetooth && (
+              <div className="p-4 rounded-lg bg-card border border-secondary/20 space-y-3">
+                <div className="flex items-center gap-2">
+                  {deviceActive ? (
+                    <Button variant="outline" onClick={() => eeg.stopSource()}>Disconnect</Button>
+                  ) : (
+                    <>
+                      <Button onClick={() => connectDevice(false)} disabled={!getWebBluetooth()}>Pair headset</Button>
+                      <Button variant="outline" onClick={() => connectDevice(true)}>Simulated headset</Button>
+                    </>
+                  )}
+                  <Badge variant="outline" className="ml-auto border-secondary/30 text-secondary">{eeg.kind === 'bluetooth' ? eeg.status : 'idle'}</Badge>
+                </div>
+                <p className="text-sm text-muted-foreground">
+                  {eeg.kind === 'bluetooth' && eeg.info
+                    ? `${eeg.label} • ${eeg.info.channels.join(', ')} • ${eeg.info.sampleRate} Hz`
+                    : getWebBluetooth()
+                      ? 'Muse-compatible headsets over Web Bluetooth'
+                      : 'Web Bluetooth is unavailable in this browser (Chrome or Edge over HTTPS required)'}
+                </p>
+                {eeg.kind === 'bluetooth' && eeg.stats && (
+                  <p className="text-xs text-muted-foreground">
+                    {eeg.stats.packets} packets • {eeg.stats.droppedPackets} dropped
+                  </p>
+                )}
+              </div>
+            )}
+
+            {showWifi && (
+              <div className="p-4 rounded-lg bg-card border border-accent/20 space-y-3">
+                <div className="flex items-center gap-2">
+                  <Input
+                    value={streamUrl}
+                    onChange={(e) => setStreamUrl(e.target.value)}
+                    placeholder="ws://192.168.1.20:8765"
+                    disabled={streamActive}
+                  />
+                  {streamActive ? (
+                    <Button variant="outline" onClick={() => eeg.stopSource()}>Disconnect</Button>
+                  ) : (
+                    <Button onClick={connectStream}>Connect</Button>
+                  )}
+                </div>
+                <div className="flex items-center justify-between text-sm">
+                  <span className="text-muted-foreground">
+                    {eeg.kind === 'websocket' && eeg.info
+                      ? `${eeg.info.channels.join(', ')} • ${eeg.info.sampleRate} Hz`
+                      : 'WebSocket stream (run `npm run eeg:mock` for a local test server)'}
+                  </span>
+                  <Badge variant="outline" className="border-accent/30 text-accent">{eeg.kind === 'websocket' ? eeg.status : 'idle'}</Badge>
+                </div>
+                {eeg.kind === 'websocket' && eeg.stats && (
+                  <p className="text-xs text-muted-foreground">
+                    {eeg.stats.packets} packets • {eeg.stats.droppedPackets} dropped
+                  </p>
+                )}
+              </div>
+            )}
+
+            {parsed && (
+              <div className="p-4 rounded-lg bg-card border border-primary/20 space-y-2">
+                <div className="flex items-center justify-between">
+                  <p className="font-medium text-foreground">{uploadedFile}</p>
+                  <Badge variant="outline" className="border-primary/30 text-primary">{parsed.formatLabel}</Badge>
+                </div>
+                <p className="text-sm text-muted-foreground">
+                  {parsed.recording.channels.join(', ')} • {parsed.recording.sampleRate} Hz •{' '}
+                  {formatDuration(parsed.recording.data[0].length / parsed.recording.sampleRate)}
+                  {parsed.recording.annotations?.length ? ` • ${parsed.recording.annotations.length} markers` : ''}
+                </p>
+                {parsed.issues.length > 0 && (
+                  <div className="text-xs text-amber-400 space-y-1">
+                    <p className="flex items-center gap-1 font-semibold">
+                      <AlertTriangle className="w-3 h-3" />
+                      {parsed.issues.length} malformed row{parsed.issues.length === 1 ? '' : 's'} skipped
+                    </p>
+                    <ul className="max-h-24 overflow-y-auto space-y-0.5">
+                      {parsed.issues.slice(0, 20).map(issue => (
+                        <li key={issue.line}>Line {issue.line}: {issue.message}</li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+              </div>
+            )}
+
             <div className="flex items-start gap-2 p-4 rounded-lg bg-primary/5 border border-primary/20">
               <Info className="w-5 h-5 text-primary flex-shrink-0 mt-0.5" />
               <div className="text-sm text-foreground/80">
                 <p className="font-semibold mb-1">EEG Data Sources</p>
                 <p className="text-xs">
-                  Connect EEG headsets like Muse, OpenBCI, or upload your own datasets.
+                  Connect EEG headsets like Muse, OpenBCI, or upload your own datasets
+                  (Mind Monitor, OpenBCI GUI and Emotiv exports are detected automatically).
                   Real-time monitoring adapts learning based on your brain activity.
                 </p>
               </div>
@@ -1,5 +1,40 @@
-import React, { useEffect, useMemo, useRef, useState } from 'react';
+import React, { useEffect, useEffectEvent, useMemo, useRef, useState } from 'react';
 import './EEGSimulator.css';
+import type { BandPowers, EEGAnnotation, EEGRecording, MetricFrame, SignalQuality } from '@/types/eeg';
+import { summarizeIssues } from '@/utils/eeg/formats';
+import { defaultEdfChannels } from '@/utils/eeg/edf';
+import { getEEGWorker } from '@/utils/eeg/workerClient';
+import type { ParsedEdfHandle } from '@/utils/eeg/workerProtocol';
+import { FileReplaySource, SyntheticEEGSource, WebSocketStreamSource } from '@/utils/eeg/sources';
+import { getActiveSource, useEEGSource } from '@/hooks/useEEGSource';
+import { useProfiles } from '@/hooks/useProfiles';
+import { onConsentWithdrawn, requestConsent, useConsent } from '@/hooks/useConsent';
+import { useAsyncResult } from '@/hooks/useAsyncResult';
+import { normalizeMetrics, zScores, type EEGBaseline } from '@/utils/eeg/calibration';
+import { SessionRecorder, downloadSession, type EEGSession } from '@/utils/eeg/session';
+import {
+  BRAIN_STATE_RULES_KEY,
+  BrainStateClassifier,
+  DEFAULT_RULE_SET,
+  parseRuleSet,
+  stateRuns,
+  type BrainState,
+  type BrainStateRuleSet,
+} from '@/utils/eeg/brainStateRules';
+import { isPersonalModel, type PersonalModel } from '@/utils/eeg/personalClassifier';
+import { NEUROFEEDBACK_METRICS, NEUROFEEDBACK_PROTOCOLS } from '@/utils/eeg/neurofeedback';
+import { DEFAULT_MARKER_TYPES, insertAnnotation, rememberMarkerType } from '@/utils/eeg/markers';
+import { feedbackFor } from '@/utils/eeg/stateFeedback';
+import { SYNTHETIC_ARTIFACTS, SYNTHETIC_SCENARIOS, type SyntheticArtifact, type SyntheticScenario } from '@/utils/eeg/synthetic';
+import EDFChannelPicker from './EDFChannelPicker';
+import PlaybackTransport from './PlaybackTransport';
+import BrainStateRuleEditor from './BrainStateRuleEditor';
+import PersonalModelTrainer from './PersonalModelTrainer';
+import CalibrationWizard from './CalibrationWizard';
+import NeurofeedbackTrainer from './NeurofeedbackTrainer';
+import SignalViews from './SignalViews';
+import EventAverages from './EventAverages';
+import ScenarioScriptEditor from './ScenarioScriptEditor';
 
 interface EEGData {
   attention: number;
@@ -8,104 +43,121 @@ interface EEGData {
   engagement: number;
 }
 
-interface BrainState {
-  label: string;
-  color: string;
-}
-
 interface DatasetRow {
   attention: number;
   relaxation: number;
   drowsiness: number;
   engagement: number;
   timestamp?: number;
+  bandPowers?: BandPowers;
+  quality?: SignalQuality;
 }
 
-const PRIVACY_KEY = 'eegsim_privacy_consent_v1';
+const METRIC_COLUMNS = ['attention', 'relaxation', 'drowsiness', 'engagement'];
+// Frames kept in each metric plot (about 90 s at the default 0.75 s step)
+const METRIC_HISTORY = 120;
+// Frames of a live session kept for event-related averages (about 2 h)
+const FRAME_LOG_LIMIT = 9600;
+const USER_MARKER_COLOR = '#FF8A65';
 
-type ConsentValue = 'accepted' | 'declined' | null;
+// Spacing of metric rows that carry no usable timestamps
+const ROW_STEP_SECONDS = 0.75;
 
-const brainStateFrom = (d: EEGData): BrainState => {
-  if (d.drowsiness >= 65 && d.attention < 45) return { label: 'Drowsy', color: '#F76C6C' };
-  if (d.attention >= 70 && d.engagement >= 65) return { label: 'Focused', color: '#2ECC71' };
-  if (d.relaxation >= 70 && d.drowsiness < 40) return { label: 'Calm', color: '#4ECDC4' };
-  if (d.engagement >= 70) return { label: 'Engaged', color: '#FFD93D' };
-  return { label: 'Neutral', color: '#808080' };
-};
+const MODEL_KEY = 'eegsim_personal_model_v1';
+const MARKER_TYPES_KEY = 'eegsim_marker_types_v1';
+
+// The personal model is stored EEG data: withdrawing that consent deletes it
+onConsentWithdrawn('eeg', 'storage', () => {
+  try {
+    localStorage.removeItem(MODEL_KEY);
+  } catch {
+    // Storage unavailable: nothing was saved
+  }
+});
 
-const feedbackFor = (state: BrainState, d: EEGData): { title: string; message: string; tips: string[]; tone: 'success' | 'warning' | 'info'; } => {
-  switch (state.label) {
-    case 'Drowsy':
-      return {
-        title: 'Time for a breather',
-        message: 'We detected signs of drowsiness. Short breaks can restore alertness.',
-        tips: [
-          'Stand, stretch, or grab some water',
-          'Try 2–3 minutes of deep breathing',
-          'Consider lowering screen brightness'
-        ],
-        tone: 'warning'
-      };
-    case 'Focused':
-      return {
-        title: 'Locked-in focus',
-        message: 'Sustained attention and engagement detected—great momentum!',
-        tips: [
-          'Keep sessions 25–40 minutes to avoid fatigue',
-          'Jot quick notes to capture insights',
-          'Schedule a brief break soon to maintain quality'
-        ],
-        tone: 'success'
-      };
-    case 'Calm':
-      return {
-        title: 'Calm and steady',
-        message: 'Relaxation levels are high—ideal for reflection and planning.',
-        tips: [
-          'Use this window for strategic thinking',
-          'Light background music may help sustain calm',
-          'Avoid multitasking to preserve balance'
-        ],
-        tone: 'info'
-      };
-    case 'Engaged':
-      return {
-        title: 'High engagement',
-        message: 'Energy is up—channel it into meaningful tasks.',
-        tips: [
-          'Tackle medium-difficulty tasks now',
-          'Group similar tasks to ride the momentum',
-          'Track small wins to reinforce progress'
-        ],
-        tone: 'success'
-      };
-    default:
-      return {
-        title: 'Warming up',
-        message: 'Your state is balanced. Ease into focus with a short goal.',
-        tips: [
-          'Define a 10-minute micro-goal',
-          'Reduce notifications temporarily',
-          'Adjust seating/lighting for comfort'
-        ],
-        tone: 'info'
-      };
+const loadMarkerTypes = (): string[] => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(MARKER_TYPES_KEY) || 'null');
+    return Array.isArray(saved) && saved.every(t => typeof t === 'string') ? saved : DEFAULT_MARKER_TYPES;
+  } catch {
+    // Unreadable types fall back to the defaults
+    return DEFAULT_MARKER_TYPES;
   }
 };
 
+// Typing in a field must not place markers
+const isTextEntry = (target: EventTarget | null) =>
+  target instanceof HTMLElement && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
+// Seconds from the first row when every row has an increasing timestamp;
+// steps above 10 can only be milliseconds
+const rowTimestamps = (rows: DatasetRow[]): number[] => {
+  const times = rows.map(r => r.timestamp);
+  const usable = times.every((t, i) => Number.isFinite(t) && (i === 0 || t > times[i - 1]));
+  if (!usable) return rows.map((_, i) => i * ROW_STEP_SECONDS);
+  const steps = times.slice(1).map((t, i) => t - times[i]).sort((a, b) => a - b);
+  const scale = steps.length > 0 && steps[Math.floor(steps.length / 2)] > 10 ? 1 / 1000 : 1;
+  return times.map(t => (t - times[0]) * scale);
+};
+
 const EEGSimulator: React.FC = () => {
-  // Core sim state
-  const [isRunning, setIsRunning] = useState(false);
-  const [eegData, setEegData] = useState<EEGData>({ attention: 50, relaxation: 50, drowsiness: 20, engagement: 50 });
-  const [brainState, setBrainState] = useState<BrainState>({ label: 'Neutral', color: '#808080' });
+  // Core sim state: the active source lives in the shared EEG store
+  const eeg = useEEGSource();
+  const eegData: EEGData = eeg.metrics;
+  // With a calibrated profile, states and feedback use baseline-relative metrics
+  const profiles = useProfiles();
+  const baseline = profiles.active.baseline;
+  const scoredData = useMemo(() => (baseline ? normalizeMetrics(eegData, baseline) : eegData), [eegData, baseline]);
+  const zNow = baseline ? zScores(eegData, baseline) : null;
+  const bandPowers = eeg.bandPowers;
+  const contaminated = eeg.quality?.contaminated ?? false;
+  const playbackTime = eeg.timestamp;
+  const annotations = eeg.annotations;
+  const isRunning = eeg.active;
+  const [brainState, setBrainState] = useState<BrainState>(DEFAULT_RULE_SET.fallback);
+  const [ruleSet, setRuleSet] = useState<BrainStateRuleSet>(DEFAULT_RULE_SET);
+  const [showRules, setShowRules] = useState(false);
+  const [personalModel, setPersonalModel] = useState<PersonalModel | null>(null);
+  const [showTrainer, setShowTrainer] = useState(false);
+  const [showCalibration, setShowCalibration] = useState(false);
+  const [showNeurofeedback, setShowNeurofeedback] = useState(false);
+  const [neurofeedbackProtocol, setNeurofeedbackProtocol] = useState<string | null>(null);
+  const [newProfileName, setNewProfileName] = useState<string | null>(null);
+  const classifierRef = useRef(new BrainStateClassifier());
 
   // Dataset upload state
-  const [uploadedDataset, setUploadedDataset] = useState<DatasetRow[] | null>(null);
+  const [uploadedDataset, setUploadedDataset] = useState<{ frames: MetricFrame[]; annotations: EEGAnnotation[]; recording: EEGRecording | null } | null>(null);
   const [fileName, setFileName] = useState<string>('');
   const [uploadStatus, setUploadStatus] = useState<string>('');
-  const [mode, setMode] = useState<'simulated' | 'dataset'>('simulated');
-  const [datasetIndex, setDatasetIndex] = useState(0);
+  const [liveSelected, setLiveSelected] = useState(false);
+  const [sampleRate, setSampleRate] = useState(256);
+  const [pendingEdf, setPendingEdf] = useState<ParsedEdfHandle | null>(null);
+  const [edfSelection, setEdfSelection] = useState<number[]>([]);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const [streamUrl, setStreamUrl] = useState('ws://localhost:8765');
+
+  // Session recording
+  const recorderRef = useRef(new SessionRecorder());
+  const [isRecording, setIsRecording] = useState(false);
+  const [recordedFrames, setRecordedFrames] = useState(0);
+  const [lastSession, setLastSession] = useState<EEGSession | null>(null);
+
+  // Event markers: quick types on the number keys, free text, and averages around them
+  const [markerText, setMarkerText] = useState('');
+  const [markerTypes, setMarkerTypes] = useState<string[]>(loadMarkerTypes);
+  const [showEvents, setShowEvents] = useState(false);
+  // Synthetic source: scenario script, seed, and an optional override of the scenario's eyes
+  const [scenario, setScenario] = useState<SyntheticScenario>(SYNTHETIC_SCENARIOS[0]);
+  const [seed, setSeed] = useState(SYNTHETIC_SCENARIOS[0].seed);
+  const [eyes, setEyes] = useState<'scenario' | 'open' | 'closed'>('scenario');
+  const [showScript, setShowScript] = useState(false);
+
+  // Frames of the current live or simulated source, keyed by source so a switch starts afresh
+  const [frameLog, setFrameLog] = useState<{ key: string; frames: MetricFrame[] }>({ key: '', frames: [] });
+
+  // Raw streams (WebSocket or a headset paired on the dashboard) show as Live
+  const mode: 'simulated' | 'dataset' | 'live' =
+    liveSelected || eeg.kind === 'websocket' || eeg.kind === 'bluetooth' ? 'live' : eeg.kind === 'file' ? 'dataset' : 'simulated';
 
   const canvasRefs = {
     attention: useRef<HTMLCanvasElement>(null),
@@ -113,79 +165,286 @@ const EEGSimulator: React.FC = () => {
     drowsiness: useRef<HTMLCanvasElement>(null),
     engagement: useRef<HTMLCanvasElement>(null)
   };
+  const historyRef = useRef<{ time: number | null; metrics: EEGData }[]>([]);
 
-  // Privacy/consent state
-  const [consent, setConsent] = useState<ConsentValue>(null);
-  const [showPrivacy, setShowPrivacy] = useState(false);
+  // Consent lives in the shared consent store; sources ask for processing consent when they start
+  const consent = useConsent();
+  const eegConsent = consent.status('eeg', 'processing');
 
-  // Load consent from localStorage (local-only)
+  // Load edited brain-state rules (local-only)
   useEffect(() => {
     try {
-      const saved = (localStorage.getItem(PRIVACY_KEY) as ConsentValue) || null;
-      setConsent(saved);
-      if (!saved) setShowPrivacy(true);
+      const saved = localStorage.getItem(BRAIN_STATE_RULES_KEY);
+      const parsed = saved ? parseRuleSet(saved) : null;
+      if (parsed?.ruleSet) setRuleSet(parsed.ruleSet);
+      const model = JSON.parse(localStorage.getItem(MODEL_KEY) || 'null');
+      if (isPersonalModel(model)) setPersonalModel(model);
     } catch {
-      setShowPrivacy(true);
+      // Storage unavailable: keep the default rules
     }
   }, []);
 
-  const persistConsent = (value: ConsentValue) => {
+  useEffect(() => {
+    classifierRef.current.setRuleSet(ruleSet);
+  }, [ruleSet]);
+
+  useEffect(() => {
+    classifierRef.current.setModel(personalModel);
+  }, [personalModel]);
+
+  const applyRules = (next: BrainStateRuleSet) => {
+    try {
+      localStorage.setItem(BRAIN_STATE_RULES_KEY, JSON.stringify(next));
+    } catch {
+      // Storage unavailable: the rules still apply for this visit
+    }
+    setRuleSet(next);
+    setShowRules(false);
+  };
+
+  // A null model reverts to the rule-based states; without storage consent a model lasts for this visit
+  const applyPersonalModel = async (model: PersonalModel | null) => {
+    const store = model === null || (await requestConsent('eeg', ['storage']));
     try {
-      if (value) localStorage.setItem(PRIVACY_KEY, value);
-      else localStorage.removeItem(PRIVACY_KEY);
-    } catch {}
-    setConsent(value);
+      if (model && store) localStorage.setItem(MODEL_KEY, JSON.stringify(model));
+      else localStorage.removeItem(MODEL_KEY);
+    } catch {
+      // Storage unavailable: the model still applies for this visit
+    }
+    setPersonalModel(model);
+  };
+
+  const syntheticSource = (script = scenario, scriptSeed = seed) => {
+    const source = new SyntheticEEGSource(script, scriptSeed);
+    if (eyes !== 'scenario') source.setEyesClosed(eyes === 'closed');
+    return source;
   };
 
-  const handleAccept = () => {
-    persistConsent('accepted');
-    setShowPrivacy(false);
+  const activeSynthetic = () => {
+    const source = getActiveSource();
+    return source instanceof SyntheticEEGSource ? source : null;
   };
-  const handleDecline = () => {
-    persistConsent('declined');
-    setShowPrivacy(false);
-    setIsRunning(false);
+
+  // A new script or seed starts the synthetic stream over
+  const changeScenario = (script: SyntheticScenario, scriptSeed: number) => {
+    setScenario(script);
+    setSeed(scriptSeed);
+    if (mode === 'simulated') eeg.selectSource(syntheticSource(script, scriptSeed), { start: isRunning });
   };
 
-  // Sim/update loop
+  const changeEyes = (next: 'scenario' | 'open' | 'closed') => {
+    setEyes(next);
+    activeSynthetic()?.setEyesClosed(next === 'scenario' ? null : next === 'closed');
+  };
+
+  const injectArtifact = (type: SyntheticArtifact) => activeSynthetic()?.inject(type);
+
+  const selectMode = (next: 'simulated' | 'dataset' | 'live') => {
+    setLiveSelected(next === 'live');
+    if (next === 'simulated' && eeg.kind !== 'simulated') eeg.selectSource(syntheticSource(), { start: isRunning });
+    if (next === 'dataset' && uploadedDataset && eeg.kind !== 'file') {
+      eeg.selectSource(new FileReplaySource(fileName, uploadedDataset.frames, uploadedDataset.annotations, uploadedDataset.recording), { start: isRunning });
+    }
+  };
+
+  const toggleRunning = () => {
+    if (isRunning) eeg.stopSource();
+    else if (eeg.kind === null) eeg.selectSource(syntheticSource());
+    else eeg.startSource();
+  };
+
+  const connectStream = () => {
+    eeg.selectSource(new WebSocketStreamSource(streamUrl.trim()));
+  };
+
+  const feedback = useMemo(() => feedbackFor(brainState), [brainState]);
+  // First protocol for the suggested purpose that the current source can drive
+  const suggestedProtocol = feedback.training
+    ? NEUROFEEDBACK_PROTOCOLS.find(p => p.purpose === feedback.training && (bandPowers || !NEUROFEEDBACK_METRICS[p.metric].needsBands))
+    : undefined;
+
+  const openNeurofeedback = (protocolId: string | null) => {
+    setNeurofeedbackProtocol(protocolId);
+    setShowNeurofeedback(true);
+  };
+
+  // Most recent annotation at the playback position, shown for its duration (or 5 s)
+  const activeAnnotation = useMemo(() => {
+    if (playbackTime === null) return null;
+    let current: EEGAnnotation | null = null;
+    for (const a of annotations) {
+      if (a.onset > playbackTime) break;
+      if (playbackTime - a.onset <= Math.max(a.duration ?? 0, 5)) current = a;
+    }
+    return current;
+  }, [annotations, playbackTime]);
+
+  // Classify each new frame, and capture it with the state and feedback it produced
   useEffect(() => {
-    if (!isRunning) return;
-    const id = setInterval(() => {
-      setEegData(prev => {
-        if (mode === 'dataset' && uploadedDataset && uploadedDataset.length > 0) {
-          const row = uploadedDataset[datasetIndex % uploadedDataset.length];
-          setDatasetIndex(i => (i + 1) % uploadedDataset.length);
-          return {
-            attention: row.attention,
-            relaxation: row.relaxation,
-            drowsiness: row.drowsiness,
-            engagement: row.engagement
-          };
-        }
-        // Simulate gentle drift
-        const jitter = () => (Math.random() - 0.5) * 6;
-        const clamp = (v: number) => Math.max(0, Math.min(100, v));
-        return {
-          attention: clamp(prev.attention + jitter()),
-          relaxation: clamp(prev.relaxation + jitter()),
-          drowsiness: clamp(prev.drowsiness + jitter()),
-          engagement: clamp(prev.engagement + jitter())
-        };
-      });
-    }, 750);
-    return () => clearInterval(id);
-  }, [isRunning, mode, uploadedDataset, datasetIndex]);
+    const state = classifierRef.current.update(scoredData, playbackTime ?? 0, bandPowers ?? undefined, contaminated);
+    setBrainState(state);
+    if (!isRecording || playbackTime === null) return;
+    recorderRef.current.record({
+      sourceTime: playbackTime,
+      metrics: eegData,
+      bandPowers: bandPowers ?? undefined,
+      state: state.label,
+      feedback: feedbackFor(state).title,
+    });
+    setRecordedFrames(n => n + 1);
+  }, [isRecording, playbackTime, eegData, scoredData, bandPowers, contaminated]);
+
+  // Replays carry their own frames; live and simulated sources are logged as they arrive
+  const logFrame = useEffectEvent(() => {
+    if (playbackTime === null || eeg.kind === 'file') return;
+    const key = `${eeg.kind}:${eeg.label}`;
+    const frame: MetricFrame = { timestamp: playbackTime, metrics: eegData, quality: eeg.quality ?? undefined };
+    setFrameLog(log => {
+      if (log.key !== key) return { key, frames: [frame] };
+      return { key, frames: [...log.frames.slice(1 - FRAME_LOG_LIMIT), frame] };
+    });
+  });
 
-  // Derive brain state and feedback
   useEffect(() => {
-    setBrainState(brainStateFrom(eegData));
-  }, [eegData]);
+    logFrame();
+  }, [playbackTime]);
 
-  const feedback = useMemo(() => feedbackFor(brainState, eegData), [brainState, eegData]);
+  // User markers are recorded when placed; this picks up the source's own
+  useEffect(() => {
+    if (isRecording && activeAnnotation && activeAnnotation.origin !== 'user') {
+      recorderRef.current.mark(activeAnnotation.text, 'source', activeAnnotation.onset);
+    }
+  }, [isRecording, activeAnnotation]);
+
+  const toggleRecording = async () => {
+    if (isRecording) {
+      setLastSession(recorderRef.current.stop());
+      setIsRecording(false);
+      return;
+    }
+    if (!(await requestConsent('eeg', ['storage']))) return;
+    recorderRef.current.start(eeg.label || 'Simulated');
+    setRecordedFrames(0);
+    setLastSession(null);
+    setIsRecording(true);
+  };
+
+  // Withdrawing storage consent drops the personal model, ends the recording and discards it
+  const discardStoredData = useEffectEvent(() => {
+    setPersonalModel(null);
+    if (!isRecording) return;
+    recorderRef.current.stop();
+    setIsRecording(false);
+    setLastSession(null);
+  });
+
+  useEffect(() => onConsentWithdrawn('eeg', 'storage', () => discardStoredData()), []);
+
+  const placeMarker = (text: string) => {
+    const marker = eeg.addMarker(text);
+    if (!marker) return;
+    if (isRecording) recorderRef.current.mark(marker.text, 'user', marker.onset);
+    // Keep markers on the loaded dataset so they survive switching modes
+    if (eeg.kind === 'file') setUploadedDataset(d => d && { ...d, annotations: insertAnnotation(d.annotations, marker) });
+  };
+
+  const addTypedMarker = () => {
+    if (!markerText.trim()) return;
+    placeMarker(markerText);
+    const next = rememberMarkerType(markerTypes, markerText);
+    if (next !== markerTypes) {
+      setMarkerTypes(next);
+      try {
+        localStorage.setItem(MARKER_TYPES_KEY, JSON.stringify(next));
+      } catch {
+        // Storage unavailable: the type is offered for this visit only
+      }
+    }
+    setMarkerText('');
+  };
+
+  // Number keys 1–9 place the quick markers
+  const onMarkerKey = useEffectEvent((e: KeyboardEvent) => {
+    if (eeg.kind === null || e.ctrlKey || e.metaKey || e.altKey || isTextEntry(e.target)) return;
+    const type = /^[1-9]$/.test(e.key) ? markerTypes[Number(e.key) - 1] : undefined;
+    if (!type) return;
+    e.preventDefault();
+    placeMarker(type);
+  });
 
-  // Canvas rendering helper
   useEffect(() => {
-    const render = (canvas: HTMLCanvasElement | null, value: number, color: string) => {
+    const handler = (e: KeyboardEvent) => onMarkerKey(e);
+    window.addEventListener('keydown', handler);
+    return () => window.removeEventListener('keydown', handler);
+  }, []);
+
+  const exportSession = (format: 'csv' | 'json' | 'edf') => {
+    if (!lastSession) return;
+    try {
+      downloadSession(lastSession, format);
+    } catch (e) {
+      setUploadStatus(e instanceof Error ? `Export failed: ${e.message}` : 'Export failed');
+    }
+  };
+
+  // Frames of the recording being replayed, for the state track and rule preview
+  const replayFrames = useMemo(() => {
+    const source = getActiveSource();
+    return eeg.playback && source instanceof FileReplaySource ? source.frames : null;
+  }, [eeg.playback]);
+
+  const eventFrames = replayFrames ?? frameLog.frames;
+  const userMarkerCount = annotations.filter(a => a.origin === 'user').length;
+
+  // Raw views follow whichever source provides a channel layout
+  const signalSource = useMemo(() => (eeg.info ? getActiveSource() : null), [eeg.info]);
+
+  const scoredFrames = useMemo(
+    () => (replayFrames && baseline ? replayFrames.map(f => ({ ...f, metrics: normalizeMetrics(f.metrics, baseline) })) : replayFrames),
+    [replayFrames, baseline],
+  );
+
+  // Labelling the whole recording runs in the EEG worker
+  const playbackDuration = eeg.playback?.duration ?? null;
+  const stateTrackTask = useMemo(() => {
+    if (!scoredFrames || playbackDuration === null) return null;
+    return () =>
+      getEEGWorker()
+        .request('labelFrames', { ruleSet, frames: scoredFrames, model: personalModel })
+        .then(states => stateRuns(scoredFrames, states, playbackDuration));
+  }, [scoredFrames, ruleSet, personalModel, playbackDuration]);
+  const stateTrack = useAsyncResult(stateTrackTask) ?? [];
+
+  // Baselines are kept with the profile, so they need storage consent
+  const saveBaseline = async (next: EEGBaseline) => {
+    if (!(await requestConsent('eeg', ['storage']))) return;
+    profiles.setBaseline(next);
+    setShowCalibration(false);
+  };
+
+  const addProfile = () => {
+    profiles.createProfile(newProfileName ?? '');
+    setNewProfileName(null);
+  };
+
+  // Metric plots: each scrolls the recent values of its index, newest at the right
+  useEffect(() => {
+    historyRef.current = [];
+  }, [eeg.kind, eeg.label]);
+
+  // Markers are drawn where the plotted frames cross their onset
+  const drawPlots = useEffectEvent((newFrame: boolean) => {
+    const history = historyRef.current;
+    if (newFrame) {
+      history.push({ time: playbackTime, metrics: eegData });
+      if (history.length > METRIC_HISTORY) history.splice(0, history.length - METRIC_HISTORY);
+    }
+    const crossings = history.flatMap(({ time }, i) => {
+      const from = i > 0 ? history[i - 1].time : null;
+      if (time === null || from === null) return [];
+      return annotations.filter(a => a.onset > from && a.onset <= time).map(a => ({ index: i, annotation: a }));
+    });
+    const render = (canvas: HTMLCanvasElement | null, key: keyof EEGData, color: string) => {
       if (!canvas) return;
       const ctx = canvas.getContext('2d');
       if (!ctx) return;
@@ -201,43 +460,130 @@ const EEGSimulator: React.FC = () => {
         ctx.lineTo(w, yy);
         ctx.stroke();
       }
-      // Wave
+      // Value history, 0–100 bottom to top
+      const step = w / (METRIC_HISTORY - 1);
+      const x = (i: number) => w - (history.length - 1 - i) * step;
+      const y = (v: number) => h - (Math.max(0, Math.min(100, v)) / 100) * (h - 8) - 4;
       ctx.strokeStyle = color;
       ctx.lineWidth = 2;
       ctx.beginPath();
-      const amp = (value / 100) * (h * 0.35) + 6;
-      for (let x = 0; x < w; x++) {
-        const t = (x / w) * Math.PI * 4;
-        const y = h / 2 + Math.sin(t) * amp * 0.6 + Math.cos(t * 0.5) * amp * 0.4;
-        if (x === 0) ctx.moveTo(x, y); else ctx.lineTo(x, y);
-      }
+      history.forEach((d, i) => {
+        if (i === 0) ctx.moveTo(x(i), y(d.metrics[key])); else ctx.lineTo(x(i), y(d.metrics[key]));
+      });
       ctx.stroke();
+      ctx.lineTo(w, h);
+      ctx.lineTo(x(0), h);
+      ctx.closePath();
+      ctx.globalAlpha = 0.12;
+      ctx.fillStyle = color;
+      ctx.fill();
+      ctx.globalAlpha = 1;
+      ctx.font = '10px Arial';
+      ctx.textBaseline = 'top';
+      ctx.lineWidth = 1;
+      ctx.setLineDash([4, 3]);
+      crossings.forEach(({ index, annotation }) => {
+        const color = annotation.origin === 'user' ? USER_MARKER_COLOR : 'rgba(255,255,255,0.7)';
+        ctx.strokeStyle = color;
+        ctx.beginPath();
+        ctx.moveTo(x(index), 0);
+        ctx.lineTo(x(index), h);
+        ctx.stroke();
+        ctx.fillStyle = color;
+        ctx.fillText(annotation.text, x(index) + 3, 2, 140);
+      });
+      ctx.setLineDash([]);
     };
-    render(canvasRefs.attention.current, eegData.attention, '#45B7D1');
-    render(canvasRefs.relaxation.current, eegData.relaxation, '#4ECDC4');
-    render(canvasRefs.drowsiness.current, eegData.drowsiness, '#95E1D3');
-    render(canvasRefs.engagement.current, eegData.engagement, '#FFD93D');
+    render(canvasRefs.attention.current, 'attention', '#45B7D1');
+    render(canvasRefs.relaxation.current, 'relaxation', '#4ECDC4');
+    render(canvasRefs.drowsiness.current, 'drowsiness', '#95E1D3');
+    render(canvasRefs.engagement.current, 'engagement', '#FFD93D');
+  });
+
+  useEffect(() => {
+    drawPlots(true);
   }, [eegData]);
 
+  // A new marker shows at once, without waiting for the next frame
+  useEffect(() => {
+    drawPlots(false);
+  }, [annotations]);
+
+  const framesToRows = (frames: MetricFrame[]): DatasetRow[] =>
+    frames.map(frame => ({
+      ...frame.metrics,
+      timestamp: frame.timestamp,
+      bandPowers: frame.bandPowers,
+      quality: frame.quality,
+    }));
+
+  const applyDataset = (name: string, rows: DatasetRow[], recordingAnnotations: EEGAnnotation[] = [], recording: EEGRecording | null = null) => {
+    // Processed epochs keep recording time so annotations line up; metric rows are rebased
+    const metricTimes = rows[0]?.bandPowers ? null : rowTimestamps(rows);
+    const frames: MetricFrame[] = rows.map((row, i) => ({
+      timestamp: metricTimes ? metricTimes[i] : (row.timestamp ?? i * ROW_STEP_SECONDS),
+      metrics: { attention: row.attention, relaxation: row.relaxation, drowsiness: row.drowsiness, engagement: row.engagement },
+      bandPowers: row.bandPowers,
+      quality: row.quality,
+    }));
+    setUploadedDataset({ frames, annotations: recordingAnnotations, recording });
+    setLiveSelected(false);
+    eeg.selectSource(new FileReplaySource(name, frames, recordingAnnotations, recording), { start: isRunning });
+  };
+
+  // The parsed EDF samples live in the worker until loaded or dropped
+  const discardPendingEdf = () => {
+    if (pendingEdf) getEEGWorker().request('releaseEdf', { handle: pendingEdf.handle }).catch(() => undefined);
+    setPendingEdf(null);
+  };
+
+  const handleEdfLoad = async () => {
+    if (!pendingEdf) return;
+    setUploadStatus('Processing…');
+    try {
+      const { recording, frames } = await getEEGWorker().request('loadEdf', { handle: pendingEdf.handle, channels: edfSelection });
+      const rows = framesToRows(frames);
+      applyDataset(fileName, rows, recording.annotations, recording);
+      setUploadStatus(`Processed ${rows.length} epochs from ${recording.channels.length} channels`);
+      discardPendingEdf();
+    } catch (e) {
+      setUploadStatus(e instanceof Error ? `Failed to load channels: ${e.message}` : 'Failed to load channels');
+    }
+  };
+
   // Upload handlers
   const handleDatasetUpload = async (file: File) => {
+    if (!(await requestConsent('eeg', ['processing']))) return;
     setFileName(file.name);
     setUploadStatus('Parsing…');
+    discardPendingEdf();
     try {
+      if (file.name.toLowerCase().endsWith('.edf')) {
+        const edf = await getEEGWorker().request('parseEdf', { buffer: await file.arrayBuffer() });
+        setPendingEdf(edf);
+        setEdfSelection(defaultEdfChannels(edf.header));
+        setUploadStatus('Choose channels to load');
+        return;
+      }
       const text = await file.text();
       let rows: DatasetRow[] = [];
-      if (file.name.toLowerCase().endsWith('.json')) {
-        const parsed = JSON.parse(text);
-        rows = Array.isArray(parsed) ? parsed : [];
-      } else {
-        // basic CSV support: header with attention,relaxation,drowsiness,engagement
-        const [header, ...lines] = text.split(/\r?\n/).filter(Boolean);
-        const cols = header.split(',').map(c => c.trim().toLowerCase());
+      let recordingAnnotations: EEGAnnotation[] = [];
+      let recording: EEGRecording | null = null;
+      let issueNote = '';
+      const [header, ...lines] = text.split(/\r?\n/).filter(Boolean);
+      const cols = (header ?? '').split(',').map(c => c.trim().toLowerCase());
+      const isJson = file.name.toLowerCase().endsWith('.json');
+      const metricJson = isJson ? JSON.parse(text) : null;
+      if (Array.isArray(metricJson)) {
+        rows = metricJson;
+      } else if (!isJson && METRIC_COLUMNS.some(c => cols.includes(c))) {
+        // basic CSV support: header with attention,relaxation,drowsiness,engagement and optional timestamp/time
         const idx = {
           attention: cols.indexOf('attention'),
           relaxation: cols.indexOf('relaxation'),
           drowsiness: cols.indexOf('drowsiness'),
-          engagement: cols.indexOf('engagement')
+          engagement: cols.indexOf('engagement'),
+          timestamp: cols.includes('timestamp') ? cols.indexOf('timestamp') : cols.indexOf('time')
         };
         lines.forEach(line => {
           const parts = line.split(',');
@@ -247,35 +593,57 @@ const EEGSimulator: React.FC = () => {
             drowsiness: Number(parts[idx.drowsiness] || 0),
             engagement: Number(parts[idx.engagement] || 0)
           };
+          if (idx.timestamp >= 0 && parts[idx.timestamp]?.trim()) row.timestamp = Number(parts[idx.timestamp]);
           rows.push(row);
         });
+      } else {
+        // Raw channel samples (vendor export, generic CSV or JSON): run the band-power pipeline
+        const { parsed, frames } = await getEEGWorker().request('parseRecordingText', { text, fileName: file.name, options: { sampleRate } });
+        recording = parsed.recording;
+        rows = framesToRows(frames);
+        recordingAnnotations = recording.annotations ?? [];
+        if (parsed.issues.length > 0) issueNote = ` — skipped ${parsed.issues.length} malformed rows (${summarizeIssues(parsed.issues, 1)})`;
       }
       const filtered = rows.filter(r =>
         [r.attention, r.relaxation, r.drowsiness, r.engagement].every(v => Number.isFinite(v))
       );
       if (filtered.length === 0) throw new Error('No valid rows found');
-      setUploadedDataset(filtered);
-      setMode('dataset');
-      setDatasetIndex(0);
-      setUploadStatus(`Loaded ${filtered.length} rows`);
+      applyDataset(file.name, filtered, recordingAnnotations, recording);
+      setUploadStatus((filtered[0].bandPowers ? `Processed ${filtered.length} epochs` : `Loaded ${filtered.length} rows`) + issueNote);
     } catch (e) {
-      setUploadStatus('Failed to parse file');
+      setUploadStatus(e instanceof Error ? `Failed to parse file: ${e.message}` : 'Failed to parse file');
       setUploadedDataset(null);
     }
   };
 
-  const disableDataUse = consent === 'declined';
+  // The whole scenario, synthesised and processed in the worker, replays as a seekable dataset
+  const generateDataset = async () => {
+    const name = `${scenario.name} (seed ${seed})`;
+    setFileName(name);
+    setUploadStatus('Generating…');
+    discardPendingEdf();
+    try {
+      const { recording, frames } = await getEEGWorker().request('generateRecording', { scenario, seed });
+      const rows = framesToRows(frames);
+      applyDataset(name, rows, recording.annotations ?? [], recording);
+      setUploadStatus(`Generated ${rows.length} epochs from ${recording.channels.length} channels`);
+    } catch (e) {
+      setUploadStatus(e instanceof Error ? `Failed to generate: ${e.message}` : 'Failed to generate');
+    }
+  };
+
+  const disableDataUse = eegConsent === 'denied';
 
   return (
     <div className="eeg-simulator">
       <div className="header-row">
         <h2 className="eeg-title">EEG Simulator</h2>
         <div className="header-actions">
-          <button className="btn subtle" onClick={() => setShowPrivacy(true)}>Privacy & Consent</button>
-          <div className="consent-pill" data-state={consent || 'unset'}>
-            {consent === 'accepted' && 'Opt-in: Local only'}
-            {consent === 'declined' && 'Opt-out: Minimal features'}
-            {!consent && 'Consent required'}
+          <button className="btn subtle" onClick={consent.openConsentManager}>Privacy & Consent</button>
+          <div className="consent-pill" data-state={eegConsent === 'granted' ? 'accepted' : eegConsent === 'denied' ? 'declined' : 'unset'}>
+            {eegConsent === 'granted' && 'Opt-in: Local only'}
+            {eegConsent === 'denied' && 'Opt-out: Minimal features'}
+            {(eegConsent === 'unset' || eegConsent === 'stale') && 'Consent required'}
           </div>
         </div>
       </div>
@@ -284,53 +652,293 @@ const EEGSimulator: React.FC = () => {
         <div className="control-group">
           <label>Mode</label>
           <div className="segmented">
-            <button className={mode === 'simulated' ? 'active' : ''} onClick={() => setMode('simulated')} disabled={disableDataUse && mode !== 'simulated'}>Simulated</button>
-            <button className={mode === 'dataset' ? 'active' : ''} onClick={() => setMode('dataset')} disabled={disableDataUse || !uploadedDataset}>Dataset</button>
+            <button className={mode === 'simulated' ? 'active' : ''} onClick={() => selectMode('simulated')} disabled={disableDataUse && mode !== 'simulated'}>Simulated</button>
+            <button className={mode === 'dataset' ? 'active' : ''} onClick={() => selectMode('dataset')} disabled={disableDataUse || (!uploadedDataset && eeg.kind !== 'file')}>Dataset</button>
+            <button className={mode === 'live' ? 'active' : ''} onClick={() => selectMode('live')} disabled={disableDataUse}>Live</button>
           </div>
         </div>
         <div className="control-group">
           <label>Run</label>
-          <button className="btn primary" onClick={() => setIsRunning(r => !r)} disabled={disableDataUse && isRunning}>
+          <button className="btn primary" onClick={toggleRunning} disabled={(disableDataUse && isRunning) || mode === 'live'}>
             {isRunning ? 'Pause' : 'Start'}
           </button>
         </div>
         <div className="control-group">
           <label>Upload dataset</label>
           <div className="upload-row">
-            <input ref={fileInputRef} type="file" accept=".csv,.json,application/json,text/csv" onChange={e => e.target.files && handleDatasetUpload(e.target.files[0])} disabled={disableDataUse} />
+            <input ref={fileInputRef} type="file" accept=".csv,.txt,.json,.edf,application/json,text/csv,text/plain" onChange={e => e.target.files && handleDatasetUpload(e.target.files[0])} disabled={disableDataUse} />
             <span className="upload-status">{fileName ? `${fileName} — ${uploadStatus}` : uploadStatus}</span>
           </div>
         </div>
+        {mode === 'simulated' && (
+          <div className="control-group">
+            <label>Synthetic EEG</label>
+            <div className="upload-row">
+              <select
+                className="transport-speed"
+                value={SYNTHETIC_SCENARIOS.includes(scenario) ? scenario.id : ''}
+                onChange={e => {
+                  const preset = SYNTHETIC_SCENARIOS.find(s => s.id === e.target.value);
+                  if (preset) changeScenario(preset, preset.seed);
+                }}
+              >
+                {!SYNTHETIC_SCENARIOS.includes(scenario) && <option value="">{scenario.name} (edited)</option>}
+                {SYNTHETIC_SCENARIOS.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+              </select>
+              <input className="number-input" type="number" title="Seed" value={seed} onChange={e => changeScenario(scenario, Math.trunc(Number(e.target.value)) || 0)} />
+              <button className="btn subtle" onClick={() => setShowScript(v => !v)}>{showScript ? 'Hide script' : 'Edit script'}</button>
+              <button className="btn subtle" onClick={generateDataset} disabled={disableDataUse}>Generate recording</button>
+            </div>
+            <div className="upload-row">
+              {SYNTHETIC_ARTIFACTS.map(type => (
+                <button key={type} className="btn subtle" onClick={() => injectArtifact(type)} disabled={!isRunning || eeg.kind !== 'simulated'}>
+                  {type[0].toUpperCase() + type.slice(1)}
+                </button>
+              ))}
+              <select className="transport-speed" value={eyes} onChange={e => changeEyes(e.target.value as 'scenario' | 'open' | 'closed')}>
+                <option value="scenario">Eyes as scripted</option>
+                <option value="open">Eyes open</option>
+                <option value="closed">Eyes closed</option>
+              </select>
+              <span className="upload-status">{scenario.description}</span>
+            </div>
+          </div>
+        )}
+        {mode === 'live' && (
+          <div className="control-group">
+            <label>Live stream</label>
+            <div className="upload-row">
+              <input className="url-input" type="text" value={eeg.kind === 'websocket' && isRunning ? eeg.label : streamUrl} onChange={e => setStreamUrl(e.target.value)} disabled={isRunning} placeholder="ws://localhost:8765" />
+              {isRunning
+                ? <button className="btn subtle" onClick={() => eeg.stopSource()}>Disconnect</button>
+                : <button className="btn primary" onClick={connectStream} disabled={disableDataUse}>Connect</button>}
+              <span className="upload-status" data-state={eeg.status}>
+                {eeg.kind && `${eeg.label} • `}{eeg.status}
+                {eeg.stats && ` • ${eeg.stats.packets} packets, ${eeg.stats.droppedPackets} dropped`}
+                {eeg.error && ` — ${eeg.error}`}
+              </span>
+            </div>
+          </div>
+        )}
+        <div className="control-group">
+          <label>Raw sample rate (Hz)</label>
+          <input className="number-input" type="number" min={32} max={4096} value={sampleRate} onChange={e => setSampleRate(Number(e.target.value) || 256)} disabled={disableDataUse} />
+        </div>
+        <div className="control-group">
+          <label>Profile</label>
+          <div className="upload-row">
+            {newProfileName === null ? (
+              <>
+                <select className="transport-speed" value={profiles.activeId} onChange={e => profiles.selectProfile(e.target.value)}>
+                  {profiles.profiles.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+                </select>
+                <button className="btn subtle" onClick={() => setNewProfileName('')}>New</button>
+              </>
+            ) : (
+              <>
+                <input className="url-input" type="text" value={newProfileName} placeholder="Profile name" autoFocus onChange={e => setNewProfileName(e.target.value)} onKeyDown={e => e.key === 'Enter' && addProfile()} />
+                <button className="btn primary" onClick={addProfile}>Add</button>
+                <button className="btn subtle" onClick={() => setNewProfileName(null)}>Cancel</button>
+              </>
+            )}
+            <button className="btn subtle" onClick={() => setShowCalibration(v => !v)}>{showCalibration ? 'Hide calibration' : 'Calibrate'}</button>
+            <span className="upload-status">
+              {baseline ? `Baseline from ${new Date(baseline.createdAt).toLocaleDateString()}` : 'Not calibrated: absolute thresholds'}
+            </span>
+            {baseline && <button className="btn subtle" onClick={() => profiles.setBaseline(null)}>Clear baseline</button>}
+          </div>
+        </div>
+        <div className="control-group">
+          <label>Brain-state rules</label>
+          <div className="upload-row">
+            <button className="btn subtle" onClick={() => setShowRules(v => !v)}>{showRules ? 'Hide rules' : 'Edit rules'}</button>
+            <span className="upload-status">{ruleSet.rules.length} states{ruleSet === DEFAULT_RULE_SET ? '' : ' • custom'}</span>
+            <button className="btn subtle" onClick={() => setShowTrainer(v => !v)}>{showTrainer ? 'Hide personal model' : 'Personal model'}</button>
+            {personalModel && <span className="upload-status">Personal model active</span>}
+          </div>
+        </div>
+        <div className="control-group">
+          <label>Neurofeedback</label>
+          <div className="upload-row">
+            <button className="btn subtle" onClick={() => (showNeurofeedback ? setShowNeurofeedback(false) : openNeurofeedback(null))}>
+              {showNeurofeedback ? 'Hide training' : 'Train'}
+            </button>
+            <span className="upload-status">{NEUROFEEDBACK_PROTOCOLS.length} protocols</span>
+          </div>
+        </div>
+        <div className="control-group">
+          <label>Markers</label>
+          <div className="upload-row">
+            {markerTypes.map((type, i) => (
+              <button key={type} className="btn subtle marker-button" title={`Key ${i + 1}`} onClick={() => placeMarker(type)} disabled={eeg.kind === null}>
+                <kbd>{i + 1}</kbd> {type}
+              </button>
+            ))}
+            <input
+              className="url-input"
+              type="text"
+              value={markerText}
+              placeholder="Marker, e.g. started exam question"
+              onChange={e => setMarkerText(e.target.value)}
+              onKeyDown={e => e.key === 'Enter' && addTypedMarker()}
+              disabled={eeg.kind === null}
+            />
+            <button className="btn subtle" onClick={addTypedMarker} disabled={eeg.kind === null || !markerText.trim()}>Mark</button>
+            <button className="btn subtle" onClick={() => setShowEvents(v => !v)}>{showEvents ? 'Hide averages' : 'Event averages'}</button>
+            <span className="upload-status">{userMarkerCount} placed, {annotations.length - userMarkerCount} from source</span>
+          </div>
+        </div>
+        <div className="control-group">
+          <label>Session</label>
+          <div className="upload-row">
+            <button className={`btn ${isRecording ? 'recording' : 'subtle'}`} onClick={toggleRecording} disabled={disableDataUse && !isRecording}>
+              {isRecording ? 'Stop recording' : 'Record'}
+            </button>
+            {isRecording && <span className="upload-status">{recordedFrames} frames</span>}
+            {!isRecording && lastSession && (
+              <>
+                <span className="upload-status">{lastSession.samples.length} frames, {lastSession.markers.length} markers</span>
+                <button className="btn subtle" onClick={() => exportSession('csv')}>CSV</button>
+                <button className="btn subtle" onClick={() => exportSession('json')}>JSON</button>
+                <button className="btn subtle" onClick={() => exportSession('edf')} disabled={lastSession.samples.length === 0}>EDF+</button>
+              </>
+            )}
+          </div>
+        </div>
       </div>
 
+      {mode === 'dataset' && eeg.playback && (
+        <PlaybackTransport
+          duration={eeg.playback.duration}
+          position={playbackTime ?? 0}
+          playing={isRunning}
+          speed={eeg.playback.speed}
+          loop={eeg.playback.loop}
+          stateTrack={stateTrack}
+          annotations={annotations}
+          onPlayPause={toggleRunning}
+          onSeek={eeg.seekPlayback}
+          onStep={eeg.stepPlayback}
+          onSpeed={eeg.setPlaybackSpeed}
+          onLoop={eeg.setPlaybackLoop}
+        />
+      )}
+
+      {showScript && (
+        <ScenarioScriptEditor
+          scenario={scenario}
+          onApply={script => {
+            changeScenario(script, script.seed);
+            setShowScript(false);
+          }}
+          onClose={() => setShowScript(false)}
+        />
+      )}
+
+      {showRules && (
+        <BrainStateRuleEditor
+          ruleSet={ruleSet}
+          frames={scoredFrames}
+          duration={eeg.playback?.duration ?? 0}
+          onApply={applyRules}
+          onClose={() => setShowRules(false)}
+        />
+      )}
+
+      {showTrainer && (
+        <PersonalModelTrainer
+          frames={replayFrames}
+          sourceName={eeg.label}
+          position={playbackTime ?? 0}
+          loop={eeg.playback?.loop ?? null}
+          ruleSet={ruleSet}
+          model={personalModel}
+          onModelChange={applyPersonalModel}
+          onClose={() => setShowTrainer(false)}
+        />
+      )}
+
+      {showCalibration && (
+        <CalibrationWizard
+          metrics={eegData}
+          timestamp={playbackTime}
+          contaminated={contaminated}
+          running={isRunning}
+          sourceLabel={eeg.label || 'Simulated'}
+          profileName={profiles.active.name}
+          onSave={saveBaseline}
+          onCancel={() => setShowCalibration(false)}
+        />
+      )}
+
+      {showNeurofeedback && (
+        <NeurofeedbackTrainer
+          metrics={eegData}
+          bandPowers={bandPowers}
+          timestamp={playbackTime}
+          contaminated={contaminated}
+          running={isRunning}
+          initialProtocolId={neurofeedbackProtocol}
+          onClose={() => setShowNeurofeedback(false)}
+        />
+      )}
+
+      {showEvents && <EventAverages frames={eventFrames} annotations={annotations} onClose={() => setShowEvents(false)} />}
+
+      {pendingEdf && (
+        <EDFChannelPicker
+          header={pendingEdf.header}
+          annotationCount={pendingEdf.annotations.length}
+          selected={edfSelection}
+          onChange={setEdfSelection}
+          onConfirm={handleEdfLoad}
+          onCancel={() => {
+            discardPendingEdf();
+            setUploadStatus('Cancelled');
+          }}
+        />
+      )}
+
       <div className="panels">
         <div className="panel waves">
           <div className="wave">
             <h3>Attention</h3>
             <div className="waveform">
               <canvas ref={canvasRefs.attention} width={800} height={120} className="waveform-canvas" />
-              <div className="waveform-value" style={{ color: '#45B7D1' }}>{eegData.attention.toFixed(1)}%</div>
+              <div className="waveform-value" style={{ color: '#45B7D1' }}>
+                {eegData.attention.toFixed(1)}%
+                {zNow && <span className="metric-z">z {zNow.attention >= 0 ? '+' : ''}{zNow.attention.toFixed(1)}</span>}
+              </div>
             </div>
           </div>
           <div className="wave">
             <h3>Relaxation</h3>
             <div className="waveform">
               <canvas ref={canvasRefs.relaxation} width={800} height={120} className="waveform-canvas" />
-              <div className="waveform-value" style={{ color: '#4ECDC4' }}>{eegData.relaxation.toFixed(1)}%</div>
+              <div className="waveform-value" style={{ color: '#4ECDC4' }}>
+                {eegData.relaxation.toFixed(1)}%
+                {zNow && <span className="metric-z">z {zNow.relaxation >= 0 ? '+' : ''}{zNow.relaxation.toFixed(1)}</span>}
+              </div>
             </div>
           </div>
           <div className="wave">
             <h3>Drowsiness</h3>
             <div className="waveform">
               <canvas ref={canvasRefs.drowsiness} width={800} height={120} className="waveform-canvas" />
-              <div className="waveform-value" style={{ color: '#95E1D3' }}>{eegData.drowsiness.toFixed(1)}%</div>
+              <div className="waveform-value" style={{ color: '#95E1D3' }}>
+                {eegData.drowsiness.toFixed(1)}%
+                {zNow && <span className="metric-z">z {zNow.drowsiness >= 0 ? '+' : ''}{zNow.drowsiness.toFixed(1)}</span>}
+              </div>
             </div>
           </div>
           <div className="wave">
             <h3>Engagement</h3>
             <div className="waveform">
               <canvas ref={canvasRefs.engagement} width={800} height={120} className="waveform-canvas" />
-              <div className="waveform-value" style={{ color: '#FFD93D' }}>{eegData.engagement.toFixed(1)}%</div>
+              <div className="waveform-value" style={{ color: '#FFD93D' }}>
+                {eegData.engagement.toFixed(1)}%
+                {zNow && <span className="metric-z">z {zNow.engagement >= 0 ? '+' : ''}{zNow.engagement.toFixed(1)}</span>}
+              </div>
             </div>
           </div>
         </div>
@@ -350,13 +958,24 @@ const EEGSimulator: React.FC = () => {
               <ul className="feedback-tips">
                 {feedback.tips.map((t, i) => <li key={i}>{t}</li>)}
               </ul>
+              {suggestedProtocol && !showNeurofeedback && (
+                <button className="btn subtle" onClick={() => openNeurofeedback(suggestedProtocol.id)}>Try {suggestedProtocol.name.toLowerCase()}</button>
+              )}
             </div>
           </div>
+          {activeAnnotation && (
+            <div className="annotation-banner">
+              <span className="annotation-time">{activeAnnotation.onset.toFixed(1)}s</span>
+              <span>{activeAnnotation.text}</span>
+            </div>
+          )}
           <div className="eeg-info">
-            <p>This simulator generates EEG-like waveforms</p>
+            <p>Metric plots show the last ~90 s of each index, with markers as dashed lines</p>
           </div>
         </div>
       </div>
+
+      <SignalViews source={signalSource} info={eeg.info} bandPowers={bandPowers} quality={eeg.quality} />
     </div>
   );
 };
@@ -0,0 +1,156 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import './EEGSimulator.css';
+import type { EEGAnnotation, EEGMetrics, MetricFrame } from '@/types/eeg';
+import { eventRelatedAverages, type EventAverage } from '@/utils/eeg/markers';
+
+const METRIC_COLORS: Record<keyof EEGMetrics, string> = {
+  attention: '#45B7D1',
+  relaxation: '#4ECDC4',
+  drowsiness: '#95E1D3',
+  engagement: '#FFD93D',
+};
+
+const WINDOWS = [
+  { pre: 5, post: 10 },
+  { pre: 10, post: 20 },
+  { pre: 30, post: 60 },
+];
+
+const signed = (value: number) => `${value >= 0 ? '+' : ''}${value.toFixed(1)}`;
+
+// Mean course of every metric around the marker, with the marker at 0 s
+const EventCourse: React.FC<{ average: EventAverage; baseline: boolean }> = ({ average, baseline }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+    const w = canvas.width, h = canvas.height;
+    const { offsets, mean } = average;
+    const first = offsets[0];
+    const last = offsets[offsets.length - 1];
+    // Changes are centred on zero; absolute values use the 0–100 scale
+    const extent = baseline
+      ? Math.max(5, ...Object.values(mean).flatMap(series => series.map(Math.abs)))
+      : 50;
+    const mid = baseline ? 0 : 50;
+    const x = (o: number) => ((o - first) / (last - first || 1)) * w;
+    const y = (v: number) => h / 2 - ((v - mid) / extent) * (h / 2 - 4);
+    ctx.clearRect(0, 0, w, h);
+    ctx.strokeStyle = 'rgba(255,255,255,.12)';
+    ctx.lineWidth = 1;
+    ctx.beginPath();
+    ctx.moveTo(0, h / 2);
+    ctx.lineTo(w, h / 2);
+    ctx.stroke();
+    ctx.strokeStyle = 'rgba(255,138,101,.9)';
+    ctx.setLineDash([4, 3]);
+    ctx.beginPath();
+    ctx.moveTo(x(0), 0);
+    ctx.lineTo(x(0), h);
+    ctx.stroke();
+    ctx.setLineDash([]);
+    (Object.keys(mean) as (keyof EEGMetrics)[]).forEach(metric => {
+      ctx.strokeStyle = METRIC_COLORS[metric];
+      ctx.lineWidth = 2;
+      ctx.beginPath();
+      mean[metric].forEach((v, i) => {
+        if (i === 0) ctx.moveTo(x(offsets[i]), y(v)); else ctx.lineTo(x(offsets[i]), y(v));
+      });
+      ctx.stroke();
+    });
+    ctx.fillStyle = 'rgba(255,255,255,.6)';
+    ctx.font = '10px Arial';
+    ctx.textBaseline = 'bottom';
+    ctx.fillText(`${first}s`, 2, h - 2);
+    ctx.fillText(`+${last}s`, w - 30, h - 2);
+    ctx.textBaseline = 'top';
+    ctx.fillText(baseline ? `±${extent.toFixed(0)}` : '0–100', 2, 2);
+  }, [average, baseline]);
+
+  return <canvas ref={canvasRef} width={360} height={110} className="signal-canvas" />;
+};
+
+interface EventAveragesProps {
+  frames: MetricFrame[];
+  annotations: EEGAnnotation[];
+  onClose: () => void;
+}
+
+/**
+ * Event-related averages: the mean course of the metrics around each marker
+ * type, over the frames of the replay or of the live session so far.
+ */
+const EventAverages: React.FC<EventAveragesProps> = ({ frames, annotations, onClose }) => {
+  const [windowIndex, setWindowIndex] = useState(1);
+  const [baseline, setBaseline] = useState(true);
+  const { pre, post } = WINDOWS[windowIndex];
+
+  const averages = useMemo(
+    () => eventRelatedAverages(frames, annotations, { pre, post, step: post >= 60 ? 2 : 1, baseline }),
+    [frames, annotations, pre, post, baseline],
+  );
+
+  return (
+    <div className="rule-editor">
+      <div className="edf-picker-header">
+        <div>
+          <h4>Event-related averages</h4>
+          <p className="notice">
+            Mean course of each metric from {pre} s before to {post} s after every marker of a type, over {frames.length} frames. Markers too close to a gap or the ends are skipped.
+          </p>
+        </div>
+        <div className="edf-picker-actions">
+          <button className="btn subtle" onClick={onClose}>Close</button>
+        </div>
+      </div>
+
+      <div className="upload-row">
+        <select className="transport-speed" value={windowIndex} onChange={e => setWindowIndex(Number(e.target.value))}>
+          {WINDOWS.map((w, i) => <option key={i} value={i}>−{w.pre} s to +{w.post} s</option>)}
+        </select>
+        <label className="nf-setting">
+          <input type="checkbox" checked={baseline} onChange={e => setBaseline(e.target.checked)} />
+          Relative to the pre-marker mean
+        </label>
+        <span className="upload-status">
+          {(Object.keys(METRIC_COLORS) as (keyof EEGMetrics)[]).map(m => (
+            <span key={m} className="event-legend" style={{ color: METRIC_COLORS[m] }}>{m}</span>
+          ))}
+        </span>
+      </div>
+
+      {averages.length === 0 && <p className="notice">No markers yet. Place markers with the quick buttons, the number keys or free text, or load a recording with annotations.</p>}
+
+      <div className="event-grid">
+        {averages.map(average => (
+          <div key={average.type} className="signal-view event-average">
+            <div className="signal-view-header">
+              <h4>{average.label}</h4>
+              <span className="upload-status">
+                n = {average.count}{average.skipped > 0 ? ` (${average.skipped} skipped)` : ''}
+              </span>
+            </div>
+            {average.count > 0 ? (
+              <>
+                <EventCourse average={average} baseline={baseline} />
+                <div className="event-changes">
+                  {(Object.keys(METRIC_COLORS) as (keyof EEGMetrics)[]).map(m => (
+                    <span key={m} style={{ color: METRIC_COLORS[m] }} title={`Mean after minus mean before, ${m}`}>
+                      {signed(average.change[m])}
+                    </span>
+                  ))}
+                </div>
+              </>
+            ) : (
+              <p className="notice">No marker of this type has frames covering the window.</p>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default EventAverages;
@@ -1,29 +1,31 @@
-import { useState, useRef } from 'react';
-import { Mic, MicOff, Cpu, Zap } from 'lucide-react';
+import { useState, useRef, useEffect, useEffectEvent } from 'react';
+import { Mic, MicOff, Cpu } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { useToast } from '@/hooks/use-toast';
-import { Switch } from '@/components/ui/switch';
-import { Label } from '@/components/ui/label';
-import { useEmotionDetection } from '@/hooks/useEmotionDetection';
+import { onConsentWithdrawn, requestConsent } from '@/hooks/useConsent';
 
 interface MicrophoneEmotionAnalyzerProps {
   onEmotionChange?: (emotion: string | null) => void;
+  onActiveChange?: (active: boolean) => void;
 }
 
-export const MicrophoneEmotionAnalyzer = ({ onEmotionChange }: MicrophoneEmotionAnalyzerProps) => {
+export const MicrophoneEmotionAnalyzer = ({ onEmotionChange, onActiveChange }: MicrophoneEmotionAnalyzerProps) => {
   const [isRecording, setIsRecording] = useState(false);
   const [emotion, setEmotion] = useState<string | null>(null);
   const [confidence, setConfidence] = useState(0);
   const [tone, setTone] = useState<string | null>(null);
-  const [useAI, setUseAI] = useState(false);
   const mediaRecorderRef = useRef<MediaRecorder | null>(null);
   const audioContextRef = useRef<AudioContext | null>(null);
   const { toast } = useToast();
-  const { detectVoiceEmotion, isLoading, modelsReady } = useEmotionDetection();
+
+  useEffect(() => {
+    onActiveChange?.(isRecording);
+  }, [isRecording, onActiveChange]);
 
   const startRecording = async () => {
+    if (!(await requestConsent('microphone', ['processing']))) return;
     try {
       const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
       const mediaRecorder = new MediaRecorder(stream);
@@ -35,7 +37,7 @@ export const MicrophoneEmotionAnalyzer = ({ onEmotionChange }: MicrophoneEmotion
       // Simulate emotion analysis every 2 seconds while recording
       const analysisInterval = setInterval(() => {
         if (mediaRecorderRef.current?.state === 'recording') {
-          analyzeVoiceEmotion();
+          simulateEmotion();
         }
       }, 2000);
 
@@ -46,7 +48,7 @@ export const MicrophoneEmotionAnalyzer = ({ onEmotionChange }: MicrophoneEmotion
 
       toast({
         title: "Recording Started",
-        description: "Analyzing voice emotion in real-time",
+        description: "Showing simulated voice emotion readings",
       });
     } catch (error) {
       toast({
@@ -69,23 +71,12 @@ export const MicrophoneEmotionAnalyzer = ({ onEmotionChange }: MicrophoneEmotion
     }
   };
 
-  const analyzeVoiceEmotion = async (audioData?: Float32Array) => {
-    if (useAI && modelsReady && audioData) {
-      try {
-        const result = await detectVoiceEmotion(audioData);
-        setEmotion(result.emotion);
-        setTone(result.tone);
-        setConfidence(Math.round(result.confidence * 100));
-        onEmotionChange?.(result.emotion);
-      } catch (error) {
-        console.error('Voice emotion detection error:', error);
-        simulateEmotion();
-      }
-    } else {
-      simulateEmotion();
-    }
-  };
+  // Withdrawing microphone consent stops the recording straight away
+  const onMicrophoneConsentWithdrawn = useEffectEvent(() => stopRecording());
+
+  useEffect(() => onConsentWithdrawn('microphone', 'processing', () => onMicrophoneConsentWithdrawn()), []);
 
+  // There is no voice emotion model yet: readings are simulated and shown as such
   const simulateEmotion = () => {
     const emotions = ['calm', 'excited', 'confident', 'neutral', 'engaged'];
     const tones = ['steady', 'energetic', 'composed', 'dynamic'];
@@ -111,37 +102,20 @@ export const MicrophoneEmotionAnalyzer = ({ onEmotionChange }: MicrophoneEmotion
             >
               {isRecording ? 'RECORDING' : 'READY'}
             </Badge>
-            <Badge 
-              variant={useAI ? "default" : "secondary"}
-              className="gap-1"
-            >
-              {useAI ? <Zap className="w-3 h-3" /> : <Cpu className="w-3 h-3" />}
-              {useAI ? 'AI' : 'SIM'}
+            <Badge variant="secondary" className="gap-1">
+              <Cpu className="w-3 h-3" />
+              SIM
             </Badge>
           </div>
         </CardTitle>
         <CardDescription>Real-time voice emotion detection</CardDescription>
       </CardHeader>
       <CardContent className="space-y-4">
-        <div className="flex items-center justify-between mb-4 p-3 bg-card/50 rounded-lg border border-primary/10">
-          <div className="flex items-center gap-2">
-            <Label htmlFor="voice-ai-toggle" className="text-sm font-medium cursor-pointer">
-              {useAI ? '🧠 AI Model Detection' : '🎲 Simulated Detection'}
-            </Label>
-            {isLoading && <Badge variant="outline" className="text-xs">Loading...</Badge>}
-          </div>
-          <Switch
-            id="voice-ai-toggle"
-            checked={useAI}
-            onCheckedChange={(checked) => {
-              setUseAI(checked);
-              toast({
-                title: checked ? "AI Detection Enabled" : "AI Detection Disabled",
-                description: checked ? (isLoading ? "Loading AI models..." : "Using real AI models") : "Using simulated detection"
-              });
-            }}
-            disabled={isLoading}
-          />
+        <div className="mb-4 p-3 bg-card/50 rounded-lg border border-primary/10">
+          <span className="text-sm font-medium">🎲 Simulated Detection</span>
+          <p className="text-xs text-muted-foreground mt-1">
+            No voice emotion model is available yet, so the readings below are random and only demonstrate the display.
+          </p>
         </div>
         <div className="relative h-32 bg-card rounded-lg overflow-hidden border border-primary/20 flex items-center justify-center">
           {isRecording ? (
@@ -179,7 +153,7 @@ export const MicrophoneEmotionAnalyzer = ({ onEmotionChange }: MicrophoneEmotion
           <div className="space-y-4 pt-4 border-t border-primary/20">
             <div className="flex items-center justify-between p-3 bg-gradient-to-r from-secondary/10 to-accent/10 rounded-lg">
               <div className="flex flex-col">
-                <span className="text-xs text-muted-foreground">Detected Emotion</span>
+                <span className="text-xs text-muted-foreground">Simulated Emotion</span>
                 <span className="text-2xl font-bold text-primary capitalize">{emotion}</span>
               </div>
               <div className="flex flex-col items-end">
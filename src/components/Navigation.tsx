@@ -1,7 +1,8 @@
 import { useState } from 'react';
 import { Link } from 'react-router-dom';
-import { Brain, Activity, ChevronDown } from 'lucide-react';
+import { Brain, Activity, ChevronDown, ShieldCheck } from 'lucide-react';
 import { Button } from '@/components/ui/button';
+import { openConsentManager } from '@/hooks/useConsent';
 
 export const Navigation = () => {
   const [dashboardOpen, setDashboardOpen] = useState(false);
@@ -41,7 +42,7 @@ export const Navigation = () => {
                   to="/dashboard/sub" 
                   className="block px-4 py-3 text-foreground/80 hover:text-primary hover:bg-primary/10 transition-colors"
                 >
-                  Sub Dashboard
+                  Compare Sessions
                 </Link>
               </div>
             )} */}
@@ -50,6 +51,15 @@ export const Navigation = () => {
           <Link to="/eeg-simulator" className="text-foreground/80 hover:text-primary transition-colors">
             EEG Simulator
           </Link>
+
+          <Link to="/dashboard/sub" className="text-foreground/80 hover:text-primary transition-colors">
+            Compare Sessions
+          </Link>
+
+          <button onClick={openConsentManager} className="flex items-center gap-1 text-foreground/80 hover:text-primary transition-colors">
+            <ShieldCheck className="w-4 h-4" />
+            Privacy
+          </button>
         </div>
         
         <Button className="neon-border bg-primary/10 text-primary hover:bg-primary hover:text-primary-foreground">
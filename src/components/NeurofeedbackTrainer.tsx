@@ -0,0 +1,305 @@
+import React, { useEffect, useEffectEvent, useRef, useState } from 'react';
+import type { BandPowers, EEGMetrics } from '@/types/eeg';
+import { onConsentWithdrawn, requestConsent, useConsent } from '@/hooks/useConsent';
+import {
+  NEUROFEEDBACK_METRICS,
+  NEUROFEEDBACK_PROTOCOLS,
+  NeurofeedbackSession,
+  TARGET_REWARD_RATE,
+  isNeurofeedbackSummary,
+  neurofeedbackValue,
+  type NeurofeedbackMetric,
+  type NeurofeedbackProtocol,
+  type NeurofeedbackSummary,
+  type NeurofeedbackTick,
+} from '@/utils/eeg/neurofeedback';
+
+interface NeurofeedbackTrainerProps {
+  metrics: EEGMetrics;
+  bandPowers: BandPowers | null;
+  // Timestamp of the latest frame; each new value is one sample
+  timestamp: number | null;
+  // Frames flagged by artifact screening earn no reward
+  contaminated: boolean;
+  running: boolean;
+  // Protocol to preselect, e.g. one suggested by the feedback card
+  initialProtocolId?: string | null;
+  onClose: () => void;
+}
+
+const SESSIONS_KEY = 'eegsim_neurofeedback_sessions_v1';
+// Summaries kept in storage, newest first
+const MAX_SESSIONS = 50;
+
+// Session history is stored EEG data: withdrawing that consent deletes it
+onConsentWithdrawn('eeg', 'storage', () => {
+  try {
+    localStorage.removeItem(SESSIONS_KEY);
+  } catch {
+    // Storage unavailable: nothing was saved
+  }
+});
+
+const loadSessions = (): NeurofeedbackSummary[] => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(SESSIONS_KEY) || '[]');
+    return Array.isArray(saved) ? saved.filter(isNeurofeedbackSummary) : [];
+  } catch {
+    // Unreadable history starts afresh
+    return [];
+  }
+};
+
+interface RewardTone {
+  set(on: boolean): void;
+  close(): void;
+}
+
+// Soft tone that fades in while the reward condition holds
+const createRewardTone = (): RewardTone | null => {
+  try {
+    const ctx = new AudioContext();
+    const osc = ctx.createOscillator();
+    const gain = ctx.createGain();
+    osc.frequency.value = 528;
+    gain.gain.value = 0;
+    osc.connect(gain).connect(ctx.destination);
+    osc.start();
+    return {
+      set: on => gain.gain.setTargetAtTime(on ? 0.08 : 0, ctx.currentTime, 0.15),
+      close: () => {
+        ctx.close().catch(() => undefined);
+      },
+    };
+  } catch {
+    // No audio output; the visual reward still works
+    return null;
+  }
+};
+
+const closeTone = (ref: React.MutableRefObject<RewardTone | null>) => {
+  ref.current?.close();
+  ref.current = null;
+};
+
+const formatValue = (metric: NeurofeedbackMetric, value: number) =>
+  metric === 'theta-beta' ? value.toFixed(2) : `${value.toFixed(1)}${NEUROFEEDBACK_METRICS[metric].unit}`;
+
+const formatMinutes = (seconds: number) => `${Math.floor(seconds / 60)}:${String(Math.floor(seconds % 60)).padStart(2, '0')}`;
+
+const percent = (value: number) => `${(value * 100).toFixed(0)}%`;
+
+const signed = (value: number) => `${value >= 0 ? '+' : ''}${value.toFixed(1)}%`;
+
+const NeurofeedbackTrainer: React.FC<NeurofeedbackTrainerProps> = ({ metrics, bandPowers, timestamp, contaminated, running, initialProtocolId, onClose }) => {
+  const [protocolId, setProtocolId] = useState(() =>
+    NEUROFEEDBACK_PROTOCOLS.some(p => p.id === initialProtocolId) ? (initialProtocolId as string) : NEUROFEEDBACK_PROTOCOLS[0].id,
+  );
+  const preset = NEUROFEEDBACK_PROTOCOLS.find(p => p.id === protocolId) ?? NEUROFEEDBACK_PROTOCOLS[0];
+  const [threshold, setThreshold] = useState(preset.threshold);
+  const [minutes, setMinutes] = useState(preset.minutes);
+  const [goal, setGoal] = useState(preset.goalImprovement);
+  const [autoThreshold, setAutoThreshold] = useState(true);
+  const [audio, setAudio] = useState(true);
+  // Protocol of the running session, which lives in sessionRef
+  const [active, setActive] = useState<NeurofeedbackProtocol | null>(null);
+  const [tick, setTick] = useState<NeurofeedbackTick | null>(null);
+  const [summary, setSummary] = useState<NeurofeedbackSummary | null>(null);
+  const [sessions, setSessions] = useState<NeurofeedbackSummary[]>(loadSessions);
+  const sessionRef = useRef<NeurofeedbackSession | null>(null);
+  const toneRef = useRef<RewardTone | null>(null);
+
+  const info = NEUROFEEDBACK_METRICS[preset.metric];
+  const available = neurofeedbackValue(preset.metric, metrics, bandPowers) !== null;
+  const past = sessions.filter(s => s.protocolId === preset.id).slice(0, 5);
+
+  const selectProtocol = (id: string) => {
+    const next = NEUROFEEDBACK_PROTOCOLS.find(p => p.id === id);
+    if (!next) return;
+    setProtocolId(id);
+    setThreshold(next.threshold);
+    setMinutes(next.minutes);
+    setGoal(next.goalImprovement);
+  };
+
+  useEffect(() => () => closeTone(toneRef), []);
+
+  // Without storage consent the history lasts for this visit
+  const storeHistory = useConsent().granted('eeg', 'storage');
+  useEffect(() => {
+    if (!storeHistory) return;
+    try {
+      localStorage.setItem(SESSIONS_KEY, JSON.stringify(sessions));
+    } catch {
+      // Storage unavailable: the history lasts for this visit
+    }
+  }, [sessions, storeHistory]);
+
+  useEffect(() => onConsentWithdrawn('eeg', 'storage', () => setSessions([])), []);
+
+  const endSession = () => {
+    const session = sessionRef.current;
+    if (!session) return;
+    sessionRef.current = null;
+    const result = session.summary();
+    closeTone(toneRef);
+    setActive(null);
+    setTick(null);
+    setSummary(result);
+    if (result.frames > 0) {
+      setSessions(prev => [result, ...prev].slice(0, MAX_SESSIONS));
+      requestConsent('eeg', ['storage']);
+    }
+  };
+
+  const scoreFrame = useEffectEvent((time: number) => {
+    const session = sessionRef.current;
+    if (!session) return;
+    const next = session.update(time, neurofeedbackValue(session.protocol.metric, metrics, bandPowers), contaminated);
+    setTick(next);
+    toneRef.current?.set(next.rewarded);
+    if (session.finished) endSession();
+  });
+
+  // One reward decision per new frame
+  useEffect(() => {
+    if (timestamp !== null) scoreFrame(timestamp);
+  }, [timestamp]);
+
+  const startSession = () => {
+    const protocol = { ...preset, threshold, minutes, goalImprovement: goal };
+    if (audio) toneRef.current = createRewardTone();
+    sessionRef.current = new NeurofeedbackSession(protocol, autoThreshold);
+    setActive(protocol);
+    setTick(null);
+    setSummary(null);
+  };
+
+  const toggleAudio = (on: boolean) => {
+    setAudio(on);
+    if (!active) return;
+    if (on && !toneRef.current) toneRef.current = createRewardTone();
+    if (!on) closeTone(toneRef);
+  };
+
+  const protocol = active ?? preset;
+  // Meter spans twice the threshold so the threshold sits in the middle
+  const meter = tick?.value != null && tick.threshold > 0 ? Math.min(1, tick.value / (2 * tick.threshold)) : 0;
+
+  return (
+    <div className="rule-editor neurofeedback">
+      <div className="edf-picker-header">
+        <div>
+          <h4>Neurofeedback training</h4>
+          <p className="notice">
+            Rewards arrive as a tone and a glow whenever the trained measure is on the right side of the threshold. Auto-threshold keeps the reward rate near {percent(TARGET_REWARD_RATE[0])}–{percent(TARGET_REWARD_RATE[1])}.
+          </p>
+        </div>
+        <div className="edf-picker-actions">
+          {active && <button className="btn subtle" onClick={endSession}>End session</button>}
+          <button className="btn subtle" onClick={onClose}>Close</button>
+        </div>
+      </div>
+
+      {!active && (
+        <div className="calibration-block">
+          <div className="upload-row">
+            <select className="transport-speed" value={protocolId} onChange={e => selectProtocol(e.target.value)}>
+              {NEUROFEEDBACK_PROTOCOLS.map(p => <option key={p.id} value={p.id}>{p.name} ({p.purpose.toLowerCase()})</option>)}
+            </select>
+            <span className="upload-status">Trains {info.label.toLowerCase()} {preset.direction === 'up' ? 'upwards' : 'downwards'}</span>
+          </div>
+          <p className="notice">{preset.description}</p>
+          <div className="upload-row">
+            <label className="nf-setting">
+              {autoThreshold ? 'Starting threshold' : 'Threshold'}
+              <input className="number-input" type="number" min={0} step={preset.metric === 'theta-beta' ? 0.05 : 0.5} value={threshold} onChange={e => setThreshold(Math.max(0, Number(e.target.value) || 0))} />
+            </label>
+            <label className="nf-setting">
+              Minutes
+              <input className="number-input" type="number" min={1} max={60} value={minutes} onChange={e => setMinutes(Math.min(60, Math.max(1, Number(e.target.value) || 1)))} />
+            </label>
+            <label className="nf-setting">
+              Goal (% improvement)
+              <input className="number-input" type="number" min={0} max={100} value={goal} onChange={e => setGoal(Math.min(100, Math.max(0, Number(e.target.value) || 0)))} />
+            </label>
+            <label className="nf-setting">
+              <input type="checkbox" checked={autoThreshold} onChange={e => setAutoThreshold(e.target.checked)} /> Auto-threshold
+            </label>
+            <label className="nf-setting">
+              <input type="checkbox" checked={audio} onChange={e => toggleAudio(e.target.checked)} /> Audio reward
+            </label>
+          </div>
+          <div className="upload-row">
+            <button className="btn primary" onClick={startSession} disabled={!running || !available}>Start session</button>
+            {!running && <span className="upload-status">Start an EEG source first (simulated, dataset or live)</span>}
+            {running && !available && <span className="upload-status">{info.label} needs band powers: replay a raw recording or connect a live stream</span>}
+          </div>
+        </div>
+      )}
+
+      {active && (
+        <div className="nf-live">
+          <div className="nf-orb" data-rewarded={tick?.rewarded ? 'true' : 'false'} style={{ transform: `scale(${0.7 + 0.5 * meter})` }} />
+          <div className="calibration-block">
+            <h4>{protocol.name}</h4>
+            <div className="nf-meter">
+              <div className="nf-meter-fill" data-rewarded={tick?.rewarded ? 'true' : 'false'} style={{ width: `${meter * 100}%` }} />
+              <div className="nf-meter-threshold" />
+            </div>
+            <span className="upload-status">
+              {tick?.value != null ? formatValue(protocol.metric, tick.value) : '—'} • threshold {formatValue(protocol.metric, tick?.threshold ?? protocol.threshold)}
+              {tick?.skipped && (contaminated ? ' • artifact, no reward' : ' • no usable value')}
+            </span>
+            <span className="upload-status">
+              {formatMinutes(tick?.elapsed ?? 0)} of {protocol.minutes}:00 • rewarded {percent(tick?.rewardRate ?? 0)} of the last 30 s
+            </span>
+            {!running && <span className="upload-status">Source paused: the session resumes with it</span>}
+          </div>
+        </div>
+      )}
+
+      {summary && (
+        <div className="calibration-block">
+          <h4>
+            Session summary • {summary.protocolName}
+            <span className="nf-goal" data-met={summary.goalMet ? 'true' : 'false'}>{summary.goalMet ? 'Goal met' : 'Goal not met'}</span>
+          </h4>
+          {summary.frames === 0 ? (
+            <p className="notice">No frames were scored, so this session was not saved.</p>
+          ) : (
+            <div className="nf-summary">
+              <span>Duration</span><span>{formatMinutes(summary.seconds)}</span>
+              <span>Rewarded</span><span>{formatMinutes(summary.rewardSeconds)} ({percent(summary.rewardRate)} of frames)</span>
+              <span>Longest reward</span><span>{summary.longestRewardSeconds.toFixed(1)} s</span>
+              <span>{NEUROFEEDBACK_METRICS[summary.metric].label}</span>
+              <span>{formatValue(summary.metric, summary.startValue)} → {formatValue(summary.metric, summary.endValue)} (mean {formatValue(summary.metric, summary.meanValue)})</span>
+              <span>Improvement</span><span>{signed(summary.improvement)} against a goal of {summary.goalImprovement}%</span>
+              <span>Threshold</span><span>{formatValue(summary.metric, summary.thresholdStart)} → {formatValue(summary.metric, summary.thresholdEnd)}</span>
+              <span>Skipped frames</span><span>{summary.skippedFrames}</span>
+            </div>
+          )}
+        </div>
+      )}
+
+      {!active && past.length > 0 && (
+        <div className="calibration-block">
+          <h4>Previous {preset.name.toLowerCase()} sessions</h4>
+          <div className="nf-summary">
+            {past.map(s => (
+              <React.Fragment key={s.startedAt}>
+                <span>{new Date(s.startedAt).toLocaleDateString()}</span>
+                <span>
+                  {formatMinutes(s.seconds)} • {percent(s.rewardRate)} rewarded • {signed(s.improvement)} • threshold {formatValue(s.metric, s.thresholdEnd)}
+                  {s.goalMet && ' • goal met'}
+                </span>
+              </React.Fragment>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default NeurofeedbackTrainer;
@@ -0,0 +1,116 @@
+import { useEffect, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import {
+  FACE_CALIBRATION_INTERVAL_MS,
+  FACE_CALIBRATION_SECONDS,
+  computeFaceBaseline,
+  type FaceBaseline,
+} from '@/utils/faceCalibration';
+
+interface NeutralFaceCalibrationProps {
+  // Expression scores of the current camera frame before any baseline; null without a face
+  capture: () => Promise<Record<string, number> | null>;
+  profileName: string;
+  onSave: (baseline: FaceBaseline) => void;
+  onCancel: () => void;
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Resting scores worth mentioning in the summary
+const SUMMARY_MIN_SCORE = 0.05;
+
+/**
+ * Captures a few seconds of the user's relaxed, neutral face and shows the
+ * resting expression scores before they are saved to the profile.
+ */
+export const NeutralFaceCalibration = ({ capture, profileName, onSave, onCancel }: NeutralFaceCalibrationProps) => {
+  const [capturing, setCapturing] = useState(false);
+  const [elapsed, setElapsed] = useState(0);
+  const [faceFrames, setFaceFrames] = useState(0);
+  const [result, setResult] = useState<FaceBaseline | null>(null);
+  const [error, setError] = useState('');
+  const cancelledRef = useRef(false);
+
+  useEffect(() => {
+    cancelledRef.current = false;
+    return () => {
+      cancelledRef.current = true;
+    };
+  }, []);
+
+  const start = async () => {
+    setCapturing(true);
+    setResult(null);
+    setError('');
+    setElapsed(0);
+    setFaceFrames(0);
+
+    const frames: Array<Record<string, number>> = [];
+    const startedAt = performance.now();
+    while (performance.now() - startedAt < FACE_CALIBRATION_SECONDS * 1000) {
+      const scores = await capture();
+      if (cancelledRef.current) return;
+      if (scores) frames.push(scores);
+      setFaceFrames(frames.length);
+      setElapsed((performance.now() - startedAt) / 1000);
+      await sleep(FACE_CALIBRATION_INTERVAL_MS);
+    }
+
+    setCapturing(false);
+    try {
+      setResult(computeFaceBaseline(frames));
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Calibration failed');
+    }
+  };
+
+  const summary = result
+    ? Object.entries(result.scores)
+        .filter(([, score]) => score >= SUMMARY_MIN_SCORE)
+        .sort((a, b) => b[1] - a[1])
+        .map(([emotion, score]) => `${emotion} ${Math.round(score * 100)}%`)
+        .join(', ')
+    : '';
+
+  return (
+    <div className="space-y-3 rounded-lg border border-primary/40 bg-background/80 p-4 shadow-inner backdrop-blur">
+      <div>
+        <h4 className="text-sm font-semibold text-foreground">Neutral face calibration</h4>
+        <p className="text-xs text-muted-foreground">
+          Look at the camera with a relaxed, neutral face for {FACE_CALIBRATION_SECONDS} seconds. Expressions are then scored
+          against it for {profileName}, so a resting face is not read as sad or angry.
+        </p>
+      </div>
+
+      {capturing && (
+        <div className="space-y-1">
+          <Progress value={(elapsed / FACE_CALIBRATION_SECONDS) * 100} aria-label="Calibration progress" />
+          <p className="text-xs text-muted-foreground" role="status">{faceFrames} frames with a face</p>
+        </div>
+      )}
+
+      {result && (
+        <p className="text-sm" role="status">
+          Resting face: {summary}. From {result.frames} frames.
+        </p>
+      )}
+      {error && <p className="text-sm text-yellow-600" role="alert">{error}. Make sure your face is well lit and in view.</p>}
+
+      <div className="flex gap-2 justify-end">
+        <Button type="button" size="sm" variant="ghost" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button type="button" size="sm" variant="outline" onClick={start} disabled={capturing}>
+          {result || error ? 'Capture again' : 'Start'}
+        </Button>
+        {result && (
+          <Button type="button" size="sm" onClick={() => onSave(result)}>
+            Save
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+};
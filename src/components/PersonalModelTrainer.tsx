@@ -0,0 +1,209 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import type { MetricFrame } from '@/types/eeg';
+import type { BrainStateRuleSet } from '@/utils/eeg/brainStateRules';
+import {
+  examplesFromSegment,
+  type ModelKind,
+  type ModelLabel,
+  type PersonalModel,
+  type TrainingExample,
+} from '@/utils/eeg/personalClassifier';
+import { getEEGWorker } from '@/utils/eeg/workerClient';
+import { onConsentWithdrawn, requestConsent } from '@/hooks/useConsent';
+
+interface PersonalModelTrainerProps {
+  // Recording being replayed; labelling needs frames with band powers
+  frames: MetricFrame[] | null;
+  sourceName: string;
+  position: number;
+  loop: [number, number] | null;
+  ruleSet: BrainStateRuleSet;
+  model: PersonalModel | null;
+  onModelChange: (model: PersonalModel | null) => void;
+  onClose: () => void;
+}
+
+const EXAMPLES_KEY = 'eegsim_personal_examples_v1';
+const EXTRA_COLORS = ['#A78BFA', '#F472B6', '#60A5FA', '#FBBF24', '#34D399', '#F87171'];
+
+// Labelled examples are stored EEG data: withdrawing that consent deletes them
+onConsentWithdrawn('eeg', 'storage', () => {
+  try {
+    localStorage.removeItem(EXAMPLES_KEY);
+  } catch {
+    // Storage unavailable: nothing was saved
+  }
+});
+
+const loadExamples = (): TrainingExample[] => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(EXAMPLES_KEY) || '[]');
+    return Array.isArray(saved) ? saved : [];
+  } catch {
+    // Unreadable examples start a fresh training set
+    return [];
+  }
+};
+
+const percent = (value: number) => `${(value * 100).toFixed(0)}%`;
+
+const PersonalModelTrainer: React.FC<PersonalModelTrainerProps> = ({ frames, sourceName, position, loop, ruleSet, model, onModelChange, onClose }) => {
+  const [examples, setExamples] = useState<TrainingExample[]>(loadExamples);
+  const [label, setLabel] = useState('');
+  const [start, setStart] = useState('');
+  const [end, setEnd] = useState('');
+  const [kind, setKind] = useState<ModelKind>('logistic');
+  const [trained, setTrained] = useState<PersonalModel | null>(null);
+  const [message, setMessage] = useState('');
+  const [training, setTraining] = useState(false);
+
+  // Without storage consent the examples last for this visit
+  const storeExamples = async (next: TrainingExample[]) => {
+    setExamples(next);
+    setTrained(null);
+    const store = next.length === 0 || (await requestConsent('eeg', ['storage']));
+    try {
+      if (next.length > 0 && store) localStorage.setItem(EXAMPLES_KEY, JSON.stringify(next));
+      else localStorage.removeItem(EXAMPLES_KEY);
+    } catch {
+      setMessage('Could not save examples; they will be lost on reload');
+    }
+  };
+
+  useEffect(
+    () =>
+      onConsentWithdrawn('eeg', 'storage', () => {
+        setExamples([]);
+        setTrained(null);
+      }),
+    [],
+  );
+
+  const hasBandPowers = !!frames?.some(f => f.bandPowers);
+  const counts = useMemo(() => {
+    const byLabel = new Map<string, number>();
+    examples.forEach(e => byLabel.set(e.label, (byLabel.get(e.label) ?? 0) + 1));
+    return [...byLabel];
+  }, [examples]);
+
+  // Rule colours for labels that name a rule state, a palette colour otherwise
+  const labels = useMemo<ModelLabel[]>(
+    () =>
+      counts.map(([name], i) => {
+        const rule = [...ruleSet.rules, ruleSet.fallback].find(r => r.label.toLowerCase() === name.toLowerCase());
+        return { label: name, color: rule?.color ?? EXTRA_COLORS[i % EXTRA_COLORS.length] };
+      }),
+    [counts, ruleSet],
+  );
+
+  const fillFromLoop = () => {
+    if (!loop) return;
+    setStart(loop[0].toFixed(2));
+    setEnd(loop[1].toFixed(2));
+  };
+
+  const addSegment = () => {
+    const name = label.trim();
+    const from = Number(start);
+    const to = Number(end);
+    if (!frames || !name || !Number.isFinite(from) || !Number.isFinite(to) || to <= from) {
+      setMessage('Enter a label and a start before the end');
+      return;
+    }
+    const added = examplesFromSegment(frames, { start: from, end: to, label: name }, sourceName);
+    if (added.length === 0) {
+      setMessage('No frames with band powers in that range');
+      return;
+    }
+    // Relabelling a range replaces earlier labels of the same frames; time order keeps validation folds honest
+    const kept = examples.filter(e => e.source !== sourceName || e.time < from || e.time > to);
+    storeExamples([...kept, ...added].sort((a, b) => a.source.localeCompare(b.source) || a.time - b.time));
+    setMessage(`Labelled ${added.length} frames as ${name}`);
+  };
+
+  const train = async () => {
+    setTraining(true);
+    setMessage('Training…');
+    try {
+      const next = await getEEGWorker().request('trainModel', { examples, labels, options: { kind } });
+      setTrained(next);
+      setMessage('');
+    } catch (e) {
+      setTrained(null);
+      setMessage(e instanceof Error ? e.message : 'Training failed');
+    } finally {
+      setTraining(false);
+    }
+  };
+
+  return (
+    <div className="rule-editor">
+      <div className="edf-picker-header">
+        <div>
+          <h4>Personal classifier</h4>
+          <p className="notice">
+            {model
+              ? `Using your ${model.kind === 'mlp' ? 'MLP' : 'logistic'} model (${model.validation ? `${percent(model.validation.accuracy)} cross-validated` : 'not validated'}) for frames with band powers.`
+              : 'Using the rule-based brain states.'}
+          </p>
+        </div>
+        <div className="edf-picker-actions">
+          {model && <button className="btn subtle" onClick={() => onModelChange(null)}>Revert to rules</button>}
+          <button className="btn subtle" onClick={onClose}>Close</button>
+        </div>
+      </div>
+
+      <div className="upload-row">
+        <input className="url-input" type="text" list="personal-labels" value={label} placeholder="State, e.g. Focused" onChange={e => setLabel(e.target.value)} />
+        <datalist id="personal-labels">
+          {ruleSet.rules.map(r => <option key={r.label} value={r.label} />)}
+        </datalist>
+        <input className="number-input" type="number" step={0.25} min={0} value={start} placeholder="From (s)" onChange={e => setStart(e.target.value)} />
+        <input className="number-input" type="number" step={0.25} min={0} value={end} placeholder="To (s)" onChange={e => setEnd(e.target.value)} />
+        <button className="btn subtle" onClick={() => setStart(position.toFixed(2))}>From here</button>
+        <button className="btn subtle" onClick={() => setEnd(position.toFixed(2))}>To here</button>
+        <button className="btn subtle" onClick={fillFromLoop} disabled={!loop}>Use A–B</button>
+        <button className="btn primary" onClick={addSegment} disabled={!hasBandPowers}>Label</button>
+      </div>
+      {!hasBandPowers && <p className="notice">Load a raw EEG recording (band powers are needed) to label segments.</p>}
+
+      <div className="personal-counts">
+        {counts.length === 0 && <span className="upload-status">No labelled frames yet</span>}
+        {counts.map(([name, n]) => (
+          <span key={name} className="personal-count">
+            {name} • {n}
+            <button onClick={() => storeExamples(examples.filter(e => e.label !== name))} aria-label={`Remove ${name} examples`}>×</button>
+          </span>
+        ))}
+      </div>
+
+      <div className="upload-row">
+        <div className="segmented">
+          <button className={kind === 'logistic' ? 'active' : ''} onClick={() => setKind('logistic')}>Logistic regression</button>
+          <button className={kind === 'mlp' ? 'active' : ''} onClick={() => setKind('mlp')}>Small MLP</button>
+        </div>
+        <button className="btn primary" onClick={train} disabled={counts.length < 2 || training}>{training ? 'Training…' : 'Train & validate'}</button>
+        {trained && <button className="btn primary" onClick={() => onModelChange(trained)}>Use this model</button>}
+        {message && <span className="upload-status">{message}</span>}
+      </div>
+
+      {trained?.validation && (
+        <div className="personal-report">
+          <p className="notice">
+            {percent(trained.validation.accuracy)} accuracy over {trained.validation.folds} time-ordered folds
+            ({trained.validation.foldAccuracies.map(percent).join(', ')}) from {trained.examples} frames
+          </p>
+          {trained.labels.map((l, i) => (
+            <div key={l.label} className="band-row">
+              <span className="band-label">{l.label}</span>
+              <div className="band-bar"><div style={{ width: percent(trained.validation.recall[i]), background: l.color }} /></div>
+              <span className="band-value">{percent(trained.validation.recall[i])} recall</span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PersonalModelTrainer;
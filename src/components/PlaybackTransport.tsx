@@ -0,0 +1,108 @@
+import React, { useState } from 'react';
+import type { EEGAnnotation } from '@/types/eeg';
+import type { BrainStateRun } from '@/utils/eeg/brainStateRules';
+import { PLAYBACK_SPEEDS } from '@/utils/eeg/sources';
+
+interface PlaybackTransportProps {
+  duration: number;
+  position: number;
+  playing: boolean;
+  speed: number;
+  loop: [number, number] | null;
+  // Brain state over the recording, drawn under the timeline
+  stateTrack: BrainStateRun[];
+  annotations: EEGAnnotation[];
+  onPlayPause: () => void;
+  onSeek: (time: number) => void;
+  onStep: (delta: number) => void;
+  onSpeed: (speed: number) => void;
+  onLoop: (range: [number, number] | null) => void;
+}
+
+const formatTime = (seconds: number) => {
+  const m = Math.floor(seconds / 60);
+  const s = seconds - m * 60;
+  return `${m}:${s.toFixed(1).padStart(4, '0')}`;
+};
+
+const PlaybackTransport: React.FC<PlaybackTransportProps> = ({
+  duration,
+  position,
+  playing,
+  speed,
+  loop,
+  stateTrack,
+  annotations,
+  onPlayPause,
+  onSeek,
+  onStep,
+  onSpeed,
+  onLoop,
+}) => {
+  // Point A waiting for its B
+  const [loopStart, setLoopStart] = useState<number | null>(null);
+  const pct = (t: number) => `${(Math.max(0, Math.min(duration, t)) / (duration || 1)) * 100}%`;
+
+  const setA = () => {
+    setLoopStart(position);
+    onLoop(null);
+  };
+  const setB = () => {
+    if (loopStart === null) return;
+    onLoop([loopStart, position]);
+    setLoopStart(null);
+  };
+  const clearLoop = () => {
+    setLoopStart(null);
+    onLoop(null);
+  };
+
+  return (
+    <div className="transport">
+      <div className="transport-timeline">
+        <div className="transport-track">
+          {stateTrack.map((s, i) => (
+            <div
+              key={i}
+              className="transport-segment"
+              title={`${s.label} ${formatTime(s.start)}–${formatTime(s.end)}`}
+              style={{ left: pct(s.start), width: `calc(${pct(s.end)} - ${pct(s.start)})`, background: s.color }}
+            />
+          ))}
+          {loop && <div className="transport-loop" style={{ left: pct(loop[0]), width: `calc(${pct(loop[1])} - ${pct(loop[0])})` }} />}
+          {loopStart !== null && <div className="transport-loop-mark" style={{ left: pct(loopStart) }} />}
+          {annotations.map((a, i) => (
+            <div key={i} className="transport-annotation" data-origin={a.origin ?? 'source'} style={{ left: pct(a.onset) }} title={`${formatTime(a.onset)} ${a.text}`} />
+          ))}
+        </div>
+        <input
+          className="transport-scrub"
+          type="range"
+          min={0}
+          max={duration}
+          step={0.01}
+          value={Math.min(position, duration)}
+          onChange={e => onSeek(Number(e.target.value))}
+          aria-label="Playback position"
+        />
+      </div>
+      <div className="transport-controls">
+        <button className="btn subtle" onClick={() => onStep(-1)} title="Previous frame">◀|</button>
+        <button className="btn primary" onClick={onPlayPause}>{playing ? 'Pause' : 'Play'}</button>
+        <button className="btn subtle" onClick={() => onStep(1)} title="Next frame">|▶</button>
+        <span className="transport-time">{formatTime(position)} / {formatTime(duration)}</span>
+        <select className="transport-speed" value={speed} onChange={e => onSpeed(Number(e.target.value))} aria-label="Playback speed">
+          {PLAYBACK_SPEEDS.map(s => <option key={s} value={s}>{s}×</option>)}
+        </select>
+        <div className="segmented">
+          <button className={loopStart !== null ? 'active' : ''} onClick={setA}>Set A</button>
+          <button onClick={setB} disabled={loopStart === null || Math.abs(position - loopStart) < 1e-6}>Set B</button>
+          <button onClick={clearLoop} disabled={!loop && loopStart === null}>Clear loop</button>
+        </div>
+        {loop && <span className="transport-time">Loop {formatTime(loop[0])}–{formatTime(loop[1])}</span>}
+      </div>
+    </div>
+  );
+};
+
+export default PlaybackTransport;
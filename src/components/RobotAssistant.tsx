@@ -6,6 +6,7 @@ import { Input } from '@/components/ui/input';
 import { useToast } from '@/hooks/use-toast';
 import { useRobotConversation } from '@/hooks/useRobotConversation';
 import { useWakeWord } from '@/hooks/useWakeWord';
+import { requestConsent } from '@/hooks/useConsent';
 
 interface RobotAssistantProps {
   facialEmotion: string;
@@ -94,6 +95,7 @@ export const RobotAssistant = ({ facialEmotion, voiceEmotion, engagement, attent
 
   const handleSendMessage = async () => {
     if (!userInput.trim() || isProcessing) return;
+    if (!(await requestConsent('chat'))) return;
 
     const input = userInput;
     setUserInput("");
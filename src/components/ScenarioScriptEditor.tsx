@@ -0,0 +1,89 @@
+import React, { useMemo, useState } from 'react';
+import {
+  SYNTHETIC_STATE_PRESETS,
+  parseScenario,
+  scenarioDuration,
+  type SyntheticScenario,
+  type SyntheticState,
+} from '@/utils/eeg/synthetic';
+
+interface ScenarioScriptEditorProps {
+  scenario: SyntheticScenario;
+  onApply: (scenario: SyntheticScenario) => void;
+  onClose: () => void;
+}
+
+const STATE_COLORS: Record<SyntheticState, string> = {
+  neutral: '#95A5A6',
+  focused: '#2ECC71',
+  relaxed: '#4ECDC4',
+  'eyes-closed': '#6C5CE7',
+  drowsy: '#9B59B6',
+  stressed: '#FF8C42',
+};
+
+const toText = (scenario: SyntheticScenario) => JSON.stringify(scenario, null, 2);
+
+const formatTime = (seconds: number) => `${Math.floor(seconds / 60)}:${String(Math.round(seconds % 60)).padStart(2, '0')}`;
+
+const ScenarioScriptEditor: React.FC<ScenarioScriptEditorProps> = ({ scenario, onApply, onClose }) => {
+  const [text, setText] = useState(() => toText(scenario));
+  const parsed = useMemo(() => parseScenario(text), [text]);
+  const preview = parsed.scenario;
+  const duration = preview ? scenarioDuration(preview) : 0;
+  const pct = (t: number) => (t / (duration || 1)) * 100;
+
+  const segments = (preview?.segments ?? []).map((segment, i, all) => ({
+    segment,
+    start: all.slice(0, i).reduce((sum, s) => sum + s.seconds, 0),
+  }));
+
+  return (
+    <div className="rule-editor">
+      <div className="edf-picker-header">
+        <div>
+          <h4>Scenario script</h4>
+          <p className="notice">Segments play in order and blend over their transition; events are seconds from the start.</p>
+        </div>
+        <div className="edf-picker-actions">
+          <button className="btn subtle" onClick={() => setText(toText(scenario))}>Reset</button>
+          <button className="btn subtle" onClick={onClose}>Close</button>
+          <button className="btn primary" onClick={() => preview && onApply(preview)} disabled={!preview}>Apply</button>
+        </div>
+      </div>
+      <textarea className="rule-editor-text" value={text} onChange={e => setText(e.target.value)} spellCheck={false} />
+      {parsed.errors.length > 0 && (
+        <ul className="rule-editor-errors">
+          {parsed.errors.slice(0, 6).map((e, i) => <li key={i}>{e}</li>)}
+        </ul>
+      )}
+      {preview && (
+        <div className="rule-preview">
+          <div className="rule-preview-row">
+            <span className="rule-preview-title">Timeline</span>
+            <div className="rule-preview-track">
+              {segments.map(({ segment, start }, i) => (
+                <div
+                  key={i}
+                  className="transport-segment"
+                  title={`${formatTime(start)} ${segment.label ?? SYNTHETIC_STATE_PRESETS[segment.state].label}`}
+                  style={{ left: `${pct(start)}%`, width: `${pct(segment.seconds)}%`, background: STATE_COLORS[segment.state] }}
+                />
+              ))}
+              {preview.events.map((event, i) => (
+                <div key={`e${i}`} className="scenario-event" title={`${formatTime(event.at)} ${event.artifact}`} style={{ left: `${pct(event.at)}%` }} />
+              ))}
+            </div>
+            <span className="rule-preview-meta">{formatTime(duration)}{preview.loop ? ' ↻' : ''}</span>
+          </div>
+          <p className="notice">
+            {segments.map(({ segment, start }) => `${formatTime(start)} ${SYNTHETIC_STATE_PRESETS[segment.state].label}`).join(' → ')}
+            {preview.events.length > 0 && ` • ${preview.events.length} scheduled artifacts`}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ScenarioScriptEditor;
@@ -0,0 +1,296 @@
+import React, { useMemo, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { parseSessionFile, type EEGSession } from '@/utils/eeg/session';
+import {
+  SESSION_BANDS,
+  SESSION_METRICS,
+  SIGNIFICANCE_LEVEL,
+  compareSessions,
+  summarizeSession,
+  type Distribution,
+} from '@/utils/eeg/sessionStats';
+import { DEFAULT_RULE_SET } from '@/utils/eeg/brainStateRules';
+
+const SESSION_COLORS = ['#45B7D1', '#FF8A65', '#4ECDC4', '#FFD93D', '#A78BFA', '#F472B6'];
+const EXTRA_STATE_COLORS = ['#60A5FA', '#FBBF24', '#34D399', '#F87171', '#C084FC', '#94A3B8'];
+
+// Brain states keep their rule colours; labels from custom rules get a spare one
+const stateColor = (label: string, index: number) =>
+  DEFAULT_RULE_SET.rules.find(r => r.label === label)?.color ??
+  (DEFAULT_RULE_SET.fallback.label === label ? DEFAULT_RULE_SET.fallback.color : EXTRA_STATE_COLORS[index % EXTRA_STATE_COLORS.length]);
+
+const capitalize = (text: string) => text[0].toUpperCase() + text.slice(1);
+
+const formatDuration = (seconds: number) => {
+  const m = Math.floor(seconds / 60);
+  const s = Math.round(seconds % 60);
+  return `${m}:${s.toString().padStart(2, '0')}`;
+};
+
+const formatP = (p: number) => (p < 0.001 ? '< 0.001' : p.toFixed(3));
+const signed = (value: number, digits = 1) => `${value >= 0 ? '+' : ''}${value.toFixed(digits)}`;
+
+// Box plot on the 0–100 scale: whiskers min–max, box quartiles, tick at the median
+const BoxPlot: React.FC<{ distribution: Distribution; color: string }> = ({ distribution: d, color }) => (
+  <div className="relative h-5 w-full rounded bg-card-foreground/5" title={`min ${d.min.toFixed(1)}, Q1 ${d.q1.toFixed(1)}, median ${d.median.toFixed(1)}, Q3 ${d.q3.toFixed(1)}, max ${d.max.toFixed(1)}`}>
+    <div className="absolute top-1/2 h-px" style={{ left: `${d.min}%`, width: `${Math.max(0, d.max - d.min)}%`, background: color }} />
+    <div className="absolute top-1 bottom-1 rounded-sm border" style={{ left: `${d.q1}%`, width: `${Math.max(0.5, d.q3 - d.q1)}%`, borderColor: color, background: `${color}33` }} />
+    <div className="absolute top-0 bottom-0 w-0.5" style={{ left: `${d.median}%`, background: color }} />
+  </div>
+);
+
+/**
+ * Side-by-side comparison of recorded EEG sessions: metric distributions,
+ * time in each brain state, relative band powers, and tests of every session
+ * against a reference session.
+ */
+const SessionComparison: React.FC = () => {
+  const [sessions, setSessions] = useState<EEGSession[]>([]);
+  const [referenceId, setReferenceId] = useState<string | null>(null);
+  const [errors, setErrors] = useState<string[]>([]);
+
+  const loadFiles = async (files: FileList) => {
+    const loaded: EEGSession[] = [];
+    const failed: string[] = [];
+    for (const file of Array.from(files)) {
+      try {
+        loaded.push(parseSessionFile(await file.text(), file.name));
+      } catch (e) {
+        failed.push(`${file.name}: ${e instanceof Error ? e.message : 'could not be read'}`);
+      }
+    }
+    setErrors(failed);
+    setSessions(prev => {
+      // Sessions exported twice, or loaded again, replace the earlier copy
+      const ids = new Set(loaded.map(s => s.id));
+      return [...prev.filter(s => !ids.has(s.id)), ...loaded];
+    });
+  };
+
+  const removeSession = (id: string) => {
+    setSessions(prev => prev.filter(s => s.id !== id));
+    if (referenceId === id) setReferenceId(null);
+  };
+
+  const reference = sessions.find(s => s.id === referenceId) ?? sessions[0] ?? null;
+  const summaries = useMemo(() => sessions.map(summarizeSession), [sessions]);
+  const tests = useMemo(
+    () => (reference && sessions.length > 1 ? compareSessions(reference, sessions.filter(s => s !== reference)) : []),
+    [reference, sessions],
+  );
+  const colorOf = (id: string) => SESSION_COLORS[sessions.findIndex(s => s.id === id) % SESSION_COLORS.length];
+  const stateLabels = [...new Set(summaries.flatMap(s => s.states.map(st => st.label)))];
+  const withBands = summaries.filter(s => s.bands);
+  const referenceSummary = summaries.find(s => s.id === reference?.id) ?? null;
+
+  return (
+    <div className="space-y-6">
+      <Card className="cyber-card">
+        <CardHeader>
+          <CardTitle className="text-2xl gradient-text">Sessions</CardTitle>
+          <CardDescription>
+            Load two or more sessions exported from the EEG simulator as JSON or CSV. Every session is compared with the reference.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <input
+            type="file"
+            multiple
+            accept=".json,.csv,application/json,text/csv"
+            onChange={e => {
+              if (e.target.files) void loadFiles(e.target.files);
+              e.target.value = '';
+            }}
+            className="text-sm text-foreground/70"
+          />
+          {errors.map(error => (
+            <p key={error} className="text-sm text-destructive">{error}</p>
+          ))}
+          {sessions.length === 0 && <p className="text-sm text-foreground/60">No sessions loaded yet.</p>}
+          <div className="space-y-2">
+            {summaries.map(s => (
+              <div key={s.id} className="flex flex-wrap items-center gap-3 p-3 rounded-lg bg-card border border-primary/20">
+                <span className="w-3 h-3 rounded-full" style={{ background: colorOf(s.id) }} />
+                <span className="font-medium">{s.label}</span>
+                <span className="text-sm text-foreground/60">
+                  {s.startedAt ? `${new Date(s.startedAt).toLocaleString()} • ` : ''}{formatDuration(s.seconds)} • {s.frames} frames
+                </span>
+                <label className="ml-auto flex items-center gap-2 text-sm">
+                  <input type="radio" name="reference" checked={reference?.id === s.id} onChange={() => setReferenceId(s.id)} />
+                  Reference
+                </label>
+                <Button variant="ghost" size="sm" onClick={() => removeSession(s.id)}>Remove</Button>
+              </div>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+
+      {summaries.length > 0 && (
+        <Card className="cyber-card">
+          <CardHeader>
+            <CardTitle className="text-2xl gradient-text">Metric distributions</CardTitle>
+            <CardDescription>Range, quartiles and median of every frame on the 0–100 scale, with mean ± SD</CardDescription>
+          </CardHeader>
+          <CardContent className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            {SESSION_METRICS.map(metric => (
+              <div key={metric} className="space-y-2">
+                <h3 className="font-semibold">{capitalize(metric)}</h3>
+                {summaries.map(s => (
+                  <div key={s.id} className="grid grid-cols-[1fr_7rem] items-center gap-3">
+                    <BoxPlot distribution={s.metrics[metric]} color={colorOf(s.id)} />
+                    <span className="text-sm text-foreground/70 tabular-nums">
+                      {s.metrics[metric].mean.toFixed(1)} ± {s.metrics[metric].sd.toFixed(1)}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
+      {summaries.length > 0 && (
+        <Card className="cyber-card">
+          <CardHeader>
+            <CardTitle className="text-2xl gradient-text">Time in state</CardTitle>
+            <CardDescription>Share of each session spent in each brain state, pauses excluded</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {summaries.map(s => (
+              <div key={s.id} className="space-y-1">
+                <span className="text-sm font-medium">{s.label}</span>
+                <div className="flex h-4 w-full overflow-hidden rounded">
+                  {s.states.map(st => (
+                    <div
+                      key={st.label}
+                      style={{ width: `${st.share * 100}%`, background: stateColor(st.label, stateLabels.indexOf(st.label)) }}
+                      title={`${st.label}: ${formatDuration(st.seconds)} (${(st.share * 100).toFixed(0)}%)`}
+                    />
+                  ))}
+                </div>
+              </div>
+            ))}
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>State</TableHead>
+                  {summaries.map(s => <TableHead key={s.id} className="text-right">{s.label}</TableHead>)}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {stateLabels.map((label, i) => (
+                  <TableRow key={label}>
+                    <TableCell>
+                      <span className="inline-block w-2.5 h-2.5 rounded-full mr-2" style={{ background: stateColor(label, i) }} />
+                      {label}
+                    </TableCell>
+                    {summaries.map(s => {
+                      const share = s.states.find(st => st.label === label);
+                      return (
+                        <TableCell key={s.id} className="text-right tabular-nums">
+                          {share ? `${(share.share * 100).toFixed(0)}% (${formatDuration(share.seconds)})` : '—'}
+                        </TableCell>
+                      );
+                    })}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+
+      {withBands.length > 0 && (
+        <Card className="cyber-card">
+          <CardHeader>
+            <CardTitle className="text-2xl gradient-text">Band powers</CardTitle>
+            <CardDescription>Mean relative power of each band, in percent of the delta–gamma total, and the change from the reference</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Band</TableHead>
+                  {withBands.map(s => <TableHead key={s.id} className="text-right">{s.label}</TableHead>)}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {SESSION_BANDS.map(band => (
+                  <TableRow key={band}>
+                    <TableCell>{capitalize(band)}</TableCell>
+                    {withBands.map(s => {
+                      const value = s.bands?.[band].mean ?? 0;
+                      const base = referenceSummary?.bands?.[band].mean;
+                      return (
+                        <TableCell key={s.id} className="text-right tabular-nums">
+                          {value.toFixed(1)}%
+                          {base !== undefined && s.id !== referenceSummary?.id && <span className="text-foreground/60"> ({signed(value - base)})</span>}
+                        </TableCell>
+                      );
+                    })}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+            {referenceSummary && !referenceSummary.bands && (
+              <p className="text-sm text-foreground/60 mt-3">The reference session has no band powers, so band changes are not shown.</p>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {tests.length > 0 && reference && (
+        <Card className="cyber-card">
+          <CardHeader>
+            <CardTitle className="text-2xl gradient-text">Did anything change?</CardTitle>
+            <CardDescription>
+              Welch's t-test of each session against {reference.id}, with sample sizes reduced for the correlation between consecutive frames and p-values Holm-adjusted across all {tests.length} tests. Cohen's d shows how large a difference is; around 0.2 is small, 0.5 medium and 0.8 large.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Session</TableHead>
+                  <TableHead>Measure</TableHead>
+                  <TableHead className="text-right">Reference</TableHead>
+                  <TableHead className="text-right">Session</TableHead>
+                  <TableHead className="text-right">Change</TableHead>
+                  <TableHead className="text-right">d</TableHead>
+                  <TableHead className="text-right">p (adj.)</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {tests.map(t => (
+                  <TableRow key={`${t.sessionId}-${t.measure}`}>
+                    <TableCell>
+                      <span className="inline-block w-2.5 h-2.5 rounded-full mr-2" style={{ background: colorOf(t.sessionId) }} />
+                      {t.sessionId}
+                    </TableCell>
+                    <TableCell>{capitalize(t.measure)}{t.kind === 'band' ? ' (rel. %)' : ''}</TableCell>
+                    <TableCell className="text-right tabular-nums">{t.referenceMean.toFixed(1)}</TableCell>
+                    <TableCell className="text-right tabular-nums">{t.mean.toFixed(1)}</TableCell>
+                    <TableCell className="text-right tabular-nums">{signed(t.difference)}</TableCell>
+                    <TableCell className="text-right tabular-nums">{signed(t.cohenD, 2)}</TableCell>
+                    <TableCell className="text-right tabular-nums">{formatP(t.pAdjusted)}</TableCell>
+                    <TableCell>{t.significant && <Badge variant="secondary">p &lt; {SIGNIFICANCE_LEVEL}</Badge>}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+            <p className="text-sm text-foreground/60 mt-3">
+              A significant result says the sessions differ, not why: time of day, sensor fit or the task can all move these metrics as much as an intervention.
+            </p>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+};
+
+export default SessionComparison;
@@ -0,0 +1,350 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import type { BandPowers, EEGBand, SignalQuality } from '@/types/eeg';
+import { channelBandPowers } from '@/utils/eeg/signalProcessing';
+import type { EEGSource, SourceInfo } from '@/utils/eeg/sources';
+import {
+  HEAD_RADIUS,
+  SignalBuffer,
+  colormap,
+  electrodePosition,
+  interpolateTopomap,
+  relativeBandPower,
+  spectrumColumn,
+  topomapGrid,
+} from '@/utils/eeg/visualization';
+
+interface SignalViewsProps {
+  // Active source and its channel layout; views other than band power need both
+  source: EEGSource | null;
+  info: SourceInfo | null;
+  bandPowers: BandPowers | null;
+  quality: SignalQuality | null;
+}
+
+const TRACE_SECONDS = 10;
+const TRACE_SCALES = [25, 50, 100, 200];
+const SPECTRUM_WINDOW_SECONDS = 1;
+const SPECTROGRAM_HOP_SECONDS = 0.125;
+const SPECTROGRAM_COLUMNS = TRACE_SECONDS / SPECTROGRAM_HOP_SECONDS;
+const MAX_FREQUENCY = 45;
+const DB_RANGE: [number, number] = [-10, 30];
+const TOPOMAP_SIZE = 64;
+const TOPOMAP_SECONDS = 2;
+const TOPOMAP_HOP_SECONDS = 0.25;
+
+const BANDS: Array<{ band: EEGBand; label: string; color: string; hz: string }> = [
+  { band: 'delta', label: 'Delta', color: '#6C5CE7', hz: '1–4' },
+  { band: 'theta', label: 'Theta', color: '#45B7D1', hz: '4–8' },
+  { band: 'alpha', label: 'Alpha', color: '#4ECDC4', hz: '8–13' },
+  { band: 'beta', label: 'Beta', color: '#FFD93D', hz: '13–30' },
+  { band: 'gamma', label: 'Gamma', color: '#FF8C42', hz: '30–45' },
+];
+
+const QUALITY_COLORS = { good: '#4ECDC4', fair: '#FFD93D', poor: '#FF6B6B' };
+
+// Redraws on animation frames, but only once new samples have arrived. The
+// drawer is created per run so it can keep state such as scroll position.
+const useSignalDrawing = (buffer: SignalBuffer | null, createDrawer: () => (buffer: SignalBuffer) => void) => {
+  useEffect(() => {
+    if (!buffer) return;
+    const draw = createDrawer();
+    let drawn = -1;
+    let frame = 0;
+    const loop = () => {
+      if (buffer.totalSamples !== drawn) {
+        drawn = buffer.totalSamples;
+        draw(buffer);
+      }
+      frame = requestAnimationFrame(loop);
+    };
+    frame = requestAnimationFrame(loop);
+    return () => cancelAnimationFrame(frame);
+  }, [buffer, createDrawer]);
+};
+
+const RawTraces: React.FC<{ buffer: SignalBuffer; channels: string[]; quality: SignalQuality | null }> = ({ buffer, channels, quality }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [scale, setScale] = useState(50);
+  const laneHeight = channels.length > 6 ? 36 : 48;
+
+  const createDrawer = useCallback(
+    () => (buf: SignalBuffer) => {
+      const canvas = canvasRef.current;
+      const ctx = canvas?.getContext('2d');
+      if (!canvas || !ctx) return;
+      const w = canvas.width;
+      ctx.clearRect(0, 0, w, canvas.height);
+      const data = buf.latest(TRACE_SECONDS);
+      // Newest sample at the right edge; a buffer still filling starts part way across
+      const left = w * (1 - (data[0]?.length ?? 0) / buf.capacity);
+      const perPixel = buf.capacity / w;
+      data.forEach((samples, c) => {
+        const mid = (c + 0.5) * laneHeight;
+        const half = laneHeight / 2;
+        ctx.strokeStyle = 'rgba(255,255,255,0.08)';
+        ctx.lineWidth = 1;
+        ctx.beginPath();
+        ctx.moveTo(0, mid);
+        ctx.lineTo(w, mid);
+        ctx.stroke();
+
+        ctx.strokeStyle = QUALITY_COLORS[quality?.channels[c]?.quality ?? 'good'];
+        ctx.beginPath();
+        // One min/max pair per pixel column keeps long windows cheap to draw
+        for (let x = Math.ceil(left); x < w; x++) {
+          const from = Math.floor((x - left) * perPixel);
+          const to = Math.min(samples.length, Math.max(from + 1, Math.floor((x + 1 - left) * perPixel)));
+          let lo = Infinity;
+          let hi = -Infinity;
+          for (let i = from; i < to; i++) {
+            if (samples[i] < lo) lo = samples[i];
+            if (samples[i] > hi) hi = samples[i];
+          }
+          if (lo === Infinity) continue;
+          const y = (v: number) => mid - Math.max(-1, Math.min(1, v / scale)) * half;
+          if (x === Math.ceil(left)) ctx.moveTo(x, y(lo));
+          else ctx.lineTo(x, y(lo));
+          ctx.lineTo(x, y(hi));
+        }
+        ctx.stroke();
+
+        ctx.fillStyle = 'rgba(255,255,255,0.75)';
+        ctx.font = '11px sans-serif';
+        ctx.fillText(channels[c] ?? `Ch${c + 1}`, 6, mid - half + 13);
+      });
+    },
+    [channels, laneHeight, quality, scale],
+  );
+  useSignalDrawing(buffer, createDrawer);
+
+  return (
+    <div className="signal-view">
+      <div className="signal-view-header">
+        <h4>Raw traces</h4>
+        <span className="upload-status">{TRACE_SECONDS} s • filtered</span>
+        <div className="segmented">
+          {TRACE_SCALES.map(s => (
+            <button key={s} className={s === scale ? 'active' : ''} onClick={() => setScale(s)}>±{s} µV</button>
+          ))}
+        </div>
+      </div>
+      <canvas ref={canvasRef} width={800} height={channels.length * laneHeight} className="signal-canvas" />
+    </div>
+  );
+};
+
+const Spectrogram: React.FC<{ buffer: SignalBuffer; channels: string[] }> = ({ buffer, channels }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [channel, setChannel] = useState(0);
+
+  // Scrolls one column per hop; `next` is the sample the next column ends at
+  const createDrawer = useCallback(() => {
+    let next = 0;
+    return (buf: SignalBuffer) => {
+      const canvas = canvasRef.current;
+      const ctx = canvas?.getContext('2d');
+      if (!canvas || !ctx) return;
+      const hop = Math.round(SPECTROGRAM_HOP_SECONDS * buf.sampleRate);
+      const windowLength = Math.round(SPECTRUM_WINDOW_SECONDS * buf.sampleRate);
+      const columnWidth = canvas.width / SPECTROGRAM_COLUMNS;
+      // A fresh buffer (new source) starts the picture over
+      if (next > buf.totalSamples + hop) next = 0;
+      if (next === 0) {
+        ctx.fillStyle = '#101828';
+        ctx.fillRect(0, 0, canvas.width, canvas.height);
+      }
+      // After a jump only the columns that still fit on screen are worth computing
+      next = Math.max(next, windowLength, buf.totalSamples - (SPECTROGRAM_COLUMNS - 1) * hop);
+      for (; next <= buf.totalSamples; next += hop) {
+        const signal = buf.latest(SPECTRUM_WINDOW_SECONDS, next)[channel];
+        if (!signal || signal.length < windowLength) continue;
+        const column = spectrumColumn(signal, buf.sampleRate, MAX_FREQUENCY);
+        ctx.drawImage(canvas, -columnWidth, 0);
+        const rowHeight = canvas.height / column.length;
+        column.forEach((db, k) => {
+          const [r, g, b] = colormap((db - DB_RANGE[0]) / (DB_RANGE[1] - DB_RANGE[0]));
+          ctx.fillStyle = `rgb(${r | 0},${g | 0},${b | 0})`;
+          ctx.fillRect(canvas.width - columnWidth, canvas.height - (k + 1) * rowHeight, columnWidth, Math.ceil(rowHeight));
+        });
+      }
+    };
+  }, [channel]);
+  useSignalDrawing(buffer, createDrawer);
+
+  return (
+    <div className="signal-view">
+      <div className="signal-view-header">
+        <h4>Spectrogram</h4>
+        <span className="upload-status">0–{MAX_FREQUENCY} Hz • {DB_RANGE[0]} to {DB_RANGE[1]} dB</span>
+        <select className="transport-speed" value={channel} onChange={e => setChannel(Number(e.target.value))}>
+          {channels.map((name, c) => <option key={name + c} value={c}>{name}</option>)}
+        </select>
+      </div>
+      <div className="spectrogram">
+        <canvas ref={canvasRef} width={640} height={180} className="signal-canvas" />
+        <div className="spectrogram-axis">
+          {[4, 8, 13, 30].map(hz => (
+            <span key={hz} style={{ bottom: `${(hz / MAX_FREQUENCY) * 100}%` }}>{hz} Hz</span>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const Topomap: React.FC<{ buffer: SignalBuffer; channels: string[]; quality: SignalQuality | null }> = ({ buffer, channels, quality }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [band, setBand] = useState<EEGBand>('alpha');
+
+  const placed = useMemo(
+    () =>
+      channels
+        .map((name, c) => ({ name, c, position: electrodePosition(name) }))
+        .filter((e): e is { name: string; c: number; position: [number, number] } => e.position !== null),
+    [channels],
+  );
+  const grid = useMemo(() => (placed.length >= 3 ? topomapGrid(placed.map(e => e.position), TOPOMAP_SIZE) : null), [placed]);
+
+  const createDrawer = useCallback(() => {
+    let last = -Infinity;
+    // Grid-sized offscreen canvas, scaled up with smoothing when drawn
+    const image = document.createElement('canvas');
+    image.width = TOPOMAP_SIZE;
+    image.height = TOPOMAP_SIZE;
+    return (buf: SignalBuffer) => {
+      const canvas = canvasRef.current;
+      const ctx = canvas?.getContext('2d');
+      const imageCtx = image.getContext('2d');
+      if (!canvas || !ctx || !imageCtx || !grid) return;
+      if (buf.totalSamples > last && buf.totalSamples - last < TOPOMAP_HOP_SECONDS * buf.sampleRate) return;
+      last = buf.totalSamples;
+      const data = buf.latest(TOPOMAP_SECONDS);
+      if ((data[0]?.length ?? 0) < buf.sampleRate) return;
+      const powers = channelBandPowers(placed.map(e => data[e.c]), buf.sampleRate);
+      const values = powers.map(p => relativeBandPower(p, band) * 100);
+      const lo = Math.min(...values);
+      const hi = Math.max(...values);
+      const map = interpolateTopomap(grid, values);
+      const pixels = imageCtx.createImageData(TOPOMAP_SIZE, TOPOMAP_SIZE);
+      map.forEach((v, i) => {
+        if (Number.isNaN(v)) return;
+        const [r, g, b] = colormap(hi > lo ? (v - lo) / (hi - lo) : 0.5);
+        pixels.data.set([r, g, b, 255], i * 4);
+      });
+      imageCtx.putImageData(pixels, 0, 0);
+
+      const size = canvas.width;
+      const centre = size / 2;
+      const radius = size / 2 - 14;
+      ctx.clearRect(0, 0, size, canvas.height);
+      ctx.imageSmoothingEnabled = true;
+      ctx.drawImage(image, centre - radius, centre - radius, radius * 2, radius * 2);
+      // Head outline with nose and ears
+      ctx.strokeStyle = 'rgba(255,255,255,0.8)';
+      ctx.lineWidth = 2;
+      ctx.beginPath();
+      ctx.arc(centre, centre, radius * HEAD_RADIUS, 0, Math.PI * 2);
+      ctx.stroke();
+      const top = centre - radius * HEAD_RADIUS;
+      ctx.beginPath();
+      ctx.moveTo(centre - 8, top + 1);
+      ctx.lineTo(centre, top - 10);
+      ctx.lineTo(centre + 8, top + 1);
+      ctx.stroke();
+      [-1, 1].forEach(side => {
+        ctx.beginPath();
+        ctx.ellipse(centre + side * (radius * HEAD_RADIUS + 4), centre, 5, 14, 0, 0, Math.PI * 2);
+        ctx.stroke();
+      });
+      placed.forEach(e => {
+        const x = centre + e.position[0] * radius;
+        const y = centre - e.position[1] * radius;
+        ctx.fillStyle = QUALITY_COLORS[quality?.channels[e.c]?.quality ?? 'good'];
+        ctx.beginPath();
+        ctx.arc(x, y, 3.5, 0, Math.PI * 2);
+        ctx.fill();
+        ctx.fillStyle = '#fff';
+        ctx.font = '10px sans-serif';
+        ctx.fillText(e.name, x + 5, y - 4);
+      });
+      ctx.font = '11px sans-serif';
+      ctx.fillText(`${lo.toFixed(0)}–${hi.toFixed(0)}% of power`, 6, canvas.height - 6);
+    };
+  }, [band, grid, placed, quality]);
+  useSignalDrawing(grid ? buffer : null, createDrawer);
+
+  return (
+    <div className="signal-view">
+      <div className="signal-view-header">
+        <h4>Topography</h4>
+        <div className="segmented">
+          {BANDS.map(b => (
+            <button key={b.band} className={b.band === band ? 'active' : ''} onClick={() => setBand(b.band)}>{b.label}</button>
+          ))}
+        </div>
+      </div>
+      {grid ? (
+        <canvas ref={canvasRef} width={260} height={260} className="topomap-canvas" />
+      ) : (
+        <p className="notice">Topography needs at least three channels with 10–20 labels (Fp1, Cz, O2…); found {placed.length}.</p>
+      )}
+    </div>
+  );
+};
+
+const BandPowerChart: React.FC<{ bandPowers: BandPowers }> = ({ bandPowers }) => {
+  const peak = Math.max(...BANDS.map(b => bandPowers[b.band])) || 1;
+  return (
+    <div className="signal-view">
+      <div className="signal-view-header">
+        <h4>Band power</h4>
+        <span className="upload-status">µV², share of total</span>
+      </div>
+      <div className="band-chart">
+        {BANDS.map(({ band, label, color, hz }) => (
+          <div key={band} className="band-column">
+            <span className="band-value">{bandPowers[band].toFixed(1)}</span>
+            <div className="band-column-track">
+              <div style={{ height: `${(bandPowers[band] / peak) * 100}%`, background: color }} />
+            </div>
+            <span className="band-label">{label}</span>
+            <span className="band-hz">{(relativeBandPower(bandPowers, band) * 100).toFixed(0)}% • {hz} Hz</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+const SignalViews: React.FC<SignalViewsProps> = ({ source, info, bandPowers, quality }) => {
+  const buffer = useMemo(
+    () => (source && info ? new SignalBuffer(info.sampleRate, info.channels.length, TRACE_SECONDS) : null),
+    [source, info],
+  );
+
+  useEffect(() => {
+    if (!source || !buffer) return;
+    return source.onSamples(packet => buffer.push(packet.data));
+  }, [source, buffer]);
+
+  return (
+    <div className="panel signal-views">
+      {buffer && info ? (
+        <>
+          <RawTraces buffer={buffer} channels={info.channels} quality={quality} />
+          <div className="signal-views-row">
+            <Spectrogram buffer={buffer} channels={info.channels} />
+            <Topomap buffer={buffer} channels={info.channels} quality={quality} />
+          </div>
+        </>
+      ) : (
+        <p className="notice">
+          Raw traces, the spectrogram and the scalp map need raw samples: load an EDF or raw CSV recording, or connect a stream or headset.
+        </p>
+      )}
+      {bandPowers && <BandPowerChart bandPowers={bandPowers} />}
+    </div>
+  );
+};
+
+export default SignalViews;
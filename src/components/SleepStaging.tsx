@@ -0,0 +1,313 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import './EEGSimulator.css';
+import { defaultEdfChannels, type EdfHeader } from '@/utils/eeg/edf';
+import { FileReplaySource } from '@/utils/eeg/sources';
+import { getEEGWorker } from '@/utils/eeg/workerClient';
+import type { ParsedEdfHandle } from '@/utils/eeg/workerProtocol';
+import {
+  SLEEP_STAGES,
+  SLEEP_STAGE_INFO,
+  compareHypnograms,
+  stagesFromAnnotations,
+  type SleepScoring,
+  type SleepStage,
+} from '@/utils/eeg/sleepStaging';
+import { getActiveSource, useEEGSource } from '@/hooks/useEEGSource';
+import EDFChannelPicker from './EDFChannelPicker';
+
+// EEG channels plus any EOG and chin EMG, which sharpen REM and wake
+const defaultSleepChannels = (header: EdfHeader) => {
+  const extra = header.signals.flatMap((s, i) => (!s.isAnnotation && /eog|emg|chin/i.test(s.label) ? [i] : []));
+  return [...new Set([...defaultEdfChannels(header), ...extra])].sort((a, b) => a - b);
+};
+
+const formatMinutes = (minutes: number | null) => {
+  if (minutes === null) return '—';
+  const h = Math.floor(minutes / 60);
+  const m = Math.round(minutes % 60);
+  return h > 0 ? `${h}h ${m.toString().padStart(2, '0')}m` : `${m}m`;
+};
+
+const percent = (value: number) => `${(value * 100).toFixed(0)}%`;
+
+interface HypnogramProps {
+  stages: SleepStage[];
+  reference: (SleepStage | null)[] | null;
+  epochSeconds: number;
+  startTime?: number;
+}
+
+const Hypnogram: React.FC<HypnogramProps> = ({ stages, reference, epochSeconds, startTime }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+    const w = canvas.width, h = canvas.height;
+    const left = 44, bottom = 20;
+    const rowHeight = (h - bottom - 8) / SLEEP_STAGES.length;
+    const x = (epoch: number) => left + (epoch / Math.max(stages.length, 1)) * (w - left - 8);
+    const y = (stage: SleepStage) => 8 + (SLEEP_STAGES.indexOf(stage) + 0.5) * rowHeight;
+    ctx.clearRect(0, 0, w, h);
+    ctx.font = '11px Arial';
+    ctx.textBaseline = 'middle';
+
+    SLEEP_STAGES.forEach(stage => {
+      ctx.fillStyle = 'rgba(255,255,255,.7)';
+      ctx.fillText(SLEEP_STAGE_INFO[stage].label, 4, y(stage));
+      ctx.strokeStyle = 'rgba(255,255,255,.08)';
+      ctx.beginPath();
+      ctx.moveTo(left, y(stage));
+      ctx.lineTo(w - 8, y(stage));
+      ctx.stroke();
+    });
+
+    // Hour ticks, at clock hours when the start time is known
+    const hours = (stages.length * epochSeconds) / 3600;
+    const offset = startTime ? (new Date(startTime).getMinutes() * 60 + new Date(startTime).getSeconds()) / 3600 : 0;
+    ctx.fillStyle = 'rgba(255,255,255,.6)';
+    ctx.textBaseline = 'alphabetic';
+    for (let hour = Math.ceil(offset) - offset; hour <= hours; hour++) {
+      const tx = x((hour * 3600) / epochSeconds);
+      const label = startTime ? `${(new Date(startTime).getHours() + Math.round(hour + offset)) % 24}:00` : `${Math.round(hour)}h`;
+      ctx.fillText(label, tx - 12, h - 4);
+    }
+
+    const trace = (values: (SleepStage | null)[], color: string, width: number) => {
+      ctx.strokeStyle = color;
+      ctx.lineWidth = width;
+      ctx.beginPath();
+      let drawing = false;
+      values.forEach((stage, i) => {
+        if (!stage) {
+          drawing = false;
+          return;
+        }
+        if (drawing) ctx.lineTo(x(i), y(stage));
+        else ctx.moveTo(x(i), y(stage));
+        ctx.lineTo(x(i + 1), y(stage));
+        drawing = true;
+      });
+      ctx.stroke();
+    };
+    if (reference) trace(reference, 'rgba(255,255,255,.25)', 4);
+    trace(stages, '#dfe7fd', 1.5);
+
+    // REM periods stand out as thick bars, as on clinical hypnograms
+    ctx.fillStyle = SLEEP_STAGE_INFO.REM.color;
+    stages.forEach((stage, i) => {
+      if (stage === 'REM') ctx.fillRect(x(i), y('REM') - 3, x(i + 1) - x(i) + 0.5, 6);
+    });
+  }, [stages, reference, epochSeconds, startTime]);
+
+  return <canvas ref={canvasRef} width={900} height={200} className="signal-canvas" />;
+};
+
+const SleepStaging: React.FC = () => {
+  const eeg = useEEGSource();
+  const [fileName, setFileName] = useState('');
+  const [status, setStatus] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [pendingEdf, setPendingEdf] = useState<ParsedEdfHandle | null>(null);
+  const [selection, setSelection] = useState<number[]>([]);
+  const [scoring, setScoring] = useState<SleepScoring | null>(null);
+  const [uploadedReference, setUploadedReference] = useState<{ name: string; stages: (SleepStage | null)[] } | null>(null);
+
+  // The recording being replayed in the simulator, if it has samples
+  const replayRecording = useMemo(() => {
+    const source = getActiveSource();
+    return eeg.playback && source instanceof FileReplaySource ? source.recording : null;
+  }, [eeg.playback]);
+
+  const reference = uploadedReference?.stages ?? scoring?.reference ?? null;
+  const agreement = useMemo(() => (scoring && reference ? compareHypnograms(scoring.stages, reference) : null), [scoring, reference]);
+
+  const discardPendingEdf = () => {
+    if (pendingEdf) getEEGWorker().request('releaseEdf', { handle: pendingEdf.handle }).catch(() => undefined);
+    setPendingEdf(null);
+  };
+
+  const showScoring = (result: SleepScoring, name: string) => {
+    setScoring(result);
+    setUploadedReference(null);
+    setFileName(name);
+    setStatus(`Scored ${result.stages.length} epochs from ${result.channels.eeg.length} EEG channel${result.channels.eeg.length === 1 ? '' : 's'}`);
+  };
+
+  const score = async (task: () => Promise<SleepScoring>, name: string) => {
+    setBusy(true);
+    setStatus('Scoring…');
+    try {
+      showScoring(await task(), name);
+    } catch (e) {
+      setStatus(e instanceof Error ? `Scoring failed: ${e.message}` : 'Scoring failed');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleFile = async (file: File) => {
+    discardPendingEdf();
+    setFileName(file.name);
+    if (!file.name.toLowerCase().endsWith('.edf')) {
+      setStatus('Sleep staging reads EDF/EDF+ files; other formats can be loaded in the simulator and scored from there');
+      return;
+    }
+    setStatus('Parsing…');
+    try {
+      const edf = await getEEGWorker().request('parseEdf', { buffer: await file.arrayBuffer() });
+      setPendingEdf(edf);
+      setSelection(defaultSleepChannels(edf.header));
+      setStatus('Choose channels to score');
+    } catch (e) {
+      setStatus(e instanceof Error ? `Failed to parse file: ${e.message}` : 'Failed to parse file');
+    }
+  };
+
+  const scoreEdf = () => {
+    if (!pendingEdf) return;
+    const { handle } = pendingEdf;
+    setPendingEdf(null);
+    score(() => getEEGWorker().request('scoreSleepEdf', { handle, channels: selection }), fileName).finally(() =>
+      getEEGWorker().request('releaseEdf', { handle }).catch(() => undefined),
+    );
+  };
+
+  // The replay keeps its samples, so they are copied rather than transferred
+  const scoreReplay = () => {
+    if (!replayRecording) return;
+    score(() => getEEGWorker().request('scoreSleep', { recording: replayRecording }, []), eeg.label);
+  };
+
+  // A separate hypnogram file, e.g. a Sleep-EDF *-Hypnogram.edf, aligned to the recording start
+  const handleReference = async (file: File) => {
+    if (!scoring) return;
+    try {
+      const edf = await getEEGWorker().request('parseEdf', { buffer: await file.arrayBuffer() });
+      getEEGWorker().request('releaseEdf', { handle: edf.handle }).catch(() => undefined);
+      const stages = stagesFromAnnotations(edf.annotations, scoring.stages.length, scoring.epochSeconds);
+      if (!stages) throw new Error('no sleep-stage annotations found');
+      setUploadedReference({ name: file.name, stages });
+    } catch (e) {
+      setStatus(e instanceof Error ? `Failed to read hypnogram: ${e.message}` : 'Failed to read hypnogram');
+    }
+  };
+
+  const metrics = scoring?.metrics;
+
+  return (
+    <div className="eeg-simulator sleep-staging">
+      <div className="header-row">
+        <h2 className="eeg-title">Overnight sleep staging</h2>
+      </div>
+      <p className="notice">
+        Load a sleep recording (EDF/EDF+, e.g. a polysomnography night) to score it in 30-second epochs as Wake, N1, N2, N3 or REM from spectral features.
+        EOG and chin EMG channels improve REM and wake detection. This is an exploratory heuristic, not a clinical scorer.
+      </p>
+
+      <div className="controls">
+        <div className="control-group">
+          <label>Sleep recording</label>
+          <div className="upload-row">
+            <input type="file" accept=".edf" onChange={e => e.target.files?.[0] && handleFile(e.target.files[0])} disabled={busy} />
+            {replayRecording && (
+              <button className="btn subtle" onClick={scoreReplay} disabled={busy}>Score {eeg.label}</button>
+            )}
+            <span className="upload-status">{fileName ? `${fileName} — ${status}` : status}</span>
+          </div>
+        </div>
+        {scoring && (
+          <div className="control-group">
+            <label>Reference hypnogram</label>
+            <div className="upload-row">
+              <input type="file" accept=".edf" onChange={e => e.target.files?.[0] && handleReference(e.target.files[0])} />
+              <span className="upload-status">
+                {uploadedReference ? uploadedReference.name : scoring.reference ? 'From the recording\'s annotations' : 'None'}
+              </span>
+            </div>
+          </div>
+        )}
+      </div>
+
+      {pendingEdf && (
+        <EDFChannelPicker
+          header={pendingEdf.header}
+          annotationCount={pendingEdf.annotations.length}
+          selected={selection}
+          onChange={setSelection}
+          onConfirm={scoreEdf}
+          onCancel={() => {
+            discardPendingEdf();
+            setStatus('Cancelled');
+          }}
+        />
+      )}
+
+      {scoring && metrics && (
+        <>
+          <div className="signal-view">
+            <div className="signal-view-header">
+              <h4>Hypnogram{reference ? ' (reference shaded)' : ''}</h4>
+            </div>
+            <Hypnogram stages={scoring.stages} reference={reference} epochSeconds={scoring.epochSeconds} startTime={scoring.startTime} />
+          </div>
+
+          <div className="panels sleep-panels">
+            <div className="panel">
+              <h3>Sleep metrics</h3>
+              <div className="sleep-metrics">
+                <span>Time in bed</span><span>{formatMinutes(metrics.timeInBed)}</span>
+                <span>Total sleep time</span><span>{formatMinutes(metrics.totalSleepTime)}</span>
+                <span>Sleep efficiency</span><span>{percent(metrics.efficiency)}</span>
+                <span>Sleep onset latency</span><span>{formatMinutes(metrics.sleepLatency)}</span>
+                <span>REM latency</span><span>{formatMinutes(metrics.remLatency)}</span>
+                <span>Wake after sleep onset</span><span>{formatMinutes(metrics.waso)}</span>
+                <span>Awakenings</span><span>{metrics.awakenings}</span>
+              </div>
+              <p className="notice">
+                Channels: {[...scoring.channels.eeg, ...scoring.channels.eog, ...scoring.channels.emg].join(', ')}
+                {scoring.channels.emg.length === 0 && ' • no EMG: muscle tone estimated from EEG'}
+              </p>
+            </div>
+            <div className="panel">
+              <h3>Stages</h3>
+              {SLEEP_STAGES.map(stage => (
+                <div key={stage} className="band-row">
+                  <span className="band-label">{SLEEP_STAGE_INFO[stage].label}</span>
+                  <div className="band-bar">
+                    <div style={{ width: percent(metrics.stageMinutes[stage] / (metrics.timeInBed || 1)), background: SLEEP_STAGE_INFO[stage].color }} />
+                  </div>
+                  <span className="band-value">
+                    {formatMinutes(metrics.stageMinutes[stage])}{stage !== 'W' && ` • ${percent(metrics.stageShare[stage])}`}
+                  </span>
+                </div>
+              ))}
+              <p className="notice">Sleep-stage percentages are of total sleep time.</p>
+              {agreement && (
+                <>
+                  <h3>Agreement with reference</h3>
+                  <p className="notice">
+                    {agreement.epochs} epochs • accuracy {percent(agreement.accuracy)} • Cohen's κ {agreement.kappa.toFixed(2)}. Bars show how much of each reference stage was scored the same.
+                  </p>
+                  {SLEEP_STAGES.map((stage, k) => {
+                    const total = agreement.confusion[k].reduce((a, b) => a + b, 0);
+                    return (
+                      <div key={stage} className="band-row">
+                        <span className="band-label">{SLEEP_STAGE_INFO[stage].label}</span>
+                        <div className="band-bar"><div style={{ width: percent(total > 0 ? agreement.confusion[k][k] / total : 0), background: SLEEP_STAGE_INFO[stage].color }} /></div>
+                        <span className="band-value">{total > 0 ? percent(agreement.confusion[k][k] / total) : '—'}</span>
+                      </div>
+                    );
+                  })}
+                </>
+              )}
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default SleepStaging;
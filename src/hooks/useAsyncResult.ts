@@ -0,0 +1,28 @@
+import * as React from 'react';
+
+/**
+ * Latest result of an async computation, such as an EEG worker request.
+ * `task` should be memoised on its inputs: each new task supersedes the last,
+ * whose late result is dropped. The previous result stays on screen until the
+ * new one arrives so views do not flicker; a null task clears it.
+ */
+function useAsyncResult<T>(task: (() => Promise<T>) | null): T | null {
+  const [result, setResult] = React.useState<{ value: T } | null>(null);
+
+  React.useEffect(() => {
+    if (!task) return;
+    let current = true;
+    task()
+      .then(value => {
+        if (current) setResult({ value });
+      })
+      .catch(error => console.warn('Background computation failed:', error));
+    return () => {
+      current = false;
+    };
+  }, [task]);
+
+  return task && result ? result.value : null;
+}
+
+export { useAsyncResult };
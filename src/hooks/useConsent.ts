@@ -0,0 +1,194 @@
+import * as React from 'react';
+import {
+  CONSENT_MODALITIES,
+  CONSENT_POLICY,
+  consentStatus,
+  isGranted,
+  parseConsentState,
+  purposesOf,
+  recordConsent,
+  type ConsentModality,
+  type ConsentPurpose,
+  type ConsentState,
+} from '@/utils/consent';
+
+// Shared consent store. Collectors ask for consent with `requestConsent`
+// before they start, which opens the consent dialog (ConsentCenter) when
+// anything is missing, and register with `onConsentWithdrawn` so that
+// withdrawing a grant stops them at once, wherever it is withdrawn from.
+
+export interface ConsentRequest {
+  modality: ConsentModality;
+  purposes: ConsentPurpose[];
+}
+
+export interface ConsentStoreState {
+  consent: ConsentState;
+  // Request waiting for an answer in the dialog
+  request: ConsentRequest | null;
+  // Dialog open on the full list of permissions
+  managerOpen: boolean;
+}
+
+const STORAGE_KEY = 'consent_v1';
+// The EEG simulator's single yes/no choice, from before per-purpose grants
+const LEGACY_EEG_KEY = 'eegsim_privacy_consent_v1';
+
+const EMPTY: ConsentState = { grants: {}, history: [] };
+
+const load = (): ConsentState => {
+  try {
+    const saved = parseConsentState(JSON.parse(localStorage.getItem(STORAGE_KEY) || 'null'));
+    if (saved) return saved;
+    const legacy = localStorage.getItem(LEGACY_EEG_KEY);
+    if (legacy === 'accepted' || legacy === 'declined') {
+      return recordConsent(EMPTY, 'eeg', purposesOf('eeg'), legacy === 'accepted' ? 'grant' : 'deny');
+    }
+  } catch {
+    // Unreadable or unavailable storage: nothing has been granted
+  }
+  return EMPTY;
+};
+
+const listeners: Array<(state: ConsentStoreState) => void> = [];
+const withdrawalListeners = new Map<string, Set<() => void>>();
+
+let memoryState: ConsentStoreState = { consent: load(), request: null, managerOpen: false };
+let pending: { request: ConsentRequest; promise: Promise<boolean>; resolve: (granted: boolean) => void } | null = null;
+
+function setState(next: Partial<ConsentStoreState>) {
+  const changed = next.consent && next.consent !== memoryState.consent;
+  memoryState = { ...memoryState, ...next };
+  if (changed) {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(memoryState.consent));
+      localStorage.removeItem(LEGACY_EEG_KEY);
+    } catch {
+      // Storage unavailable: choices last for this visit
+    }
+  }
+  listeners.forEach(listener => {
+    listener(memoryState);
+  });
+}
+
+function hasConsent(modality: ConsentModality, purpose: ConsentPurpose) {
+  return isGranted(memoryState.consent, modality, purpose);
+}
+
+/**
+ * Calls `stop` whenever `purpose` is withdrawn for `modality`; returns the
+ * unsubscribe function.
+ */
+function onConsentWithdrawn(modality: ConsentModality, purpose: ConsentPurpose, stop: () => void) {
+  const key = `${modality}:${purpose}`;
+  const set = withdrawalListeners.get(key) ?? new Set<() => void>();
+  set.add(stop);
+  withdrawalListeners.set(key, set);
+  return () => {
+    set.delete(stop);
+  };
+}
+
+function grantConsent(modality: ConsentModality, purposes: ConsentPurpose[]) {
+  setState({ consent: recordConsent(memoryState.consent, modality, purposes, 'grant') });
+}
+
+/** Withdraws `purposes` (all of the modality's by default) and stops whatever relied on them. */
+function withdrawConsent(modality: ConsentModality, purposes: ConsentPurpose[] = purposesOf(modality)) {
+  const withdrawn = purposes.filter(p => memoryState.consent.grants[`${modality}:${p}`]?.granted);
+  if (withdrawn.length === 0) return;
+  setState({ consent: recordConsent(memoryState.consent, modality, withdrawn, 'withdraw') });
+  withdrawn.forEach(p => withdrawalListeners.get(`${modality}:${p}`)?.forEach(stop => stop()));
+}
+
+function withdrawAll() {
+  CONSENT_MODALITIES.forEach(m => withdrawConsent(m));
+}
+
+/**
+ * Resolves true once every purpose in `purposes` (all of the modality's by
+ * default) is granted under the current policy, asking in the consent dialog
+ * if needed; false when the user declines or closes the dialog.
+ */
+function requestConsent(modality: ConsentModality, purposes: ConsentPurpose[] = purposesOf(modality)): Promise<boolean> {
+  const missing = purposes.filter(p => !hasConsent(modality, p));
+  if (missing.length === 0) return Promise.resolve(true);
+  if (pending && pending.request.modality === modality && missing.every(p => pending?.request.purposes.includes(p))) return pending.promise;
+  pending?.resolve(false);
+  let resolve: (granted: boolean) => void = () => undefined;
+  const promise = new Promise<boolean>(r => (resolve = r));
+  const request = { modality, purposes: missing };
+  pending = { request, promise, resolve };
+  setState({ request });
+  return promise;
+}
+
+/** Answers the open request: grants or refuses its purposes and resolves the waiting collector. */
+function answerConsentRequest(allow: boolean) {
+  if (!pending) return;
+  const { request, resolve } = pending;
+  pending = null;
+  setState({ consent: recordConsent(memoryState.consent, request.modality, request.purposes, allow ? 'grant' : 'deny'), request: null });
+  resolve(allow);
+}
+
+/** Closes the open request without recording a choice. */
+function dismissConsentRequest() {
+  if (!pending) return;
+  const { resolve } = pending;
+  pending = null;
+  setState({ request: null });
+  resolve(false);
+}
+
+function openConsentManager() {
+  setState({ managerOpen: true });
+}
+
+function closeConsentManager() {
+  setState({ managerOpen: false });
+}
+
+function useConsent() {
+  const [state, setLocalState] = React.useState<ConsentStoreState>(memoryState);
+
+  React.useEffect(() => {
+    listeners.push(setLocalState);
+    return () => {
+      const index = listeners.indexOf(setLocalState);
+      if (index > -1) {
+        listeners.splice(index, 1);
+      }
+    };
+  }, [state]);
+
+  return {
+    ...state,
+    policy: CONSENT_POLICY,
+    status: (modality: ConsentModality, purpose: ConsentPurpose) => consentStatus(state.consent, modality, purpose),
+    granted: (modality: ConsentModality, purpose: ConsentPurpose) => isGranted(state.consent, modality, purpose),
+    requestConsent,
+    grantConsent,
+    withdrawConsent,
+    withdrawAll,
+    answerConsentRequest,
+    dismissConsentRequest,
+    openConsentManager,
+    closeConsentManager,
+  };
+}
+
+export {
+  useConsent,
+  hasConsent,
+  onConsentWithdrawn,
+  requestConsent,
+  grantConsent,
+  withdrawConsent,
+  withdrawAll,
+  answerConsentRequest,
+  dismissConsentRequest,
+  openConsentManager,
+  closeConsentManager,
+};
@@ -0,0 +1,251 @@
+import * as React from 'react';
+import type { BandPowers, EEGAnnotation, EEGMetrics, SignalQuality } from '@/types/eeg';
+import {
+  FileReplaySource,
+  type EEGSource,
+  type EEGSourceKind,
+  type SourceInfo,
+  type SourceStats,
+  type SourceStatus,
+  type TransportState,
+} from '@/utils/eeg/sources';
+import { insertAnnotation } from '@/utils/eeg/markers';
+import { hasConsent, onConsentWithdrawn, requestConsent } from './useConsent';
+
+// Shared EEG store: one active source for the whole app, so choosing a source
+// on the dashboard or the simulator page drives every EEG consumer. Sources
+// only start with consent to process EEG, and stop when it is withdrawn.
+
+export interface EEGSourceState {
+  kind: EEGSourceKind | null;
+  label: string;
+  status: SourceStatus;
+  // Channel layout of raw streams once the header is known, and of raw-recording replays
+  info: SourceInfo | null;
+  metrics: EEGMetrics;
+  bandPowers: BandPowers | null;
+  // Artifact screening of the latest frame, for sources with raw samples
+  quality: SignalQuality | null;
+  // Seconds into the recording/stream of the latest frame
+  timestamp: number | null;
+  annotations: EEGAnnotation[];
+  stats: SourceStats | null;
+  // Transport of file replays; null for live sources
+  playback: TransportState | null;
+  error: string | null;
+}
+
+type Action =
+  | { type: 'SELECT'; source: EEGSource }
+  | { type: 'CLEAR' }
+  | { type: 'STATUS'; status: SourceStatus; info: SourceInfo | null }
+  | { type: 'FRAME'; metrics: EEGMetrics; bandPowers: BandPowers | null; quality: SignalQuality | null; timestamp: number; stats: SourceStats | null }
+  | { type: 'MARKER'; annotation: EEGAnnotation }
+  | { type: 'ERROR'; message: string }
+  | { type: 'TRANSPORT'; playback: TransportState };
+
+const INITIAL_METRICS: EEGMetrics = { attention: 50, relaxation: 50, drowsiness: 20, engagement: 50 };
+
+export const reducer = (state: EEGSourceState, action: Action): EEGSourceState => {
+  switch (action.type) {
+    case 'SELECT':
+      return {
+        ...state,
+        kind: action.source.kind,
+        label: action.source.label,
+        status: action.source.getStatus(),
+        info: action.source.getInfo(),
+        bandPowers: null,
+        quality: null,
+        timestamp: null,
+        annotations: [...action.source.getAnnotations()],
+        stats: null,
+        playback: action.source instanceof FileReplaySource ? action.source.getTransport() : null,
+        error: null,
+      };
+    case 'CLEAR':
+      return { ...state, kind: null, label: '', status: 'idle', info: null, bandPowers: null, quality: null, timestamp: null, annotations: [], stats: null, playback: null, error: null };
+    case 'STATUS':
+      return { ...state, status: action.status, info: action.info, error: action.status === 'streaming' ? null : state.error };
+    case 'FRAME':
+      return {
+        ...state,
+        metrics: action.metrics,
+        bandPowers: action.bandPowers,
+        quality: action.quality,
+        timestamp: action.timestamp,
+        stats: action.stats,
+      };
+    case 'MARKER':
+      return { ...state, annotations: insertAnnotation(state.annotations, action.annotation) };
+    case 'ERROR':
+      return { ...state, error: action.message };
+    case 'TRANSPORT':
+      return { ...state, playback: action.playback };
+  }
+};
+
+const listeners: Array<(state: EEGSourceState) => void> = [];
+
+let memoryState: EEGSourceState = {
+  kind: null,
+  label: '',
+  status: 'idle',
+  info: null,
+  metrics: INITIAL_METRICS,
+  bandPowers: null,
+  quality: null,
+  timestamp: null,
+  annotations: [],
+  stats: null,
+  playback: null,
+  error: null,
+};
+
+let activeSource: EEGSource | null = null;
+let unsubscribers: (() => void)[] = [];
+
+function dispatch(action: Action) {
+  memoryState = reducer(memoryState, action);
+  listeners.forEach(listener => {
+    listener(memoryState);
+  });
+}
+
+function detach() {
+  unsubscribers.forEach(u => u());
+  unsubscribers = [];
+  const previous = activeSource;
+  activeSource = null;
+  return previous?.stop();
+}
+
+/** Makes `source` the app-wide EEG source, stopping the previous one. */
+function selectSource(source: EEGSource, { start = true }: { start?: boolean } = {}) {
+  if (source === activeSource) {
+    if (start) return startSource();
+    return;
+  }
+  detach();
+  activeSource = source;
+  unsubscribers = [
+    source.onStatus(status => dispatch({ type: 'STATUS', status, info: source.getInfo() })),
+    source.onFrame(frame =>
+      dispatch({
+        type: 'FRAME',
+        metrics: frame.metrics,
+        bandPowers: frame.bandPowers ?? null,
+        quality: frame.quality ?? null,
+        timestamp: frame.timestamp,
+        stats: source.getStats(),
+      }),
+    ),
+    source.onMarker(annotation => dispatch({ type: 'MARKER', annotation })),
+    source.onError(message => dispatch({ type: 'ERROR', message })),
+  ];
+  dispatch({ type: 'SELECT', source });
+  if (start) return startSource();
+}
+
+// Starts at once when consent is already given, keeping the click's user
+// activation for device pickers; otherwise after the consent dialog
+function startSource(): void | Promise<void> {
+  const source = activeSource;
+  if (!source) return;
+  if (hasConsent('eeg', 'processing')) return source.start();
+  return requestConsent('eeg', ['processing']).then(granted => {
+    if (granted && source === activeSource) return source.start();
+  });
+}
+
+function stopSource() {
+  return activeSource?.stop();
+}
+
+onConsentWithdrawn('eeg', 'processing', () => {
+  stopSource();
+});
+
+function clearSource() {
+  const stopped = detach();
+  dispatch({ type: 'CLEAR' });
+  return stopped;
+}
+
+// Transport controls; no-ops unless a file replay is active
+function withReplay(action: (source: FileReplaySource) => void) {
+  if (!(activeSource instanceof FileReplaySource)) return;
+  action(activeSource);
+  dispatch({ type: 'TRANSPORT', playback: activeSource.getTransport() });
+}
+
+function seekPlayback(time: number) {
+  withReplay(source => source.seek(time));
+}
+
+function stepPlayback(delta: number) {
+  withReplay(source => source.step(delta));
+}
+
+function setPlaybackSpeed(speed: number) {
+  withReplay(source => source.setSpeed(speed));
+}
+
+function setPlaybackLoop(range: [number, number] | null) {
+  withReplay(source => source.setLoop(range));
+}
+
+/** Places a user marker at the latest frame of the active source; null without a source or text. */
+function addMarker(text: string): EEGAnnotation | null {
+  const trimmed = text.trim();
+  if (!activeSource || !trimmed) return null;
+  const annotation: EEGAnnotation = { onset: memoryState.timestamp ?? 0, text: trimmed, origin: 'user' };
+  dispatch({ type: 'MARKER', annotation });
+  return annotation;
+}
+
+function getActiveSource() {
+  return activeSource;
+}
+
+function useEEGSource() {
+  const [state, setState] = React.useState<EEGSourceState>(memoryState);
+
+  React.useEffect(() => {
+    listeners.push(setState);
+    return () => {
+      const index = listeners.indexOf(setState);
+      if (index > -1) {
+        listeners.splice(index, 1);
+      }
+    };
+  }, [state]);
+
+  return {
+    ...state,
+    active: state.status === 'connecting' || state.status === 'streaming' || state.status === 'reconnecting',
+    selectSource,
+    startSource,
+    stopSource,
+    clearSource,
+    seekPlayback,
+    stepPlayback,
+    setPlaybackSpeed,
+    setPlaybackLoop,
+    addMarker,
+  };
+}
+
+export {
+  useEEGSource,
+  selectSource,
+  startSource,
+  stopSource,
+  clearSource,
+  seekPlayback,
+  stepPlayback,
+  setPlaybackSpeed,
+  setPlaybackLoop,
+  addMarker,
+  getActiveSource,
+};
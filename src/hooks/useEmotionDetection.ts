@@ -1,106 +1,91 @@
 import { useState, useEffect, useRef } from 'react';
 import * as faceapi from 'face-api.js';
 import { useToast } from '@/hooks/use-toast';
+import { useProfiles } from '@/hooks/useProfiles';
+import { estimateHeadPose, type HeadPose, type Point } from '@/utils/faceAttention';
+import { applyFaceBaseline } from '@/utils/faceCalibration';
+import { FaceModelError, ensureFaceModels } from '@/utils/faceModels';
 
 interface EmotionResult {
   emotion: string;
   confidence: number;
-  engagement: number;
-  attention: number;
+  // Head pose from the 68 landmarks; attention and engagement are built from
+  // it over time (utils/faceAttention.ts)
+  pose: HeadPose | null;
+  // Every expression's score for this frame, under our emotion names,
+  // relative to the neutral-face baseline when there is one
+  scores: Record<string, number>;
+  // The same before the baseline, as captured by the calibration
+  rawScores: Record<string, number>;
 }
 
+/**
+ * 'simulated' means the face models are unavailable: nothing is inferred
+ * from the camera, and no reading may be presented as a model's output.
+ */
+export type FaceModelState = 'loading' | 'ready' | 'simulated';
+
 export const useEmotionDetection = () => {
-  const [isLoading, setIsLoading] = useState(true);
-  const [modelsReady, setModelsReady] = useState(false);
+  const [modelState, setModelState] = useState<FaceModelState>('loading');
+  const [modelError, setModelError] = useState<string | null>(null);
+  const [attempt, setAttempt] = useState(0);
   const { toast } = useToast();
-  const initRef = useRef(false);
+  const { faceBaseline } = useProfiles().active;
+  const initRef = useRef(-1);
 
-  // Load face-api.js models
+  // Load the self-hosted face-api.js models
   useEffect(() => {
-    if (initRef.current) return;
-    initRef.current = true;
+    if (initRef.current === attempt) return;
+    initRef.current = attempt;
 
     const loadModels = async () => {
       try {
-        console.log('Loading face-api.js models...');
-        
-        // Load models from CDN
-        const MODEL_URL = 'https://cdn.jsdelivr.net/npm/@vladmandic/face-api/model';
-        
-        await Promise.all([
-          faceapi.nets.tinyFaceDetector.loadFromUri(MODEL_URL),
-          faceapi.nets.faceExpressionNet.loadFromUri(MODEL_URL),
-          faceapi.nets.faceLandmark68Net.loadFromUri(MODEL_URL),
-        ]);
-
-        console.log('Face-api.js models loaded successfully');
-        setModelsReady(true);
-        setIsLoading(false);
-        
+        const load = await ensureFaceModels();
+        setModelState('ready');
+        setModelError(null);
+
         toast({
           title: 'AI Models Ready',
-          description: 'Real-time emotion detection activated using face-api.js (FER2013)',
+          description: load.fetched === 0
+            ? 'Face detection, landmark and expression models loaded from the offline cache'
+            : 'Face detection, landmark and expression models downloaded and verified',
         });
       } catch (error) {
         console.error('Error loading face-api.js models:', error);
-        setIsLoading(false);
-        setModelsReady(false);
-        
+        setModelState('simulated');
+        setModelError(error instanceof FaceModelError ? error.message : 'The face models could not be loaded');
+
         toast({
-          title: 'Model Loading Failed',
-          description: 'Using fallback emotion detection',
+          title: 'Face Models Unavailable',
+          description: 'Emotion detection is simulated: nothing is inferred from the camera',
           variant: 'destructive',
         });
       }
     };
 
     loadModels();
-  }, [toast]);
+  }, [attempt, toast]);
+
+  const retryModels = () => {
+    setModelState('loading');
+    setAttempt(a => a + 1);
+  };
 
-  // Detect facial emotions from video element
+  // Detect facial emotions from video element; null when no face is found
+  // or the models are not loaded
   const detectFacialEmotion = async (
     videoElement: HTMLVideoElement
   ): Promise<EmotionResult | null> => {
-    if (!modelsReady) {
-      // Fallback simulation when models aren't ready
-      const emotions = ['happy', 'sad', 'angry', 'neutral', 'surprised', 'fearful', 'anxious'];
-      const randomEmotion = emotions[Math.floor(Math.random() * emotions.length)];
-      return {
-        emotion: randomEmotion,
-        confidence: Math.random() * 0.3 + 0.7,
-        engagement: Math.floor(Math.random() * 30) + 70,
-        attention: Math.floor(Math.random() * 20) + 80,
-      };
-    }
+    if (modelState !== 'ready') return null;
 
     try {
-      // Detect face with expressions using face-api.js
+      // Detect face with landmarks and expressions using face-api.js
       const detections = await faceapi
         .detectSingleFace(videoElement, new faceapi.TinyFaceDetectorOptions())
+        .withFaceLandmarks()
         .withFaceExpressions();
 
-      if (!detections) {
-        // No face detected
-        return {
-          emotion: 'neutral',
-          confidence: 0.5,
-          engagement: 50,
-          attention: 50,
-        };
-      }
-
-      // Get the dominant emotion
-      const expressions = detections.expressions;
-      let dominantEmotion = 'neutral';
-      let maxConfidence = 0;
-
-      // Find emotion with highest confidence
-      Object.entries(expressions).forEach(([emotion, score]) => {
-        if (score > maxConfidence) {
-          maxConfidence = score;
-          dominantEmotion = emotion;
-        }
-      });
+      if (!detections) return null;
 
       // Map face-api.js emotions to our emotion set
       // face-api.js provides: neutral, happy, sad, angry, fearful, disgusted, surprised
@@ -114,52 +99,59 @@ export const useEmotionDetection = () => {
         surprised: 'surprised',
       };
 
-      const mappedEmotion = emotionMapping[dominantEmotion] || 'neutral';
-
-      // Calculate engagement and attention based on emotion and expressions
-      const engagementMap: Record<string, number> = {
-        happy: 85,
-        surprised: 90,
-        angry: 75,
-        neutral: 70,
-        sad: 50,
-        anxious: 60,
-        disgusted: 65,
-      };
+      const rawScores: Record<string, number> = {};
+      Object.entries(detections.expressions).forEach(([emotion, score]) => {
+        const mapped = emotionMapping[emotion] || 'neutral';
+        rawScores[mapped] = (rawScores[mapped] ?? 0) + (score as number);
+      });
 
-      const attentionMap: Record<string, number> = {
-        happy: 80,
-        surprised: 95,
-        angry: 85,
-        neutral: 75,
-        sad: 60,
-        anxious: 70,
-        disgusted: 70,
-      };
+      // Score against the profile's neutral face, then take the dominant emotion
+      const scores = applyFaceBaseline(rawScores, faceBaseline);
+      let mappedEmotion = 'neutral';
+      let maxConfidence = 0;
+      Object.entries(scores).forEach(([emotion, score]) => {
+        if (score > maxConfidence) {
+          maxConfidence = score;
+          mappedEmotion = emotion;
+        }
+      });
 
-      // Add some variance based on confidence
-      const confidenceBonus = Math.floor(maxConfidence * 10);
-      
       return {
         emotion: mappedEmotion,
         confidence: maxConfidence,
-        engagement: Math.min(100, (engagementMap[mappedEmotion] || 70) + confidenceBonus),
-        attention: Math.min(100, (attentionMap[mappedEmotion] || 75) + confidenceBonus),
+        pose: estimateHeadPose(detections.landmarks.positions),
+        scores,
+        rawScores,
       };
     } catch (error) {
       console.error('Facial emotion detection error:', error);
-      return {
-        emotion: 'neutral',
-        confidence: 0.5,
-        engagement: 70,
-        attention: 75,
-      };
+      return null;
+    }
+  };
+
+  // Landmarks only, cheap enough to sample the eyes several times a second;
+  // null when no face is found or the models are not loaded
+  const detectFaceLandmarks = async (videoElement: HTMLVideoElement): Promise<Point[] | null> => {
+    if (modelState !== 'ready') return null;
+    try {
+      const detections = await faceapi
+        .detectSingleFace(videoElement, new faceapi.TinyFaceDetectorOptions())
+        .withFaceLandmarks();
+      return detections ? detections.landmarks.positions : null;
+    } catch (error) {
+      console.error('Face landmark detection error:', error);
+      return null;
     }
   };
 
   return {
-    isLoading,
-    modelsReady,
+    faceBaseline,
+    modelState,
+    modelError,
+    isLoading: modelState === 'loading',
+    modelsReady: modelState === 'ready',
+    retryModels,
     detectFacialEmotion,
+    detectFaceLandmarks,
   };
 };
@@ -0,0 +1,163 @@
+import * as React from 'react';
+import { isBaseline, type EEGBaseline } from '@/utils/eeg/calibration';
+import { isFaceBaseline, type FaceBaseline } from '@/utils/faceCalibration';
+import { onConsentWithdrawn } from '@/hooks/useConsent';
+
+// User profiles, kept in local storage. Each profile carries its own EEG
+// baseline so normalisation follows whoever is wearing the headset, and its
+// neutral-face baseline for the camera's expression scores.
+
+export interface UserProfile {
+  id: string;
+  name: string;
+  createdAt: string;
+  baseline: EEGBaseline | null;
+  faceBaseline: FaceBaseline | null;
+}
+
+export interface ProfilesState {
+  profiles: UserProfile[];
+  activeId: string;
+}
+
+type Action =
+  | { type: 'CREATE'; profile: UserProfile }
+  | { type: 'SELECT'; id: string }
+  | { type: 'RENAME'; id: string; name: string }
+  | { type: 'DELETE'; id: string }
+  | { type: 'SET_BASELINE'; id: string; baseline: EEGBaseline | null }
+  | { type: 'SET_FACE_BASELINE'; id: string; faceBaseline: FaceBaseline | null }
+  | { type: 'CLEAR_BASELINES' }
+  | { type: 'CLEAR_FACE_BASELINES' };
+
+const STORAGE_KEY = 'eeg_profiles_v1';
+
+const newProfile = (name: string): UserProfile => ({
+  id: `profile-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+  name,
+  createdAt: new Date().toISOString(),
+  baseline: null,
+  faceBaseline: null,
+});
+
+export const reducer = (state: ProfilesState, action: Action): ProfilesState => {
+  switch (action.type) {
+    case 'CREATE':
+      return { profiles: [...state.profiles, action.profile], activeId: action.profile.id };
+    case 'SELECT':
+      return state.profiles.some(p => p.id === action.id) ? { ...state, activeId: action.id } : state;
+    case 'RENAME':
+      return { ...state, profiles: state.profiles.map(p => (p.id === action.id ? { ...p, name: action.name } : p)) };
+    case 'DELETE': {
+      // The last profile cannot be removed
+      const profiles = state.profiles.filter(p => p.id !== action.id);
+      if (profiles.length === 0) return state;
+      return { profiles, activeId: state.activeId === action.id ? profiles[0].id : state.activeId };
+    }
+    case 'SET_BASELINE':
+      return { ...state, profiles: state.profiles.map(p => (p.id === action.id ? { ...p, baseline: action.baseline } : p)) };
+    case 'SET_FACE_BASELINE':
+      return { ...state, profiles: state.profiles.map(p => (p.id === action.id ? { ...p, faceBaseline: action.faceBaseline } : p)) };
+    case 'CLEAR_BASELINES':
+      return { ...state, profiles: state.profiles.map(p => ({ ...p, baseline: null })) };
+    case 'CLEAR_FACE_BASELINES':
+      return { ...state, profiles: state.profiles.map(p => ({ ...p, faceBaseline: null })) };
+  }
+};
+
+const load = (): ProfilesState => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) || 'null') as ProfilesState | null;
+    if (saved && Array.isArray(saved.profiles) && saved.profiles.length > 0) {
+      const profiles = saved.profiles.map(p => ({
+        ...p,
+        baseline: isBaseline(p.baseline) ? p.baseline : null,
+        faceBaseline: isFaceBaseline(p.faceBaseline) ? p.faceBaseline : null,
+      }));
+      return { profiles, activeId: profiles.some(p => p.id === saved.activeId) ? saved.activeId : profiles[0].id };
+    }
+  } catch {
+    // Fall through to a fresh default profile
+  }
+  const profile = newProfile('Default');
+  return { profiles: [profile], activeId: profile.id };
+};
+
+const listeners: Array<(state: ProfilesState) => void> = [];
+
+let memoryState: ProfilesState = load();
+
+function dispatch(action: Action) {
+  memoryState = reducer(memoryState, action);
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(memoryState));
+  } catch {
+    // Storage unavailable: profiles last for this visit
+  }
+  listeners.forEach(listener => {
+    listener(memoryState);
+  });
+}
+
+function createProfile(name: string) {
+  dispatch({ type: 'CREATE', profile: newProfile(name.trim() || `Profile ${memoryState.profiles.length + 1}`) });
+}
+
+function selectProfile(id: string) {
+  dispatch({ type: 'SELECT', id });
+}
+
+function renameProfile(id: string, name: string) {
+  if (name.trim()) dispatch({ type: 'RENAME', id, name: name.trim() });
+}
+
+function deleteProfile(id: string) {
+  dispatch({ type: 'DELETE', id });
+}
+
+/** Stores `baseline` on the active profile; null clears it. */
+function setBaseline(baseline: EEGBaseline | null) {
+  dispatch({ type: 'SET_BASELINE', id: memoryState.activeId, baseline });
+}
+
+/** Stores the neutral-face `faceBaseline` on the active profile; null clears it. */
+function setFaceBaseline(faceBaseline: FaceBaseline | null) {
+  dispatch({ type: 'SET_FACE_BASELINE', id: memoryState.activeId, faceBaseline });
+}
+
+// EEG baselines are stored EEG data: withdrawing that consent deletes them
+onConsentWithdrawn('eeg', 'storage', () => {
+  dispatch({ type: 'CLEAR_BASELINES' });
+});
+
+// Face baselines are stored camera data: withdrawing that consent deletes them
+onConsentWithdrawn('camera', 'storage', () => {
+  dispatch({ type: 'CLEAR_FACE_BASELINES' });
+});
+
+function useProfiles() {
+  const [state, setState] = React.useState<ProfilesState>(memoryState);
+
+  React.useEffect(() => {
+    listeners.push(setState);
+    return () => {
+      const index = listeners.indexOf(setState);
+      if (index > -1) {
+        listeners.splice(index, 1);
+      }
+    };
+  }, [state]);
+
+  return {
+    ...state,
+    active: state.profiles.find(p => p.id === state.activeId) ?? state.profiles[0],
+    createProfile,
+    selectProfile,
+    renameProfile,
+    deleteProfile,
+    setBaseline,
+    setFaceBaseline,
+  };
+}
+
+export { useProfiles, createProfile, selectProfile, renameProfile, deleteProfile, setBaseline, setFaceBaseline };
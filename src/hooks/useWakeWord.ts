@@ -1,5 +1,6 @@
-import { useState, useEffect, useRef } from 'react';
+import { useState, useEffect, useEffectEvent, useRef } from 'react';
 import { useToast } from '@/hooks/use-toast';
+import { onConsentWithdrawn, requestConsent } from '@/hooks/useConsent';
 
 declare global {
   interface Window {
@@ -85,6 +86,8 @@ export const useWakeWord = (wakeWord: string = 'joker', onWakeDetected: () => vo
   }, [wakeWord, onWakeDetected, toast]);
 
   const startListening = async () => {
+    // Speech recognition may send the audio to the browser maker's servers
+    if (!(await requestConsent('microphone'))) return;
     try {
       // Request microphone permission
       await navigator.mediaDevices.getUserMedia({ audio: true });
@@ -116,6 +119,19 @@ export const useWakeWord = (wakeWord: string = 'joker', onWakeDetected: () => vo
     }
   };
 
+  // Withdrawing microphone consent stops listening for the wake word
+  const onMicrophoneConsentWithdrawn = useEffectEvent(() => {
+    if (isListening) stopListening();
+  });
+
+  useEffect(() => {
+    const unsubscribe = [
+      onConsentWithdrawn('microphone', 'processing', () => onMicrophoneConsentWithdrawn()),
+      onConsentWithdrawn('microphone', 'cloud', () => onMicrophoneConsentWithdrawn()),
+    ];
+    return () => unsubscribe.forEach(u => u());
+  }, []);
+
   return {
     isListening,
     isActive,
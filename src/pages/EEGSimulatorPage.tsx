@@ -1,5 +1,6 @@
 import { Navigation } from '@/components/Navigation';
 import EEGSimulator from '@/components/EEGSimulator';
+import SleepStaging from '@/components/SleepStaging';
 import WorkflowDiagram from '@/components/WorkflowDiagram';
 import { AnimatedBackground } from '@/components/AnimatedBackground';
 import { useState } from 'react';
@@ -55,6 +56,19 @@ const EEGSimulatorPage = () => {
           </div>
         )}
 
+        {/* Dream Mode: overnight recordings scored into sleep stages */}
+        {isDreamMode && (
+          <section className="space-y-4">
+            <div className="text-center space-y-2">
+              <h2 className="text-3xl font-bold text-purple-300">Dream Mode</h2>
+              <p className="text-muted-foreground">
+                Score a night of EEG into sleep stages, with a hypnogram and the standard sleep metrics
+              </p>
+            </div>
+            <SleepStaging />
+          </section>
+        )}
+
         {/* AR/PWA/Live Deployment Info Card */}
         <div className="bg-gradient-to-r from-blue-500/10 to-cyan-500/10 border border-blue-500/20 rounded-xl p-6 space-y-4">
           <div className="flex items-center space-x-2">
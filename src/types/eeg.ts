@@ -0,0 +1,66 @@
+/**
+ * Shared EEG types used by the signal-processing utilities and the
+ * simulator/control-panel components.
+ */
+
+export type EEGBand = 'delta' | 'theta' | 'alpha' | 'beta' | 'gamma';
+
+// Absolute power per band in µV². `smr`, the 12–15 Hz sensorimotor rhythm,
+// overlaps alpha and beta and is only present on frames computed from samples
+export type BandPowers = Record<EEGBand, number> & { smr?: number };
+
+// Derived cognitive indices, each on a 0–100 scale
+export interface EEGMetrics {
+  attention: number;
+  relaxation: number;
+  drowsiness: number;
+  engagement: number;
+}
+
+// Timed event, e.g. an EDF+ annotation; times in seconds from recording start
+export interface EEGAnnotation {
+  onset: number;
+  duration?: number;
+  text: string;
+  // 'user' for markers placed in the app; file and stream annotations leave it unset
+  origin?: 'user';
+}
+
+// Raw multi-channel recording; `data[c][i]` is channel c, sample i, in microvolts
+export interface EEGRecording {
+  sampleRate: number;
+  channels: string[];
+  data: Float32Array[];
+  // Unix epoch (ms) of the first sample, when the source provides it
+  startTime?: number;
+  // Per-sample time in seconds from the first sample, when the source logs it
+  timestamps?: Float64Array;
+  annotations?: EEGAnnotation[];
+}
+
+export type ArtifactKind = 'amplitude' | 'blink' | 'emg' | 'flat' | 'rail';
+
+// Signal quality of one channel over one epoch: poor means no usable signal
+// (flat or railed), fair a transient artifact (blink, muscle, amplitude)
+export interface ChannelQuality {
+  channel: string;
+  quality: 'good' | 'fair' | 'poor';
+  artifacts: ArtifactKind[];
+  // Peak-to-peak of the filtered signal in µV
+  peakToPeak: number;
+}
+
+export interface SignalQuality {
+  channels: ChannelQuality[];
+  // True when no channel was clean; such epochs are left out of classification
+  contaminated: boolean;
+}
+
+// One analysis window of a recording, `timestamp` in seconds from the start
+export interface MetricFrame {
+  timestamp: number;
+  metrics: EEGMetrics;
+  bandPowers?: BandPowers;
+  // Artifact screening, for frames computed from raw samples
+  quality?: SignalQuality;
+}
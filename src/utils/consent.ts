@@ -0,0 +1,128 @@
+/**
+ * Consent records.
+ *
+ * Every sensitive data source is a modality (EEG, camera, microphone, AI
+ * chat), and each modality is used for some of three purposes: processing on
+ * this device, storage on this device, and sharing with a cloud service. The
+ * policy in src/config/consentPolicy.json says which purposes apply to which
+ * modality and explains each one.
+ *
+ * A grant holds for one modality and purpose under the policy version it was
+ * given for; raising the policy version makes earlier grants stale, so the
+ * user is asked again. Every grant, refusal and withdrawal is appended to a
+ * history log. The store itself is hooks/useConsent.ts.
+ */
+
+import { z } from 'zod';
+import policyJson from '@/config/consentPolicy.json';
+
+export const CONSENT_MODALITIES = ['eeg', 'camera', 'microphone', 'chat'] as const;
+export type ConsentModality = (typeof CONSENT_MODALITIES)[number];
+
+export const CONSENT_PURPOSES = ['processing', 'storage', 'cloud'] as const;
+export type ConsentPurpose = (typeof CONSENT_PURPOSES)[number];
+
+const policySchema = z.object({
+  version: z.number().int().positive(),
+  effective: z.string(),
+  summary: z.string(),
+  purposes: z.record(z.enum(CONSENT_PURPOSES), z.object({ label: z.string(), text: z.string() })),
+  modalities: z.record(
+    z.enum(CONSENT_MODALITIES),
+    z.object({ label: z.string(), description: z.string(), purposes: z.array(z.enum(CONSENT_PURPOSES)).min(1) }),
+  ),
+});
+
+export type ConsentPolicy = z.infer<typeof policySchema>;
+
+export const CONSENT_POLICY: ConsentPolicy = policySchema.parse(policyJson);
+
+export type ConsentAction = 'grant' | 'deny' | 'withdraw';
+
+export interface ConsentEvent {
+  at: string;
+  modality: ConsentModality;
+  purpose: ConsentPurpose;
+  action: ConsentAction;
+  policyVersion: number;
+}
+
+export interface ConsentGrant {
+  granted: boolean;
+  policyVersion: number;
+  at: string;
+}
+
+export interface ConsentState {
+  // Keyed by `${modality}:${purpose}`; absent when never asked
+  grants: Partial<Record<string, ConsentGrant>>;
+  history: ConsentEvent[];
+}
+
+export type ConsentStatus = 'granted' | 'denied' | 'unset' | 'stale';
+
+// Oldest history entries are dropped beyond this
+export const CONSENT_HISTORY_LIMIT = 500;
+
+const key = (modality: ConsentModality, purpose: ConsentPurpose) => `${modality}:${purpose}`;
+
+/** Purposes the policy lists for `modality`. */
+export const purposesOf = (modality: ConsentModality, policy: ConsentPolicy = CONSENT_POLICY): ConsentPurpose[] =>
+  policy.modalities[modality]?.purposes ?? [];
+
+export const consentStatus = (
+  state: ConsentState,
+  modality: ConsentModality,
+  purpose: ConsentPurpose,
+  policy: ConsentPolicy = CONSENT_POLICY,
+): ConsentStatus => {
+  const grant = state.grants[key(modality, purpose)];
+  if (!grant) return 'unset';
+  if (!grant.granted) return 'denied';
+  return grant.policyVersion >= policy.version ? 'granted' : 'stale';
+};
+
+export const isGranted = (state: ConsentState, modality: ConsentModality, purpose: ConsentPurpose, policy: ConsentPolicy = CONSENT_POLICY) =>
+  consentStatus(state, modality, purpose, policy) === 'granted';
+
+/**
+ * Applies `action` to each purpose and logs it. Withdrawing something that is
+ * not granted changes nothing and is not logged.
+ */
+export const recordConsent = (
+  state: ConsentState,
+  modality: ConsentModality,
+  purposes: ConsentPurpose[],
+  action: ConsentAction,
+  policy: ConsentPolicy = CONSENT_POLICY,
+  at = new Date().toISOString(),
+): ConsentState => {
+  const grants = { ...state.grants };
+  const events: ConsentEvent[] = [];
+  purposes.forEach(purpose => {
+    if (action === 'withdraw' && !grants[key(modality, purpose)]?.granted) return;
+    grants[key(modality, purpose)] = { granted: action === 'grant', policyVersion: policy.version, at };
+    events.push({ at, modality, purpose, action, policyVersion: policy.version });
+  });
+  if (events.length === 0) return state;
+  return { grants, history: [...state.history, ...events].slice(-CONSENT_HISTORY_LIMIT) };
+};
+
+const eventSchema = z.object({
+  at: z.string(),
+  modality: z.enum(CONSENT_MODALITIES),
+  purpose: z.enum(CONSENT_PURPOSES),
+  action: z.enum(['grant', 'deny', 'withdraw']),
+  policyVersion: z.number(),
+});
+
+const stateSchema = z.object({
+  grants: z.record(z.string(), z.object({ granted: z.boolean(), policyVersion: z.number(), at: z.string() })),
+  history: z.array(eventSchema),
+});
+
+/** Saved consent state, or null when it is missing or unreadable. */
+export const parseConsentState = (value: unknown): ConsentState | null => {
+  const result = stateSchema.safeParse(value);
+  return result.success ? (result.data as ConsentState) : null;
+};
@@ -0,0 +1,138 @@
+/**
+ * Ocular and muscle artifact screening for EEG epochs.
+ *
+ * Each channel of an epoch is checked for:
+ *
+ *   amplitude  filtered peak-to-peak above `amplitude` µV (movement, electrode pops)
+ *   blink      on frontal electrodes (Fp*, AF*, F*), a slow deflection above
+ *              `blink` µV once the signal is smoothed over 100 ms
+ *   emg        gamma (30–45 Hz) carrying more than `emgRatio` of the total
+ *              power, the broadband signature of jaw clenching or frowning
+ *   flat       filtered standard deviation below `flat` µV (lost contact)
+ *   rail       raw samples stuck at the epoch extreme for `railSeconds` or
+ *              longer (amplifier saturation)
+ *
+ * Channels with any artifact are left out of the epoch's band-power average.
+ * When no channel is clean the epoch is marked contaminated and the brain-state
+ * classifier holds its previous state instead of reading it.
+ */
+
+import type { ArtifactKind, BandPowers, ChannelQuality, SignalQuality } from '@/types/eeg';
+
+export interface ArtifactThresholds {
+  amplitude: number;
+  blink: number;
+  emgRatio: number;
+  flat: number;
+  railSeconds: number;
+}
+
+export const DEFAULT_ARTIFACT_THRESHOLDS: ArtifactThresholds = {
+  amplitude: 150,
+  blink: 70,
+  emgRatio: 0.3,
+  flat: 0.5,
+  railSeconds: 0.05,
+};
+
+const BLINK_SMOOTHING_SECONDS = 0.1;
+
+/** Fp1, Fpz, AF7, F3… including EDF-style labels such as "EEG Fp1-REF". */
+export const isFrontalChannel = (label: string) => {
+  const name = label.replace(/^eeg\s+/i, '').split(/[-\s]/)[0];
+  return /^(fp|af|f)(\d+|z)$/i.test(name);
+};
+
+const peakToPeak = (signal: ArrayLike<number>) => {
+  let min = Infinity;
+  let max = -Infinity;
+  for (let i = 0; i < signal.length; i++) {
+    if (signal[i] < min) min = signal[i];
+    if (signal[i] > max) max = signal[i];
+  }
+  return signal.length > 0 ? max - min : 0;
+};
+
+const standardDeviation = (signal: ArrayLike<number>) => {
+  let mean = 0;
+  for (let i = 0; i < signal.length; i++) mean += signal[i];
+  mean /= signal.length || 1;
+  let sum = 0;
+  for (let i = 0; i < signal.length; i++) sum += (signal[i] - mean) ** 2;
+  return Math.sqrt(sum / (signal.length || 1));
+};
+
+// Peak-to-peak after a moving average, which keeps blinks and drops alpha and faster rhythms
+const smoothedPeakToPeak = (signal: ArrayLike<number>, width: number) => {
+  if (signal.length < width || width < 2) return peakToPeak(signal);
+  const smoothed = new Float32Array(signal.length - width + 1);
+  let sum = 0;
+  for (let i = 0; i < signal.length; i++) {
+    sum += signal[i];
+    if (i >= width) sum -= signal[i - width];
+    if (i >= width - 1) smoothed[i - width + 1] = sum / width;
+  }
+  return peakToPeak(smoothed);
+};
+
+// Longest run of identical samples sitting at the epoch's minimum or maximum
+const longestRailRun = (raw: ArrayLike<number>) => {
+  let min = Infinity;
+  let max = -Infinity;
+  for (let i = 0; i < raw.length; i++) {
+    if (raw[i] < min) min = raw[i];
+    if (raw[i] > max) max = raw[i];
+  }
+  let longest = 0;
+  let run = 0;
+  for (let i = 0; i < raw.length; i++) {
+    const atRail = raw[i] === min || raw[i] === max;
+    run = atRail && i > 0 && raw[i] === raw[i - 1] ? run + 1 : atRail ? 1 : 0;
+    if (run > longest) longest = run;
+  }
+  return longest;
+};
+
+/**
+ * Screens one epoch. `filtered` and `raw` hold the same samples per channel
+ * before and after the band-pass; `bandPowers` are the per-channel powers.
+ */
+export const assessEpoch = (
+  filtered: ArrayLike<number>[],
+  raw: ArrayLike<number>[],
+  bandPowers: BandPowers[],
+  sampleRate: number,
+  channelNames: string[] = [],
+  thresholds: ArtifactThresholds = DEFAULT_ARTIFACT_THRESHOLDS,
+): SignalQuality => {
+  const railRun = Math.max(5, Math.round(thresholds.railSeconds * sampleRate));
+  const smoothing = Math.max(2, Math.round(BLINK_SMOOTHING_SECONDS * sampleRate));
+
+  const channels: ChannelQuality[] = filtered.map((signal, c) => {
+    const name = channelNames[c] ?? `Ch${c + 1}`;
+    const artifacts: ArtifactKind[] = [];
+    const p2p = peakToPeak(signal);
+    const flat = standardDeviation(signal) < thresholds.flat;
+    if (flat) artifacts.push('flat');
+    else if (raw[c] && longestRailRun(raw[c]) >= railRun) artifacts.push('rail');
+    if (!flat) {
+      if (p2p > thresholds.amplitude) artifacts.push('amplitude');
+      if (isFrontalChannel(name) && smoothedPeakToPeak(signal, smoothing) > thresholds.blink) artifacts.push('blink');
+      const bp = bandPowers[c];
+      const total = bp ? bp.delta + bp.theta + bp.alpha + bp.beta + bp.gamma : 0;
+      if (bp && total > 0 && bp.gamma / total > thresholds.emgRatio) artifacts.push('emg');
+    }
+    const quality = artifacts.includes('flat') || artifacts.includes('rail') ? 'poor' : artifacts.length > 0 ? 'fair' : 'good';
+    return { channel: name, quality, artifacts, peakToPeak: p2p };
+  });
+
+  return { channels, contaminated: channels.length > 0 && channels.every(c => c.artifacts.length > 0) };
+};
+
+export const ARTIFACT_LABELS: Record<ArtifactKind, string> = {
+  amplitude: 'High amplitude',
+  blink: 'Eye blink',
+  emg: 'Muscle (EMG)',
+  flat: 'Flat line',
+  rail: 'Railed',
+};
@@ -0,0 +1,220 @@
+/**
+ * Declarative brain-state classification.
+ *
+ * A rule set is JSON (see src/config/brainStateRules.json): each rule names a
+ * state, a colour, a priority and the metric conditions that must all hold.
+ * The highest-priority matching rule wins; when none match, the fallback state
+ * is shown. Two mechanisms keep the label from flickering on noisy metrics:
+ *
+ *   hysteresis      while a rule is the current state its thresholds are
+ *                   relaxed by this many metric points, so it takes a clearer
+ *                   change to leave it than it took to enter it;
+ *   minDwellSeconds a different state must keep winning for this long before
+ *                   the label switches to it.
+ *
+ * Both can be overridden per rule. Rule sets are validated with zod so edited
+ * JSON is rejected with a readable path before it reaches the classifier.
+ *
+ * A trained personal model (personalClassifier.ts) can replace the rules for
+ * frames that carry band powers; hysteresis then favours the current state by
+ * that many percentage points of probability, and the rule set's dwell applies.
+ */
+
+import { z } from 'zod';
+import type { BandPowers, EEGMetrics, MetricFrame } from '@/types/eeg';
+import defaultRulesJson from '@/config/brainStateRules.json';
+import { predictProbabilities, type PersonalModel } from './personalClassifier';
+
+const metricSchema = z.enum(['attention', 'relaxation', 'drowsiness', 'engagement']);
+const colorSchema = z.string().regex(/^#[0-9a-fA-F]{6}$/, 'Expected a colour like #4ECDC4');
+
+const conditionSchema = z.object({
+  metric: metricSchema,
+  op: z.enum(['>=', '>', '<=', '<']),
+  value: z.number().min(0).max(100),
+});
+
+const ruleSchema = z.object({
+  label: z.string().trim().min(1),
+  color: colorSchema,
+  priority: z.number(),
+  when: z.array(conditionSchema).min(1),
+  hysteresis: z.number().min(0).max(50).optional(),
+  minDwellSeconds: z.number().min(0).max(60).optional(),
+});
+
+export const brainStateRuleSetSchema = z
+  .object({
+    version: z.literal(1),
+    hysteresis: z.number().min(0).max(50).default(0),
+    minDwellSeconds: z.number().min(0).max(60).default(0),
+    fallback: z.object({ label: z.string().trim().min(1), color: colorSchema }),
+    rules: z.array(ruleSchema),
+  })
+  .superRefine((set, ctx) => {
+    const seen = new Set([set.fallback.label]);
+    set.rules.forEach((rule, i) => {
+      if (seen.has(rule.label)) ctx.addIssue({ code: 'custom', path: ['rules', i, 'label'], message: `Duplicate state "${rule.label}"` });
+      seen.add(rule.label);
+    });
+  });
+
+export type BrainStateCondition = z.infer<typeof conditionSchema>;
+export type BrainStateRule = z.infer<typeof ruleSchema>;
+export type BrainStateRuleSet = z.infer<typeof brainStateRuleSetSchema>;
+
+export interface BrainState {
+  label: string;
+  color: string;
+}
+
+export const DEFAULT_RULE_SET: BrainStateRuleSet = brainStateRuleSetSchema.parse(defaultRulesJson);
+
+/** Validates rule-set JSON text; errors are `path: message` lines. */
+export const parseRuleSet = (text: string): { ruleSet: BrainStateRuleSet | null; errors: string[] } => {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch (e) {
+    return { ruleSet: null, errors: [e instanceof Error ? e.message : 'Invalid JSON'] };
+  }
+  const result = brainStateRuleSetSchema.safeParse(json);
+  if (result.success) return { ruleSet: result.data, errors: [] };
+  return {
+    ruleSet: null,
+    errors: result.error.issues.map(issue => `${issue.path.length > 0 ? issue.path.join('.') : 'rules'}: ${issue.message}`),
+  };
+};
+
+// Rule set edited in the EEG simulator, kept in local storage
+export const BRAIN_STATE_RULES_KEY = 'eegsim_brain_state_rules_v1';
+
+/** The edited rule set saved by the EEG simulator, or the default rules. */
+export const loadSavedRuleSet = (): BrainStateRuleSet => {
+  try {
+    const saved = localStorage.getItem(BRAIN_STATE_RULES_KEY);
+    return (saved ? parseRuleSet(saved).ruleSet : null) ?? DEFAULT_RULE_SET;
+  } catch {
+    // Storage unavailable: the default rules
+    return DEFAULT_RULE_SET;
+  }
+};
+
+const holds = ({ metric, op, value }: BrainStateCondition, metrics: EEGMetrics, slack: number) => {
+  const v = metrics[metric];
+  switch (op) {
+    case '>=':
+      return v >= value - slack;
+    case '>':
+      return v > value - slack;
+    case '<=':
+      return v <= value + slack;
+    case '<':
+      return v < value + slack;
+  }
+};
+
+const byPriority = (ruleSet: BrainStateRuleSet) => [...ruleSet.rules].sort((a, b) => b.priority - a.priority);
+
+/** Instantaneous state: the highest-priority rule whose conditions all hold. */
+export const matchRule = (ruleSet: BrainStateRuleSet, metrics: EEGMetrics, current: string | null = null): BrainStateRule | null =>
+  byPriority(ruleSet).find(rule => {
+    const slack = rule.label === current ? (rule.hysteresis ?? ruleSet.hysteresis) : 0;
+    return rule.when.every(c => holds(c, metrics, slack));
+  }) ?? null;
+
+/** Stateful classifier applying hysteresis and dwell over a timeline of frames. */
+export class BrainStateClassifier {
+  private ruleSet: BrainStateRuleSet;
+  private model: PersonalModel | null;
+  private current: BrainState | null = null;
+  private candidate: { state: BrainState; since: number } | null = null;
+  private lastTime: number | null = null;
+
+  constructor(ruleSet: BrainStateRuleSet = DEFAULT_RULE_SET, model: PersonalModel | null = null) {
+    this.ruleSet = ruleSet;
+    this.model = model;
+  }
+
+  get state(): BrainState {
+    return this.current ?? this.ruleSet.fallback;
+  }
+
+  setRuleSet(ruleSet: BrainStateRuleSet) {
+    this.ruleSet = ruleSet;
+    this.reset();
+  }
+
+  /** Uses `model` instead of the rules whenever band powers are available; null reverts to rules. */
+  setModel(model: PersonalModel | null) {
+    this.model = model;
+    this.reset();
+  }
+
+  reset() {
+    this.current = null;
+    this.candidate = null;
+    this.lastTime = null;
+  }
+
+  /**
+   * Classifies metrics observed at `time` seconds; time going backwards (seek,
+   * new source) starts over. Contaminated epochs hold the current state.
+   */
+  update(metrics: EEGMetrics, time: number, bandPowers?: BandPowers, contaminated = false): BrainState {
+    if (this.lastTime !== null && time < this.lastTime) this.reset();
+    this.lastTime = time;
+    if (contaminated) return this.state;
+
+    const { next, dwell } = this.model && bandPowers ? this.fromModel(this.model, bandPowers) : this.fromRules(metrics);
+    if (!this.current || next.label === this.current.label) {
+      this.current = next;
+      this.candidate = null;
+      return this.current;
+    }
+
+    if (!this.candidate || this.candidate.state.label !== next.label) this.candidate = { state: next, since: time };
+    if (time - this.candidate.since >= dwell) {
+      this.current = next;
+      this.candidate = null;
+    }
+    return this.current;
+  }
+
+  private fromRules(metrics: EEGMetrics) {
+    const rule = matchRule(this.ruleSet, metrics, this.current?.label ?? null);
+    const next: BrainState = rule ? { label: rule.label, color: rule.color } : this.ruleSet.fallback;
+    return { next, dwell: rule?.minDwellSeconds ?? this.ruleSet.minDwellSeconds };
+  }
+
+  private fromModel(model: PersonalModel, bandPowers: BandPowers) {
+    const bonus = this.ruleSet.hysteresis / 100;
+    const scores = predictProbabilities(model, bandPowers).map((p, i) => p + (model.labels[i].label === this.current?.label ? bonus : 0));
+    const best = scores.reduce((b, v, i) => (v > scores[b] ? i : b), 0);
+    const { label, color } = model.labels[best];
+    return { next: { label, color }, dwell: this.ruleSet.minDwellSeconds };
+  }
+}
+
+/** Labels every frame of a recording in order, as the live classifier would. */
+export const labelFrames = (ruleSet: BrainStateRuleSet, frames: MetricFrame[], model: PersonalModel | null = null): BrainState[] => {
+  const classifier = new BrainStateClassifier(ruleSet, model);
+  return frames.map(frame => classifier.update(frame.metrics, frame.timestamp, frame.bandPowers, frame.quality?.contaminated));
+};
+
+export interface BrainStateRun extends BrainState {
+  start: number;
+  end: number;
+}
+
+/** Merges per-frame labels into runs; each frame lasts until the next one (the last until `end`). */
+export const stateRuns = (frames: MetricFrame[], states: BrainState[], end: number): BrainStateRun[] => {
+  const runs: BrainStateRun[] = [];
+  frames.forEach((frame, i) => {
+    const until = frames[i + 1]?.timestamp ?? end;
+    const last = runs[runs.length - 1];
+    if (last && last.label === states[i].label) last.end = until;
+    else runs.push({ ...states[i], start: frame.timestamp, end: until });
+  });
+  return runs;
+};
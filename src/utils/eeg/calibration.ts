@@ -0,0 +1,92 @@
+/**
+ * Resting-state baseline calibration.
+ *
+ * A calibration runs three short blocks — eyes open, eyes closed and mental
+ * arithmetic — and keeps the metric frames seen during each. The baseline is
+ * the mean and standard deviation of every metric pooled over all blocks, so it
+ * spans the person's own range from relaxed to effortful.
+ *
+ * Incoming metrics are turned into z-scores against that baseline. The
+ * brain-state rules and feedback work on a 0–100 scale, so classification uses
+ * the z-scores as T-scores (50 + 10·z, clamped): a rule threshold of 70 then
+ * means "two standard deviations above this person's baseline".
+ */
+
+import type { EEGMetrics } from '@/types/eeg';
+
+export type CalibrationBlockId = 'eyes-open' | 'eyes-closed' | 'arithmetic';
+
+export interface CalibrationBlock {
+  id: CalibrationBlockId;
+  title: string;
+  instruction: string;
+  seconds: number;
+}
+
+export interface MetricStats {
+  mean: EEGMetrics;
+  std: EEGMetrics;
+}
+
+export interface EEGBaseline extends MetricStats {
+  version: 1;
+  createdAt: string;
+  source: string;
+  blocks: Partial<Record<CalibrationBlockId, MetricStats & { frames: number }>>;
+}
+
+export const CALIBRATION_BLOCKS: CalibrationBlock[] = [
+  { id: 'eyes-open', title: 'Eyes open', instruction: 'Sit still and rest your gaze on a point in front of you.', seconds: 45 },
+  { id: 'eyes-closed', title: 'Eyes closed', instruction: 'Close your eyes and breathe normally until the chime.', seconds: 45 },
+  { id: 'arithmetic', title: 'Mental arithmetic', instruction: 'Count backwards from 1000 in steps of 7, silently.', seconds: 45 },
+];
+
+// Frames per block below which the block is considered failed
+export const MIN_BLOCK_FRAMES = 10;
+
+const METRICS: (keyof EEGMetrics)[] = ['attention', 'relaxation', 'drowsiness', 'engagement'];
+// Metric points; keeps near-constant baselines from blowing up z-scores
+const MIN_STD = 2;
+
+const mapMetrics = (fn: (metric: keyof EEGMetrics) => number) =>
+  Object.fromEntries(METRICS.map(m => [m, fn(m)])) as unknown as EEGMetrics;
+
+export const metricStats = (frames: EEGMetrics[]): MetricStats => {
+  const n = frames.length || 1;
+  const mean = mapMetrics(m => frames.reduce((s, f) => s + f[m], 0) / n);
+  const std = mapMetrics(m => Math.max(MIN_STD, Math.sqrt(frames.reduce((s, f) => s + (f[m] - mean[m]) ** 2, 0) / n)));
+  return { mean, std };
+};
+
+/** Pools the recorded blocks into a baseline; throws if any block has too few frames. */
+export const computeBaseline = (blocks: Partial<Record<CalibrationBlockId, EEGMetrics[]>>, source: string): EEGBaseline => {
+  const short = CALIBRATION_BLOCKS.filter(b => (blocks[b.id]?.length ?? 0) < MIN_BLOCK_FRAMES);
+  if (short.length > 0) throw new Error(`Not enough data for: ${short.map(b => b.title.toLowerCase()).join(', ')}`);
+  const all = CALIBRATION_BLOCKS.flatMap(b => blocks[b.id] as EEGMetrics[]);
+  return {
+    version: 1,
+    createdAt: new Date().toISOString(),
+    source,
+    ...metricStats(all),
+    blocks: Object.fromEntries(
+      CALIBRATION_BLOCKS.map(b => {
+        const frames = blocks[b.id] as EEGMetrics[];
+        return [b.id, { ...metricStats(frames), frames: frames.length }];
+      }),
+    ),
+  };
+};
+
+export const zScores = (metrics: EEGMetrics, baseline: MetricStats): EEGMetrics =>
+  mapMetrics(m => (metrics[m] - baseline.mean[m]) / baseline.std[m]);
+
+/** Baseline-relative metrics on the 0–100 scale the rules use (T-scores). */
+export const normalizeMetrics = (metrics: EEGMetrics, baseline: MetricStats): EEGMetrics => {
+  const z = zScores(metrics, baseline);
+  return mapMetrics(m => Math.max(0, Math.min(100, 50 + 10 * z[m])));
+};
+
+export const isBaseline = (value: unknown): value is EEGBaseline => {
+  const baseline = value as EEGBaseline | null;
+  return !!baseline && baseline.version === 1 && METRICS.every(m => Number.isFinite(baseline.mean?.[m]) && baseline.std?.[m] > 0);
+};
@@ -0,0 +1,29 @@
+/**
+ * EEG headset abstraction.
+ *
+ * Hardware drivers (Web Bluetooth, serial, …) implement `EEGDevice` so the UI
+ * can connect, stream and report link quality without knowing the transport.
+ */
+
+import type { SamplePacket } from './webSocketSource';
+
+export type DeviceStatus = 'idle' | 'requesting' | 'connecting' | 'streaming' | 'disconnected' | 'error';
+
+export interface DeviceStats {
+  packets: number;
+  // Packets missing according to the device's sequence numbers
+  droppedPackets: number;
+}
+
+export interface EEGDevice {
+  readonly channels: string[];
+  readonly sampleRate: number;
+  getName(): string | null;
+  getStatus(): DeviceStatus;
+  getStats(): DeviceStats;
+  connect(): Promise<void>;
+  disconnect(): Promise<void>;
+  onStatus(listener: (status: DeviceStatus) => void): () => void;
+  onSamples(listener: (packet: SamplePacket) => void): () => void;
+  onError(listener: (message: string) => void): () => void;
+}
@@ -0,0 +1,364 @@
+/**
+ * EDF / EDF+ reader and writer.
+ *
+ * Layout (https://www.edfplus.info/specs/):
+ * - 256-byte fixed header (version, patient, recording, start date/time,
+ *   header size, EDF+ flavour, record count, record duration, signal count)
+ * - 256 bytes per signal, stored field-by-field across all signals
+ * - data records of little-endian int16 samples, signal after signal
+ *
+ * EDF+ files carry an "EDF Annotations" signal of Time-stamped Annotation
+ * Lists (TALs): `+onset[\x15duration]\x14text\x14...\x14\x00`. The first TAL of
+ * each record only keeps time and is skipped.
+ */
+
+import type { EEGAnnotation, EEGRecording } from '@/types/eeg';
+
+export interface EdfSignalHeader {
+  label: string;
+  transducer: string;
+  physicalDimension: string;
+  physicalMin: number;
+  physicalMax: number;
+  digitalMin: number;
+  digitalMax: number;
+  prefiltering: string;
+  samplesPerRecord: number;
+  sampleRate: number;
+  isAnnotation: boolean;
+}
+
+export interface EdfHeader {
+  version: string;
+  patient: string;
+  recording: string;
+  startTime: Date | null;
+  headerBytes: number;
+  // 'EDF', 'EDF+C' (continuous) or 'EDF+D' (discontinuous)
+  format: 'EDF' | 'EDF+C' | 'EDF+D';
+  recordCount: number;
+  recordDuration: number;
+  signals: EdfSignalHeader[];
+}
+
+export interface EdfFile {
+  header: EdfHeader;
+  // Physical values per signal, in the signal's own unit; empty for annotation signals
+  signals: Float32Array[];
+  annotations: EEGAnnotation[];
+}
+
+const ANNOTATION_LABEL = 'EDF Annotations';
+
+const ascii = (bytes: Uint8Array, start: number, length: number): string => {
+  let out = '';
+  for (let i = start; i < start + length; i++) out += String.fromCharCode(bytes[i]);
+  return out.trim();
+};
+
+const parseStartTime = (date: string, time: string): Date | null => {
+  const d = date.split('.').map(Number);
+  const t = time.split('.').map(Number);
+  if (d.length !== 3 || t.length !== 3 || [...d, ...t].some(v => !Number.isFinite(v))) return null;
+  // EDF years are two digits: 85–99 → 1985–1999, 00–84 → 2000–2084
+  const year = d[2] >= 85 ? 1900 + d[2] : 2000 + d[2];
+  return new Date(year, d[1] - 1, d[0], t[0], t[1], t[2]);
+};
+
+const parseTals = (bytes: Uint8Array, into: EEGAnnotation[]) => {
+  // EDF+ TAL text is UTF-8
+  new TextDecoder()
+    .decode(bytes)
+    .split('\x00')
+    .filter(tal => tal.length > 0)
+    .forEach((tal, talIndex) => {
+      const parts = tal.split('\x14');
+      const [onsetStr, durationStr] = parts[0].split('\x15');
+      const onset = Number(onsetStr);
+      if (!Number.isFinite(onset)) return;
+      const texts = parts.slice(1).filter(p => p.length > 0);
+      // First TAL in a record is the record's timekeeping stamp
+      if (talIndex === 0 && texts.length === 0) return;
+      texts.forEach(t =>
+        into.push({
+          onset,
+          duration: durationStr ? Number(durationStr) : undefined,
+          text: t,
+        }),
+      );
+    });
+};
+
+/**
+ * Parses an EDF or EDF+ file. Throws on malformed headers or truncated data.
+ */
+export const parseEdf = (buffer: ArrayBuffer): EdfFile => {
+  const bytes = new Uint8Array(buffer);
+  if (bytes.length < 256) throw new Error('File is too small to be EDF');
+
+  const version = ascii(bytes, 0, 8);
+  if (version !== '0') throw new Error('Not an EDF file (bad version field)');
+
+  const headerBytes = Number(ascii(bytes, 184, 8));
+  const reserved = ascii(bytes, 192, 44);
+  let recordCount = Number(ascii(bytes, 236, 8));
+  const recordDuration = Number(ascii(bytes, 244, 8));
+  const ns = Number(ascii(bytes, 252, 4));
+  if (!Number.isInteger(ns) || ns <= 0 || headerBytes !== 256 * (ns + 1)) {
+    throw new Error('Malformed EDF header');
+  }
+  if (bytes.length < headerBytes) throw new Error('Truncated EDF header');
+
+  const field = (offset: number, width: number) =>
+    Array.from({ length: ns }, (_, i) => ascii(bytes, 256 + offset * ns + i * width, width));
+  let offset = 0;
+  const take = (width: number) => {
+    const values = field(offset, width);
+    offset += width;
+    return values;
+  };
+  const labels = take(16);
+  const transducers = take(80);
+  const dims = take(8);
+  const physMin = take(8).map(Number);
+  const physMax = take(8).map(Number);
+  const digMin = take(8).map(Number);
+  const digMax = take(8).map(Number);
+  const prefilters = take(80);
+  const samples = take(8).map(Number);
+
+  const signals: EdfSignalHeader[] = labels.map((label, i) => ({
+    label,
+    transducer: transducers[i],
+    physicalDimension: dims[i],
+    physicalMin: physMin[i],
+    physicalMax: physMax[i],
+    digitalMin: digMin[i],
+    digitalMax: digMax[i],
+    prefiltering: prefilters[i],
+    samplesPerRecord: samples[i],
+    sampleRate: recordDuration > 0 ? samples[i] / recordDuration : samples[i],
+    isAnnotation: label === ANNOTATION_LABEL,
+  }));
+
+  const recordSamples = samples.reduce((a, b) => a + b, 0);
+  const recordBytes = recordSamples * 2;
+  const available = Math.floor((bytes.length - headerBytes) / recordBytes);
+  if (!Number.isFinite(recordCount) || recordCount < 0) recordCount = available;
+  if (available < recordCount) throw new Error(`Truncated EDF data: expected ${recordCount} records, found ${available}`);
+
+  const view = new DataView(buffer);
+  const out = signals.map(s => (s.isAnnotation ? new Float32Array(0) : new Float32Array(s.samplesPerRecord * recordCount)));
+  const annotations: EEGAnnotation[] = [];
+
+  for (let r = 0; r < recordCount; r++) {
+    let pos = headerBytes + r * recordBytes;
+    signals.forEach((s, i) => {
+      if (s.isAnnotation) {
+        parseTals(bytes.subarray(pos, pos + s.samplesPerRecord * 2), annotations);
+      } else {
+        const gain = (s.physicalMax - s.physicalMin) / (s.digitalMax - s.digitalMin || 1);
+        const target = out[i];
+        const base = r * s.samplesPerRecord;
+        for (let k = 0; k < s.samplesPerRecord; k++) {
+          const digital = view.getInt16(pos + k * 2, true);
+          target[base + k] = (digital - s.digitalMin) * gain + s.physicalMin;
+        }
+      }
+      pos += s.samplesPerRecord * 2;
+    });
+  }
+
+  return {
+    header: {
+      version,
+      patient: ascii(bytes, 8, 80),
+      recording: ascii(bytes, 88, 80),
+      startTime: parseStartTime(ascii(bytes, 168, 8), ascii(bytes, 176, 8)),
+      headerBytes,
+      format: reserved.startsWith('EDF+D') ? 'EDF+D' : reserved.startsWith('EDF+C') ? 'EDF+C' : 'EDF',
+      recordCount,
+      recordDuration,
+      signals,
+    },
+    signals: out,
+    annotations: annotations.sort((a, b) => a.onset - b.onset),
+  };
+};
+
+// Scale factor from a physical dimension to microvolts
+const toMicrovolts = (dimension: string): number => {
+  const unit = dimension.replace('μ', 'u').replace('µ', 'u').toLowerCase();
+  if (unit === 'mv') return 1e3;
+  if (unit === 'v') return 1e6;
+  if (unit === 'nv') return 1e-3;
+  return 1;
+};
+
+// Linear-interpolation resample, used when selected channels differ in rate
+const resample = (signal: Float32Array, from: number, to: number): Float32Array => {
+  if (from === to) return signal;
+  const length = Math.floor((signal.length * to) / from);
+  const out = new Float32Array(length);
+  for (let i = 0; i < length; i++) {
+    const x = (i * from) / to;
+    const i0 = Math.floor(x);
+    const i1 = Math.min(signal.length - 1, i0 + 1);
+    out[i] = signal[i0] + (signal[i1] - signal[i0]) * (x - i0);
+  }
+  return out;
+};
+
+/**
+ * Builds a recording from the chosen signal indices. Channels are converted to
+ * microvolts and resampled to the rate of the first selected channel.
+ */
+export const edfToRecording = (edf: EdfFile, channelIndices: number[]): EEGRecording => {
+  const chosen = channelIndices.filter(i => edf.header.signals[i] && !edf.header.signals[i].isAnnotation);
+  if (chosen.length === 0) throw new Error('Select at least one EEG channel');
+  const sampleRate = edf.header.signals[chosen[0]].sampleRate;
+  const data = chosen.map(i => {
+    const s = edf.header.signals[i];
+    const resampled = resample(edf.signals[i], s.sampleRate, sampleRate);
+    const factor = toMicrovolts(s.physicalDimension);
+    return factor === 1 ? resampled : resampled.map(v => v * factor);
+  });
+  const length = Math.min(...data.map(d => d.length));
+  return {
+    sampleRate,
+    channels: chosen.map(i => edf.header.signals[i].label),
+    data: data.map(d => d.subarray(0, length)),
+    startTime: edf.header.startTime?.getTime(),
+    annotations: edf.annotations,
+  };
+};
+
+/** Default channel selection: every non-annotation signal labelled like EEG. */
+export const defaultEdfChannels = (header: EdfHeader): number[] => {
+  const eeg = header.signals
+    .map((s, i) => ({ s, i }))
+    .filter(({ s }) => !s.isAnnotation && /eeg|^(fp|af|f|fc|c|cp|p|po|o|t|tp)\d|z$/i.test(s.label));
+  const list = eeg.length > 0 ? eeg : header.signals.map((s, i) => ({ s, i })).filter(({ s }) => !s.isAnnotation);
+  return list.map(({ i }) => i);
+};
+
+export interface EdfWriteSignal {
+  label: string;
+  physicalDimension: string;
+  physicalMin: number;
+  physicalMax: number;
+  // Samples per second; must give a whole number of samples per record
+  sampleRate: number;
+  data: ArrayLike<number>;
+}
+
+export interface EdfWriteOptions {
+  startTime?: Date;
+  patient?: string;
+  recording?: string;
+  recordDuration?: number;
+  annotations?: EEGAnnotation[];
+}
+
+const DIGITAL_MIN = -32768;
+const DIGITAL_MAX = 32767;
+
+// Left-aligned, space-padded ASCII field
+const pad = (value: string, width: number) => value.replace(/[^\x20-\x7e]/g, '_').slice(0, width).padEnd(width, ' ');
+
+// Shortest representation of `n` that fits an 8-character numeric field
+const fitNumber = (n: number, width = 8) => {
+  let text = String(n);
+  for (let digits = 8; text.length > width && digits > 0; digits--) text = String(Number(n.toPrecision(digits)));
+  return text;
+};
+
+const TAL_SEPARATORS = ['\x00', '\x14', '\x15'];
+
+// TAL text may not contain the separators; onset needs an explicit sign
+const tal = (annotation: EEGAnnotation) => {
+  const onset = `+${fitNumber(Math.max(0, annotation.onset), 16)}`;
+  const duration = annotation.duration ? `\x15${fitNumber(annotation.duration, 16)}` : '';
+  const text = Array.from(annotation.text, c => (TAL_SEPARATORS.includes(c) ? ' ' : c)).join('');
+  return `${onset}${duration}\x14${text}\x14\x00`;
+};
+
+/**
+ * Writes a continuous EDF+ file. Annotations are placed in the data record
+ * covering their onset, preceded by each record's timekeeping TAL.
+ */
+export const writeEdf = (signals: EdfWriteSignal[], options: EdfWriteOptions = {}): ArrayBuffer => {
+  const recordDuration = options.recordDuration ?? 1;
+  const perRecord = signals.map(s => Math.round(s.sampleRate * recordDuration));
+  if (perRecord.some((n, i) => n <= 0 || Math.abs(n - signals[i].sampleRate * recordDuration) > 1e-6)) {
+    throw new Error('Each signal needs a whole number of samples per data record');
+  }
+  const recordCount = Math.max(1, ...signals.map((s, i) => Math.ceil(s.data.length / perRecord[i])));
+
+  const annotations = [...(options.annotations ?? [])].sort((a, b) => a.onset - b.onset);
+  const recordTals = Array.from({ length: recordCount }, (_, r) => `+${fitNumber(r * recordDuration, 16)}\x14\x14\x00`);
+  annotations.forEach(a => {
+    const r = Math.min(recordCount - 1, Math.max(0, Math.floor(a.onset / recordDuration)));
+    recordTals[r] += tal(a);
+  });
+  const talBytes = recordTals.map(t => new TextEncoder().encode(t));
+  const annotationSamples = Math.max(30, ...talBytes.map(t => Math.ceil(t.length / 2)));
+
+  const ns = signals.length + 1;
+  const headerBytes = 256 * (ns + 1);
+  const recordSamples = perRecord.reduce((a, b) => a + b, 0) + annotationSamples;
+  const buffer = new ArrayBuffer(headerBytes + recordCount * recordSamples * 2);
+  const bytes = new Uint8Array(buffer);
+  const view = new DataView(buffer);
+  let pos = 0;
+  // Header fields are ASCII (see pad)
+  const write = (text: string) => {
+    for (let i = 0; i < text.length; i++) bytes[pos++] = text.charCodeAt(i);
+  };
+
+  const start = options.startTime ?? new Date();
+  const two = (n: number) => String(n).padStart(2, '0');
+  const months = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'];
+  write(pad('0', 8));
+  write(pad(options.patient ?? 'X X X X', 80));
+  write(pad(options.recording ?? `Startdate ${two(start.getDate())}-${months[start.getMonth()]}-${start.getFullYear()} X X X`, 80));
+  write(`${two(start.getDate())}.${two(start.getMonth() + 1)}.${two(start.getFullYear() % 100)}`);
+  write(`${two(start.getHours())}.${two(start.getMinutes())}.${two(start.getSeconds())}`);
+  write(pad(String(headerBytes), 8));
+  write(pad('EDF+C', 44));
+  write(pad(String(recordCount), 8));
+  write(pad(fitNumber(recordDuration), 8));
+  write(pad(String(ns), 4));
+
+  const ranges = signals.map(s => (s.physicalMax > s.physicalMin ? [s.physicalMin, s.physicalMax] : [s.physicalMin - 1, s.physicalMin + 1]));
+  const all = <T,>(values: T[], last: T) => [...values, last];
+  all(signals.map(s => s.label), ANNOTATION_LABEL).forEach(v => write(pad(v, 16)));
+  all(signals.map(() => ''), '').forEach(v => write(pad(v, 80)));
+  all(signals.map(s => s.physicalDimension), '').forEach(v => write(pad(v, 8)));
+  all(ranges.map(r => fitNumber(r[0])), '-1').forEach(v => write(pad(v, 8)));
+  all(ranges.map(r => fitNumber(r[1])), '1').forEach(v => write(pad(v, 8)));
+  all(signals.map(() => String(DIGITAL_MIN)), String(DIGITAL_MIN)).forEach(v => write(pad(v, 8)));
+  all(signals.map(() => String(DIGITAL_MAX)), String(DIGITAL_MAX)).forEach(v => write(pad(v, 8)));
+  all(signals.map(() => ''), '').forEach(v => write(pad(v, 80)));
+  all(perRecord.map(String), String(annotationSamples)).forEach(v => write(pad(v, 8)));
+  all(signals.map(() => ''), '').forEach(v => write(pad(v, 32)));
+
+  for (let r = 0; r < recordCount; r++) {
+    signals.forEach((s, i) => {
+      const [min, max] = ranges[i];
+      const scale = (DIGITAL_MAX - DIGITAL_MIN) / (max - min);
+      for (let k = 0; k < perRecord[i]; k++) {
+        const index = r * perRecord[i] + k;
+        // Pad the final record by holding the last sample
+        const value = s.data[Math.min(index, s.data.length - 1)] ?? 0;
+        const digital = Math.round((Math.min(max, Math.max(min, value)) - min) * scale + DIGITAL_MIN);
+        view.setInt16(pos, digital, true);
+        pos += 2;
+      }
+    });
+    // The rest of the annotation signal stays zero-filled
+    bytes.set(talBytes[r], pos);
+    pos += annotationSamples * 2;
+  }
+  return buffer;
+};
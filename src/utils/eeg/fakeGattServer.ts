@@ -0,0 +1,174 @@
+/**
+ * In-memory stand-in for a Muse-style headset behind `navigator.bluetooth`.
+ *
+ * Implements just enough of the Web Bluetooth surface for MuseBluetoothDevice:
+ * the control characteristic understands h (halt), s (start), d (resume data)
+ * and p<preset>; while streaming, every EEG characteristic notifies a packed
+ * 12-sample packet per sequence number in real time. Packet loss and link
+ * drops can be injected to exercise sequence-gap accounting and the
+ * disconnect path without hardware.
+ */
+
+import {
+  MUSE_CONTROL_CHARACTERISTIC,
+  MUSE_EEG_CHARACTERISTICS,
+  MUSE_SAMPLE_RATE,
+  MUSE_SAMPLES_PER_PACKET,
+  MUSE_SERVICE,
+  decodeCommand,
+  encodeEegPacket,
+  type BluetoothDeviceLike,
+  type BluetoothLike,
+  type GattCharacteristicLike,
+  type GattServerLike,
+  type GattServiceLike,
+} from './museBluetooth';
+
+export interface FakeMuseOptions {
+  name?: string;
+  // Probability that any single notification is lost
+  packetLossRate?: number;
+  // Microvolt value for electrode `channel` at time `t` (seconds)
+  signal?: (channel: number, t: number) => number;
+  // Reject requestDevice as if the user cancelled the chooser
+  cancelChooser?: boolean;
+}
+
+const defaultSignal = (channel: number, t: number) =>
+  20 * Math.sin(2 * Math.PI * 10 * t + channel) + 8 * Math.sin(2 * Math.PI * 20 * t) + (Math.random() - 0.5) * 10;
+
+class FakeCharacteristic extends EventTarget implements GattCharacteristicLike {
+  readonly uuid: string;
+  value: DataView | null = null;
+  notifying = false;
+  private onWrite?: (bytes: Uint8Array) => void;
+
+  constructor(uuid: string, onWrite?: (bytes: Uint8Array) => void) {
+    super();
+    this.uuid = uuid;
+    this.onWrite = onWrite;
+  }
+
+  async startNotifications() {
+    this.notifying = true;
+    return this;
+  }
+
+  async writeValue(value: BufferSource) {
+    if (!this.onWrite) throw new Error(`Characteristic ${this.uuid} is not writable`);
+    const bytes = value instanceof ArrayBuffer ? new Uint8Array(value) : new Uint8Array(value.buffer, value.byteOffset, value.byteLength);
+    this.onWrite(bytes);
+  }
+
+  notify(view: DataView) {
+    if (!this.notifying) return;
+    this.value = view;
+    this.dispatchEvent(new Event('characteristicvaluechanged'));
+  }
+}
+
+export class FakeMuseHeadset implements BluetoothLike {
+  readonly commands: string[] = [];
+  private options: Required<FakeMuseOptions>;
+  private device: EventTarget & { name: string; gatt: GattServerLike };
+  private control: FakeCharacteristic;
+  private eeg: FakeCharacteristic[];
+  private connected = false;
+  private streaming = false;
+  private seq = 0;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private startedAt = 0;
+  private sent = 0;
+
+  constructor(options: FakeMuseOptions = {}) {
+    this.options = { name: 'Muse-FAKE', packetLossRate: 0, signal: defaultSignal, cancelChooser: false, ...options };
+    this.control = new FakeCharacteristic(MUSE_CONTROL_CHARACTERISTIC, bytes => this.handleCommand(bytes));
+    this.eeg = MUSE_EEG_CHARACTERISTICS.map(uuid => new FakeCharacteristic(uuid));
+
+    const service: GattServiceLike = {
+      getCharacteristic: async uuid => {
+        const found = [this.control, ...this.eeg].find(c => c.uuid === uuid);
+        if (!found) throw new Error(`No characteristic ${uuid}`);
+        return found;
+      },
+    };
+    const isConnected = () => this.connected;
+    const server: GattServerLike = {
+      get connected() {
+        return isConnected();
+      },
+      connect: async () => {
+        this.connected = true;
+        return server;
+      },
+      disconnect: () => {
+        if (!this.connected) return;
+        this.connected = false;
+        this.stop();
+        this.device.dispatchEvent(new Event('gattserverdisconnected'));
+      },
+      getPrimaryService: async uuid => {
+        if (!this.connected) throw new Error('GATT server is not connected');
+        if (uuid !== MUSE_SERVICE) throw new Error(`No service ${uuid}`);
+        return service;
+      },
+    };
+    this.device = Object.assign(new EventTarget(), { name: this.options.name, gatt: server });
+  }
+
+  async requestDevice(): Promise<BluetoothDeviceLike> {
+    if (this.options.cancelChooser) throw Object.assign(new Error('User cancelled the requestDevice() chooser.'), { name: 'NotFoundError' });
+    return this.device;
+  }
+
+  isStreaming() {
+    return this.streaming;
+  }
+
+  /** Drops the link as if the headset went out of range. */
+  simulateLinkLoss() {
+    this.device.gatt.disconnect();
+  }
+
+  /** Emits one packet per EEG characteristic synchronously; useful for deterministic checks. */
+  emitPacket() {
+    const t0 = (this.seq * MUSE_SAMPLES_PER_PACKET) / MUSE_SAMPLE_RATE;
+    this.eeg.forEach((characteristic, channel) => {
+      if (Math.random() < this.options.packetLossRate) return;
+      const samples = Array.from({ length: MUSE_SAMPLES_PER_PACKET }, (_, i) => this.options.signal(channel, t0 + i / MUSE_SAMPLE_RATE));
+      characteristic.notify(encodeEegPacket(this.seq, samples));
+    });
+    this.seq = (this.seq + 1) % 0x10000;
+  }
+
+  /** Notifies a truncated packet on one channel, as a faulty headset might. */
+  emitMalformedPacket(channel = 0) {
+    this.eeg[channel].notify(new DataView(new ArrayBuffer(4)));
+  }
+
+  private handleCommand(bytes: Uint8Array) {
+    const command = decodeCommand(bytes);
+    if (command === null) throw new Error('Malformed control write');
+    this.commands.push(command);
+    if (command === 'h') this.stop();
+    if (command === 'd' || command === 's') this.start();
+  }
+
+  private start() {
+    if (this.streaming || !this.connected) return;
+    this.streaming = true;
+    this.startedAt = Date.now();
+    this.sent = 0;
+    // Catch up on elapsed time each tick so timer jitter does not change the sample rate
+    this.timer = setInterval(() => {
+      const due = Math.floor(((Date.now() - this.startedAt) / 1000) * (MUSE_SAMPLE_RATE / MUSE_SAMPLES_PER_PACKET));
+      for (; this.sent < due; this.sent++) this.emitPacket();
+    }, 20);
+  }
+
+  private stop() {
+    this.streaming = false;
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+}
@@ -0,0 +1,24 @@
+import { describe, expect, it } from 'vitest';
+import { parseRecordingText } from './formats';
+
+describe('parseRecordingText', () => {
+  it('reports issues on the line where they appear in the file', () => {
+    const { issues, recording } = parseRecordingText('a,b\n1,2\n\n\n3,x\n4,5', 'data.csv');
+    expect(issues).toEqual([{ line: 5, message: 'Non-numeric value "x" in channel b' }]);
+    expect(Array.from(recording.data[0])).toEqual([1, 4]);
+  });
+
+  it('counts lines the same way in CRLF files', () => {
+    const { issues } = parseRecordingText('a,b\r\n\r\n1,2\r\n3\r\n\r\n4,5\r\n', 'data.csv');
+    expect(issues).toEqual([{ line: 4, message: 'Expected at least 2 columns, found 1' }]);
+  });
+
+  it('numbers vendor export rows after blank lines', () => {
+    const text = ['%OpenBCI Raw EEG Data', '%Number of channels = 1', '%Sample Rate = 250 Hz', '', '0,1.5', '', '1,oops', '2,2.5'].join(
+      '\r\n',
+    );
+    const { format, issues } = parseRecordingText(text, 'OpenBCI-RAW.txt');
+    expect(format).toBe('openbci');
+    expect(issues).toEqual([{ line: 7, message: 'Non-numeric value "oops" in channel EXG0' }]);
+  });
+});
@@ -0,0 +1,428 @@
+/**
+ * EEG recording formats.
+ *
+ * Each adapter recognises one export format and normalizes it into an
+ * `EEGRecording` (channels in microvolts, sample rate, per-sample timestamps,
+ * markers as annotations). Malformed rows are skipped and reported with their
+ * 1-based line number; a file where most rows are malformed is rejected.
+ *
+ * Supported text formats:
+ * - Mind Monitor (Muse) CSV: `TimeStamp,...,RAW_TP9,RAW_AF7,RAW_AF8,RAW_TP10,...,Elements`
+ * - OpenBCI GUI `.txt`: `%`-prefixed header with `Sample Rate = 250 Hz`, then
+ *   `Sample Index, EXG Channel 0, ...` (older exports omit the column header)
+ * - Emotiv (EmotivPRO) CSV: metadata line with `sampling:eeg_128`, then
+ *   `Timestamp,EEG.Counter,...,EEG.AF3,...,MarkerValueInt`
+ * - Generic CSV: one column per channel, one row per sample; the sample rate
+ *   is supplied by the user
+ * - JSON: `{ "sampleRate": 256, "channels": ["Fp1", ...], "data": [[...], ...] }`
+ *   with `data` indexed by channel
+ */
+
+import type { EEGAnnotation, EEGRecording } from '@/types/eeg';
+
+export type EEGFormatId = 'mind-monitor' | 'openbci' | 'emotiv' | 'generic-csv' | 'json';
+
+export interface ParseIssue {
+  line: number;
+  message: string;
+}
+
+export interface ParsedRecording {
+  format: EEGFormatId;
+  formatLabel: string;
+  recording: EEGRecording;
+  issues: ParseIssue[];
+}
+
+export interface ParseOptions {
+  // Used when the file does not declare (or let us infer) a sample rate
+  sampleRate?: number;
+}
+
+export class RecordingParseError extends Error {
+  issues: ParseIssue[];
+
+  constructor(message: string, issues: ParseIssue[] = []) {
+    super(message);
+    this.name = 'RecordingParseError';
+    this.issues = issues;
+  }
+}
+
+/** A non-blank line of the file with its 1-based line number, for issue reports. */
+interface TextLine {
+  text: string;
+  line: number;
+}
+
+interface FormatAdapter {
+  id: EEGFormatId;
+  label: string;
+  detect: (lines: string[], fileName: string) => boolean;
+  parse: (lines: TextLine[], options: ParseOptions) => Omit<ParsedRecording, 'format' | 'formatLabel'>;
+}
+
+// Reject files where more than this share of data rows are malformed
+const MAX_BAD_ROW_RATIO = 0.5;
+// Cap on issues kept per file so a broken export does not flood the UI
+const MAX_REPORTED_ISSUES = 100;
+
+const DEFAULT_SAMPLE_RATE = 256;
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+export const splitCsvLine = (line: string, delimiter = ','): string[] => {
+  if (!line.includes('"')) return line.split(delimiter).map(c => c.trim());
+  const out: string[] = [];
+  let current = '';
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (ch === '"') {
+      if (quoted && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else {
+        quoted = !quoted;
+      }
+    } else if (ch === delimiter && !quoted) {
+      out.push(current.trim());
+      current = '';
+    } else {
+      current += ch;
+    }
+  }
+  out.push(current.trim());
+  return out;
+};
+
+/**
+ * Sample rate from the average spacing over the first few seconds of
+ * timestamps (robust to millisecond-quantized clocks), or null if unusable.
+ */
+export const estimateSampleRate = (timestamps: ArrayLike<number>): number | null => {
+  const n = Math.min(timestamps.length, 2048);
+  if (n < 2) return null;
+  const span = timestamps[n - 1] - timestamps[0];
+  if (!(span > 0)) return null;
+  return Math.round((n - 1) / span);
+};
+
+/**
+ * Accumulates rows column-by-column with per-line validation, then produces
+ * the recording and issue list shared by every CSV-like adapter.
+ */
+class RecordingBuilder {
+  private columns: number[][];
+  private times: number[] = [];
+  readonly issues: ParseIssue[] = [];
+  readonly annotations: EEGAnnotation[] = [];
+  private rows = 0;
+  private badRows = 0;
+
+  constructor(readonly channels: string[]) {
+    this.columns = channels.map(() => []);
+  }
+
+  report(line: number, message: string) {
+    this.badRows++;
+    if (this.issues.length < MAX_REPORTED_ISSUES) this.issues.push({ line, message });
+  }
+
+  /** Adds a sample row; returns false (and records an issue) if any value is not numeric. */
+  add(line: number, values: string[], time?: number): boolean {
+    this.rows++;
+    const parsed = values.map(Number);
+    const badIndex = parsed.findIndex((v, i) => values[i] === '' || !Number.isFinite(v));
+    if (badIndex !== -1) {
+      this.report(line, `Non-numeric value "${values[badIndex]}" in channel ${this.channels[badIndex]}`);
+      return false;
+    }
+    parsed.forEach((v, i) => this.columns[i].push(v));
+    if (time !== undefined) this.times.push(time);
+    return true;
+  }
+
+  countRow() {
+    this.rows++;
+  }
+
+  get sampleCount() {
+    return this.columns[0]?.length ?? 0;
+  }
+
+  /**
+   * `sampleRate` wins when given; otherwise it is estimated from the row
+   * timestamps, then `fallbackRate` is used.
+   */
+  build(sampleRate: number | null, fallbackRate?: number): Omit<ParsedRecording, 'format' | 'formatLabel'> {
+    if (this.sampleCount === 0) {
+      throw new RecordingParseError('No valid samples found', this.issues);
+    }
+    if (this.rows > 0 && this.badRows / this.rows > MAX_BAD_ROW_RATIO) {
+      throw new RecordingParseError(`${this.badRows} of ${this.rows} rows are malformed`, this.issues);
+    }
+    const hasTimes = this.times.length === this.sampleCount;
+    const t0 = hasTimes ? this.times[0] : 0;
+    const timestamps = hasTimes ? Float64Array.from(this.times, t => t - t0) : undefined;
+    const rate = sampleRate ?? (timestamps ? estimateSampleRate(timestamps) : null) ?? fallbackRate;
+    if (!rate || rate <= 0) {
+      throw new RecordingParseError('Could not determine the sample rate', this.issues);
+    }
+    return {
+      recording: {
+        sampleRate: rate,
+        channels: this.channels,
+        data: this.columns.map(c => Float32Array.from(c)),
+        startTime: hasTimes && t0 > 1e9 ? t0 * 1000 : undefined,
+        timestamps,
+        annotations: this.annotations
+          .map(a => ({ ...a, onset: a.onset - (hasTimes && a.onset > 1e9 ? t0 : 0) }))
+          .sort((a, b) => a.onset - b.onset),
+      },
+      issues: this.issues,
+    };
+  }
+}
+
+const headerIndex = (header: string[], names: string[]) => names.map(n => header.indexOf(n));
+
+const checkWidth = (builder: RecordingBuilder, line: number, cells: string[], expected: number): boolean => {
+  if (cells.length < expected) {
+    builder.countRow();
+    builder.report(line, `Expected at least ${expected} columns, found ${cells.length}`);
+    return false;
+  }
+  return true;
+};
+
+// ---------------------------------------------------------------------------
+// Adapters
+// ---------------------------------------------------------------------------
+
+const MIND_MONITOR_CHANNELS = ['TP9', 'AF7', 'AF8', 'TP10'];
+
+// Mind Monitor writes "2020-01-24 13:38:14.123" in local time
+const parseMindMonitorTime = (value: string): number => {
+  const ms = Date.parse(value.replace(' ', 'T'));
+  return Number.isFinite(ms) ? ms / 1000 : NaN;
+};
+
+const mindMonitor: FormatAdapter = {
+  id: 'mind-monitor',
+  label: 'Muse (Mind Monitor)',
+  detect: lines => /(^|,)TimeStamp,/.test(lines[0] ?? '') && lines[0].includes('RAW_TP9'),
+  parse: (lines, options) => {
+    const header = splitCsvLine(lines[0].text);
+    const timeCol = header.indexOf('TimeStamp');
+    const rawCols = headerIndex(header, MIND_MONITOR_CHANNELS.map(c => `RAW_${c}`));
+    const elementsCol = header.indexOf('Elements');
+    const builder = new RecordingBuilder(MIND_MONITOR_CHANNELS);
+    const width = Math.max(timeCol, ...rawCols) + 1;
+
+    for (let i = 1; i < lines.length; i++) {
+      const lineNo = lines[i].line;
+      const cells = splitCsvLine(lines[i].text);
+      const time = parseMindMonitorTime(cells[timeCol] ?? '');
+      // Marker rows (blinks, jaw clenches, user markers) carry no samples
+      const element = elementsCol >= 0 ? cells[elementsCol] : '';
+      if (element) {
+        if (Number.isFinite(time)) builder.annotations.push({ onset: time, text: element.replace('/muse/elements/', '') });
+        continue;
+      }
+      if (!checkWidth(builder, lineNo, cells, width)) continue;
+      if (!Number.isFinite(time)) {
+        builder.countRow();
+        builder.report(lineNo, `Invalid TimeStamp "${cells[timeCol]}"`);
+        continue;
+      }
+      builder.add(lineNo, rawCols.map(c => cells[c]), time);
+    }
+    return builder.build(null, options.sampleRate ?? DEFAULT_SAMPLE_RATE);
+  },
+};
+
+const OPENBCI_CHANNEL_PATTERN = /^EXG Channel (\d+)$/;
+
+const openBci: FormatAdapter = {
+  id: 'openbci',
+  label: 'OpenBCI GUI',
+  detect: (lines, fileName) =>
+    (lines[0] ?? '').startsWith('%OpenBCI') || (fileName.toLowerCase().endsWith('.txt') && lines.some(l => l.startsWith('%Sample Rate'))),
+  parse: (lines, options) => {
+    let sampleRate: number | null = null;
+    let declaredChannels = 8;
+    let i = 0;
+    for (; i < lines.length && lines[i].text.startsWith('%'); i++) {
+      const rate = /Sample Rate\s*=\s*([\d.]+)/i.exec(lines[i].text);
+      if (rate) sampleRate = Number(rate[1]);
+      const count = /Number of channels\s*=\s*(\d+)/i.exec(lines[i].text);
+      if (count) declaredChannels = Number(count[1]);
+    }
+
+    let channelCols: number[];
+    let timeCol = -1;
+    let markerCol = -1;
+    const first = splitCsvLine(lines[i]?.text ?? '');
+    if (first[0] === 'Sample Index') {
+      // OpenBCI GUI v5+: named columns
+      channelCols = first.map((name, idx) => (OPENBCI_CHANNEL_PATTERN.test(name) ? idx : -1)).filter(idx => idx >= 0);
+      timeCol = first.indexOf('Timestamp');
+      markerCol = first.indexOf('Marker Channel');
+      i++;
+    } else {
+      // Older exports: index, then one column per channel
+      channelCols = Array.from({ length: declaredChannels }, (_, c) => c + 1);
+    }
+    if (channelCols.length === 0) throw new RecordingParseError('No EXG channel columns found');
+
+    const builder = new RecordingBuilder(channelCols.map((_, c) => `EXG${c}`));
+    const width = Math.max(...channelCols, timeCol) + 1;
+    for (; i < lines.length; i++) {
+      const lineNo = lines[i].line;
+      if (lines[i].text.startsWith('%')) continue;
+      const cells = splitCsvLine(lines[i].text);
+      if (!checkWidth(builder, lineNo, cells, width)) continue;
+      const time = timeCol >= 0 ? Number(cells[timeCol]) : undefined;
+      if (builder.add(lineNo, channelCols.map(c => cells[c]), time !== undefined && Number.isFinite(time) ? time : undefined)) {
+        const marker = markerCol >= 0 ? Number(cells[markerCol]) : 0;
+        if (marker && time !== undefined) builder.annotations.push({ onset: time, text: `Marker ${marker}` });
+      }
+    }
+    return builder.build(sampleRate ?? null, options.sampleRate ?? 250);
+  },
+};
+
+// Emotiv columns that are not EEG channels even though they share the prefix
+const EMOTIV_NON_CHANNELS = new Set([
+  'Counter',
+  'Interpolated',
+  'RawCq',
+  'Battery',
+  'BatteryPercent',
+  'MarkerHardware',
+  'HighBitFlex',
+  'SaturationFlag',
+]);
+
+const emotiv: FormatAdapter = {
+  id: 'emotiv',
+  label: 'Emotiv',
+  detect: lines => /sampling(?: rate)?:eeg_\d+/i.test(lines[0] ?? '') || (lines[0] ?? '').includes('EEG.AF3'),
+  parse: (lines, options) => {
+    const rateMatch = /sampling(?: rate)?:eeg_(\d+)/i.exec(lines[0].text);
+    const headerLine = lines[0].text.includes('EEG.') ? 0 : 1;
+    const header = splitCsvLine(lines[headerLine]?.text ?? '');
+    const channelCols = header
+      .map((name, idx) => ({ name, idx }))
+      .filter(({ name }) => name.startsWith('EEG.') && !EMOTIV_NON_CHANNELS.has(name.slice(4)));
+    if (channelCols.length === 0) throw new RecordingParseError('No EEG.* channel columns found');
+    const timeCol = header.indexOf('Timestamp');
+    const markerCol = header.indexOf('MarkerValueInt');
+
+    const builder = new RecordingBuilder(channelCols.map(c => c.name.slice(4)));
+    const width = Math.max(timeCol, ...channelCols.map(c => c.idx)) + 1;
+    for (let i = headerLine + 1; i < lines.length; i++) {
+      const lineNo = lines[i].line;
+      const cells = splitCsvLine(lines[i].text);
+      if (!checkWidth(builder, lineNo, cells, width)) continue;
+      const time = timeCol >= 0 ? Number(cells[timeCol]) : undefined;
+      if (builder.add(lineNo, channelCols.map(c => cells[c.idx]), time !== undefined && Number.isFinite(time) ? time : undefined)) {
+        const marker = markerCol >= 0 ? cells[markerCol] : '';
+        if (marker && time !== undefined) builder.annotations.push({ onset: time, text: `Marker ${marker}` });
+      }
+    }
+    return builder.build(rateMatch ? Number(rateMatch[1]) : null, options.sampleRate ?? 128);
+  },
+};
+
+const TIME_COLUMNS = new Set(['time', 'timestamp', 'timestamps', 't', 'sample', 'index']);
+
+const genericCsv: FormatAdapter = {
+  id: 'generic-csv',
+  label: 'Generic CSV',
+  detect: lines => (lines[0] ?? '').includes(','),
+  parse: (lines, options) => {
+    const header = splitCsvLine(lines[0].text);
+    const channelCols = header.map((name, index) => ({ name, index })).filter(c => !TIME_COLUMNS.has(c.name.toLowerCase()));
+    if (channelCols.length === 0) throw new RecordingParseError('No channel columns found');
+    const builder = new RecordingBuilder(channelCols.map(c => c.name));
+    for (let i = 1; i < lines.length; i++) {
+      const cells = splitCsvLine(lines[i].text);
+      if (!checkWidth(builder, lines[i].line, cells, header.length)) continue;
+      builder.add(lines[i].line, channelCols.map(c => cells[c.index]));
+    }
+    return builder.build(options.sampleRate ?? DEFAULT_SAMPLE_RATE);
+  },
+};
+
+// Order matters: vendor formats first, generic CSV last
+const ADAPTERS: FormatAdapter[] = [mindMonitor, openBci, emotiv, genericCsv];
+
+// ---------------------------------------------------------------------------
+// JSON
+// ---------------------------------------------------------------------------
+
+export const isRawRecordingJson = (value: unknown): value is { sampleRate: number; channels?: string[]; data: number[][] } =>
+  typeof value === 'object' &&
+  value !== null &&
+  !Array.isArray(value) &&
+  typeof (value as { sampleRate?: unknown }).sampleRate === 'number' &&
+  Array.isArray((value as { data?: unknown }).data);
+
+export const recordingFromJson = (value: { sampleRate: number; channels?: string[]; data: number[][] }): EEGRecording => ({
+  sampleRate: value.sampleRate,
+  channels: value.channels ?? value.data.map((_, i) => `Ch${i + 1}`),
+  data: value.data.map(channel => Float32Array.from(channel)),
+});
+
+// ---------------------------------------------------------------------------
+// Entry points
+// ---------------------------------------------------------------------------
+
+// Blank lines are dropped but keep counting towards the line numbers
+const toLines = (text: string): TextLine[] =>
+  text
+    .split(/\r?\n/)
+    .map((line, i) => ({ text: line, line: i + 1 }))
+    .filter(line => line.text.trim().length > 0);
+
+export const detectFormat = (text: string, fileName = ''): { id: EEGFormatId; label: string } | null => {
+  if (fileName.toLowerCase().endsWith('.json')) return { id: 'json', label: 'JSON' };
+  const lines = toLines(text.slice(0, 64 * 1024)).map(l => l.text);
+  const adapter = ADAPTERS.find(a => a.detect(lines, fileName));
+  return adapter ? { id: adapter.id, label: adapter.label } : null;
+};
+
+/**
+ * Detects the format of a text export and parses it. Throws
+ * `RecordingParseError` when the format is unknown or the file is unusable.
+ */
+export const parseRecordingText = (text: string, fileName = '', options: ParseOptions = {}): ParsedRecording => {
+  if (fileName.toLowerCase().endsWith('.json')) {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(text);
+    } catch (e) {
+      throw new RecordingParseError(e instanceof Error ? `Invalid JSON: ${e.message}` : 'Invalid JSON');
+    }
+    if (!isRawRecordingJson(parsed)) throw new RecordingParseError('JSON must contain "sampleRate" and "data"');
+    return { format: 'json', formatLabel: 'JSON', recording: recordingFromJson(parsed), issues: [] };
+  }
+  const lines = toLines(text);
+  if (lines.length === 0) throw new RecordingParseError('File is empty');
+  const texts = lines.map(l => l.text);
+  const adapter = ADAPTERS.find(a => a.detect(texts, fileName));
+  if (!adapter) throw new RecordingParseError('Unrecognised recording format');
+  return { format: adapter.id, formatLabel: adapter.label, ...adapter.parse(lines, options) };
+};
+
+/** First few issues as a single human-readable line, for toasts and status text. */
+export const summarizeIssues = (issues: ParseIssue[], limit = 3): string => {
+  if (issues.length === 0) return '';
+  const shown = issues.slice(0, limit).map(i => `line ${i.line}: ${i.message}`);
+  const more = issues.length > limit ? ` (+${issues.length - limit} more)` : '';
+  return shown.join('; ') + more;
+};
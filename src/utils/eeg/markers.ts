@@ -0,0 +1,140 @@
+/**
+ * Event markers and event-related averages.
+ *
+ * Markers are annotations placed by the user on the source timeline ("started
+ * exam question", "felt anxious"), alongside the annotations a file or stream
+ * brings with it (EDF+ TAL annotations, Muse elements, Emotiv markers). All of
+ * them share `EEGAnnotation`, with onsets in source seconds.
+ *
+ * Annotations with the same text, ignoring case and spacing, form a marker
+ * type. The event-related average of a type is the mean course of each metric
+ * from `pre` seconds before to `post` seconds after its markers, sampled on a
+ * fixed grid by linear interpolation between frames. Frames flagged as
+ * contaminated are left out, and a marker whose window is not covered by
+ * frames (or spans a gap longer than a few seconds) is skipped. With baseline
+ * correction each marker's course is taken relative to its own pre-marker
+ * mean, so the average shows the change the event brings.
+ */
+
+import type { EEGAnnotation, EEGMetrics, MetricFrame } from '@/types/eeg';
+
+const METRICS: (keyof EEGMetrics)[] = ['attention', 'relaxation', 'drowsiness', 'engagement'];
+
+// Quick-marker types offered before the user has typed any of their own
+export const DEFAULT_MARKER_TYPES = ['Task start', 'Task end', 'Felt anxious', 'Distracted'];
+// Quick markers map to the number keys 1–9
+export const MAX_MARKER_TYPES = 9;
+// Longer gaps between frames (pauses, dropouts) break an event window
+const MAX_FRAME_GAP = 3;
+
+/** Key that groups annotations into marker types. */
+export const markerType = (text: string) => text.trim().replace(/\s+/g, ' ').toLowerCase();
+
+/** Adds a quick-marker type unless it is already known, dropping the oldest beyond nine. */
+export const rememberMarkerType = (types: string[], text: string): string[] => {
+  const trimmed = text.trim().replace(/\s+/g, ' ');
+  if (!trimmed || types.some(t => markerType(t) === markerType(trimmed))) return types;
+  return [...types, trimmed].slice(-MAX_MARKER_TYPES);
+};
+
+/** Inserts `annotation` keeping `annotations` ordered by onset. */
+export const insertAnnotation = (annotations: EEGAnnotation[], annotation: EEGAnnotation): EEGAnnotation[] => {
+  const index = annotations.findIndex(a => a.onset > annotation.onset);
+  if (index === -1) return [...annotations, annotation];
+  return [...annotations.slice(0, index), annotation, ...annotations.slice(index)];
+};
+
+export interface EventAverageOptions {
+  // Seconds before and after each marker
+  pre: number;
+  post: number;
+  // Spacing of the averaged course, in seconds
+  step?: number;
+  baseline?: boolean;
+}
+
+export interface EventAverage {
+  type: string;
+  // Text of the first marker of the type, for display
+  label: string;
+  count: number;
+  // Markers whose window was not covered by frames
+  skipped: number;
+  // Seconds relative to the marker, from -pre to +post
+  offsets: number[];
+  mean: Record<keyof EEGMetrics, number[]>;
+  // Mean after the marker minus mean before it, averaged over markers
+  change: EEGMetrics;
+}
+
+// Metric values at `time`, interpolated between the frames around it
+const valueAt = (frames: MetricFrame[], time: number): EEGMetrics | null => {
+  let lo = 0;
+  let hi = frames.length - 1;
+  if (hi < 0 || time < frames[0].timestamp || time > frames[hi].timestamp) return null;
+  while (hi - lo > 1) {
+    const mid = (lo + hi) >> 1;
+    if (frames[mid].timestamp <= time) lo = mid;
+    else hi = mid;
+  }
+  const a = frames[lo];
+  const b = frames[hi];
+  const span = b.timestamp - a.timestamp;
+  if (span > MAX_FRAME_GAP) return null;
+  const t = span > 0 ? (time - a.timestamp) / span : 0;
+  const out = {} as EEGMetrics;
+  METRICS.forEach(m => {
+    out[m] = a.metrics[m] + (b.metrics[m] - a.metrics[m]) * t;
+  });
+  return out;
+};
+
+const mean = (values: number[]) => values.reduce((s, v) => s + v, 0) / (values.length || 1);
+
+/** Event-related averages of the metrics for every marker type, most frequent first. */
+export const eventRelatedAverages = (frames: MetricFrame[], annotations: EEGAnnotation[], options: EventAverageOptions): EventAverage[] => {
+  const { pre, post, step = 1, baseline = true } = options;
+  const clean = frames.filter(f => !f.quality?.contaminated).sort((a, b) => a.timestamp - b.timestamp);
+  const offsets: number[] = [];
+  for (let o = -pre; o <= post + 1e-9; o += step) offsets.push(Math.round(o * 1000) / 1000);
+  const preCount = offsets.filter(o => o < 0).length;
+
+  const groups = new Map<string, EEGAnnotation[]>();
+  annotations.forEach(a => {
+    const key = markerType(a.text);
+    if (!key) return;
+    groups.set(key, [...(groups.get(key) ?? []), a]);
+  });
+
+  const averages: EventAverage[] = [];
+  groups.forEach((markers, type) => {
+    const courses: Record<keyof EEGMetrics, number[]>[] = [];
+    markers.forEach(marker => {
+      const values = offsets.map(o => valueAt(clean, marker.onset + o));
+      if (values.some(v => v === null)) return;
+      const course = {} as Record<keyof EEGMetrics, number[]>;
+      METRICS.forEach(m => {
+        const series = values.map(v => (v as EEGMetrics)[m]);
+        const base = baseline && preCount > 0 ? mean(series.slice(0, preCount)) : 0;
+        course[m] = series.map(v => v - base);
+      });
+      courses.push(course);
+    });
+    const average = {} as Record<keyof EEGMetrics, number[]>;
+    const change = {} as EEGMetrics;
+    METRICS.forEach(m => {
+      average[m] = offsets.map((_, i) => mean(courses.map(c => c[m][i])));
+      change[m] = mean(courses.map(c => mean(c[m].slice(preCount)) - (preCount > 0 ? mean(c[m].slice(0, preCount)) : 0)));
+    });
+    averages.push({
+      type,
+      label: markers[0].text.trim(),
+      count: courses.length,
+      skipped: markers.length - courses.length,
+      offsets,
+      mean: average,
+      change,
+    });
+  });
+  return averages.sort((a, b) => b.count - a.count || a.label.localeCompare(b.label));
+};
@@ -0,0 +1,211 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { DeviceStatus } from './devices';
+import { FakeMuseHeadset } from './fakeGattServer';
+import {
+  MUSE_SAMPLES_PER_PACKET,
+  MuseBluetoothDevice,
+  decodeCommand,
+  decodeEegPacket,
+  encodeCommand,
+  encodeEegPacket,
+} from './museBluetooth';
+import type { SamplePacket } from './webSocketSource';
+
+// One microvolt step of the 12-bit samples
+const COUNT = 0.48828125;
+
+const packet = (seq: number, bytes: number[]) => {
+  const view = new DataView(new ArrayBuffer(20));
+  view.setUint16(0, seq);
+  bytes.forEach((b, i) => view.setUint8(2 + i, b));
+  return view;
+};
+
+describe('decodeEegPacket', () => {
+  it('unpacks two 12-bit samples from every three bytes', () => {
+    // 0x800 is 0 µV, 0xFFF the top of the range and 0x000 the bottom
+    const { seq, samples } = decodeEegPacket(packet(0x1234, [0x80, 0x08, 0x00, 0xff, 0xf0, 0x00, 0x12, 0x34, 0x56]));
+    expect(seq).toBe(0x1234);
+    expect(samples).toHaveLength(MUSE_SAMPLES_PER_PACKET);
+    expect(samples[0]).toBe(0);
+    expect(samples[1]).toBe(0);
+    expect(samples[2]).toBe(COUNT * (0xfff - 0x800));
+    expect(samples[3]).toBe(COUNT * (0x000 - 0x800));
+    expect(samples[4]).toBe(COUNT * (0x123 - 0x800));
+    expect(samples[5]).toBe(COUNT * (0x456 - 0x800));
+  });
+
+  it('rejects packets shorter than 20 bytes', () => {
+    expect(() => decodeEegPacket(new DataView(new ArrayBuffer(19)))).toThrow('EEG packet too short (19 bytes)');
+  });
+
+  it('round-trips encodeEegPacket within one count, clamping to the 12-bit range', () => {
+    const input = [0, 1, -1, 100, -100, 250.3, -250.3, 999, -1000, 5000, -5000, 12.5];
+    const { seq, samples } = decodeEegPacket(encodeEegPacket(0x10001, input));
+    expect(seq).toBe(1);
+    input.forEach((v, i) => {
+      const clamped = Math.max(-1000, Math.min(COUNT * 0x7ff, v));
+      expect(Math.abs(samples[i] - clamped)).toBeLessThanOrEqual(COUNT / 2);
+    });
+  });
+});
+
+describe('control commands', () => {
+  it('encodes a length byte, the ASCII text and a newline', () => {
+    expect([...encodeCommand('d')]).toEqual([0x02, 0x64, 0x0a]);
+    expect([...encodeCommand('p21')]).toEqual([0x04, 0x70, 0x32, 0x31, 0x0a]);
+  });
+
+  it('decodes what it encodes', () => {
+    ['h', 's', 'd', 'p20', 'p21'].forEach(command => expect(decodeCommand(encodeCommand(command))).toBe(command));
+  });
+
+  it('returns null for malformed writes', () => {
+    expect(decodeCommand(new Uint8Array([0x02, 0x64]))).toBeNull();
+    expect(decodeCommand(new Uint8Array([0x03, 0x64, 0x0a]))).toBeNull();
+    expect(decodeCommand(new Uint8Array([0x02, 0x64, 0x20]))).toBeNull();
+  });
+});
+
+describe('MuseBluetoothDevice', () => {
+  // Deterministic signal: channel c carries c × 10 µV plus the sample's position in the packet
+  const signal = (channel: number, t: number) => channel * 10 + Math.round((t * 256) % MUSE_SAMPLES_PER_PACKET);
+
+  let headset: FakeMuseHeadset;
+  let device: MuseBluetoothDevice;
+  let statuses: DeviceStatus[];
+  let errors: string[];
+  let packets: SamplePacket[];
+
+  const setup = (options: ConstructorParameters<typeof FakeMuseHeadset>[0] = {}) => {
+    headset = new FakeMuseHeadset({ signal, ...options });
+    device = new MuseBluetoothDevice({ bluetooth: headset });
+    statuses = [];
+    errors = [];
+    packets = [];
+    device.onStatus(status => statuses.push(status));
+    device.onError(message => errors.push(message));
+    device.onSamples(p => packets.push(p));
+  };
+
+  beforeEach(() => {
+    // The fake streams on a timer; tests emit packets themselves
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.useRealTimers();
+  });
+
+  it('connects, configures the headset and starts streaming', async () => {
+    setup();
+    await device.connect();
+    expect(statuses).toEqual(['requesting', 'connecting', 'streaming']);
+    expect(headset.commands).toEqual(['h', 'p21', 's', 'd']);
+    expect(device.getName()).toBe('Muse-FAKE');
+    expect(errors).toEqual([]);
+  });
+
+  it('selects the preset with AUX when a fifth channel is requested', async () => {
+    headset = new FakeMuseHeadset({ signal });
+    device = new MuseBluetoothDevice({ bluetooth: headset, includeAux: true });
+    await device.connect();
+    expect(device.channels).toEqual(['TP9', 'AF7', 'AF8', 'TP10', 'AUX']);
+    expect(headset.commands).toContain('p20');
+  });
+
+  it('emits one block per sequence number once every channel has arrived', async () => {
+    setup();
+    await device.connect();
+    headset.emitPacket();
+    headset.emitPacket();
+    expect(packets.map(p => p.seq)).toEqual([0, 1]);
+    expect(packets[0].data).toHaveLength(4);
+    packets[0].data.forEach((samples, channel) => {
+      samples.forEach((v, i) => expect(Math.abs(v - (channel * 10 + i))).toBeLessThanOrEqual(COUNT / 2));
+    });
+    expect(device.getStats()).toEqual({ packets: 2, droppedPackets: 0 });
+  });
+
+  it('counts sequence gaps as dropped packets', async () => {
+    setup({ packetLossRate: 0.5 });
+    await device.connect();
+    // The fake loses a notification when Math.random() falls below the loss rate
+    const random = vi.spyOn(Math, 'random').mockReturnValue(0.9);
+    headset.emitPacket();
+    random.mockReturnValue(0);
+    headset.emitPacket();
+    headset.emitPacket();
+    random.mockReturnValue(0.9);
+    headset.emitPacket();
+    expect(packets.map(p => p.seq)).toEqual([0, 3]);
+    // Two lost sequence numbers on each of the four channels
+    expect(device.getStats()).toEqual({ packets: 2, droppedPackets: 8 });
+  });
+
+  it('returns to idle without an error when the chooser is cancelled', async () => {
+    setup({ cancelChooser: true });
+    await device.connect();
+    expect(statuses).toEqual(['requesting', 'idle']);
+    expect(errors).toEqual([]);
+  });
+
+  it('reports a failed connection as an error, not as a disconnect', async () => {
+    setup();
+    const server = (await headset.requestDevice()).gatt;
+    vi.spyOn(server, 'getPrimaryService').mockRejectedValue(new Error('GATT operation failed'));
+    await device.connect();
+    expect(errors).toEqual(['GATT operation failed']);
+    expect(device.getStatus()).toBe('error');
+    expect(server.connected).toBe(false);
+  });
+
+  it('halts the headset on a requested disconnect', async () => {
+    setup();
+    await device.connect();
+    await device.disconnect();
+    expect(headset.commands[headset.commands.length - 1]).toBe('h');
+    expect(device.getStatus()).toBe('disconnected');
+    expect(headset.isStreaming()).toBe(false);
+    expect(errors).toEqual([]);
+  });
+
+  it('reports a dropped link', async () => {
+    setup();
+    await device.connect();
+    headset.simulateLinkLoss();
+    expect(errors).toEqual(['Headset disconnected unexpectedly']);
+    expect(device.getStatus()).toBe('disconnected');
+  });
+
+  it('can connect again after a failure', async () => {
+    setup();
+    const server = (await headset.requestDevice()).gatt;
+    vi.spyOn(server, 'getPrimaryService').mockRejectedValueOnce(new Error('GATT operation failed'));
+    await device.connect();
+    await device.connect();
+    expect(device.getStatus()).toBe('streaming');
+  });
+
+  it('handles each notification once after reconnecting', async () => {
+    setup();
+    await device.connect();
+    await device.disconnect();
+    await device.connect();
+    headset.emitPacket();
+    headset.emitMalformedPacket();
+    expect(packets.map(p => p.seq)).toEqual([0]);
+    expect(errors).toEqual(['EEG packet too short (4 bytes)']);
+  });
+
+  it('stops listening for notifications after a dropped link', async () => {
+    setup();
+    await device.connect();
+    headset.simulateLinkLoss();
+    errors = [];
+    await device.connect();
+    headset.emitMalformedPacket();
+    expect(errors).toEqual(['EEG packet too short (4 bytes)']);
+  });
+});
@@ -0,0 +1,314 @@
+/**
+ * Web Bluetooth driver for Muse-style EEG headsets.
+ *
+ * GATT layout (service 0xFE8D):
+ *   control  273e0001-…  commands are written as a length-prefixed ASCII line,
+ *                        e.g. "d" → [0x02, 'd', '\n']; the headset replies with
+ *                        JSON fragments on the same characteristic.
+ *   EEG      273e0003-… … 273e0007-…  one characteristic per electrode
+ *                        (TP9, AF7, AF8, TP10, AUX).
+ *
+ * Each EEG notification is 20 bytes: a big-endian u16 sequence number followed
+ * by 12 samples packed as 12-bit unsigned values (two samples per three bytes).
+ * Samples convert to microvolts as 0.48828125 × (raw − 0x800). Packets of the
+ * same sequence number from every channel form one 12-sample block at 256 Hz.
+ *
+ * The transport is typed structurally (`BluetoothLike`) so the in-memory fake
+ * in fakeGattServer.ts can stand in for `navigator.bluetooth`.
+ */
+
+import type { DeviceStats, DeviceStatus, EEGDevice } from './devices';
+import type { SamplePacket } from './webSocketSource';
+
+export interface GattCharacteristicLike extends EventTarget {
+  readonly uuid: string;
+  readonly value?: DataView | null;
+  startNotifications(): Promise<unknown>;
+  writeValue(value: BufferSource): Promise<void>;
+}
+
+export interface GattServiceLike {
+  getCharacteristic(uuid: string): Promise<GattCharacteristicLike>;
+}
+
+export interface GattServerLike {
+  readonly connected: boolean;
+  connect(): Promise<GattServerLike>;
+  disconnect(): void;
+  getPrimaryService(service: string | number): Promise<GattServiceLike>;
+}
+
+export interface BluetoothDeviceLike extends EventTarget {
+  readonly name?: string;
+  readonly gatt?: GattServerLike;
+}
+
+export interface BluetoothLike {
+  requestDevice(options: { filters: { services: (string | number)[] }[]; optionalServices?: (string | number)[] }): Promise<BluetoothDeviceLike>;
+}
+
+export const MUSE_SERVICE = 0xfe8d;
+export const MUSE_CONTROL_CHARACTERISTIC = '273e0001-4c4d-454d-96be-f03bac821358';
+export const MUSE_EEG_CHARACTERISTICS = [
+  '273e0003-4c4d-454d-96be-f03bac821358',
+  '273e0004-4c4d-454d-96be-f03bac821358',
+  '273e0005-4c4d-454d-96be-f03bac821358',
+  '273e0006-4c4d-454d-96be-f03bac821358',
+  '273e0007-4c4d-454d-96be-f03bac821358',
+];
+export const MUSE_CHANNELS = ['TP9', 'AF7', 'AF8', 'TP10', 'AUX'];
+export const MUSE_SAMPLE_RATE = 256;
+export const MUSE_SAMPLES_PER_PACKET = 12;
+const MICROVOLTS_PER_COUNT = 0.48828125;
+const SEQ_MODULO = 0x10000;
+// Incomplete blocks older than this many sequence numbers are given up on
+const MAX_PENDING_BLOCKS = 8;
+
+export const getWebBluetooth = (): BluetoothLike | null =>
+  (typeof navigator !== 'undefined' && (navigator as Navigator & { bluetooth?: BluetoothLike }).bluetooth) || null;
+
+/** Encodes a control command as the headset expects it: length byte, ASCII text, newline. */
+export const encodeCommand = (command: string) => {
+  const bytes = new Uint8Array(new TextEncoder().encode(`X${command}\n`));
+  bytes[0] = bytes.length - 1;
+  return bytes;
+};
+
+/** Inverse of `encodeCommand`; returns null for malformed writes. */
+export const decodeCommand = (bytes: Uint8Array): string | null => {
+  if (bytes.length < 2 || bytes[0] !== bytes.length - 1 || bytes[bytes.length - 1] !== 0x0a) return null;
+  return new TextDecoder().decode(bytes.subarray(1, bytes.length - 1));
+};
+
+export const decodeEegPacket = (view: DataView): { seq: number; samples: Float32Array } => {
+  if (view.byteLength < 20) throw new Error(`EEG packet too short (${view.byteLength} bytes)`);
+  const seq = view.getUint16(0);
+  const samples = new Float32Array(MUSE_SAMPLES_PER_PACKET);
+  for (let i = 0, byte = 2; i < MUSE_SAMPLES_PER_PACKET; i += 2, byte += 3) {
+    const b0 = view.getUint8(byte);
+    const b1 = view.getUint8(byte + 1);
+    const b2 = view.getUint8(byte + 2);
+    samples[i] = MICROVOLTS_PER_COUNT * (((b0 << 4) | (b1 >> 4)) - 0x800);
+    samples[i + 1] = MICROVOLTS_PER_COUNT * ((((b1 & 0x0f) << 8) | b2) - 0x800);
+  }
+  return { seq, samples };
+};
+
+/** Packs 12 microvolt samples into a notification payload (clamped to the 12-bit range). */
+export const encodeEegPacket = (seq: number, samples: ArrayLike<number>): DataView => {
+  const view = new DataView(new ArrayBuffer(20));
+  view.setUint16(0, seq % SEQ_MODULO);
+  const raw = (v: number) => Math.max(0, Math.min(0xfff, Math.round(v / MICROVOLTS_PER_COUNT) + 0x800));
+  for (let i = 0, byte = 2; i < MUSE_SAMPLES_PER_PACKET; i += 2, byte += 3) {
+    const a = raw(samples[i] ?? 0);
+    const b = raw(samples[i + 1] ?? 0);
+    view.setUint8(byte, a >> 4);
+    view.setUint8(byte + 1, ((a & 0x0f) << 4) | (b >> 8));
+    view.setUint8(byte + 2, b & 0xff);
+  }
+  return view;
+};
+
+export interface MuseDeviceOptions {
+  // Stream the AUX electrode as a fifth channel
+  includeAux?: boolean;
+  // Defaults to navigator.bluetooth
+  bluetooth?: BluetoothLike | null;
+}
+
+export class MuseBluetoothDevice implements EEGDevice {
+  readonly channels: string[];
+  readonly sampleRate = MUSE_SAMPLE_RATE;
+  private bluetooth: BluetoothLike | null;
+  private device: BluetoothDeviceLike | null = null;
+  private server: GattServerLike | null = null;
+  private control: GattCharacteristicLike | null = null;
+  private status: DeviceStatus = 'idle';
+  private stats: DeviceStats = { packets: 0, droppedPackets: 0 };
+  private lastSeq: (number | null)[];
+  // seq → per-channel samples, filled as notifications arrive
+  private pending = new Map<number, (Float32Array | null)[]>();
+  private newestSeq: number | null = null;
+  private userDisconnect = false;
+  // Notification handlers added by connect(), removed when the link ends
+  private eegHandlers: { characteristic: GattCharacteristicLike; handler: (event: Event) => void }[] = [];
+
+  private statusListeners = new Set<(status: DeviceStatus) => void>();
+  private sampleListeners = new Set<(packet: SamplePacket) => void>();
+  private errorListeners = new Set<(message: string) => void>();
+
+  constructor(options: MuseDeviceOptions = {}) {
+    this.channels = MUSE_CHANNELS.slice(0, options.includeAux ? 5 : 4);
+    this.bluetooth = options.bluetooth === undefined ? getWebBluetooth() : options.bluetooth;
+    this.lastSeq = this.channels.map(() => null);
+  }
+
+  getName() {
+    return this.device?.name ?? null;
+  }
+
+  getStatus() {
+    return this.status;
+  }
+
+  getStats(): DeviceStats {
+    return { ...this.stats };
+  }
+
+  onStatus(listener: (status: DeviceStatus) => void) {
+    this.statusListeners.add(listener);
+    return () => this.statusListeners.delete(listener);
+  }
+
+  onSamples(listener: (packet: SamplePacket) => void) {
+    this.sampleListeners.add(listener);
+    return () => this.sampleListeners.delete(listener);
+  }
+
+  onError(listener: (message: string) => void) {
+    this.errorListeners.add(listener);
+    return () => this.errorListeners.delete(listener);
+  }
+
+  async connect() {
+    if (this.status === 'requesting' || this.status === 'connecting' || this.status === 'streaming') return;
+    if (!this.bluetooth) {
+      this.fail('Web Bluetooth is not available (use Chrome or Edge over HTTPS)');
+      return;
+    }
+    this.userDisconnect = false;
+    this.stats = { packets: 0, droppedPackets: 0 };
+    this.lastSeq = this.channels.map(() => null);
+    this.pending.clear();
+    this.newestSeq = null;
+    try {
+      this.setStatus('requesting');
+      this.device = await this.bluetooth.requestDevice({ filters: [{ services: [MUSE_SERVICE] }] });
+      if (!this.device.gatt) throw new Error('Selected device has no GATT server');
+      this.device.addEventListener('gattserverdisconnected', this.handleDisconnected);
+
+      this.setStatus('connecting');
+      this.server = await this.device.gatt.connect();
+      const service = await this.server.getPrimaryService(MUSE_SERVICE);
+      this.control = await service.getCharacteristic(MUSE_CONTROL_CHARACTERISTIC);
+      await this.sendCommand('h');
+      for (let c = 0; c < this.channels.length; c++) {
+        const characteristic = await service.getCharacteristic(MUSE_EEG_CHARACTERISTICS[c]);
+        const handler = (event: Event) => {
+          const value = (event.target as GattCharacteristicLike).value;
+          if (value) this.handleEeg(c, value);
+        };
+        characteristic.addEventListener('characteristicvaluechanged', handler);
+        this.eegHandlers.push({ characteristic, handler });
+        await characteristic.startNotifications();
+      }
+      // Preset 21: four EEG channels without AUX; 20 adds AUX
+      await this.sendCommand(this.channels.length > 4 ? 'p20' : 'p21');
+      await this.sendCommand('s');
+      await this.sendCommand('d');
+      this.setStatus('streaming');
+    } catch (e) {
+      // NotFoundError means the user closed the chooser
+      if (e instanceof Error && e.name === 'NotFoundError') {
+        this.setStatus('idle');
+        return;
+      }
+      // Drop the half-open link without it being reported as an unexpected disconnect
+      this.device?.removeEventListener('gattserverdisconnected', this.handleDisconnected);
+      this.removeEegHandlers();
+      this.server?.disconnect();
+      this.server = null;
+      this.control = null;
+      this.fail(e instanceof Error ? e.message : 'Could not connect to headset');
+    }
+  }
+
+  async disconnect() {
+    this.userDisconnect = true;
+    try {
+      if (this.server?.connected) await this.sendCommand('h');
+    } catch {
+      // The link may already be gone; disconnect regardless
+    }
+    this.removeEegHandlers();
+    this.server?.disconnect();
+    this.server = null;
+    this.control = null;
+    this.setStatus('disconnected');
+  }
+
+  private async sendCommand(command: string) {
+    if (!this.control) throw new Error('Headset control channel is not ready');
+    await this.control.writeValue(encodeCommand(command));
+  }
+
+  private handleDisconnected = () => {
+    this.removeEegHandlers();
+    this.server = null;
+    this.control = null;
+    if (this.userDisconnect) return;
+    this.errorListeners.forEach(l => l('Headset disconnected unexpectedly'));
+    this.setStatus('disconnected');
+  };
+
+  private removeEegHandlers() {
+    this.eegHandlers.forEach(({ characteristic, handler }) =>
+      characteristic.removeEventListener('characteristicvaluechanged', handler),
+    );
+    this.eegHandlers = [];
+  }
+
+  private handleEeg(channel: number, value: DataView) {
+    let packet: { seq: number; samples: Float32Array };
+    try {
+      packet = decodeEegPacket(value);
+    } catch (e) {
+      this.errorListeners.forEach(l => l(e instanceof Error ? e.message : 'Malformed EEG packet'));
+      return;
+    }
+    const { seq, samples } = packet;
+
+    // Per-channel sequence gaps are lost notifications
+    const last = this.lastSeq[channel];
+    if (last !== null) {
+      const gap = (seq - last + SEQ_MODULO) % SEQ_MODULO;
+      if (gap > 1 && gap < SEQ_MODULO / 2) this.stats.droppedPackets += gap - 1;
+    }
+    this.lastSeq[channel] = seq;
+
+    let block = this.pending.get(seq);
+    if (!block) {
+      block = this.channels.map(() => null);
+      this.pending.set(seq, block);
+    }
+    block[channel] = samples;
+    if (this.newestSeq === null || (seq - this.newestSeq + SEQ_MODULO) % SEQ_MODULO < SEQ_MODULO / 2) this.newestSeq = seq;
+
+    if (block.every(Boolean)) {
+      this.pending.delete(seq);
+      this.stats.packets++;
+      const data = block as Float32Array[];
+      this.sampleListeners.forEach(l => l({ seq, data }));
+    }
+    this.prunePending();
+  }
+
+  private prunePending() {
+    if (this.newestSeq === null) return;
+    for (const seq of this.pending.keys()) {
+      const age = (this.newestSeq - seq + SEQ_MODULO) % SEQ_MODULO;
+      if (age > MAX_PENDING_BLOCKS) this.pending.delete(seq);
+    }
+  }
+
+  private fail(message: string) {
+    this.errorListeners.forEach(l => l(message));
+    this.setStatus('error');
+  }
+
+  private setStatus(status: DeviceStatus) {
+    if (this.status === status) return;
+    this.status = status;
+    this.statusListeners.forEach(l => l(status));
+  }
+}
@@ -0,0 +1,244 @@
+/**
+ * Neurofeedback training.
+ *
+ * A protocol names a target measure, the direction to train it in and a
+ * starting threshold; every frame on the rewarded side of the threshold earns
+ * a reward, which the UI turns into a tone and a glow. Protocols are JSON (see
+ * src/config/neurofeedbackProtocols.json), validated with zod.
+ *
+ * Band measures (relative alpha and SMR, the theta/beta ratio) need frames
+ * computed from samples; the 0–100 indices work with every source.
+ *
+ * Auto-thresholding keeps the task achievable without making it trivial. Once
+ * enough frames are in, whenever the reward rate over the last ~30 s leaves
+ * 60–70 % the threshold moves to the percentile of those values that would
+ * have rewarded 65 % of them. Progress therefore shows in the threshold and
+ * the measure itself rather than in the reward rate.
+ *
+ * A session goal is an improvement of the mean over the last third of the
+ * session against the first third, in percent and in the trained direction.
+ */
+
+import { z } from 'zod';
+import type { BandPowers, EEGMetrics } from '@/types/eeg';
+import protocolsJson from '@/config/neurofeedbackProtocols.json';
+
+const METRIC_IDS = ['alpha', 'smr', 'theta-beta', 'attention', 'relaxation', 'engagement'] as const;
+
+export type NeurofeedbackMetric = (typeof METRIC_IDS)[number];
+
+export const NEUROFEEDBACK_METRICS: Record<NeurofeedbackMetric, { label: string; unit: string; needsBands: boolean }> = {
+  alpha: { label: 'Relative alpha', unit: '%', needsBands: true },
+  smr: { label: 'Relative SMR', unit: '%', needsBands: true },
+  'theta-beta': { label: 'Theta/beta ratio', unit: '', needsBands: true },
+  attention: { label: 'Attention index', unit: '', needsBands: false },
+  relaxation: { label: 'Relaxation index', unit: '', needsBands: false },
+  engagement: { label: 'Engagement index', unit: '', needsBands: false },
+};
+
+const protocolSchema = z.object({
+  id: z.string().trim().min(1),
+  name: z.string().trim().min(1),
+  purpose: z.string().trim().min(1),
+  description: z.string(),
+  metric: z.enum(METRIC_IDS),
+  direction: z.enum(['up', 'down']),
+  threshold: z.number().min(0),
+  minutes: z.number().min(1).max(60),
+  // Percent change from the first to the last third that counts as a goal met
+  goalImprovement: z.number().min(0).max(100),
+});
+
+const protocolSetSchema = z.object({
+  version: z.literal(1),
+  protocols: z.array(protocolSchema).min(1),
+});
+
+export type NeurofeedbackProtocol = z.infer<typeof protocolSchema>;
+
+export const NEUROFEEDBACK_PROTOCOLS: NeurofeedbackProtocol[] = protocolSetSchema.parse(protocolsJson).protocols;
+
+// Reward rate that auto-thresholding keeps the session within
+export const TARGET_REWARD_RATE: [number, number] = [0.6, 0.7];
+const TARGET_REWARD_MID = 0.65;
+// Frames (~30 s at the 0.75 s step) the reward rate and percentile look back over
+const AUTO_WINDOW = 40;
+// Frames needed before the first adjustment, and between adjustments
+const AUTO_MIN_FRAMES = 16;
+const AUTO_EVERY = 8;
+// Longer gaps between frames (pauses, seeks) do not count as session time
+const MAX_FRAME_GAP = 2;
+
+/** Value of a protocol measure for one frame; null when the frame lacks the band powers it needs. */
+export const neurofeedbackValue = (metric: NeurofeedbackMetric, metrics: EEGMetrics, bandPowers: BandPowers | null): number | null => {
+  if (!NEUROFEEDBACK_METRICS[metric].needsBands) return metrics[metric as keyof EEGMetrics];
+  if (!bandPowers) return null;
+  const total = bandPowers.delta + bandPowers.theta + bandPowers.alpha + bandPowers.beta + bandPowers.gamma;
+  if (!(total > 0)) return null;
+  if (metric === 'alpha') return (100 * bandPowers.alpha) / total;
+  if (metric === 'smr') return bandPowers.smr === undefined ? null : (100 * bandPowers.smr) / total;
+  return bandPowers.beta > 0 ? bandPowers.theta / bandPowers.beta : null;
+};
+
+export const isRewarded = (protocol: Pick<NeurofeedbackProtocol, 'direction'>, value: number, threshold: number) =>
+  protocol.direction === 'up' ? value >= threshold : value <= threshold;
+
+const quantile = (sorted: number[], q: number) => {
+  const pos = (sorted.length - 1) * q;
+  const lo = Math.floor(pos);
+  const hi = Math.min(sorted.length - 1, lo + 1);
+  return sorted[lo] + (sorted[hi] - sorted[lo]) * (pos - lo);
+};
+
+const mean = (values: number[]) => values.reduce((s, v) => s + v, 0) / (values.length || 1);
+
+export interface NeurofeedbackTick {
+  value: number | null;
+  threshold: number;
+  rewarded: boolean;
+  // Left out of scoring: artifact, or the measure is unavailable
+  skipped: boolean;
+  // Share of recent scored frames that were rewarded
+  rewardRate: number;
+  elapsed: number;
+}
+
+export interface NeurofeedbackSummary {
+  protocolId: string;
+  protocolName: string;
+  metric: NeurofeedbackMetric;
+  direction: 'up' | 'down';
+  startedAt: string;
+  seconds: number;
+  frames: number;
+  skippedFrames: number;
+  rewardSeconds: number;
+  // Share of scored frames that were rewarded
+  rewardRate: number;
+  longestRewardSeconds: number;
+  meanValue: number;
+  // Means over the first and last third of the scored frames
+  startValue: number;
+  endValue: number;
+  // Percent change from start to end, positive in the trained direction
+  improvement: number;
+  thresholdStart: number;
+  thresholdEnd: number;
+  goalImprovement: number;
+  goalMet: boolean;
+}
+
+/**
+ * One training session. Feed it every frame with `update`; `summary` can be
+ * taken at any point, and `finished` turns true after the protocol's minutes
+ * of source time.
+ */
+export class NeurofeedbackSession {
+  readonly protocol: NeurofeedbackProtocol;
+  private autoThreshold: boolean;
+  private threshold: number;
+  private startedAt = new Date().toISOString();
+  private values: number[] = [];
+  private rewards: boolean[] = [];
+  private skipped = 0;
+  private lastTime: number | null = null;
+  private elapsed = 0;
+  private rewardSeconds = 0;
+  private streak = 0;
+  private longestStreak = 0;
+  private sinceAdjust = 0;
+
+  constructor(protocol: NeurofeedbackProtocol, autoThreshold = true) {
+    this.protocol = protocol;
+    this.autoThreshold = autoThreshold;
+    this.threshold = protocol.threshold;
+  }
+
+  get finished() {
+    return this.elapsed >= this.protocol.minutes * 60;
+  }
+
+  update(timestamp: number, value: number | null, contaminated = false): NeurofeedbackTick {
+    const gap = this.lastTime === null ? 0 : timestamp - this.lastTime;
+    const step = gap > 0 && gap <= MAX_FRAME_GAP ? gap : 0;
+    this.lastTime = timestamp;
+    this.elapsed += step;
+
+    if (value === null || !Number.isFinite(value) || contaminated) {
+      this.skipped++;
+      this.streak = 0;
+      return { value, threshold: this.threshold, rewarded: false, skipped: true, rewardRate: this.recentRate(), elapsed: this.elapsed };
+    }
+
+    const rewarded = isRewarded(this.protocol, value, this.threshold);
+    this.values.push(value);
+    this.rewards.push(rewarded);
+    if (rewarded) {
+      this.rewardSeconds += step;
+      this.streak += step;
+      this.longestStreak = Math.max(this.longestStreak, this.streak);
+    } else {
+      this.streak = 0;
+    }
+    this.sinceAdjust++;
+    if (this.autoThreshold) this.adjustThreshold();
+    return { value, threshold: this.threshold, rewarded, skipped: false, rewardRate: this.recentRate(), elapsed: this.elapsed };
+  }
+
+  summary(): NeurofeedbackSummary {
+    const { protocol, values } = this;
+    const third = Math.floor(values.length / 3);
+    const startValue = third > 0 ? mean(values.slice(0, third)) : mean(values);
+    const endValue = third > 0 ? mean(values.slice(-third)) : mean(values);
+    const change = startValue !== 0 ? ((endValue - startValue) / Math.abs(startValue)) * 100 : 0;
+    const improvement = protocol.direction === 'up' ? change : -change;
+    return {
+      protocolId: protocol.id,
+      protocolName: protocol.name,
+      metric: protocol.metric,
+      direction: protocol.direction,
+      startedAt: this.startedAt,
+      seconds: this.elapsed,
+      frames: values.length,
+      skippedFrames: this.skipped,
+      rewardSeconds: this.rewardSeconds,
+      rewardRate: this.rewards.filter(Boolean).length / (this.rewards.length || 1),
+      longestRewardSeconds: this.longestStreak,
+      meanValue: mean(values),
+      startValue,
+      endValue,
+      improvement,
+      thresholdStart: protocol.threshold,
+      thresholdEnd: this.threshold,
+      goalImprovement: protocol.goalImprovement,
+      goalMet: third > 0 && improvement >= protocol.goalImprovement,
+    };
+  }
+
+  private recentRate() {
+    const recent = this.rewards.slice(-AUTO_WINDOW);
+    return recent.length > 0 ? recent.filter(Boolean).length / recent.length : 0;
+  }
+
+  // Moves the threshold to the percentile that rewards 65 % of recent values
+  private adjustThreshold() {
+    if (this.values.length < AUTO_MIN_FRAMES || this.sinceAdjust < AUTO_EVERY) return;
+    const rate = this.recentRate();
+    if (rate >= TARGET_REWARD_RATE[0] && rate <= TARGET_REWARD_RATE[1]) return;
+    const recent = this.values.slice(-AUTO_WINDOW).sort((a, b) => a - b);
+    this.threshold = quantile(recent, this.protocol.direction === 'up' ? 1 - TARGET_REWARD_MID : TARGET_REWARD_MID);
+    this.sinceAdjust = 0;
+  }
+}
+
+/** Checks a stored session summary before it is shown again. */
+export const isNeurofeedbackSummary = (value: unknown): value is NeurofeedbackSummary => {
+  const s = value as NeurofeedbackSummary | null;
+  return (
+    !!s &&
+    typeof s.protocolId === 'string' &&
+    typeof s.startedAt === 'string' &&
+    (METRIC_IDS as readonly string[]).includes(s.metric) &&
+    [s.seconds, s.rewardRate, s.meanValue, s.improvement, s.thresholdEnd].every(v => typeof v === 'number')
+  );
+};
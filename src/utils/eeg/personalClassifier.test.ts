@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { MIN_EXAMPLES_PER_LABEL, crossValidate, trainClassifier, trainWithValidation, type TrainingExample } from './personalClassifier';
+
+const LABELS = [
+  { label: 'a', color: '#f00' },
+  { label: 'b', color: '#00f' },
+];
+
+// `count` frames per label, with the two labels well apart in feature space
+const examples = (count: number): TrainingExample[] =>
+  ['a', 'b'].flatMap((label, l) =>
+    Array.from({ length: count }, (_, i) => ({
+      features: [l * 4 + i * 0.1, 1 - l, 0.5, l * 2, 0, 1, l],
+      label,
+      source: 'test',
+      time: i,
+    })),
+  );
+
+describe('crossValidate', () => {
+  it.each([MIN_EXAMPLES_PER_LABEL, MIN_EXAMPLES_PER_LABEL + 1, MIN_EXAMPLES_PER_LABEL + 2])(
+    'validates with %i frames per label',
+    count => {
+      const report = crossValidate(examples(count), LABELS, { kind: 'logistic', epochs: 50 });
+      expect(report.folds).toBe(Math.min(5, count));
+      expect(report.confusion.flat().reduce((a, b) => a + b, 0)).toBe(2 * count);
+      expect(report.accuracy).toBe(1);
+    },
+  );
+
+  it('still asks for the minimum number of frames per label', () => {
+    expect(() => crossValidate(examples(MIN_EXAMPLES_PER_LABEL - 1), LABELS, { kind: 'logistic' })).toThrow(
+      `Need at least ${MIN_EXAMPLES_PER_LABEL} labelled frames for: a, b`,
+    );
+  });
+});
+
+describe('trainWithValidation', () => {
+  it('trains a model with the minimum number of frames per label', () => {
+    const model = trainWithValidation(examples(MIN_EXAMPLES_PER_LABEL), LABELS, { kind: 'mlp', epochs: 50 });
+    expect(model.validation.folds).toBe(MIN_EXAMPLES_PER_LABEL);
+    expect(model.labels).toEqual(LABELS);
+  });
+
+  it('keeps the minimum for the final fit', () => {
+    expect(() => trainClassifier(examples(MIN_EXAMPLES_PER_LABEL - 1), LABELS, { kind: 'logistic' })).toThrow();
+  });
+});
@@ -0,0 +1,307 @@
+/**
+ * Personal brain-state classifier trained in the browser.
+ *
+ * Users label stretches of their own recordings; every labelled frame with
+ * band powers becomes a training example. Features are the log relative power
+ * of each band plus log theta/beta and alpha/beta ratios, standardised with the
+ * training mean and spread. Two models are offered:
+ *
+ *   logistic  multinomial logistic regression (one softmax layer)
+ *   mlp       one tanh hidden layer feeding the softmax
+ *
+ * Both train by full-batch gradient descent with momentum, L2 weight decay and
+ * class weights that balance unevenly labelled states. Initialisation is
+ * seeded so retraining on the same examples gives the same model.
+ *
+ * Accuracy is estimated by k-fold cross-validation with folds cut in time
+ * order within each label: neighbouring epochs overlap, so shuffled folds
+ * would test on near-copies of training frames and overstate accuracy.
+ *
+ * Models serialise to plain JSON for local storage.
+ */
+
+import type { BandPowers, EEGBand, SignalQuality } from '@/types/eeg';
+
+export type ModelKind = 'logistic' | 'mlp';
+
+export interface TrainingExample {
+  features: number[];
+  label: string;
+  // Recording the frame came from and its time in seconds
+  source: string;
+  time: number;
+}
+
+export interface ModelLabel {
+  label: string;
+  color: string;
+}
+
+interface DenseLayer {
+  // weights[out][in]
+  weights: number[][];
+  bias: number[];
+}
+
+export interface ValidationReport {
+  folds: number;
+  accuracy: number;
+  foldAccuracies: number[];
+  // Recall per label, in `labels` order
+  recall: number[];
+  // confusion[actual][predicted], in `labels` order
+  confusion: number[][];
+}
+
+export interface PersonalModel {
+  version: 1;
+  kind: ModelKind;
+  labels: ModelLabel[];
+  mean: number[];
+  std: number[];
+  layers: DenseLayer[];
+  examples: number;
+  trainedAt: string;
+  validation: ValidationReport | null;
+}
+
+export interface TrainOptions {
+  kind: ModelKind;
+  epochs?: number;
+  learningRate?: number;
+  l2?: number;
+  hiddenUnits?: number;
+  seed?: number;
+}
+
+export const FEATURE_NAMES = ['delta', 'theta', 'alpha', 'beta', 'gamma', 'theta/beta', 'alpha/beta'];
+export const MIN_EXAMPLES_PER_LABEL = 5;
+export const DEFAULT_FOLDS = 5;
+
+const BANDS: EEGBand[] = ['delta', 'theta', 'alpha', 'beta', 'gamma'];
+const EPSILON = 1e-9;
+const MOMENTUM = 0.9;
+
+export const bandFeatures = (powers: BandPowers): number[] => {
+  const total = BANDS.reduce((sum, b) => sum + powers[b], 0) + EPSILON;
+  return [
+    ...BANDS.map(b => Math.log((powers[b] + EPSILON) / total)),
+    Math.log((powers.theta + EPSILON) / (powers.beta + EPSILON)),
+    Math.log((powers.alpha + EPSILON) / (powers.beta + EPSILON)),
+  ];
+};
+
+// mulberry32
+const seededRandom = (seed: number) => {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+const softmax = (z: number[]) => {
+  const max = Math.max(...z);
+  const exp = z.map(v => Math.exp(v - max));
+  const sum = exp.reduce((s, v) => s + v, 0);
+  return exp.map(v => v / sum);
+};
+
+// Activations of every layer, input first; hidden layers use tanh, the last softmax
+const forward = (layers: DenseLayer[], input: number[]) => {
+  const activations = [input];
+  layers.forEach((layer, l) => {
+    const x = activations[l];
+    const z = layer.weights.map((row, i) => row.reduce((sum, w, j) => sum + w * x[j], layer.bias[i]));
+    activations.push(l === layers.length - 1 ? softmax(z) : z.map(Math.tanh));
+  });
+  return activations;
+};
+
+const standardize = (features: number[], mean: number[], std: number[]) => features.map((v, i) => (v - mean[i]) / std[i]);
+
+const argmax = (values: number[]) => values.reduce((best, v, i) => (v > values[best] ? i : best), 0);
+
+const checkExamples = (examples: TrainingExample[], minPerLabel = MIN_EXAMPLES_PER_LABEL) => {
+  const counts = new Map<string, number>();
+  examples.forEach(e => counts.set(e.label, (counts.get(e.label) ?? 0) + 1));
+  if (counts.size < 2) throw new Error('Label at least two different states to train a classifier');
+  const short = [...counts].filter(([, n]) => n < minPerLabel).map(([label]) => label);
+  if (short.length > 0) throw new Error(`Need at least ${minPerLabel} labelled frames for: ${short.join(', ')}`);
+  return counts;
+};
+
+// Cross-validation folds hold back part of each label, so they fit with a lower per-label minimum
+const fitClassifier = (examples: TrainingExample[], labels: ModelLabel[], options: TrainOptions, minPerLabel: number): PersonalModel => {
+  const counts = checkExamples(examples, minPerLabel);
+  const { kind, epochs = 300, learningRate = kind === 'mlp' ? 0.05 : 0.2, l2 = 1e-3, hiddenUnits = 8, seed = 1 } = options;
+  const index = new Map(labels.map((l, i) => [l.label, i]));
+  examples.forEach(e => {
+    if (!index.has(e.label)) throw new Error(`No colour given for label "${e.label}"`);
+  });
+
+  const dims = examples[0].features.length;
+  const mean = Array.from({ length: dims }, (_, j) => examples.reduce((s, e) => s + e.features[j], 0) / examples.length);
+  const std = mean.map((m, j) => Math.sqrt(examples.reduce((s, e) => s + (e.features[j] - m) ** 2, 0) / examples.length) || 1);
+  const inputs = examples.map(e => standardize(e.features, mean, std));
+  const targets = examples.map(e => index.get(e.label) as number);
+  // Each label contributes equally however many frames it has
+  const weightOf = labels.map(l => examples.length / (counts.size * (counts.get(l.label) ?? 1)));
+
+  const random = seededRandom(seed);
+  const sizes = kind === 'mlp' ? [dims, hiddenUnits, labels.length] : [dims, labels.length];
+  const layers: DenseLayer[] = sizes.slice(1).map((out, l) => {
+    const scale = Math.sqrt(1 / sizes[l]);
+    return {
+      weights: Array.from({ length: out }, () => Array.from({ length: sizes[l] }, () => (random() * 2 - 1) * scale)),
+      bias: new Array(out).fill(0),
+    };
+  });
+  const velocity = layers.map(layer => ({ weights: layer.weights.map(row => row.map(() => 0)), bias: layer.bias.map(() => 0) }));
+
+  for (let epoch = 0; epoch < epochs; epoch++) {
+    const grads = layers.map(layer => ({ weights: layer.weights.map(row => row.map(() => 0)), bias: layer.bias.map(() => 0) }));
+    let totalWeight = 0;
+    inputs.forEach((x, n) => {
+      const activations = forward(layers, x);
+      const weight = weightOf[targets[n]];
+      totalWeight += weight;
+      // Softmax with cross-entropy: output error is prediction minus one-hot
+      let delta = activations[layers.length].map((p, i) => (p - (i === targets[n] ? 1 : 0)) * weight);
+      for (let l = layers.length - 1; l >= 0; l--) {
+        const input = activations[l];
+        delta.forEach((d, i) => {
+          grads[l].bias[i] += d;
+          input.forEach((a, j) => {
+            grads[l].weights[i][j] += d * a;
+          });
+        });
+        if (l > 0) {
+          delta = input.map((a, j) => delta.reduce((sum, d, i) => sum + d * layers[l].weights[i][j], 0) * (1 - a * a));
+        }
+      }
+    });
+    layers.forEach((layer, l) => {
+      layer.weights.forEach((row, i) => {
+        row.forEach((w, j) => {
+          const g = grads[l].weights[i][j] / totalWeight + l2 * w;
+          velocity[l].weights[i][j] = MOMENTUM * velocity[l].weights[i][j] - learningRate * g;
+          row[j] += velocity[l].weights[i][j];
+        });
+        const g = grads[l].bias[i] / totalWeight;
+        velocity[l].bias[i] = MOMENTUM * velocity[l].bias[i] - learningRate * g;
+        layer.bias[i] += velocity[l].bias[i];
+      });
+    });
+  }
+
+  return {
+    version: 1,
+    kind,
+    labels,
+    mean,
+    std,
+    layers,
+    examples: examples.length,
+    trainedAt: new Date().toISOString(),
+    validation: null,
+  };
+};
+
+/** Fits a model to `examples`; `labels` fixes output order and colours and must cover every example label. */
+export const trainClassifier = (examples: TrainingExample[], labels: ModelLabel[], options: TrainOptions): PersonalModel =>
+  fitClassifier(examples, labels, options, MIN_EXAMPLES_PER_LABEL);
+
+/** State probabilities for one frame's band powers, in `model.labels` order. */
+export const predictProbabilities = (model: PersonalModel, powers: BandPowers): number[] => {
+  const activations = forward(model.layers, standardize(bandFeatures(powers), model.mean, model.std));
+  return activations[activations.length - 1];
+};
+
+export const predictState = (model: PersonalModel, powers: BandPowers): ModelLabel & { confidence: number } => {
+  const probabilities = predictProbabilities(model, powers);
+  const best = argmax(probabilities);
+  return { ...model.labels[best], confidence: probabilities[best] };
+};
+
+/** k-fold cross-validation with folds cut in time order within each label. */
+export const crossValidate = (
+  examples: TrainingExample[],
+  labels: ModelLabel[],
+  options: TrainOptions,
+  folds = DEFAULT_FOLDS,
+): ValidationReport => {
+  const counts = checkExamples(examples);
+  const k = Math.max(2, Math.min(folds, ...counts.values()));
+  const seen = new Map<string, number>();
+  const foldOf = examples.map(e => {
+    const i = seen.get(e.label) ?? 0;
+    seen.set(e.label, i + 1);
+    return Math.floor((i * k) / (counts.get(e.label) as number));
+  });
+
+  const index = new Map(labels.map((l, i) => [l.label, i]));
+  const confusion = labels.map(() => labels.map(() => 0));
+  const foldAccuracies: number[] = [];
+  for (let fold = 0; fold < k; fold++) {
+    const train = examples.filter((_, i) => foldOf[i] !== fold);
+    const test = examples.filter((_, i) => foldOf[i] === fold);
+    // k never exceeds a label's count, so every training fold keeps at least one frame of each label
+    const model = fitClassifier(train, labels, options, 1);
+    let correct = 0;
+    test.forEach(e => {
+      const activations = forward(model.layers, standardize(e.features, model.mean, model.std));
+      const predicted = argmax(activations[activations.length - 1]);
+      const actual = index.get(e.label) as number;
+      confusion[actual][predicted]++;
+      if (predicted === actual) correct++;
+    });
+    foldAccuracies.push(test.length > 0 ? correct / test.length : 0);
+  }
+
+  const total = confusion.reduce((s, row) => s + row.reduce((a, b) => a + b, 0), 0);
+  const correct = confusion.reduce((s, row, i) => s + row[i], 0);
+  return {
+    folds: k,
+    accuracy: total > 0 ? correct / total : 0,
+    foldAccuracies,
+    recall: confusion.map((row, i) => {
+      const n = row.reduce((a, b) => a + b, 0);
+      return n > 0 ? row[i] / n : 0;
+    }),
+    confusion,
+  };
+};
+
+/** Cross-validates, then fits on every example; the report is attached to the model. */
+export const trainWithValidation = (examples: TrainingExample[], labels: ModelLabel[], options: TrainOptions, folds = DEFAULT_FOLDS) => {
+  const validation = crossValidate(examples, labels, options, folds);
+  return { ...trainClassifier(examples, labels, options), validation };
+};
+
+/** Training examples from the clean frames of a recording that fall inside [start, end]. */
+export const examplesFromSegment = (
+  frames: { timestamp: number; bandPowers?: BandPowers; quality?: SignalQuality }[],
+  segment: { start: number; end: number; label: string },
+  source: string,
+): TrainingExample[] =>
+  frames
+    .filter(f => f.bandPowers && !f.quality?.contaminated && f.timestamp >= segment.start && f.timestamp <= segment.end)
+    .map(f => ({ features: bandFeatures(f.bandPowers as BandPowers), label: segment.label, source, time: f.timestamp }));
+
+/** Loose shape check for models read back from storage. */
+export const isPersonalModel = (value: unknown): value is PersonalModel => {
+  const model = value as PersonalModel | null;
+  return (
+    !!model &&
+    model.version === 1 &&
+    (model.kind === 'logistic' || model.kind === 'mlp') &&
+    Array.isArray(model.labels) &&
+    Array.isArray(model.layers) &&
+    model.layers.length > 0 &&
+    model.mean?.length === FEATURE_NAMES.length
+  );
+};
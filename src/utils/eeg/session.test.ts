@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { parseSessionFile, sessionAnnotations, sessionToCsv, sessionToJson, type EEGSession } from './session';
+
+const metrics = (attention: number) => ({ attention, relaxation: 50, drowsiness: 10, engagement: 40 });
+
+const session: EEGSession = {
+  version: 1,
+  id: 'session-test',
+  source: 'synthetic',
+  startedAt: '2026-01-01T00:00:00.000Z',
+  endedAt: '2026-01-01T00:00:02.000Z',
+  samples: [
+    { time: 0.5, sourceTime: 10.5, metrics: metrics(60), state: 'Focused', feedback: 'Keep going' },
+    { time: 1.25, sourceTime: null, metrics: metrics(30), state: 'Relaxed', feedback: 'Calm, steady' },
+  ],
+  markers: [
+    { time: 0.5, sourceTime: null, text: 'eyes closed; counting', origin: 'user' },
+    { time: 0.5, sourceTime: 10.5, text: 'stimulus', origin: 'source' },
+    { time: 1, sourceTime: null, text: 'path C:\\data', origin: 'user' },
+    { time: 1.25, sourceTime: 11.25, text: 'end', origin: 'source' },
+  ],
+};
+
+describe('session export', () => {
+  it('round-trips through JSON', () => {
+    expect(parseSessionFile(sessionToJson(session), 'session-test.json')).toEqual(session);
+  });
+
+  it('round-trips markers with their origin through CSV', () => {
+    const loaded = parseSessionFile(sessionToCsv(session), 'session-test.csv');
+    expect(loaded.samples).toEqual(session.samples);
+    expect(loaded.markers).toEqual([
+      { time: 0.5, text: 'eyes closed; counting', origin: 'user' },
+      { time: 0.5, text: 'stimulus', origin: 'source' },
+      { time: 1.25, text: 'path C:\\data', origin: 'user' },
+      { time: 1.25, text: 'end', origin: 'source' },
+    ]);
+    expect(sessionAnnotations(loaded).map(a => a.text)).toContain('Source: stimulus');
+  });
+});
@@ -0,0 +1,291 @@
+/**
+ * EEG session recording and export.
+ *
+ * A session is the timeline the user saw while recording: every metric frame
+ * with the brain-state label and feedback shown at that moment, plus markers
+ * (typed by the user or delivered by the source). Sessions export as CSV (one
+ * row per frame), JSON (the full `EEGSession`) or EDF+ (metrics and band
+ * powers as signals, markers and state changes as annotations). JSON and CSV
+ * exports load back with `parseSessionFile`, for comparing sessions.
+ */
+
+import { z } from 'zod';
+import type { BandPowers, EEGAnnotation, EEGBand, EEGMetrics } from '@/types/eeg';
+import { writeEdf, type EdfWriteSignal } from './edf';
+import { splitCsvLine } from './formats';
+
+export interface SessionSample {
+  // Seconds since recording started
+  time: number;
+  // Position in the source recording/stream, when the source reports one
+  sourceTime: number | null;
+  metrics: EEGMetrics;
+  bandPowers?: BandPowers;
+  state: string;
+  feedback: string;
+}
+
+export interface SessionMarker {
+  time: number;
+  // Position in the source recording/stream the marker refers to, when known
+  sourceTime?: number | null;
+  text: string;
+  origin: 'user' | 'source';
+}
+
+export interface EEGSession {
+  version: 1;
+  id: string;
+  source: string;
+  startedAt: string;
+  endedAt: string | null;
+  samples: SessionSample[];
+  markers: SessionMarker[];
+}
+
+const METRICS: (keyof EEGMetrics)[] = ['attention', 'relaxation', 'drowsiness', 'engagement'];
+const BANDS: EEGBand[] = ['delta', 'theta', 'alpha', 'beta', 'gamma'];
+// EDF export resolution; frames arrive every ~0.75 s so 4 Hz keeps their timing
+const EDF_SAMPLE_RATE = 4;
+
+export class SessionRecorder {
+  private session: EEGSession | null = null;
+  private startedAt = 0;
+
+  get recording() {
+    return this.session !== null;
+  }
+
+  start(source: string) {
+    this.startedAt = Date.now();
+    this.session = {
+      version: 1,
+      id: `session-${new Date(this.startedAt).toISOString().replace(/[:.]/g, '-')}`,
+      source,
+      startedAt: new Date(this.startedAt).toISOString(),
+      endedAt: null,
+      samples: [],
+      markers: [],
+    };
+  }
+
+  elapsed() {
+    return this.session ? (Date.now() - this.startedAt) / 1000 : 0;
+  }
+
+  record(sample: Omit<SessionSample, 'time'>) {
+    this.session?.samples.push({ ...sample, time: this.elapsed() });
+  }
+
+  mark(text: string, origin: SessionMarker['origin'] = 'user', sourceTime: number | null = null) {
+    const trimmed = text.trim();
+    if (!this.session || !trimmed) return;
+    this.session.markers.push({ time: this.elapsed(), sourceTime, text: trimmed, origin });
+  }
+
+  stop(): EEGSession | null {
+    const session = this.session;
+    this.session = null;
+    if (!session) return null;
+    return { ...session, endedAt: new Date().toISOString() };
+  }
+}
+
+const csvField = (value: string) => (/[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+// Markers on one frame share a cell, separated by "; "; a backslash escapes ";" and itself in marker text
+const joinMarkers = (texts: string[]) => texts.map(t => t.replace(/[\\;]/g, c => `\\${c}`)).join('; ');
+
+const splitMarkers = (cell: string): string[] => {
+  const out: string[] = [];
+  let current = '';
+  for (let i = 0; i < cell.length; i++) {
+    if (cell[i] === '\\' && i + 1 < cell.length) current += cell[++i];
+    else if (cell[i] === ';') {
+      out.push(current.trim());
+      current = '';
+    } else current += cell[i];
+  }
+  out.push(current.trim());
+  return out.filter(Boolean);
+};
+
+export const sessionToCsv = (session: EEGSession): string => {
+  const hasBands = session.samples.some(s => s.bandPowers);
+  const header = ['time', 'source_time', ...METRICS, ...(hasBands ? BANDS : []), 'state', 'feedback', 'markers', 'source_markers'];
+  // Markers are attached to the first frame at or after them
+  const pending = [...session.markers].sort((a, b) => a.time - b.time);
+  const rows = session.samples.map((s, i) => {
+    const isLast = i === session.samples.length - 1;
+    const due: SessionMarker[] = [];
+    while (pending.length > 0 && (pending[0].time <= s.time || isLast)) due.push(pending.shift() as SessionMarker);
+    return [
+      s.time.toFixed(3),
+      s.sourceTime === null ? '' : s.sourceTime.toFixed(3),
+      ...METRICS.map(m => s.metrics[m].toFixed(2)),
+      ...(hasBands ? BANDS.map(b => (s.bandPowers ? s.bandPowers[b].toFixed(4) : '')) : []),
+      csvField(s.state),
+      csvField(s.feedback),
+      csvField(joinMarkers(due.filter(m => m.origin === 'user').map(m => m.text))),
+      csvField(joinMarkers(due.filter(m => m.origin === 'source').map(m => m.text))),
+    ].join(',');
+  });
+  return [header.join(','), ...rows].join('\n');
+};
+
+export const sessionToJson = (session: EEGSession): string => JSON.stringify(session, null, 2);
+
+const metricsSchema = z.object({ attention: z.number(), relaxation: z.number(), drowsiness: z.number(), engagement: z.number() });
+const bandPowersSchema = z.object({ delta: z.number(), theta: z.number(), alpha: z.number(), beta: z.number(), gamma: z.number(), smr: z.number().optional() });
+
+const sessionSchema = z.object({
+  version: z.literal(1),
+  id: z.string(),
+  source: z.string(),
+  startedAt: z.string(),
+  endedAt: z.string().nullable(),
+  samples: z.array(
+    z.object({
+      time: z.number(),
+      sourceTime: z.number().nullable(),
+      metrics: metricsSchema,
+      bandPowers: bandPowersSchema.optional(),
+      state: z.string(),
+      feedback: z.string(),
+    }),
+  ),
+  markers: z.array(
+    z.object({
+      time: z.number(),
+      sourceTime: z.number().nullable().optional(),
+      text: z.string(),
+      origin: z.enum(['user', 'source']),
+    }),
+  ),
+});
+
+// Reads the CSV written by `sessionToCsv`; markers come back at the frame they were attached to
+const sessionFromCsv = (text: string, name: string): EEGSession => {
+  const lines = text.split(/\r?\n/).filter(line => line.trim().length > 0);
+  const header = splitCsvLine(lines[0] ?? '').map(h => h.toLowerCase());
+  const column = (key: string) => header.indexOf(key);
+  if (column('time') === -1 || column('state') === -1 || METRICS.some(m => column(m) === -1)) {
+    throw new Error('Not a session CSV: expected time, metric and state columns');
+  }
+  const hasBands = BANDS.every(b => column(b) !== -1);
+  const samples: SessionSample[] = [];
+  const markers: SessionMarker[] = [];
+  lines.slice(1).forEach(line => {
+    const cells = splitCsvLine(line);
+    const number = (key: string) => Number.parseFloat(cells[column(key)] ?? '');
+    const time = number('time');
+    const metrics = Object.fromEntries(METRICS.map(m => [m, number(m)])) as unknown as EEGMetrics;
+    if (!Number.isFinite(time) || METRICS.some(m => !Number.isFinite(metrics[m]))) return;
+    const sourceTime = number('source_time');
+    const bands = hasBands ? (Object.fromEntries(BANDS.map(b => [b, number(b)])) as unknown as BandPowers) : undefined;
+    samples.push({
+      time,
+      sourceTime: Number.isFinite(sourceTime) ? sourceTime : null,
+      metrics,
+      bandPowers: bands && BANDS.every(b => Number.isFinite(bands[b])) ? bands : undefined,
+      state: cells[column('state')] ?? '',
+      feedback: cells[column('feedback')] ?? '',
+    });
+    splitMarkers(cells[column('markers')] ?? '').forEach(text => markers.push({ time, text, origin: 'user' }));
+    splitMarkers(cells[column('source_markers')] ?? '').forEach(text => markers.push({ time, text, origin: 'source' }));
+  });
+  if (samples.length === 0) throw new Error('Session CSV has no valid frames');
+  return { version: 1, id: name, source: name, startedAt: '', endedAt: null, samples, markers };
+};
+
+/** Loads a session exported as JSON or CSV; throws with a readable message otherwise. */
+export const parseSessionFile = (text: string, fileName: string): EEGSession => {
+  const name = fileName.replace(/\.[^.]+$/, '');
+  if (!text.trimStart().startsWith('{')) return sessionFromCsv(text, name);
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch (e) {
+    throw new Error(e instanceof Error ? e.message : 'Invalid JSON');
+  }
+  const result = sessionSchema.safeParse(json);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    throw new Error(`Not a session export: ${issue.path.join('.') || 'session'}: ${issue.message}`);
+  }
+  return result.data as EEGSession;
+};
+
+// Marker and state-change annotations, in seconds from the start
+export const sessionAnnotations = (session: EEGSession): EEGAnnotation[] => {
+  const out: EEGAnnotation[] = session.markers.map(m => ({ onset: m.time, text: m.origin === 'user' ? m.text : `Source: ${m.text}` }));
+  let previous = '';
+  session.samples.forEach(s => {
+    if (s.state === previous) return;
+    previous = s.state;
+    out.push({ onset: s.time, text: `State: ${s.state} (${s.feedback})` });
+  });
+  return out.sort((a, b) => a.onset - b.onset);
+};
+
+export const sessionToEdf = (session: EEGSession): ArrayBuffer => {
+  if (session.samples.length === 0) throw new Error('Session has no samples to export');
+  const duration = session.samples[session.samples.length - 1].time;
+  const length = Math.max(1, Math.ceil(duration * EDF_SAMPLE_RATE) + 1);
+
+  // Sample-and-hold each frame onto the fixed EDF grid
+  const grid = <T,>(pick: (s: SessionSample) => T): T[] => {
+    const out: T[] = new Array(length);
+    let j = 0;
+    for (let i = 0; i < length; i++) {
+      const t = i / EDF_SAMPLE_RATE;
+      while (j + 1 < session.samples.length && session.samples[j + 1].time <= t) j++;
+      out[i] = pick(session.samples[j]);
+    }
+    return out;
+  };
+
+  const signals: EdfWriteSignal[] = METRICS.map(m => ({
+    label: m[0].toUpperCase() + m.slice(1),
+    physicalDimension: '%',
+    physicalMin: 0,
+    physicalMax: 100,
+    sampleRate: EDF_SAMPLE_RATE,
+    data: grid(s => s.metrics[m]),
+  }));
+  if (session.samples.some(s => s.bandPowers)) {
+    BANDS.forEach(b => {
+      const data = grid(s => s.bandPowers?.[b] ?? 0);
+      signals.push({
+        label: `${b[0].toUpperCase()}${b.slice(1)} power`,
+        physicalDimension: 'uV2',
+        physicalMin: 0,
+        physicalMax: data.reduce((max, v) => Math.max(max, v), 1) * 1.05,
+        sampleRate: EDF_SAMPLE_RATE,
+        data,
+      });
+    });
+  }
+
+  return writeEdf(signals, {
+    startTime: new Date(session.startedAt),
+    recording: `Startdate X X X ${session.source.replace(/\s+/g, '_')}`,
+    annotations: sessionAnnotations(session),
+  });
+};
+
+/** Saves the session in `format` through a temporary download link. */
+export const downloadSession = (session: EEGSession, format: 'csv' | 'json' | 'edf') => {
+  const blob =
+    format === 'csv'
+      ? new Blob([sessionToCsv(session)], { type: 'text/csv' })
+      : format === 'json'
+        ? new Blob([sessionToJson(session)], { type: 'application/json' })
+        : new Blob([sessionToEdf(session)], { type: 'application/octet-stream' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${session.id}.${format}`;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
@@ -0,0 +1,277 @@
+/**
+ * Session comparison statistics.
+ *
+ * Each session is summarised by the distribution of every metric, the time
+ * spent in each brain state and, when the frames carry band powers, the
+ * relative power of each band (percent of the delta–gamma total).
+ *
+ * Sessions are compared against a reference session with Welch's t-test on
+ * the per-frame values. Consecutive frames overlap and are strongly
+ * correlated, so each sample size is shrunk to an effective size from its
+ * lag-1 autocorrelation, n·(1 − r)/(1 + r), before the test; treating frames
+ * as independent would make almost any difference look significant. The
+ * p-values of all tests shown together are Holm-adjusted, and Cohen's d gives
+ * the size of each difference. States are only described: their durations are
+ * too few and too long-running for a meaningful test.
+ */
+
+import type { EEGBand, EEGMetrics } from '@/types/eeg';
+import type { EEGSession } from './session';
+
+export const SESSION_METRICS: (keyof EEGMetrics)[] = ['attention', 'relaxation', 'drowsiness', 'engagement'];
+export const SESSION_BANDS: EEGBand[] = ['delta', 'theta', 'alpha', 'beta', 'gamma'];
+
+export const SIGNIFICANCE_LEVEL = 0.05;
+// Bins of the 0–100 metric histograms
+const HISTOGRAM_BINS = 10;
+// Longer gaps between frames (pauses) do not count as time in a state
+const MAX_FRAME_GAP = 2;
+
+export interface Distribution {
+  n: number;
+  // Sample size after allowing for autocorrelation between frames
+  nEffective: number;
+  mean: number;
+  sd: number;
+  min: number;
+  q1: number;
+  median: number;
+  q3: number;
+  max: number;
+}
+
+export interface StateShare {
+  label: string;
+  seconds: number;
+  share: number;
+}
+
+export interface SessionSummary {
+  id: string;
+  label: string;
+  startedAt: string;
+  seconds: number;
+  frames: number;
+  metrics: Record<keyof EEGMetrics, Distribution>;
+  // Share of frames in each tenth of the 0–100 scale
+  histograms: Record<keyof EEGMetrics, number[]>;
+  states: StateShare[];
+  // Relative band powers in percent; null when the session has none
+  bands: Record<EEGBand, Distribution> | null;
+}
+
+export interface ComparisonTest {
+  measure: keyof EEGMetrics | EEGBand;
+  kind: 'metric' | 'band';
+  sessionId: string;
+  referenceMean: number;
+  mean: number;
+  difference: number;
+  cohenD: number;
+  t: number;
+  df: number;
+  p: number;
+  // Holm-adjusted over every test in the comparison
+  pAdjusted: number;
+  significant: boolean;
+}
+
+const quantile = (sorted: number[], q: number) => {
+  if (sorted.length === 0) return 0;
+  const pos = (sorted.length - 1) * q;
+  const lo = Math.floor(pos);
+  const hi = Math.min(sorted.length - 1, lo + 1);
+  return sorted[lo] + (sorted[hi] - sorted[lo]) * (pos - lo);
+};
+
+const mean = (values: number[]) => values.reduce((s, v) => s + v, 0) / (values.length || 1);
+
+const variance = (values: number[], m = mean(values)) =>
+  values.length > 1 ? values.reduce((s, v) => s + (v - m) ** 2, 0) / (values.length - 1) : 0;
+
+// Lag-1 autocorrelation, clamped to [0, 0.95] so the effective size stays usable
+const lag1 = (values: number[], m: number) => {
+  let num = 0;
+  let den = 0;
+  values.forEach((v, i) => {
+    den += (v - m) ** 2;
+    if (i > 0) num += (v - m) * (values[i - 1] - m);
+  });
+  return den > 0 ? Math.min(0.95, Math.max(0, num / den)) : 0;
+};
+
+/** Distribution of a series of per-frame values, in time order. */
+export const describe = (values: number[]): Distribution => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const m = mean(values);
+  const r = lag1(values, m);
+  return {
+    n: values.length,
+    nEffective: values.length > 1 ? Math.max(2, (values.length * (1 - r)) / (1 + r)) : values.length,
+    mean: m,
+    sd: Math.sqrt(variance(values, m)),
+    min: sorted[0] ?? 0,
+    q1: quantile(sorted, 0.25),
+    median: quantile(sorted, 0.5),
+    q3: quantile(sorted, 0.75),
+    max: sorted[sorted.length - 1] ?? 0,
+  };
+};
+
+const relativeBand = (session: EEGSession, band: EEGBand) =>
+  session.samples.flatMap(s => {
+    if (!s.bandPowers) return [];
+    const total = SESSION_BANDS.reduce((sum, b) => sum + (s.bandPowers as Record<EEGBand, number>)[b], 0);
+    return total > 0 ? [(100 * s.bandPowers[band]) / total] : [];
+  });
+
+const seriesOf = (session: EEGSession, measure: keyof EEGMetrics | EEGBand, kind: 'metric' | 'band') =>
+  kind === 'metric' ? session.samples.map(s => s.metrics[measure as keyof EEGMetrics]) : relativeBand(session, measure as EEGBand);
+
+// Seconds each frame stands for: up to the next frame, with pauses left out
+const frameDurations = (session: EEGSession) => {
+  const gaps = session.samples.slice(1).map((s, i) => s.time - session.samples[i].time);
+  const typical = quantile([...gaps].sort((a, b) => a - b), 0.5) || 0.75;
+  return session.samples.map((_, i) => {
+    const gap = gaps[i] ?? typical;
+    return gap > 0 && gap <= MAX_FRAME_GAP ? gap : Math.min(typical, MAX_FRAME_GAP);
+  });
+};
+
+export const summarizeSession = (session: EEGSession): SessionSummary => {
+  const durations = frameDurations(session);
+  const seconds = durations.reduce((s, d) => s + d, 0);
+  const stateSeconds = new Map<string, number>();
+  session.samples.forEach((s, i) => stateSeconds.set(s.state, (stateSeconds.get(s.state) ?? 0) + durations[i]));
+  const metrics = {} as Record<keyof EEGMetrics, Distribution>;
+  const histograms = {} as Record<keyof EEGMetrics, number[]>;
+  SESSION_METRICS.forEach(m => {
+    const values = seriesOf(session, m, 'metric');
+    metrics[m] = describe(values);
+    const counts = new Array(HISTOGRAM_BINS).fill(0);
+    values.forEach(v => counts[Math.min(HISTOGRAM_BINS - 1, Math.max(0, Math.floor(v / (100 / HISTOGRAM_BINS))))]++);
+    histograms[m] = counts.map(c => c / (values.length || 1));
+  });
+  const hasBands = session.samples.some(s => s.bandPowers);
+  const bands = hasBands ? ({} as Record<EEGBand, Distribution>) : null;
+  if (bands) SESSION_BANDS.forEach(b => (bands[b] = describe(relativeBand(session, b))));
+  return {
+    id: session.id,
+    label: session.source && session.source !== session.id ? `${session.id} (${session.source})` : session.id,
+    startedAt: session.startedAt,
+    seconds,
+    frames: session.samples.length,
+    metrics,
+    histograms,
+    states: [...stateSeconds]
+      .map(([label, s]) => ({ label, seconds: s, share: seconds > 0 ? s / seconds : 0 }))
+      .sort((a, b) => b.seconds - a.seconds),
+    bands,
+  };
+};
+
+// ---------------------------------------------------------------------------
+// Student t distribution
+// ---------------------------------------------------------------------------
+
+// Lanczos approximation of ln Γ(x)
+const logGamma = (x: number): number => {
+  const c = [76.18009172947146, -86.50532032941678, 24.01409824083091, -1.231739572450155, 0.001208650973866179, -0.000005395239384953];
+  const tmp = x + 5.5 - (x + 0.5) * Math.log(x + 5.5);
+  let ser = 1.000000000190015;
+  for (let j = 0; j < c.length; j++) ser += c[j] / (x + j + 1);
+  return -tmp + Math.log((Math.sqrt(2 * Math.PI) * ser) / x);
+};
+
+// Continued fraction of the incomplete beta function (modified Lentz)
+const betaFraction = (a: number, b: number, x: number) => {
+  const tiny = 1e-30;
+  let c = 1;
+  let d = 1 - ((a + b) * x) / (a + 1);
+  if (Math.abs(d) < tiny) d = tiny;
+  d = 1 / d;
+  let h = d;
+  for (let m = 1; m <= 200; m++) {
+    const m2 = 2 * m;
+    let aa = (m * (b - m) * x) / ((a + m2 - 1) * (a + m2));
+    d = 1 + aa * d;
+    if (Math.abs(d) < tiny) d = tiny;
+    c = 1 + aa / c;
+    if (Math.abs(c) < tiny) c = tiny;
+    d = 1 / d;
+    h *= d * c;
+    aa = (-(a + m) * (a + b + m) * x) / ((a + m2) * (a + m2 + 1));
+    d = 1 + aa * d;
+    if (Math.abs(d) < tiny) d = tiny;
+    c = 1 + aa / c;
+    if (Math.abs(c) < tiny) c = tiny;
+    d = 1 / d;
+    const delta = d * c;
+    h *= delta;
+    if (Math.abs(delta - 1) < 1e-10) break;
+  }
+  return h;
+};
+
+// Regularized incomplete beta function I_x(a, b)
+const incompleteBeta = (x: number, a: number, b: number) => {
+  if (x <= 0) return 0;
+  if (x >= 1) return 1;
+  const front = Math.exp(logGamma(a + b) - logGamma(a) - logGamma(b) + a * Math.log(x) + b * Math.log(1 - x));
+  return x < (a + 1) / (a + b + 2) ? (front * betaFraction(a, b, x)) / a : 1 - (front * betaFraction(b, a, 1 - x)) / b;
+};
+
+/** Two-sided p-value of a t statistic with `df` degrees of freedom. */
+export const studentTwoSidedP = (t: number, df: number) => {
+  if (!Number.isFinite(t)) return 0;
+  if (!(df > 0)) return 1;
+  return incompleteBeta(df / (df + t * t), df / 2, 0.5);
+};
+
+/** Holm–Bonferroni adjustment, returned in the order of `ps`. */
+export const holmAdjust = (ps: number[]): number[] => {
+  const order = ps.map((p, i) => ({ p, i })).sort((a, b) => a.p - b.p);
+  const adjusted = new Array<number>(ps.length);
+  let running = 0;
+  order.forEach(({ p, i }, rank) => {
+    running = Math.max(running, Math.min(1, (ps.length - rank) * p));
+    adjusted[i] = running;
+  });
+  return adjusted;
+};
+
+// Welch's t-test on effective sample sizes, with Cohen's d on the pooled SD
+const welch = (reference: Distribution, other: Distribution) => {
+  const va = reference.sd ** 2 / reference.nEffective;
+  const vb = other.sd ** 2 / other.nEffective;
+  const se = Math.sqrt(va + vb);
+  const difference = other.mean - reference.mean;
+  const t = se > 0 ? difference / se : Math.sign(difference) * (difference === 0 ? 0 : Infinity);
+  const df = se > 0 ? (va + vb) ** 2 / (va ** 2 / (reference.nEffective - 1) + vb ** 2 / (other.nEffective - 1)) : 0;
+  const pooled = Math.sqrt((reference.sd ** 2 + other.sd ** 2) / 2);
+  return { difference, t, df, p: studentTwoSidedP(t, df), cohenD: pooled > 0 ? difference / pooled : 0 };
+};
+
+/**
+ * Tests every other session against `reference` on each metric, and on each
+ * relative band power when both sessions have band powers.
+ */
+export const compareSessions = (reference: EEGSession, others: EEGSession[]): ComparisonTest[] => {
+  const ref = summarizeSession(reference);
+  const tests: Omit<ComparisonTest, 'pAdjusted' | 'significant'>[] = [];
+  others.forEach(session => {
+    const summary = summarizeSession(session);
+    const add = (measure: keyof EEGMetrics | EEGBand, kind: 'metric' | 'band', a: Distribution, b: Distribution) => {
+      if (a.n < 2 || b.n < 2) return;
+      tests.push({ measure, kind, sessionId: session.id, referenceMean: a.mean, mean: b.mean, ...welch(a, b) });
+    };
+    SESSION_METRICS.forEach(m => add(m, 'metric', ref.metrics[m], summary.metrics[m]));
+    if (ref.bands && summary.bands) {
+      const refBands = ref.bands;
+      const otherBands = summary.bands;
+      SESSION_BANDS.forEach(b => add(b, 'band', refBands[b], otherBands[b]));
+    }
+  });
+  const adjusted = holmAdjust(tests.map(t => t.p));
+  return tests.map((t, i) => ({ ...t, pAdjusted: adjusted[i], significant: adjusted[i] < SIGNIFICANCE_LEVEL }));
+};
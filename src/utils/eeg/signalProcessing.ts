@@ -0,0 +1,508 @@
+/**
+ * EEG Signal Processing
+ *
+ * Turns raw multi-channel microvolt samples into frequency-band powers and the
+ * four cognitive indices the simulator displays. The pipeline per channel is:
+ *
+ *   1. DC removal (subtract the window mean)
+ *   2. 4th-order Butterworth band-pass (default 1–45 Hz) as cascaded biquads
+ *   3. Optional notch at the mains frequency (50 or 60 Hz)
+ *   4. Welch power spectral density (Hann window, 50% overlap)
+ *   5. Band power = PSD integrated over each band, averaged across channels
+ *      that pass artifact screening (artifacts.ts); the SMR sub-band is
+ *      integrated alongside for neurofeedback
+ *
+ * Indices are ratios of band powers mapped onto 0–100 with a log-logistic
+ * curve, so a ratio equal to its reference value scores 50:
+ *
+ *   engagement = β / (α + θ)      (Pope et al., 1995)
+ *   attention  = β / θ            (inverse theta/beta ratio)
+ *   relaxation = α / β
+ *   drowsiness = (θ + α) / β      (Jap et al., 2009)
+ */
+
+import type { BandPowers, EEGBand, EEGMetrics, EEGRecording, MetricFrame } from '@/types/eeg';
+import { assessEpoch } from './artifacts';
+
+export const EEG_BANDS: Record<EEGBand, [number, number]> = {
+  delta: [1, 4],
+  theta: [4, 8],
+  alpha: [8, 13],
+  beta: [13, 30],
+  gamma: [30, 45],
+};
+
+// Sensorimotor rhythm, reported as `BandPowers.smr`
+export const SMR_BAND: [number, number] = [12, 15];
+
+// Ratio that maps to a score of 50 for each index
+export const INDEX_REFERENCES: Record<keyof EEGMetrics, number> = {
+  attention: 1.0,
+  relaxation: 1.5,
+  drowsiness: 2.5,
+  engagement: 0.5,
+};
+
+// Steepness of the log-logistic mapping from ratio to score
+const INDEX_SLOPE = 1.5;
+
+export interface ProcessingOptions {
+  bandpass?: [number, number];
+  notchFrequency?: 50 | 60 | null;
+  // Length of each analysis epoch and hop between epochs, in seconds
+  epochSeconds?: number;
+  stepSeconds?: number;
+  // Welch segment length in seconds (segments overlap by half)
+  welchSegmentSeconds?: number;
+  // Screen epochs for blinks, muscle and bad contacts
+  artifactDetection?: boolean;
+}
+
+export const DEFAULT_PROCESSING_OPTIONS: Required<ProcessingOptions> = {
+  bandpass: [1, 45],
+  notchFrequency: 50,
+  epochSeconds: 2,
+  stepSeconds: 0.75,
+  welchSegmentSeconds: 1,
+  artifactDetection: true,
+};
+
+// ---------------------------------------------------------------------------
+// Filters
+// ---------------------------------------------------------------------------
+
+interface BiquadCoefficients {
+  b0: number;
+  b1: number;
+  b2: number;
+  a1: number;
+  a2: number;
+}
+
+// Q factors for a 4th-order Butterworth split into two biquad sections
+const BUTTERWORTH_Q4 = [0.5412, 1.3066];
+
+const normalize = (b0: number, b1: number, b2: number, a0: number, a1: number, a2: number): BiquadCoefficients => ({
+  b0: b0 / a0,
+  b1: b1 / a0,
+  b2: b2 / a0,
+  a1: a1 / a0,
+  a2: a2 / a0,
+});
+
+const lowpass = (fs: number, f0: number, q: number): BiquadCoefficients => {
+  const w0 = (2 * Math.PI * f0) / fs;
+  const cos = Math.cos(w0);
+  const alpha = Math.sin(w0) / (2 * q);
+  return normalize((1 - cos) / 2, 1 - cos, (1 - cos) / 2, 1 + alpha, -2 * cos, 1 - alpha);
+};
+
+const highpass = (fs: number, f0: number, q: number): BiquadCoefficients => {
+  const w0 = (2 * Math.PI * f0) / fs;
+  const cos = Math.cos(w0);
+  const alpha = Math.sin(w0) / (2 * q);
+  return normalize((1 + cos) / 2, -(1 + cos), (1 + cos) / 2, 1 + alpha, -2 * cos, 1 - alpha);
+};
+
+const notch = (fs: number, f0: number, q: number): BiquadCoefficients => {
+  const w0 = (2 * Math.PI * f0) / fs;
+  const cos = Math.cos(w0);
+  const alpha = Math.sin(w0) / (2 * q);
+  return normalize(1, -2 * cos, 1, 1 + alpha, -2 * cos, 1 - alpha);
+};
+
+/**
+ * Cascade of biquad sections (direct form II transposed). The filter keeps its
+ * state between calls to `process`, so it can run over a live stream in chunks.
+ */
+export class FilterChain {
+  private sections: BiquadCoefficients[];
+  private state: Float64Array;
+
+  constructor(sections: BiquadCoefficients[]) {
+    this.sections = sections;
+    this.state = new Float64Array(sections.length * 2);
+  }
+
+  process(input: ArrayLike<number>): Float32Array {
+    const out = new Float32Array(input.length);
+    for (let i = 0; i < input.length; i++) {
+      let x = input[i];
+      for (let s = 0; s < this.sections.length; s++) {
+        const { b0, b1, b2, a1, a2 } = this.sections[s];
+        const z1 = this.state[s * 2];
+        const z2 = this.state[s * 2 + 1];
+        const y = b0 * x + z1;
+        this.state[s * 2] = b1 * x - a1 * y + z2;
+        this.state[s * 2 + 1] = b2 * x - a2 * y;
+        x = y;
+      }
+      out[i] = x;
+    }
+    return out;
+  }
+
+  reset() {
+    this.state.fill(0);
+  }
+}
+
+/**
+ * Band-pass (plus optional mains notch) filter for one channel. Cut-offs that
+ * fall at or above Nyquist are dropped rather than producing unstable sections.
+ */
+export const createEEGFilter = (
+  sampleRate: number,
+  bandpass: [number, number] = DEFAULT_PROCESSING_OPTIONS.bandpass,
+  notchFrequency: 50 | 60 | null = DEFAULT_PROCESSING_OPTIONS.notchFrequency,
+): FilterChain => {
+  const nyquist = sampleRate / 2;
+  const sections: BiquadCoefficients[] = [];
+  const [low, high] = bandpass;
+  if (low > 0 && low < nyquist) {
+    BUTTERWORTH_Q4.forEach(q => sections.push(highpass(sampleRate, low, q)));
+  }
+  if (high > 0 && high < nyquist * 0.95) {
+    BUTTERWORTH_Q4.forEach(q => sections.push(lowpass(sampleRate, high, q)));
+  }
+  if (notchFrequency && notchFrequency < nyquist * 0.95) {
+    sections.push(notch(sampleRate, notchFrequency, 30));
+  }
+  return new FilterChain(sections);
+};
+
+// ---------------------------------------------------------------------------
+// Spectral analysis
+// ---------------------------------------------------------------------------
+
+export const nextPowerOfTwo = (n: number): number => {
+  let p = 1;
+  while (p < n) p <<= 1;
+  return p;
+};
+
+/** In-place iterative radix-2 FFT. `re` and `im` must have a power-of-two length. */
+export const fft = (re: Float64Array, im: Float64Array) => {
+  const n = re.length;
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]];
+    }
+  }
+  for (let len = 2; len <= n; len <<= 1) {
+    const angle = (-2 * Math.PI) / len;
+    const wRe = Math.cos(angle);
+    const wIm = Math.sin(angle);
+    for (let i = 0; i < n; i += len) {
+      let curRe = 1;
+      let curIm = 0;
+      for (let k = 0; k < len / 2; k++) {
+        const aRe = re[i + k];
+        const aIm = im[i + k];
+        const bRe = re[i + k + len / 2] * curRe - im[i + k + len / 2] * curIm;
+        const bIm = re[i + k + len / 2] * curIm + im[i + k + len / 2] * curRe;
+        re[i + k] = aRe + bRe;
+        im[i + k] = aIm + bIm;
+        re[i + k + len / 2] = aRe - bRe;
+        im[i + k + len / 2] = aIm - bIm;
+        const nextRe = curRe * wRe - curIm * wIm;
+        curIm = curRe * wIm + curIm * wRe;
+        curRe = nextRe;
+      }
+    }
+  }
+};
+
+const hannCache = new Map<number, Float64Array>();
+
+const hann = (n: number): Float64Array => {
+  let w = hannCache.get(n);
+  if (!w) {
+    w = new Float64Array(n);
+    for (let i = 0; i < n; i++) w[i] = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / (n - 1));
+    hannCache.set(n, w);
+  }
+  return w;
+};
+
+export interface PowerSpectrum {
+  freqs: Float64Array;
+  psd: Float64Array;
+}
+
+/**
+ * One-sided power spectral density (µV²/Hz) by Welch's method. Segments are
+ * Hann-windowed, overlap by 50% and are zero-padded to a power of two.
+ */
+export const welchPsd = (signal: ArrayLike<number>, sampleRate: number, segmentLength?: number): PowerSpectrum => {
+  const segLen = Math.max(8, Math.min(signal.length, segmentLength ?? Math.round(sampleRate)));
+  const nfft = nextPowerOfTwo(segLen);
+  const step = Math.max(1, Math.floor(segLen / 2));
+  const window = hann(segLen);
+  let windowPower = 0;
+  for (let i = 0; i < segLen; i++) windowPower += window[i] * window[i];
+
+  const bins = nfft / 2 + 1;
+  const psd = new Float64Array(bins);
+  const re = new Float64Array(nfft);
+  const im = new Float64Array(nfft);
+  let segments = 0;
+
+  for (let start = 0; start + segLen <= signal.length; start += step) {
+    re.fill(0);
+    im.fill(0);
+    let mean = 0;
+    for (let i = 0; i < segLen; i++) mean += signal[start + i];
+    mean /= segLen;
+    for (let i = 0; i < segLen; i++) re[i] = (signal[start + i] - mean) * window[i];
+    fft(re, im);
+    for (let k = 0; k < bins; k++) {
+      const scale = k === 0 || k === nfft / 2 ? 1 : 2;
+      psd[k] += (scale * (re[k] * re[k] + im[k] * im[k])) / (sampleRate * windowPower);
+    }
+    segments++;
+  }
+
+  if (segments > 0) {
+    for (let k = 0; k < bins; k++) psd[k] /= segments;
+  }
+  const freqs = new Float64Array(bins);
+  for (let k = 0; k < bins; k++) freqs[k] = (k * sampleRate) / nfft;
+  return { freqs, psd };
+};
+
+/** Integrates a PSD over each band in `EEG_BANDS` and over `SMR_BAND` (µV²). */
+export const bandPowersFromPsd = ({ freqs, psd }: PowerSpectrum): BandPowers => {
+  const df = freqs.length > 1 ? freqs[1] - freqs[0] : 1;
+  const integrate = ([lo, hi]: [number, number]) => {
+    let power = 0;
+    for (let k = 0; k < freqs.length; k++) {
+      if (freqs[k] >= lo && freqs[k] < hi) power += psd[k] * df;
+    }
+    return power;
+  };
+  const powers = { delta: 0, theta: 0, alpha: 0, beta: 0, gamma: 0 } as BandPowers;
+  (Object.keys(EEG_BANDS) as EEGBand[]).forEach(band => {
+    powers[band] = integrate(EEG_BANDS[band]);
+  });
+  powers.smr = integrate(SMR_BAND);
+  return powers;
+};
+
+// ---------------------------------------------------------------------------
+// Indices
+// ---------------------------------------------------------------------------
+
+const EPSILON = 1e-9;
+
+/** Log-logistic mapping: `reference` scores 50, ratios above trend to 100. */
+export const ratioToScore = (ratio: number, reference: number): number => {
+  if (!Number.isFinite(ratio) || ratio <= 0) return 0;
+  const x = Math.pow(ratio / reference, INDEX_SLOPE);
+  return (100 * x) / (1 + x);
+};
+
+export const metricsFromBandPowers = (bp: BandPowers): EEGMetrics => ({
+  engagement: ratioToScore(bp.beta / (bp.alpha + bp.theta + EPSILON), INDEX_REFERENCES.engagement),
+  attention: ratioToScore(bp.beta / (bp.theta + EPSILON), INDEX_REFERENCES.attention),
+  relaxation: ratioToScore(bp.alpha / (bp.beta + EPSILON), INDEX_REFERENCES.relaxation),
+  drowsiness: ratioToScore((bp.theta + bp.alpha) / (bp.beta + EPSILON), INDEX_REFERENCES.drowsiness),
+});
+
+/** Band powers of each channel for one epoch of already-filtered data. */
+export const channelBandPowers = (
+  channels: ArrayLike<number>[],
+  sampleRate: number,
+  welchSegmentSeconds = DEFAULT_PROCESSING_OPTIONS.welchSegmentSeconds,
+): BandPowers[] => {
+  const segment = Math.round(welchSegmentSeconds * sampleRate);
+  return channels.map(signal => bandPowersFromPsd(welchPsd(signal, sampleRate, segment)));
+};
+
+export const averageBandPowers = (powers: BandPowers[]): BandPowers => {
+  const total = { delta: 0, theta: 0, alpha: 0, beta: 0, gamma: 0 } as BandPowers;
+  if (powers.length === 0) return total;
+  const bands = Object.keys(EEG_BANDS) as EEGBand[];
+  powers.forEach(bp => {
+    bands.forEach(band => {
+      total[band] += bp[band];
+    });
+  });
+  bands.forEach(band => {
+    total[band] /= powers.length;
+  });
+  if (powers.every(bp => bp.smr !== undefined)) total.smr = powers.reduce((s, bp) => s + (bp.smr as number), 0) / powers.length;
+  return total;
+};
+
+/** Band powers averaged across channels for one epoch of already-filtered data. */
+export const epochBandPowers = (
+  channels: ArrayLike<number>[],
+  sampleRate: number,
+  welchSegmentSeconds = DEFAULT_PROCESSING_OPTIONS.welchSegmentSeconds,
+): BandPowers => averageBandPowers(channelBandPowers(channels, sampleRate, welchSegmentSeconds));
+
+/**
+ * Frame for one epoch. With artifact detection on, contaminated channels are
+ * dropped from the average; if none are clean every channel is used and the
+ * frame is flagged through `quality.contaminated`.
+ */
+const epochFrame = (
+  timestamp: number,
+  filtered: ArrayLike<number>[],
+  raw: ArrayLike<number>[],
+  sampleRate: number,
+  opts: Required<ProcessingOptions>,
+  channelNames: string[],
+): MetricFrame => {
+  const perChannel = channelBandPowers(filtered, sampleRate, opts.welchSegmentSeconds);
+  if (!opts.artifactDetection) {
+    const bandPowers = averageBandPowers(perChannel);
+    return { timestamp, metrics: metricsFromBandPowers(bandPowers), bandPowers };
+  }
+  const quality = assessEpoch(filtered, raw, perChannel, sampleRate, channelNames);
+  const clean = perChannel.filter((_, c) => quality.channels[c].artifacts.length === 0);
+  const bandPowers = averageBandPowers(clean.length > 0 ? clean : perChannel);
+  return { timestamp, metrics: metricsFromBandPowers(bandPowers), bandPowers, quality };
+};
+
+/** Filters every channel of a recording once, front to back. */
+export const filterRecording = (recording: EEGRecording, options: ProcessingOptions = {}): Float32Array[] => {
+  const opts = { ...DEFAULT_PROCESSING_OPTIONS, ...options };
+  return recording.data.map(channel => {
+    let mean = 0;
+    for (let i = 0; i < channel.length; i++) mean += channel[i];
+    mean /= channel.length || 1;
+    const centered = new Float32Array(channel.length);
+    for (let i = 0; i < channel.length; i++) centered[i] = channel[i] - mean;
+    return createEEGFilter(recording.sampleRate, opts.bandpass, opts.notchFrequency).process(centered);
+  });
+};
+
+/**
+ * Runs the full pipeline over a recording and returns one frame per epoch.
+ * Throws when the recording is shorter than a single epoch.
+ */
+export const processRecording = (recording: EEGRecording, options: ProcessingOptions = {}): MetricFrame[] => {
+  const opts = { ...DEFAULT_PROCESSING_OPTIONS, ...options };
+  const { sampleRate } = recording;
+  if (!Number.isFinite(sampleRate) || sampleRate <= 0) {
+    throw new Error('Recording has no valid sample rate');
+  }
+  const length = recording.data[0]?.length ?? 0;
+  const epoch = Math.round(opts.epochSeconds * sampleRate);
+  const step = Math.max(1, Math.round(opts.stepSeconds * sampleRate));
+  if (length < epoch) {
+    throw new Error(`Recording is shorter than one ${opts.epochSeconds}s epoch`);
+  }
+
+  const filtered = filterRecording(recording, opts);
+  const frames: MetricFrame[] = [];
+  for (let start = 0; start + epoch <= length; start += step) {
+    const slices = filtered.map(channel => channel.subarray(start, start + epoch));
+    const raw = recording.data.map(channel => channel.subarray(start, start + epoch));
+    frames.push(epochFrame((start + epoch) / sampleRate, slices, raw, sampleRate, opts, recording.channels));
+  }
+  return frames;
+};
+
+/**
+ * Incremental `processRecording` for live sources. Feed it sample chunks as
+ * they arrive; it keeps filter state and ring buffers of one epoch per
+ * channel (filtered, and raw for rail detection) and emits a frame every
+ * `stepSeconds` once the first epoch is full.
+ */
+export class EEGStreamProcessor {
+  readonly sampleRate: number;
+  private opts: Required<ProcessingOptions>;
+  private filters: FilterChain[];
+  private offsets: (number | null)[];
+  private rings: Float32Array[];
+  private rawRings: Float32Array[];
+  private channelNames: string[];
+  private epoch: number;
+  private step: number;
+  private writeIndex = 0;
+  private totalSamples = 0;
+  private sinceLastFrame = 0;
+
+  constructor(sampleRate: number, channelCount: number, options: ProcessingOptions = {}, channelNames: string[] = []) {
+    this.sampleRate = sampleRate;
+    this.opts = { ...DEFAULT_PROCESSING_OPTIONS, ...options };
+    this.epoch = Math.round(this.opts.epochSeconds * sampleRate);
+    this.step = Math.max(1, Math.round(this.opts.stepSeconds * sampleRate));
+    this.filters = Array.from({ length: channelCount }, () => createEEGFilter(sampleRate, this.opts.bandpass, this.opts.notchFrequency));
+    this.offsets = Array.from({ length: channelCount }, () => null);
+    this.rings = Array.from({ length: channelCount }, () => new Float32Array(this.epoch));
+    this.rawRings = Array.from({ length: channelCount }, () => new Float32Array(this.epoch));
+    this.channelNames = channelNames;
+  }
+
+  get channelCount() {
+    return this.rings.length;
+  }
+
+  /** Seconds of signal pushed since construction or the last reset. */
+  get elapsedSeconds() {
+    return this.totalSamples / this.sampleRate;
+  }
+
+  /** `chunk[c]` holds the new samples for channel c; all channels must be the same length. */
+  push(chunk: ArrayLike<number>[]): MetricFrame[] {
+    const length = chunk[0]?.length ?? 0;
+    const centered = chunk.slice(0, this.channelCount).map((samples, c) => {
+      // Remove the DC offset seen at the first sample so the high-pass does not ring
+      if (this.offsets[c] === null && samples.length > 0) this.offsets[c] = samples[0];
+      const offset = this.offsets[c] ?? 0;
+      const out = new Float32Array(samples.length);
+      for (let i = 0; i < samples.length; i++) out[i] = samples[i] - offset;
+      return out;
+    });
+    const filtered = centered.map((samples, c) => this.filters[c].process(samples));
+
+    const frames: MetricFrame[] = [];
+    for (let i = 0; i < length; i++) {
+      for (let c = 0; c < filtered.length; c++) {
+        this.rings[c][this.writeIndex] = filtered[c][i];
+        this.rawRings[c][this.writeIndex] = centered[c][i];
+      }
+      this.writeIndex = (this.writeIndex + 1) % this.epoch;
+      this.totalSamples++;
+      this.sinceLastFrame++;
+      if (this.totalSamples >= this.epoch && this.sinceLastFrame >= this.step) {
+        this.sinceLastFrame = 0;
+        frames.push(this.frame());
+      }
+    }
+    return frames;
+  }
+
+  /** Most recent `seconds` of filtered samples per channel, oldest first. */
+  latest(seconds = this.opts.epochSeconds, raw = false): Float32Array[] {
+    const n = Math.min(this.epoch, Math.round(seconds * this.sampleRate), this.totalSamples);
+    return (raw ? this.rawRings : this.rings).map(ring => {
+      const out = new Float32Array(n);
+      for (let i = 0; i < n; i++) out[i] = ring[(this.writeIndex - n + i + this.epoch) % this.epoch];
+      return out;
+    });
+  }
+
+  reset() {
+    this.filters.forEach(f => f.reset());
+    this.offsets = this.offsets.map(() => null);
+    this.rings.forEach(r => r.fill(0));
+    this.rawRings.forEach(r => r.fill(0));
+    this.writeIndex = 0;
+    this.totalSamples = 0;
+    this.sinceLastFrame = 0;
+  }
+
+  private frame(): MetricFrame {
+    const seconds = this.opts.epochSeconds;
+    return epochFrame(this.totalSamples / this.sampleRate, this.latest(seconds), this.latest(seconds, true), this.sampleRate, this.opts, this.channelNames);
+  }
+}
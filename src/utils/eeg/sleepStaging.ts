@@ -0,0 +1,343 @@
+/**
+ * Sleep-stage scoring for overnight recordings.
+ *
+ * The recording is cut into 30-second epochs and each epoch is scored as
+ * Wake, N1, N2, N3 or REM from spectral features, loosely following the AASM
+ * manual:
+ *
+ *   N3    slow waves (0.5–2 Hz, ≥ 75 µV peak-to-peak) in at least 20 % of the epoch
+ *   Wake  alpha (8–12 Hz) without slow activity, or high muscle tone
+ *   N2    spindle-band (sigma, 12–15 Hz) or K-complex slow activity
+ *   REM   low muscle tone, theta without alpha, and eye movements when an EOG
+ *         channel is present
+ *   N1    the rest
+ *
+ * Apart from the slow-wave amplitude, features are judged against the same
+ * recording (robust z-scores around the night's median), so scoring expects a
+ * night with both wake and sleep in it. Channels labelled EMG/chin and EOG are
+ * used for muscle tone and eye movements; without them, 20–30 Hz EEG power
+ * stands in for muscle tone. Single epochs that differ from two agreeing
+ * neighbours are smoothed away, and REM before the first N2 is scored N1.
+ *
+ * This is a heuristic for exploring recordings, not a clinical scorer. When a
+ * recording carries hypnogram annotations ("Sleep stage 2", "N3", "REM", …)
+ * they are read as a reference so the scoring can be checked against them.
+ */
+
+import type { EEGAnnotation, EEGRecording } from '@/types/eeg';
+import { createEEGFilter, welchPsd, type PowerSpectrum } from './signalProcessing';
+
+export type SleepStage = 'W' | 'N1' | 'N2' | 'N3' | 'REM';
+
+// Top to bottom in a hypnogram
+export const SLEEP_STAGES: SleepStage[] = ['W', 'REM', 'N1', 'N2', 'N3'];
+
+export const SLEEP_STAGE_INFO: Record<SleepStage, { label: string; color: string }> = {
+  W: { label: 'Wake', color: '#FFD93D' },
+  REM: { label: 'REM', color: '#F76C6C' },
+  N1: { label: 'N1', color: '#95E1D3' },
+  N2: { label: 'N2', color: '#45B7D1' },
+  N3: { label: 'N3', color: '#6C5CE7' },
+};
+
+export const SLEEP_EPOCH_SECONDS = 30;
+
+// Slow waves: AASM amplitude criterion and the share of the epoch they must fill
+const SLOW_WAVE_UV = 75;
+const SLOW_WAVE_FRACTION = 0.2;
+
+type ChannelRole = 'eeg' | 'eog' | 'emg';
+
+const channelRole = (label: string): ChannelRole => {
+  if (/emg|chin|submental/i.test(label)) return 'emg';
+  if (/eog|loc|roc|\be[12]\b|horizontal/i.test(label)) return 'eog';
+  return 'eeg';
+};
+
+interface EpochFeatures {
+  // Shares of 0.5–30 Hz EEG power
+  slow: number;
+  theta: number;
+  alpha: number;
+  sigma: number;
+  // Share of 1-s windows holding a slow wave
+  slowWaves: number;
+  // log10 muscle tone (EMG amplitude, or 20–30 Hz EEG power)
+  muscle: number;
+  // log10 0.5–2 Hz EOG power; null without an EOG channel
+  eye: number | null;
+}
+
+export interface SleepMetrics {
+  // Minutes; time in bed is the whole recording
+  timeInBed: number;
+  totalSleepTime: number;
+  // Total sleep time over time in bed, 0–1
+  efficiency: number;
+  // Minutes from the start to the first sleep epoch; null without sleep
+  sleepLatency: number | null;
+  // Minutes from sleep onset to the first REM epoch; null without REM
+  remLatency: number | null;
+  // Wake after sleep onset, up to the last sleep epoch, in minutes
+  waso: number;
+  awakenings: number;
+  stageMinutes: Record<SleepStage, number>;
+  // Share of total sleep time per sleep stage, 0–1
+  stageShare: Record<Exclude<SleepStage, 'W'>, number>;
+}
+
+export interface SleepScoring {
+  epochSeconds: number;
+  // Unix epoch (ms) of the first sample, when known
+  startTime?: number;
+  // Channels used, by role
+  channels: Record<ChannelRole, string[]>;
+  stages: SleepStage[];
+  metrics: SleepMetrics;
+  // Stages from the recording's own hypnogram annotations, if any
+  reference: (SleepStage | null)[] | null;
+}
+
+export interface HypnogramAgreement {
+  // Epochs scored in both hypnograms
+  epochs: number;
+  accuracy: number;
+  // Cohen's kappa
+  kappa: number;
+  // confusion[reference][scored], indexed like SLEEP_STAGES
+  confusion: number[][];
+}
+
+const bandShare = ({ freqs, psd }: PowerSpectrum, lo: number, hi: number) => {
+  let band = 0;
+  let total = 0;
+  for (let k = 0; k < freqs.length; k++) {
+    if (freqs[k] < 0.5 || freqs[k] >= 30) continue;
+    total += psd[k];
+    if (freqs[k] >= lo && freqs[k] < hi) band += psd[k];
+  }
+  return total > 0 ? band / total : 0;
+};
+
+const bandPower = ({ freqs, psd }: PowerSpectrum, lo: number, hi: number) => {
+  const df = freqs.length > 1 ? freqs[1] - freqs[0] : 1;
+  let power = 0;
+  for (let k = 0; k < freqs.length; k++) {
+    if (freqs[k] >= lo && freqs[k] < hi) power += psd[k] * df;
+  }
+  return power;
+};
+
+const mean = (values: number[]) => values.reduce((s, v) => s + v, 0) / (values.length || 1);
+
+const log10 = (value: number) => Math.log10(Math.max(value, 1e-6));
+
+const filtered = (signal: Float32Array, sampleRate: number, band: [number, number]) =>
+  createEEGFilter(sampleRate, band, null).process(signal);
+
+/** Share of 1-s windows whose 0.5–2 Hz peak-to-peak reaches the slow-wave amplitude. */
+const slowWaveShare = (slow: Float32Array, start: number, length: number, sampleRate: number) => {
+  const windows = Math.floor(length / sampleRate);
+  let hits = 0;
+  for (let w = 0; w < windows; w++) {
+    let min = Infinity;
+    let max = -Infinity;
+    for (let i = start + w * sampleRate; i < start + (w + 1) * sampleRate; i++) {
+      if (slow[i] < min) min = slow[i];
+      if (slow[i] > max) max = slow[i];
+    }
+    if (max - min >= SLOW_WAVE_UV) hits++;
+  }
+  return windows > 0 ? hits / windows : 0;
+};
+
+const epochFeatures = (recording: EEGRecording, roles: ChannelRole[], epochSeconds: number): EpochFeatures[] => {
+  const sampleRate = Math.round(recording.sampleRate);
+  const epoch = epochSeconds * sampleRate;
+  const count = Math.floor((recording.data[0]?.length ?? 0) / epoch);
+  const nyquist = sampleRate / 2;
+  const segment = Math.min(epoch, 4 * sampleRate);
+
+  const eeg = recording.data.filter((_, c) => roles[c] === 'eeg').map(d => filtered(d, sampleRate, [0.3, 35]));
+  const slow = eeg.map(d => filtered(d, sampleRate, [0.5, 2]));
+  const emg = recording.data.filter((_, c) => roles[c] === 'emg');
+  const eog = recording.data.filter((_, c) => roles[c] === 'eog').map(d => filtered(d, sampleRate, [0.3, 10]));
+
+  const features: EpochFeatures[] = [];
+  for (let e = 0; e < count; e++) {
+    const start = e * epoch;
+    const spectra = eeg.map(d => welchPsd(d.subarray(start, start + epoch), sampleRate, segment));
+    const share = (lo: number, hi: number) => mean(spectra.map(s => bandShare(s, lo, hi)));
+    let muscle: number;
+    if (emg.length > 0) {
+      muscle = log10(mean(emg.map(d => {
+        const samples = d.subarray(start, start + epoch);
+        const centre = mean(Array.from(samples));
+        let abs = 0;
+        for (let i = 0; i < samples.length; i++) abs += Math.abs(samples[i] - centre);
+        return abs / samples.length;
+      })));
+    } else {
+      muscle = log10(mean(spectra.map(s => bandPower(s, 20, Math.min(30, nyquist)))));
+    }
+    const eye = eog.length > 0 ? log10(mean(eog.map(d => bandPower(welchPsd(d.subarray(start, start + epoch), sampleRate, segment), 0.5, 2)))) : null;
+    features.push({
+      slow: share(0.5, 2),
+      theta: share(4, 8),
+      alpha: share(8, 12),
+      sigma: share(12, 15),
+      slowWaves: mean(slow.map(d => slowWaveShare(d, start, epoch, sampleRate))),
+      muscle,
+      eye,
+    });
+  }
+  return features;
+};
+
+// z-scores around the median, scaled by the interquartile range
+const robustZ = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const at = (q: number) => sorted[Math.min(sorted.length - 1, Math.floor(q * (sorted.length - 1)))];
+  const median = at(0.5);
+  const spread = (at(0.75) - at(0.25)) / 1.349 || 1e-6;
+  return values.map(v => (v - median) / spread);
+};
+
+const classify = (features: EpochFeatures[]): SleepStage[] => {
+  const z = {
+    slow: robustZ(features.map(f => f.slow)),
+    theta: robustZ(features.map(f => f.theta)),
+    alpha: robustZ(features.map(f => f.alpha)),
+    sigma: robustZ(features.map(f => f.sigma)),
+    muscle: robustZ(features.map(f => f.muscle)),
+    eye: features[0]?.eye === null ? null : robustZ(features.map(f => f.eye as number)),
+  };
+  return features.map((f, i): SleepStage => {
+    if (f.slowWaves >= SLOW_WAVE_FRACTION) return 'N3';
+    if ((z.alpha[i] > 0.5 && z.slow[i] < 0) || (z.muscle[i] > 1 && z.slow[i] < 0.5)) return 'W';
+    if (z.sigma[i] > 0 || z.slow[i] > 0.5) return 'N2';
+    const eyesMoving = z.eye ? z.eye[i] > 0 : true;
+    if (z.muscle[i] < -0.3 && z.alpha[i] <= 0.5 && z.theta[i] > 0 && eyesMoving) return 'REM';
+    return 'N1';
+  });
+};
+
+const smooth = (stages: SleepStage[]): SleepStage[] => {
+  const out = [...stages];
+  for (let i = 1; i < out.length - 1; i++) {
+    if (out[i - 1] === stages[i + 1] && out[i] !== out[i - 1] && out[i] !== 'W') out[i] = out[i - 1];
+  }
+  const firstN2 = out.findIndex(s => s === 'N2' || s === 'N3');
+  for (let i = 0; i < (firstN2 < 0 ? out.length : firstN2); i++) {
+    if (out[i] === 'REM') out[i] = 'N1';
+  }
+  return out;
+};
+
+/** Sleep metrics of a scored night, with time in bed taken as the whole recording. */
+export const sleepMetrics = (stages: SleepStage[], epochSeconds = SLEEP_EPOCH_SECONDS): SleepMetrics => {
+  const minutes = (epochs: number) => (epochs * epochSeconds) / 60;
+  const onset = stages.findIndex(s => s !== 'W');
+  let lastSleep = -1;
+  stages.forEach((s, i) => {
+    if (s !== 'W') lastSleep = i;
+  });
+  const stageMinutes = Object.fromEntries(SLEEP_STAGES.map(s => [s, minutes(stages.filter(x => x === s).length)])) as Record<SleepStage, number>;
+  const totalSleepTime = minutes(stages.filter(s => s !== 'W').length);
+  const firstRem = onset < 0 ? -1 : stages.indexOf('REM', onset);
+
+  let waso = 0;
+  let awakenings = 0;
+  for (let i = Math.max(onset, 0); onset >= 0 && i <= lastSleep; i++) {
+    if (stages[i] !== 'W') continue;
+    waso++;
+    if (stages[i - 1] !== 'W') awakenings++;
+  }
+
+  const share = (stage: SleepStage) => (totalSleepTime > 0 ? stageMinutes[stage] / totalSleepTime : 0);
+  return {
+    timeInBed: minutes(stages.length),
+    totalSleepTime,
+    efficiency: stages.length > 0 ? totalSleepTime / minutes(stages.length) : 0,
+    sleepLatency: onset < 0 ? null : minutes(onset),
+    remLatency: firstRem < 0 ? null : minutes(firstRem - onset),
+    waso: minutes(waso),
+    awakenings,
+    stageMinutes,
+    stageShare: { N1: share('N1'), N2: share('N2'), N3: share('N3'), REM: share('REM') },
+  };
+};
+
+/** Stage named by a hypnogram annotation ("Sleep stage 2", "N3", "REM", "W", …), or null. */
+export const annotationStage = (text: string): SleepStage | null => {
+  const t = text.trim().toLowerCase().replace(/^sleep stage\s*/, '').replace(/^stage\s*/, '');
+  if (t === 'w' || t === 'wake') return 'W';
+  if (t === '1' || t === 'n1') return 'N1';
+  if (t === '2' || t === 'n2') return 'N2';
+  if (t === '3' || t === '4' || t === 'n3' || t === 'n4') return 'N3';
+  if (t === 'r' || t === 'rem') return 'REM';
+  return null;
+};
+
+/**
+ * Per-epoch stages from hypnogram annotations; epochs no stage annotation
+ * covers are null. Returns null when no annotation names a stage.
+ */
+export const stagesFromAnnotations = (annotations: EEGAnnotation[], epochCount: number, epochSeconds = SLEEP_EPOCH_SECONDS): (SleepStage | null)[] | null => {
+  const staged = annotations.map(a => ({ a, stage: annotationStage(a.text) })).filter(x => x.stage !== null);
+  if (staged.length === 0) return null;
+  const out: (SleepStage | null)[] = Array.from({ length: epochCount }, () => null);
+  staged.forEach(({ a, stage }) => {
+    const end = a.onset + (a.duration || epochSeconds);
+    for (let e = Math.max(0, Math.floor(a.onset / epochSeconds)); e < epochCount; e++) {
+      const middle = (e + 0.5) * epochSeconds;
+      if (middle >= end) break;
+      if (middle >= a.onset) out[e] = stage;
+    }
+  });
+  return out;
+};
+
+/** Epoch-by-epoch agreement of a scored hypnogram with a reference. */
+export const compareHypnograms = (scored: SleepStage[], reference: (SleepStage | null)[]): HypnogramAgreement => {
+  const confusion = SLEEP_STAGES.map(() => SLEEP_STAGES.map(() => 0));
+  let epochs = 0;
+  scored.forEach((stage, i) => {
+    const ref = reference[i];
+    if (!ref) return;
+    confusion[SLEEP_STAGES.indexOf(ref)][SLEEP_STAGES.indexOf(stage)]++;
+    epochs++;
+  });
+  const agree = SLEEP_STAGES.reduce((s, _, k) => s + confusion[k][k], 0);
+  const accuracy = epochs > 0 ? agree / epochs : 0;
+  const chance = epochs > 0
+    ? SLEEP_STAGES.reduce((s, _, k) => {
+        const row = confusion[k].reduce((a, b) => a + b, 0);
+        const col = confusion.reduce((a, r) => a + r[k], 0);
+        return s + (row * col) / (epochs * epochs);
+      }, 0)
+    : 0;
+  return { epochs, accuracy, kappa: chance < 1 ? (accuracy - chance) / (1 - chance) : 1, confusion };
+};
+
+/**
+ * Scores every full 30-second epoch of a recording. Throws when it has no
+ * EEG channel or is shorter than one epoch.
+ */
+export const scoreSleep = (recording: EEGRecording): SleepScoring => {
+  const roles = recording.channels.map(channelRole);
+  if (!roles.includes('eeg')) throw new Error('Sleep staging needs at least one EEG channel');
+  if ((recording.data[0]?.length ?? 0) < SLEEP_EPOCH_SECONDS * recording.sampleRate) {
+    throw new Error(`Recording is shorter than one ${SLEEP_EPOCH_SECONDS}-second epoch`);
+  }
+  const stages = smooth(classify(epochFeatures(recording, roles, SLEEP_EPOCH_SECONDS)));
+  const byRole = (role: ChannelRole) => recording.channels.filter((_, c) => roles[c] === role);
+  return {
+    epochSeconds: SLEEP_EPOCH_SECONDS,
+    startTime: recording.startTime,
+    channels: { eeg: byRole('eeg'), eog: byRole('eog'), emg: byRole('emg') },
+    stages,
+    metrics: sleepMetrics(stages),
+    reference: stagesFromAnnotations(recording.annotations ?? [], stages.length),
+  };
+};
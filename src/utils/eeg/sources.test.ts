@@ -0,0 +1,102 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { FakeMuseHeadset } from './fakeGattServer';
+import { MuseBluetoothDevice } from './museBluetooth';
+import { DeviceStreamSource, SyntheticEEGSource, type SourceStatus } from './sources';
+
+describe('DeviceStreamSource', () => {
+  let headset: FakeMuseHeadset;
+  let source: DeviceStreamSource;
+  let statuses: SourceStatus[];
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    headset = new FakeMuseHeadset({ signal: () => 0 });
+    source = new DeviceStreamSource(new MuseBluetoothDevice({ bluetooth: headset }));
+    statuses = [];
+    source.onStatus(status => statuses.push(status));
+  });
+
+  afterEach(async () => {
+    await source.stop();
+    vi.restoreAllMocks();
+    vi.useRealTimers();
+  });
+
+  it('can be started again after the chooser is cancelled', async () => {
+    vi.spyOn(headset, 'requestDevice').mockRejectedValueOnce(Object.assign(new Error('User cancelled'), { name: 'NotFoundError' }));
+    await source.start();
+    expect(source.getStatus()).toBe('idle');
+    await source.start();
+    expect(source.getStatus()).toBe('streaming');
+  });
+
+  it('can be started again after a failed connection', async () => {
+    const server = (await headset.requestDevice()).gatt;
+    vi.spyOn(server, 'getPrimaryService').mockRejectedValueOnce(new Error('GATT operation failed'));
+    await source.start();
+    expect(source.getStatus()).toBe('error');
+    await source.start();
+    expect(source.getStatus()).toBe('streaming');
+  });
+
+  it('ignores start while the headset is streaming', async () => {
+    await source.start();
+    await source.start();
+    expect(headset.commands.filter(c => c === 'd')).toHaveLength(1);
+    expect(statuses).toEqual(['connecting', 'streaming']);
+  });
+
+  it('emits every sample packet once after a restart', async () => {
+    const seqs: number[] = [];
+    source.onSamples(packet => seqs.push(packet.seq));
+    const server = (await headset.requestDevice()).gatt;
+    vi.spyOn(server, 'getPrimaryService').mockRejectedValueOnce(new Error('GATT operation failed'));
+    await source.start();
+    await source.start();
+    headset.emitPacket();
+    expect(seqs).toEqual([0]);
+  });
+});
+
+describe('SyntheticEEGSource', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('continues its timeline after a pause', async () => {
+    const source = new SyntheticEEGSource();
+    const timestamps: number[] = [];
+    source.onFrame(frame => timestamps.push(frame.timestamp));
+    source.start();
+    await vi.advanceTimersByTimeAsync(3000);
+    source.stop();
+    const paused = timestamps.length;
+    await vi.advanceTimersByTimeAsync(5000);
+    expect(timestamps).toHaveLength(paused);
+
+    source.start();
+    await vi.advanceTimersByTimeAsync(3000);
+    source.stop();
+    expect(timestamps.length).toBeGreaterThan(paused);
+    timestamps.slice(1).forEach((t, i) => expect(t).toBeGreaterThan(timestamps[i]));
+    // Six seconds of signal, not two runs of three
+    expect(timestamps[timestamps.length - 1]).toBeGreaterThan(4);
+  });
+
+  it('keeps markers on the signal timeline after a pause', async () => {
+    const source = new SyntheticEEGSource();
+    source.start();
+    await vi.advanceTimersByTimeAsync(2000);
+    source.stop();
+    source.start();
+    await vi.advanceTimersByTimeAsync(1000);
+    source.inject('blink');
+    source.stop();
+    const onsets = source.getAnnotations().map(a => a.onset);
+    expect(onsets[onsets.length - 1]).toBeCloseTo(3, 0);
+  });
+});
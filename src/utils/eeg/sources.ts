@@ -0,0 +1,512 @@
+/**
+ * EEG sources.
+ *
+ * Every way of getting EEG into the app — the synthetic generator, replay of
+ * an uploaded recording, a WebSocket stream or a Bluetooth headset — implements
+ * `EEGSource`: it can be started and stopped and emits metric frames, and raw
+ * sources additionally emit their sample packets. The shared store in
+ * hooks/useEEGSource.ts owns the active source so every page sees the same one.
+ */
+
+import type { EEGAnnotation, EEGRecording, MetricFrame } from '@/types/eeg';
+import { getEEGWorker } from './workerClient';
+import { WebSocketEEGSource, type SamplePacket, type StreamStatus } from './webSocketSource';
+import type { DeviceStatus, EEGDevice } from './devices';
+import { SYNTHETIC_SCENARIOS, SyntheticEEGGenerator, type SyntheticArtifact, type SyntheticScenario } from './synthetic';
+
+export type EEGSourceKind = 'simulated' | 'file' | 'websocket' | 'bluetooth';
+
+export type SourceStatus = 'idle' | 'connecting' | 'streaming' | 'reconnecting' | 'error';
+
+export interface SourceStats {
+  packets: number;
+  droppedPackets: number;
+}
+
+export interface SourceInfo {
+  channels: string[];
+  sampleRate: number;
+}
+
+export interface EEGSource {
+  readonly kind: EEGSourceKind;
+  readonly label: string;
+  start(): void | Promise<void>;
+  stop(): void | Promise<void>;
+  getStatus(): SourceStatus;
+  getStats(): SourceStats | null;
+  // Channel layout of raw sources once known; null for metric-only sources
+  getInfo(): SourceInfo | null;
+  getAnnotations(): EEGAnnotation[];
+  onStatus(listener: (status: SourceStatus) => void): () => void;
+  onFrame(listener: (frame: MetricFrame) => void): () => void;
+  onSamples(listener: (packet: SamplePacket) => void): () => void;
+  onMarker(listener: (annotation: EEGAnnotation) => void): () => void;
+  onError(listener: (message: string) => void): () => void;
+}
+
+export const SOURCE_LABELS: Record<EEGSourceKind, string> = {
+  simulated: 'Simulated',
+  file: 'File replay',
+  websocket: 'WebSocket',
+  bluetooth: 'Bluetooth',
+};
+
+// Metric-only sources tick at the pipeline's default epoch step
+const FRAME_INTERVAL_MS = 750;
+
+class Listeners<T> {
+  private set = new Set<(value: T) => void>();
+
+  add(listener: (value: T) => void) {
+    this.set.add(listener);
+    return () => this.set.delete(listener);
+  }
+
+  emit(value: T) {
+    this.set.forEach(l => l(value));
+  }
+}
+
+abstract class BaseEEGSource implements EEGSource {
+  abstract readonly kind: EEGSourceKind;
+  readonly label: string;
+  protected status: SourceStatus = 'idle';
+  protected annotations: EEGAnnotation[] = [];
+  private statusListeners = new Listeners<SourceStatus>();
+  private frameListeners = new Listeners<MetricFrame>();
+  private sampleListeners = new Listeners<SamplePacket>();
+  private markerListeners = new Listeners<EEGAnnotation>();
+  private errorListeners = new Listeners<string>();
+
+  constructor(label: string) {
+    this.label = label;
+  }
+
+  abstract start(): void | Promise<void>;
+  abstract stop(): void | Promise<void>;
+
+  getStatus() {
+    return this.status;
+  }
+
+  getStats(): SourceStats | null {
+    return null;
+  }
+
+  getInfo(): SourceInfo | null {
+    return null;
+  }
+
+  getAnnotations() {
+    return this.annotations;
+  }
+
+  onStatus(listener: (status: SourceStatus) => void) {
+    return this.statusListeners.add(listener);
+  }
+
+  onFrame(listener: (frame: MetricFrame) => void) {
+    return this.frameListeners.add(listener);
+  }
+
+  onSamples(listener: (packet: SamplePacket) => void) {
+    return this.sampleListeners.add(listener);
+  }
+
+  onMarker(listener: (annotation: EEGAnnotation) => void) {
+    return this.markerListeners.add(listener);
+  }
+
+  onError(listener: (message: string) => void) {
+    return this.errorListeners.add(listener);
+  }
+
+  protected setStatus(status: SourceStatus) {
+    if (this.status === status) return;
+    this.status = status;
+    this.statusListeners.emit(status);
+  }
+
+  protected emitFrame(frame: MetricFrame) {
+    this.frameListeners.emit(frame);
+  }
+
+  protected emitSamples(packet: SamplePacket) {
+    this.sampleListeners.emit(packet);
+  }
+
+  protected emitMarker(annotation: EEGAnnotation) {
+    this.annotations.push(annotation);
+    this.markerListeners.emit(annotation);
+  }
+
+  protected emitError(message: string) {
+    this.errorListeners.emit(message);
+  }
+}
+
+export interface TransportState {
+  duration: number;
+  speed: number;
+  // A–B loop range in seconds; null plays the whole recording
+  loop: [number, number] | null;
+}
+
+export const PLAYBACK_SPEEDS = [0.25, 0.5, 1, 2, 4, 8];
+
+// Longest stretch of signal a replay emits at once, e.g. after a seek
+const REPLAY_SIGNAL_SECONDS = 10;
+
+/**
+ * Replays precomputed metric frames at their own timestamps, looping at the
+ * end (or within the A–B range). Supports seeking, stepping and 0.25–8× speed.
+ * Given the recording the frames came from, it also emits the samples leading
+ * up to each frame so raw views can follow playback.
+ */
+export class FileReplaySource extends BaseEEGSource {
+  readonly kind = 'file';
+  readonly frames: MetricFrame[];
+  readonly recording: EEGRecording | null;
+  // Frame on screen, and the one the next tick will show
+  private shown = -1;
+  private cursor = 0;
+  private speed = 1;
+  private loop: [number, number] | null = null;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  // Sample index up to which the recording has been emitted
+  private signalEnd: number | null = null;
+  private packets = 0;
+  private info: SourceInfo | null;
+
+  constructor(label: string, frames: MetricFrame[], annotations: EEGAnnotation[] = [], recording: EEGRecording | null = null) {
+    super(label);
+    if (frames.length === 0) throw new Error('Recording has no frames to replay');
+    this.frames = frames;
+    this.annotations = [...annotations];
+    this.recording = recording;
+    this.info = recording ? { channels: recording.channels, sampleRate: recording.sampleRate } : null;
+  }
+
+  getInfo() {
+    return this.info;
+  }
+
+  get duration() {
+    return this.frames[this.frames.length - 1].timestamp + this.typicalStep();
+  }
+
+  getTransport(): TransportState {
+    return { duration: this.duration, speed: this.speed, loop: this.loop };
+  }
+
+  start() {
+    if (this.timer) return;
+    this.setStatus('streaming');
+    this.tick();
+  }
+
+  stop() {
+    this.clearTimer();
+    this.setStatus('idle');
+  }
+
+  /** Jumps to the last frame at or before `time` and shows it, playing or not. */
+  seek(time: number) {
+    this.cursor = this.indexAt(time);
+    if (this.timer) {
+      this.clearTimer();
+      this.tick();
+    } else {
+      this.show(this.cursor);
+    }
+  }
+
+  /** Pauses and moves `delta` frames from the one on screen. */
+  step(delta: number) {
+    if (this.timer) this.stop();
+    this.show(Math.max(0, Math.min(this.frames.length - 1, Math.max(this.shown, 0) + delta)));
+  }
+
+  setSpeed(speed: number) {
+    this.speed = Math.max(PLAYBACK_SPEEDS[0], Math.min(PLAYBACK_SPEEDS[PLAYBACK_SPEEDS.length - 1], speed));
+  }
+
+  setLoop(range: [number, number] | null) {
+    this.loop = range && Math.abs(range[1] - range[0]) > 1e-6 ? [Math.min(...range), Math.max(...range)] : null;
+  }
+
+  private tick = () => {
+    const { loop } = this;
+    const outside = (i: number) => loop !== null && (this.frames[i].timestamp < loop[0] || this.frames[i].timestamp > loop[1]);
+    if (this.cursor >= this.frames.length || outside(this.cursor)) this.cursor = this.indexAt(loop ? loop[0] : 0, true);
+    const frame = this.frames[this.cursor];
+    this.show(this.cursor);
+
+    // Wait the real spacing to the next frame; wrapping around waits one typical step
+    const wrapped = this.cursor >= this.frames.length || outside(this.cursor);
+    if (wrapped) this.cursor = this.indexAt(loop ? loop[0] : 0, true);
+    const gap = wrapped ? this.typicalStep() : this.frames[this.cursor].timestamp - frame.timestamp;
+    this.timer = setTimeout(this.tick, ((gap > 0 ? gap : FRAME_INTERVAL_MS / 1000) * 1000) / this.speed);
+  };
+
+  private show(index: number) {
+    this.shown = index;
+    this.cursor = index + 1;
+    this.emitSignalTo(this.frames[index].timestamp);
+    this.emitFrame(this.frames[index]);
+  }
+
+  // Continues from the last emitted sample when playing forward; after a jump
+  // it emits the stretch before `time` instead
+  private emitSignalTo(time: number) {
+    const { recording } = this;
+    if (!recording) return;
+    const end = Math.min(recording.data[0]?.length ?? 0, Math.round(time * recording.sampleRate));
+    const longest = Math.round(REPLAY_SIGNAL_SECONDS * recording.sampleRate);
+    const contiguous = this.signalEnd !== null && end > this.signalEnd && end - this.signalEnd <= longest;
+    const start = contiguous ? (this.signalEnd as number) : Math.max(0, end - longest);
+    this.signalEnd = end;
+    if (end <= start) return;
+    this.emitSamples({ seq: this.packets++, data: recording.data.map(channel => channel.subarray(start, end)) });
+  }
+
+  // Last frame at or before `time`, or with `atOrAfter` the first one at or after it
+  private indexAt(time: number, atOrAfter = false) {
+    let lo = 0;
+    let hi = this.frames.length - 1;
+    while (lo < hi) {
+      const mid = Math.ceil((lo + hi) / 2);
+      if (this.frames[mid].timestamp <= time) lo = mid;
+      else hi = mid - 1;
+    }
+    if (atOrAfter && this.frames[lo].timestamp < time && lo + 1 < this.frames.length) return lo + 1;
+    return lo;
+  }
+
+  private typicalStep() {
+    if (this.frames.length < 2) return FRAME_INTERVAL_MS / 1000;
+    return (this.frames[this.frames.length - 1].timestamp - this.frames[0].timestamp) / (this.frames.length - 1);
+  }
+
+  private clearTimer() {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+  }
+}
+
+let nextStreamId = 1;
+
+/**
+ * Shared plumbing for sources that deliver raw samples. The streaming
+ * pipeline runs in the EEG worker; frames are emitted as its replies arrive,
+ * which keeps them in sample order.
+ */
+abstract class RawStreamSource extends BaseEEGSource {
+  protected info: SourceInfo | null = null;
+  // Worker stream of the current header, and samples sent to it
+  private stream: number | null = null;
+  private samples = 0;
+
+  getInfo() {
+    return this.info;
+  }
+
+  protected resetStream(info: SourceInfo) {
+    this.closeStream();
+    this.info = info;
+    this.stream = nextStreamId++;
+    this.samples = 0;
+    this.annotations = [];
+    getEEGWorker()
+      .request('openStream', { stream: this.stream, sampleRate: info.sampleRate, channels: info.channels })
+      .catch(e => this.emitError(`EEG processing unavailable: ${e instanceof Error ? e.message : e}`));
+  }
+
+  protected closeStream() {
+    if (this.stream === null) return;
+    getEEGWorker()
+      .request('closeStream', { stream: this.stream })
+      .catch(() => {
+        // Nothing left to release
+      });
+    this.stream = null;
+  }
+
+  protected handlePacket(packet: SamplePacket) {
+    const { stream, info } = this;
+    if (stream === null || !info) return;
+    this.emitSamples(packet);
+    this.samples += packet.data[0]?.length ?? 0;
+    // Listeners keep the packet, so the worker gets a copy it can own
+    const data = packet.data.map(channel => Float32Array.from(channel));
+    getEEGWorker()
+      .request('pushSamples', { stream, data })
+      .then(frames => {
+        if (this.stream === stream) frames.forEach(frame => this.emitFrame(frame));
+      })
+      .catch(e => this.emitError(e instanceof Error ? e.message : 'EEG processing failed'));
+  }
+
+  protected handleMarker(text: string) {
+    this.emitMarker({ onset: this.info ? this.samples / this.info.sampleRate : 0, text });
+  }
+}
+
+// Synthetic samples are generated in packets of this length
+const SYNTHETIC_PACKET_MS = 125;
+
+/**
+ * Streams a synthetic scenario (synthetic.ts) through the same worker
+ * pipeline as a headset. Segment starts and scheduled artifacts become
+ * markers as they are reached; artifacts injected by hand are marked too.
+ * Stopping pauses the scenario, and starting again carries on from there.
+ */
+export class SyntheticEEGSource extends RawStreamSource {
+  readonly kind = 'simulated';
+  readonly scenario: SyntheticScenario;
+  private generator: SyntheticEEGGenerator;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private packets = 0;
+
+  constructor(scenario: SyntheticScenario = SYNTHETIC_SCENARIOS[0], seed = scenario.seed) {
+    super(`${SOURCE_LABELS.simulated}: ${scenario.name}`);
+    this.scenario = scenario;
+    this.generator = new SyntheticEEGGenerator(scenario, seed);
+  }
+
+  get seed() {
+    return this.generator.seed;
+  }
+
+  getStats(): SourceStats | null {
+    return this.timer || this.packets > 0 ? { packets: this.packets, droppedPackets: 0 } : null;
+  }
+
+  start() {
+    if (this.timer) return;
+    const { generator } = this;
+    // The stream is opened once: resuming after stop() continues the generator's timeline
+    if (!this.info) this.resetStream({ channels: generator.channels, sampleRate: generator.sampleRate });
+    const count = Math.round((SYNTHETIC_PACKET_MS / 1000) * generator.sampleRate);
+    this.timer = setInterval(() => {
+      const from = generator.time;
+      const data = generator.next(count);
+      generator.annotationsBetween(from, generator.time).forEach(a => this.handleMarker(a.text));
+      this.handlePacket({ seq: this.packets++, data });
+    }, SYNTHETIC_PACKET_MS);
+    this.setStatus('streaming');
+  }
+
+  /** Pauses the signal; the stream, sample count and markers are kept for start(). */
+  stop() {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+    this.setStatus('idle');
+  }
+
+  /** Adds an artifact to the signal from now on, with a marker. */
+  inject(type: SyntheticArtifact) {
+    if (!this.timer) return;
+    this.handleMarker(this.generator.inject(type).text);
+  }
+
+  /** Overrides the scenario's eyes; null follows the scenario again. */
+  setEyesClosed(closed: boolean | null) {
+    this.generator.setEyesClosed(closed);
+  }
+}
+
+const WEBSOCKET_STATUS: Record<StreamStatus, SourceStatus> = {
+  idle: 'idle',
+  connecting: 'connecting',
+  streaming: 'streaming',
+  reconnecting: 'reconnecting',
+  closed: 'idle',
+  error: 'error',
+};
+
+export class WebSocketStreamSource extends RawStreamSource {
+  readonly kind = 'websocket';
+  readonly url: string;
+  private client: WebSocketEEGSource | null = null;
+
+  constructor(url: string) {
+    super(url);
+    this.url = url;
+  }
+
+  getStats(): SourceStats | null {
+    if (!this.client) return null;
+    const stats = this.client.getStats();
+    return { packets: stats.packets, droppedPackets: stats.droppedPackets + stats.overflowPackets };
+  }
+
+  start() {
+    // A stream the server ended, or that failed, can be started again
+    if (this.client && this.getStatus() !== 'idle' && this.getStatus() !== 'error') return;
+    this.client?.disconnect();
+    const client = new WebSocketEEGSource(this.url);
+    client.onStatus(status => this.setStatus(WEBSOCKET_STATUS[status]));
+    client.onHeader(header => this.resetStream(header));
+    client.onSamples(packet => this.handlePacket(packet));
+    client.onMarker(text => this.handleMarker(text));
+    client.onError(message => this.emitError(message));
+    this.client = client;
+    client.connect();
+  }
+
+  stop() {
+    this.client?.disconnect();
+    this.client = null;
+    this.closeStream();
+    this.setStatus('idle');
+  }
+}
+
+const DEVICE_STATUS: Record<DeviceStatus, SourceStatus> = {
+  idle: 'idle',
+  requesting: 'connecting',
+  connecting: 'connecting',
+  streaming: 'streaming',
+  disconnected: 'idle',
+  error: 'error',
+};
+
+const ACTIVE_DEVICE_STATUSES: DeviceStatus[] = ['requesting', 'connecting', 'streaming'];
+
+export class DeviceStreamSource extends RawStreamSource {
+  readonly kind = 'bluetooth';
+  readonly device: EEGDevice;
+  private unsubscribe: (() => void)[] = [];
+
+  constructor(device: EEGDevice, label = 'Bluetooth headset') {
+    super(label);
+    this.device = device;
+  }
+
+  getStats() {
+    return this.device.getStats();
+  }
+
+  async start() {
+    // A cancelled, failed or dropped connection can be started again
+    if (ACTIVE_DEVICE_STATUSES.includes(this.device.getStatus())) return;
+    this.unsubscribe.forEach(u => u());
+    this.resetStream({ channels: this.device.channels, sampleRate: this.device.sampleRate });
+    this.unsubscribe = [
+      this.device.onStatus(status => this.setStatus(DEVICE_STATUS[status])),
+      this.device.onSamples(packet => this.handlePacket(packet)),
+      this.device.onError(message => this.emitError(message)),
+    ];
+    await this.device.connect();
+  }
+
+  async stop() {
+    this.unsubscribe.forEach(u => u());
+    this.unsubscribe = [];
+    await this.device.disconnect();
+    this.closeStream();
+    this.setStatus('idle');
+  }
+}
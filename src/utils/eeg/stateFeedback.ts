@@ -0,0 +1,102 @@
+/**
+ * Feedback for brain states: a headline, a short message and tips per label.
+ * The EEG simulator and the camera's drowsiness alert share these texts.
+ */
+
+import type { BrainState } from './brainStateRules';
+
+export interface StateFeedback {
+  title: string;
+  message: string;
+  tips: string[];
+  tone: 'success' | 'warning' | 'info';
+  // Purpose of a neurofeedback protocol worth suggesting
+  training?: string;
+}
+
+/** Advice shown for a brain state, whichever source (EEG or camera) labelled it. */
+export const feedbackFor = (state: BrainState): StateFeedback => {
+  switch (state.label) {
+    case 'Drowsy':
+      return {
+        title: 'Time for a breather',
+        message: 'We detected signs of drowsiness. Short breaks can restore alertness.',
+        tips: [
+          'Stand, stretch, or grab some water',
+          'Try 2–3 minutes of deep breathing',
+          'Consider lowering screen brightness'
+        ],
+        tone: 'warning',
+        training: 'Focus'
+      };
+    case 'Stressed':
+      return {
+        title: 'Tension is building',
+        message: 'Engagement is high but relaxation has dropped sharply.',
+        tips: [
+          'Loosen your shoulders and jaw',
+          'Breathe out for longer than you breathe in',
+          'Break the task into a smaller next step'
+        ],
+        tone: 'warning',
+        training: 'Relaxation'
+      };
+    case 'Anxious':
+      return {
+        title: 'Feeling unsettled',
+        message: 'Arousal is up while focus and relaxation are low.',
+        tips: [
+          'Try box breathing: 4 in, 4 hold, 4 out, 4 hold',
+          'Name one thing you can see, hear and feel',
+          'Switch to a familiar, low-stakes task for a few minutes'
+        ],
+        tone: 'warning',
+        training: 'Relaxation'
+      };
+    case 'Focused':
+      return {
+        title: 'Locked-in focus',
+        message: 'Sustained attention and engagement detected—great momentum!',
+        tips: [
+          'Keep sessions 25–40 minutes to avoid fatigue',
+          'Jot quick notes to capture insights',
+          'Schedule a brief break soon to maintain quality'
+        ],
+        tone: 'success'
+      };
+    case 'Calm':
+      return {
+        title: 'Calm and steady',
+        message: 'Relaxation levels are high—ideal for reflection and planning.',
+        tips: [
+          'Use this window for strategic thinking',
+          'Light background music may help sustain calm',
+          'Avoid multitasking to preserve balance'
+        ],
+        tone: 'info'
+      };
+    case 'Engaged':
+      return {
+        title: 'High engagement',
+        message: 'Energy is up—channel it into meaningful tasks.',
+        tips: [
+          'Tackle medium-difficulty tasks now',
+          'Group similar tasks to ride the momentum',
+          'Track small wins to reinforce progress'
+        ],
+        tone: 'success'
+      };
+    default:
+      return {
+        title: 'Warming up',
+        message: 'Your state is balanced. Ease into focus with a short goal.',
+        tips: [
+          'Define a 10-minute micro-goal',
+          'Reduce notifications temporarily',
+          'Adjust seating/lighting for comfort'
+        ],
+        tone: 'info',
+        training: 'Focus'
+      };
+  }
+};
@@ -0,0 +1,464 @@
+/**
+ * Synthetic EEG generator.
+ *
+ * Produces multi-channel raw EEG in microvolts that goes through the same
+ * pipeline as real recordings. Every channel sums:
+ *
+ *   background   1/f^β noise, built from first-order low-pass noise processes
+ *                with corners an octave apart (their Lorentzian spectra add up
+ *                to a power law)
+ *   rhythms      one oscillator per band whose frequency wanders within the
+ *                band and whose amplitude waxes and wanes, weighted by a
+ *                topography (alpha occipital, theta frontal, beta central)
+ *   alpha bursts with the eyes closed, occipital alpha grows and comes in
+ *                bursts of a few seconds
+ *   artifacts    blinks (frontal, ~150 µV), muscle bursts (broadband, temporal
+ *                and frontal), electrode pops (one channel, decaying step),
+ *                lost contacts (one flat channel) and optional mains hum
+ *
+ * A scenario is a JSON timeline of states ("5 min focused → 2 min drowsy →
+ * stress spike") with blended transitions and scheduled artifacts; see
+ * src/config/syntheticScenarios.json. Everything random comes from one seeded
+ * generator, so a scenario and seed always produce the same samples, and so
+ * the same metrics and states.
+ */
+
+import { z } from 'zod';
+import type { EEGAnnotation, EEGBand, EEGRecording } from '@/types/eeg';
+import scenariosJson from '@/config/syntheticScenarios.json';
+
+export const SYNTHETIC_STATES = ['neutral', 'focused', 'relaxed', 'eyes-closed', 'drowsy', 'stressed'] as const;
+export type SyntheticState = (typeof SYNTHETIC_STATES)[number];
+
+export const SYNTHETIC_ARTIFACTS = ['blink', 'muscle', 'pop', 'flat'] as const;
+export type SyntheticArtifact = (typeof SYNTHETIC_ARTIFACTS)[number];
+
+export const SYNTHETIC_CHANNELS = ['Fp1', 'Fp2', 'F3', 'F4', 'C3', 'C4', 'T7', 'T8', 'O1', 'O2'];
+export const SYNTHETIC_SAMPLE_RATE = 256;
+
+interface StatePreset {
+  label: string;
+  // Oscillator amplitudes in µV
+  bands: Record<EEGBand, number>;
+  eyesClosed: boolean;
+  blinksPerMinute: number;
+  // Share of time with muscle bursts
+  muscle: number;
+}
+
+export const SYNTHETIC_STATE_PRESETS: Record<SyntheticState, StatePreset> = {
+  neutral: { label: 'Neutral', bands: { delta: 8, theta: 6, alpha: 8, beta: 6, gamma: 1.5 }, eyesClosed: false, blinksPerMinute: 15, muscle: 0 },
+  focused: { label: 'Focused', bands: { delta: 6, theta: 2, alpha: 19, beta: 15, gamma: 2.5 }, eyesClosed: false, blinksPerMinute: 10, muscle: 0 },
+  relaxed: { label: 'Relaxed', bands: { delta: 6, theta: 3, alpha: 15, beta: 6, gamma: 1 }, eyesClosed: false, blinksPerMinute: 12, muscle: 0 },
+  'eyes-closed': { label: 'Eyes closed', bands: { delta: 6, theta: 3, alpha: 15, beta: 6, gamma: 1 }, eyesClosed: true, blinksPerMinute: 0, muscle: 0 },
+  drowsy: { label: 'Drowsy', bands: { delta: 14, theta: 14, alpha: 6, beta: 3, gamma: 0.8 }, eyesClosed: false, blinksPerMinute: 5, muscle: 0 },
+  stressed: { label: 'Stressed', bands: { delta: 6, theta: 4, alpha: 2.5, beta: 12, gamma: 4 }, eyesClosed: false, blinksPerMinute: 25, muscle: 0.1 },
+};
+
+const segmentSchema = z.object({
+  state: z.enum(SYNTHETIC_STATES),
+  seconds: z.number().positive().max(24 * 3600),
+  // Marker text at the start of the segment; defaults to the state's name
+  label: z.string().trim().min(1).optional(),
+  // Seconds over which the previous state blends into this one
+  transition: z.number().min(0).max(600).optional(),
+  eyesClosed: z.boolean().optional(),
+  blinksPerMinute: z.number().min(0).max(60).optional(),
+  muscle: z.number().min(0).max(1).optional(),
+});
+
+const eventSchema = z.object({
+  at: z.number().min(0),
+  artifact: z.enum(SYNTHETIC_ARTIFACTS),
+  seconds: z.number().positive().max(60).optional(),
+  // Channel for pops and lost contacts; a random one otherwise
+  channel: z.string().optional(),
+});
+
+const scenarioSchema = z.object({
+  id: z.string().trim().min(1),
+  name: z.string().trim().min(1),
+  description: z.string().default(''),
+  seed: z.number().int().default(1),
+  background: z.object({ exponent: z.number().min(0).max(3), amplitude: z.number().min(0).max(100) }).default({ exponent: 1.5, amplitude: 8 }),
+  // Mains hum amplitude in µV (removed again by the notch filter)
+  lineNoise: z.number().min(0).max(200).default(0),
+  lineFrequency: z.union([z.literal(50), z.literal(60)]).default(50),
+  segments: z.array(segmentSchema).min(1),
+  events: z.array(eventSchema).default([]),
+  // Start over at the end instead of holding the last state
+  loop: z.boolean().default(false),
+});
+
+const scenarioSetSchema = z.object({
+  version: z.literal(1),
+  scenarios: z.array(scenarioSchema).min(1),
+});
+
+export type SyntheticScenario = z.infer<typeof scenarioSchema>;
+
+export const SYNTHETIC_SCENARIOS: SyntheticScenario[] = scenarioSetSchema.parse(scenariosJson).scenarios;
+
+/** Validates a scenario script, e.g. one edited by the user. */
+export const parseScenario = (text: string): { scenario: SyntheticScenario | null; errors: string[] } => {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch (e) {
+    return { scenario: null, errors: [e instanceof Error ? e.message : 'Invalid JSON'] };
+  }
+  const result = scenarioSchema.safeParse(json);
+  if (result.success) return { scenario: result.data, errors: [] };
+  return {
+    scenario: null,
+    errors: result.error.issues.map(issue => `${issue.path.length > 0 ? issue.path.join('.') : 'scenario'}: ${issue.message}`),
+  };
+};
+
+export const scenarioDuration = (scenario: SyntheticScenario) => scenario.segments.reduce((s, seg) => s + seg.seconds, 0);
+
+// ---------------------------------------------------------------------------
+// Randomness
+// ---------------------------------------------------------------------------
+
+/** Mulberry32: small, fast and good enough for signal synthesis. */
+const createRandom = (seed: number) => {
+  let state = seed >>> 0;
+  let spare: number | null = null;
+  const uniform = () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+  // Box–Muller, keeping the second value for the next call
+  const gaussian = () => {
+    if (spare !== null) {
+      const value = spare;
+      spare = null;
+      return value;
+    }
+    const u = Math.max(uniform(), 1e-12);
+    const r = Math.sqrt(-2 * Math.log(u));
+    const theta = 2 * Math.PI * uniform();
+    spare = r * Math.sin(theta);
+    return r * Math.cos(theta);
+  };
+  return { uniform, gaussian };
+};
+
+type Random = ReturnType<typeof createRandom>;
+
+// Unit-variance first-order low-pass noise with corner `frequency`
+class LowpassNoise {
+  private a: number;
+  private gain: number;
+  private value = 0;
+
+  constructor(frequency: number, sampleRate: number) {
+    this.a = Math.exp((-2 * Math.PI * frequency) / sampleRate);
+    this.gain = Math.sqrt(1 - this.a * this.a);
+  }
+
+  next(random: Random) {
+    this.value = this.a * this.value + this.gain * random.gaussian();
+    return this.value;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Topography
+// ---------------------------------------------------------------------------
+
+type Region = 'prefrontal' | 'frontal' | 'central' | 'temporal' | 'occipital';
+
+const regionOf = (label: string): Region => {
+  const l = label.toUpperCase();
+  if (l.startsWith('FP') || l.startsWith('AF')) return 'prefrontal';
+  if (l.startsWith('T')) return 'temporal';
+  if (l.startsWith('O') || l.startsWith('P')) return 'occipital';
+  if (l.startsWith('C')) return 'central';
+  return 'frontal';
+};
+
+// Relative amplitude of each rhythm and artifact per region
+const BAND_TOPOGRAPHY: Record<EEGBand, Record<Region, number>> = {
+  delta: { prefrontal: 1, frontal: 0.9, central: 0.8, temporal: 0.7, occipital: 0.7 },
+  theta: { prefrontal: 0.8, frontal: 1, central: 0.8, temporal: 0.6, occipital: 0.5 },
+  alpha: { prefrontal: 0.3, frontal: 0.4, central: 0.6, temporal: 0.5, occipital: 1 },
+  beta: { prefrontal: 0.7, frontal: 0.9, central: 1, temporal: 0.8, occipital: 0.6 },
+  gamma: { prefrontal: 0.6, frontal: 0.5, central: 0.5, temporal: 1, occipital: 0.4 },
+};
+const BLINK_TOPOGRAPHY: Record<Region, number> = { prefrontal: 1, frontal: 0.45, central: 0.1, temporal: 0.05, occipital: 0.02 };
+const MUSCLE_TOPOGRAPHY: Record<Region, number> = { prefrontal: 0.7, frontal: 0.5, central: 0.2, temporal: 1, occipital: 0.2 };
+
+const BAND_CENTRES: Record<EEGBand, [number, number]> = {
+  // Centre frequency and how far it wanders, in Hz
+  delta: [2, 0.8],
+  theta: [6, 1],
+  alpha: [10, 0.8],
+  beta: [20, 4],
+  gamma: [38, 4],
+};
+const BANDS: EEGBand[] = ['delta', 'theta', 'alpha', 'beta', 'gamma'];
+
+// Corners of the background noise processes, an octave apart
+const BACKGROUND_CORNERS = [0.25, 0.5, 1, 2, 4, 8, 16, 32, 64];
+
+const BLINK_SECONDS = 0.35;
+const BLINK_MICROVOLTS = 150;
+const MUSCLE_SECONDS = 1.5;
+const MUSCLE_MICROVOLTS = 60;
+const POP_MICROVOLTS = 250;
+const POP_DECAY_SECONDS = 0.3;
+const FLAT_SECONDS = 5;
+// Eyes-closed alpha is this much larger than eyes-open alpha
+const EYES_CLOSED_ALPHA_GAIN = 2.2;
+
+interface ActiveArtifact {
+  type: SyntheticArtifact;
+  start: number;
+  end: number;
+  channel: number;
+  amplitude: number;
+}
+
+interface StateMix {
+  bands: Record<EEGBand, number>;
+  eyesClosed: number;
+  blinksPerMinute: number;
+  muscle: number;
+}
+
+const smoothstep = (x: number) => x * x * (3 - 2 * x);
+
+/**
+ * Streams a scenario sample by sample. `next(count)` returns the following
+ * `count` samples of every channel; `inject` adds an artifact at the current
+ * time, and `setEyesClosed` overrides the scenario's eyes.
+ */
+export class SyntheticEEGGenerator {
+  readonly scenario: SyntheticScenario;
+  readonly seed: number;
+  readonly sampleRate: number;
+  readonly channels: string[];
+  readonly duration: number;
+  private random: Random;
+  private regions: Region[];
+  private background: LowpassNoise[][];
+  private backgroundWeights: number[];
+  private phases: number[];
+  private channelPhases: number[][];
+  private wander: LowpassNoise[];
+  private envelopes: LowpassNoise[];
+  private burst: LowpassNoise;
+  private muscleNoise: number[];
+  private artifacts: ActiveArtifact[] = [];
+  // Scheduled events still to come, at absolute times, and the loop cycle they belong to
+  private pendingEvents: SyntheticScenario['events'];
+  private eventCycle = 0;
+  private eyesOverride: boolean | null = null;
+  private samples = 0;
+
+  constructor(scenario: SyntheticScenario, seed = scenario.seed, sampleRate = SYNTHETIC_SAMPLE_RATE, channels = SYNTHETIC_CHANNELS) {
+    this.scenario = scenario;
+    this.seed = seed;
+    this.sampleRate = sampleRate;
+    this.channels = channels;
+    this.duration = scenarioDuration(scenario);
+    this.random = createRandom(seed);
+    this.regions = channels.map(regionOf);
+    const corners = BACKGROUND_CORNERS.filter(f => f < sampleRate / 2);
+    this.background = channels.map(() => corners.map(f => new LowpassNoise(f, sampleRate)));
+    const weights = corners.map(f => Math.pow(f, (1 - scenario.background.exponent) / 2));
+    const norm = Math.sqrt(weights.reduce((s, w) => s + w * w, 0));
+    this.backgroundWeights = weights.map(w => w / norm);
+    this.phases = BANDS.map(() => this.random.uniform() * 2 * Math.PI);
+    // Small fixed phase lags between channels
+    this.channelPhases = channels.map(() => BANDS.map(() => (this.random.uniform() - 0.5) * 0.6));
+    this.wander = BANDS.map(() => new LowpassNoise(0.1, sampleRate));
+    this.envelopes = BANDS.map(b => new LowpassNoise(b === 'alpha' ? 0.5 : 1, sampleRate));
+    this.burst = new LowpassNoise(0.3, sampleRate);
+    this.muscleNoise = channels.map(() => 0);
+    this.pendingEvents = [...scenario.events].sort((a, b) => a.at - b.at);
+  }
+
+  /** Seconds generated so far. */
+  get time() {
+    return this.samples / this.sampleRate;
+  }
+
+  setEyesClosed(closed: boolean | null) {
+    this.eyesOverride = closed;
+  }
+
+  /** Starts an artifact now; returns the annotation that marks it. */
+  inject(type: SyntheticArtifact, seconds?: number, channel?: string): EEGAnnotation {
+    this.startArtifact(type, this.time, seconds, channel);
+    return { onset: this.time, text: `Artifact: ${type}` };
+  }
+
+  /** Segment starts and scheduled artifacts between `from` and `to` seconds, for markers. */
+  annotationsBetween(from: number, to: number): EEGAnnotation[] {
+    const out: EEGAnnotation[] = [];
+    const total = this.duration;
+    const cycles = this.scenario.loop ? [Math.floor(from / total), Math.floor(to / total)] : [0, 0];
+    for (let cycle = cycles[0]; cycle <= cycles[1]; cycle++) {
+      const base = cycle * total;
+      let start = 0;
+      this.scenario.segments.forEach(segment => {
+        const onset = base + start;
+        if (onset >= from && onset < to) out.push({ onset, text: segment.label ?? SYNTHETIC_STATE_PRESETS[segment.state].label });
+        start += segment.seconds;
+      });
+      this.scenario.events.forEach(event => {
+        const onset = base + event.at;
+        if (onset >= from && onset < to) out.push({ onset, text: `Artifact: ${event.artifact}` });
+      });
+    }
+    return out.sort((a, b) => a.onset - b.onset);
+  }
+
+  next(count: number): Float32Array[] {
+    const out = this.channels.map(() => new Float32Array(count));
+    const fs = this.sampleRate;
+    const { background, lineNoise, lineFrequency } = this.scenario;
+    for (let i = 0; i < count; i++) {
+      const t = this.samples / fs;
+      const mix = this.stateAt(t);
+      this.scheduleArtifacts(t, mix);
+
+      // Shared rhythms: wandering frequency, slowly varying amplitude
+      const rhythm = BANDS.map((band, b) => {
+        const [centre, spread] = BAND_CENTRES[band];
+        this.phases[b] += (2 * Math.PI * (centre + spread * this.wander[b].next(this.random))) / fs;
+        let envelope = Math.max(0, 1 + 0.1 * this.envelopes[b].next(this.random));
+        let amplitude = mix.bands[band];
+        if (band === 'alpha' && mix.eyesClosed > 0) {
+          // Eyes-closed alpha waxes and wanes in bursts
+          const burst = Math.max(0, 0.6 + 0.9 * this.burst.next(this.random));
+          envelope = envelope * (1 - mix.eyesClosed) + burst * mix.eyesClosed;
+          amplitude *= 1 + (EYES_CLOSED_ALPHA_GAIN - 1) * mix.eyesClosed;
+        }
+        return amplitude * envelope;
+      });
+      const hum = lineNoise > 0 ? lineNoise * Math.sin((2 * Math.PI * lineFrequency * this.samples) / fs) : 0;
+
+      for (let c = 0; c < this.channels.length; c++) {
+        const region = this.regions[c];
+        let v = 0;
+        const noise = this.background[c];
+        for (let k = 0; k < noise.length; k++) v += this.backgroundWeights[k] * noise[k].next(this.random);
+        v *= background.amplitude;
+        for (let b = 0; b < BANDS.length; b++) {
+          v += rhythm[b] * BAND_TOPOGRAPHY[BANDS[b]][region] * Math.sin(this.phases[b] + this.channelPhases[c][b]);
+        }
+        v += hum;
+        out[c][i] = this.applyArtifacts(v, c, region, t);
+      }
+      this.samples++;
+    }
+    this.artifacts = this.artifacts.filter(a => a.end > this.time);
+    return out;
+  }
+
+  // Parameters at `t`, blending into each segment over its transition
+  private stateAt(time: number): StateMix {
+    const { segments, loop } = this.scenario;
+    let t = loop ? time % this.duration : Math.min(time, this.duration);
+    let index = 0;
+    while (index < segments.length - 1 && t >= segments[index].seconds) {
+      t -= segments[index].seconds;
+      index++;
+    }
+    const paramsOf = (i: number): StateMix => {
+      const segment = segments[i];
+      const preset = SYNTHETIC_STATE_PRESETS[segment.state];
+      return {
+        bands: preset.bands,
+        eyesClosed: (this.eyesOverride ?? segment.eyesClosed ?? preset.eyesClosed) ? 1 : 0,
+        blinksPerMinute: segment.blinksPerMinute ?? preset.blinksPerMinute,
+        muscle: segment.muscle ?? preset.muscle,
+      };
+    };
+    const current = paramsOf(index);
+    const transition = segments[index].transition ?? 5;
+    const previousIndex = index > 0 ? index - 1 : loop && segments.length > 1 ? segments.length - 1 : -1;
+    if (previousIndex < 0 || t >= transition || (index === 0 && time < this.duration)) return current;
+    const previous = paramsOf(previousIndex);
+    const w = smoothstep(t / transition);
+    const blend = (a: number, b: number) => a + (b - a) * w;
+    return {
+      bands: Object.fromEntries(BANDS.map(b => [b, blend(previous.bands[b], current.bands[b])])) as Record<EEGBand, number>,
+      eyesClosed: blend(previous.eyesClosed, current.eyesClosed),
+      blinksPerMinute: blend(previous.blinksPerMinute, current.blinksPerMinute),
+      muscle: blend(previous.muscle, current.muscle),
+    };
+  }
+
+  // Scheduled events, plus spontaneous blinks and muscle bursts at the state's rates
+  private scheduleArtifacts(t: number, mix: StateMix) {
+    while (this.pendingEvents.length > 0 && this.pendingEvents[0].at <= t) {
+      const event = this.pendingEvents.shift() as SyntheticScenario['events'][number];
+      this.startArtifact(event.artifact, t, event.seconds, event.channel);
+      if (this.pendingEvents.length === 0 && this.scenario.loop) {
+        this.eventCycle++;
+        const offset = this.eventCycle * this.duration;
+        this.pendingEvents = [...this.scenario.events].sort((a, b) => a.at - b.at).map(e => ({ ...e, at: e.at + offset }));
+      }
+    }
+    const fs = this.sampleRate;
+    const blinkRate = mix.blinksPerMinute * (1 - mix.eyesClosed);
+    if (blinkRate > 0 && this.random.uniform() < blinkRate / 60 / fs) this.startArtifact('blink', t);
+    if (mix.muscle > 0 && this.random.uniform() < mix.muscle / MUSCLE_SECONDS / fs) this.startArtifact('muscle', t);
+  }
+
+  private startArtifact(type: SyntheticArtifact, start: number, seconds?: number, channel?: string) {
+    const named = channel ? this.channels.findIndex(c => c.toLowerCase() === channel.toLowerCase()) : -1;
+    const index = named >= 0 ? named : Math.floor(this.random.uniform() * this.channels.length);
+    const length = seconds ?? { blink: BLINK_SECONDS, muscle: MUSCLE_SECONDS, pop: POP_DECAY_SECONDS * 6, flat: FLAT_SECONDS }[type];
+    const amplitude = { blink: BLINK_MICROVOLTS, muscle: MUSCLE_MICROVOLTS, pop: POP_MICROVOLTS, flat: 0 }[type] * (0.75 + 0.5 * this.random.uniform());
+    this.artifacts.push({ type, start, end: start + length, channel: index, amplitude });
+  }
+
+  private applyArtifacts(value: number, channel: number, region: Region, t: number) {
+    let v = value;
+    for (const a of this.artifacts) {
+      if (t < a.start || t >= a.end) continue;
+      const phase = (t - a.start) / (a.end - a.start);
+      switch (a.type) {
+        case 'blink':
+          v += a.amplitude * BLINK_TOPOGRAPHY[region] * 0.5 * (1 - Math.cos(2 * Math.PI * phase));
+          break;
+        case 'muscle': {
+          // Differenced white noise: broadband with most power above 30 Hz
+          const white = this.random.gaussian();
+          const emg = white - this.muscleNoise[channel];
+          this.muscleNoise[channel] = white;
+          v += a.amplitude * MUSCLE_TOPOGRAPHY[region] * Math.sin(Math.PI * phase) * emg;
+          break;
+        }
+        case 'pop':
+          if (channel === a.channel) v += a.amplitude * Math.exp(-(t - a.start) / POP_DECAY_SECONDS);
+          break;
+        case 'flat':
+          if (channel === a.channel) v = 0.05 * this.random.gaussian();
+          break;
+      }
+    }
+    return v;
+  }
+}
+
+/** The whole scenario (one pass, even when it loops) as a recording with its segment and artifact annotations. */
+export const generateRecording = (scenario: SyntheticScenario, seed = scenario.seed, sampleRate = SYNTHETIC_SAMPLE_RATE): EEGRecording => {
+  const generator = new SyntheticEEGGenerator(scenario, seed, sampleRate);
+  const data = generator.next(Math.round(generator.duration * sampleRate));
+  return {
+    sampleRate,
+    channels: [...generator.channels],
+    data,
+    annotations: generator.annotationsBetween(0, generator.duration),
+  };
+};
@@ -0,0 +1,272 @@
+/**
+ * Helpers for drawing live EEG: a filtered scrolling sample buffer, spectrum
+ * columns for the spectrogram, and scalp topography.
+ *
+ * Electrode positions follow the 10–20 system (plus the common 10–10 sites)
+ * on a sphere, flattened with an azimuthal equidistant projection: Cz sits at
+ * the centre, the Fpz–T7–Oz–T8 ring at radius 0.75 and the row below it
+ * (TP9, TP10…) near the rim of the unit disc. The nose points up (+y).
+ *
+ * Topomaps are interpolated by inverse-distance weighting. The weights depend
+ * only on the electrode set and grid size, so they are computed once and each
+ * new frame is a single weighted sum per pixel.
+ */
+
+import type { BandPowers, EEGBand } from '@/types/eeg';
+import { DEFAULT_PROCESSING_OPTIONS, createEEGFilter, welchPsd, type FilterChain, type ProcessingOptions } from './signalProcessing';
+
+// Inclination from Cz and azimuth from the nose (positive to the right), in degrees
+const SPHERICAL_POSITIONS: Record<string, [number, number]> = {
+  Cz: [0, 0],
+  FCz: [22.5, 0],
+  Fz: [45, 0],
+  AFz: [67.5, 0],
+  Fpz: [90, 0],
+  CPz: [22.5, 180],
+  Pz: [45, 180],
+  POz: [67.5, 180],
+  Oz: [90, 180],
+  Iz: [108, 180],
+  Fp1: [90, -18],
+  Fp2: [90, 18],
+  AF7: [90, -36],
+  AF8: [90, 36],
+  AF3: [74, -28],
+  AF4: [74, 28],
+  F7: [90, -54],
+  F8: [90, 54],
+  F3: [60, -40],
+  F4: [60, 40],
+  F1: [50, -22],
+  F2: [50, 22],
+  F5: [74, -48],
+  F6: [74, 48],
+  F9: [108, -54],
+  F10: [108, 54],
+  FT7: [90, -72],
+  FT8: [90, 72],
+  FT9: [108, -72],
+  FT10: [108, 72],
+  FC5: [72, -69],
+  FC6: [72, 69],
+  FC3: [51, -62],
+  FC4: [51, 62],
+  FC1: [32, -45],
+  FC2: [32, 45],
+  T7: [90, -90],
+  T8: [90, 90],
+  C5: [67.5, -90],
+  C6: [67.5, 90],
+  C3: [45, -90],
+  C4: [45, 90],
+  C1: [22.5, -90],
+  C2: [22.5, 90],
+  TP7: [90, -108],
+  TP8: [90, 108],
+  TP9: [108, -108],
+  TP10: [108, 108],
+  CP5: [72, -111],
+  CP6: [72, 111],
+  CP3: [51, -118],
+  CP4: [51, 118],
+  CP1: [32, -135],
+  CP2: [32, 135],
+  P7: [90, -126],
+  P8: [90, 126],
+  P9: [108, -126],
+  P10: [108, 126],
+  P5: [74, -132],
+  P6: [74, 132],
+  P3: [60, -140],
+  P4: [60, 140],
+  P1: [50, -158],
+  P2: [50, 158],
+  PO7: [90, -144],
+  PO8: [90, 144],
+  PO3: [74, -152],
+  PO4: [74, 152],
+  O1: [90, -162],
+  O2: [90, 162],
+};
+
+// Pre-10–10 names still used by older montages
+const ALIASES: Record<string, string> = { T3: 'T7', T4: 'T8', T5: 'P7', T6: 'P8' };
+
+const PROJECTION_DEGREES = 120;
+
+const POSITIONS = new Map(
+  Object.entries(SPHERICAL_POSITIONS).map(([name, [inclination, azimuth]]) => {
+    const r = inclination / PROJECTION_DEGREES;
+    const a = (azimuth * Math.PI) / 180;
+    return [name.toLowerCase(), [r * Math.sin(a), r * Math.cos(a)] as [number, number]];
+  }),
+);
+
+/** Radius of the Fpz–T7–Oz–T8 ring, where the head outline is drawn. */
+export const HEAD_RADIUS = 90 / PROJECTION_DEGREES;
+
+/** Flat scalp position of a channel label such as "O1", "T3" or "EEG Fp1-REF"; null when unknown. */
+export const electrodePosition = (label: string): [number, number] | null => {
+  const name = label.replace(/^eeg\s+/i, '').split(/[-\s]/)[0];
+  const canonical = ALIASES[name.toUpperCase()] ?? name;
+  return POSITIONS.get(canonical.toLowerCase()) ?? null;
+};
+
+/**
+ * The last `seconds` of every channel, band-passed and notch-filtered the same
+ * way as the metric pipeline so traces and spectra match what was analysed.
+ */
+export class SignalBuffer {
+  readonly sampleRate: number;
+  readonly capacity: number;
+  private filters: FilterChain[];
+  private offsets: (number | null)[];
+  private rings: Float32Array[];
+  private writeIndex = 0;
+  private total = 0;
+
+  constructor(sampleRate: number, channelCount: number, seconds: number, options: ProcessingOptions = {}) {
+    const opts = { ...DEFAULT_PROCESSING_OPTIONS, ...options };
+    this.sampleRate = sampleRate;
+    this.capacity = Math.max(1, Math.round(seconds * sampleRate));
+    this.filters = Array.from({ length: channelCount }, () => createEEGFilter(sampleRate, opts.bandpass, opts.notchFrequency));
+    this.offsets = Array.from({ length: channelCount }, () => null);
+    this.rings = Array.from({ length: channelCount }, () => new Float32Array(this.capacity));
+  }
+
+  get channelCount() {
+    return this.rings.length;
+  }
+
+  /** Samples pushed so far; also serves as a change counter for redraws. */
+  get totalSamples() {
+    return this.total;
+  }
+
+  push(chunk: ArrayLike<number>[]) {
+    const length = chunk[0]?.length ?? 0;
+    const filtered = chunk.slice(0, this.channelCount).map((samples, c) => {
+      if (this.offsets[c] === null && samples.length > 0) this.offsets[c] = samples[0];
+      const offset = this.offsets[c] ?? 0;
+      const centered = new Float32Array(samples.length);
+      for (let i = 0; i < samples.length; i++) centered[i] = samples[i] - offset;
+      return this.filters[c].process(centered);
+    });
+    for (let i = 0; i < length; i++) {
+      for (let c = 0; c < filtered.length; c++) this.rings[c][this.writeIndex] = filtered[c][i];
+      this.writeIndex = (this.writeIndex + 1) % this.capacity;
+    }
+    this.total += length;
+  }
+
+  /**
+   * `seconds` of every channel ending at absolute sample `end` (default: the
+   * newest), oldest first. Shorter when the buffer does not reach back that far.
+   */
+  latest(seconds: number, end = this.total): Float32Array[] {
+    const stop = Math.min(end, this.total);
+    const oldest = Math.max(0, this.total - this.capacity);
+    const start = Math.max(oldest, stop - Math.round(seconds * this.sampleRate));
+    const n = Math.max(0, stop - start);
+    const offset = this.total - start;
+    return this.rings.map(ring => {
+      const out = new Float32Array(n);
+      for (let i = 0; i < n; i++) out[i] = ring[(this.writeIndex - offset + i + this.capacity * 2) % this.capacity];
+      return out;
+    });
+  }
+
+  clear() {
+    this.filters.forEach(f => f.reset());
+    this.offsets = this.offsets.map(() => null);
+    this.rings.forEach(r => r.fill(0));
+    this.writeIndex = 0;
+    this.total = 0;
+  }
+}
+
+/** Power in dB (10·log10 µV²/Hz) for each 1/`seconds` Hz bin from 0 to `maxFrequency`. */
+export const spectrumColumn = (signal: ArrayLike<number>, sampleRate: number, maxFrequency: number): Float32Array => {
+  const { freqs, psd } = welchPsd(signal, sampleRate, signal.length);
+  let bins = 0;
+  while (bins < freqs.length && freqs[bins] <= maxFrequency) bins++;
+  const column = new Float32Array(bins);
+  for (let k = 0; k < bins; k++) column[k] = 10 * Math.log10(psd[k] + 1e-6);
+  return column;
+};
+
+export interface TopomapGrid {
+  size: number;
+  // weights[pixel * electrodes + e]; pixels outside the disc have no weights
+  weights: Float32Array;
+  inside: Uint8Array;
+  electrodes: number;
+}
+
+const IDW_POWER = 2;
+
+/** Interpolation weights for a `size`×`size` grid over the unit disc. */
+export const topomapGrid = (positions: [number, number][], size: number): TopomapGrid => {
+  const n = positions.length;
+  const weights = new Float32Array(size * size * n);
+  const inside = new Uint8Array(size * size);
+  for (let py = 0; py < size; py++) {
+    for (let px = 0; px < size; px++) {
+      const x = ((px + 0.5) / size) * 2 - 1;
+      const y = 1 - ((py + 0.5) / size) * 2;
+      if (x * x + y * y > 1) continue;
+      const pixel = py * size + px;
+      inside[pixel] = 1;
+      let sum = 0;
+      const exact = positions.findIndex(([ex, ey]) => Math.hypot(x - ex, y - ey) < 1e-6);
+      for (let e = 0; e < n; e++) {
+        const d = Math.hypot(x - positions[e][0], y - positions[e][1]);
+        const w = exact >= 0 ? (e === exact ? 1 : 0) : 1 / d ** IDW_POWER;
+        weights[pixel * n + e] = w;
+        sum += w;
+      }
+      for (let e = 0; e < n; e++) weights[pixel * n + e] /= sum;
+    }
+  }
+  return { size, weights, inside, electrodes: n };
+};
+
+/** Interpolated value for every grid pixel; NaN outside the disc. */
+export const interpolateTopomap = (grid: TopomapGrid, values: number[]): Float32Array => {
+  const { size, weights, inside, electrodes } = grid;
+  const out = new Float32Array(size * size);
+  for (let pixel = 0; pixel < out.length; pixel++) {
+    if (!inside[pixel]) {
+      out[pixel] = NaN;
+      continue;
+    }
+    let v = 0;
+    for (let e = 0; e < electrodes; e++) v += weights[pixel * electrodes + e] * values[e];
+    out[pixel] = v;
+  }
+  return out;
+};
+
+/** Share of the total 1–45 Hz power that falls in `band`. */
+export const relativeBandPower = (powers: BandPowers, band: EEGBand) => {
+  const total = powers.delta + powers.theta + powers.alpha + powers.beta + powers.gamma;
+  return total > 0 ? powers[band] / total : 0;
+};
+
+// Viridis, sampled at five points
+const COLORMAP: [number, number, number][] = [
+  [68, 1, 84],
+  [59, 82, 139],
+  [33, 145, 140],
+  [94, 201, 98],
+  [253, 231, 37],
+];
+
+/** RGB for `t` in [0, 1] (clamped). */
+export const colormap = (t: number): [number, number, number] => {
+  const x = Math.max(0, Math.min(1, Number.isFinite(t) ? t : 0)) * (COLORMAP.length - 1);
+  const i = Math.min(COLORMAP.length - 2, Math.floor(x));
+  const f = x - i;
+  const [a, b] = [COLORMAP[i], COLORMAP[i + 1]];
+  return [a[0] + (b[0] - a[0]) * f, a[1] + (b[1] - a[1]) * f, a[2] + (b[2] - a[2]) * f];
+};
@@ -0,0 +1,105 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { WebSocketEEGSource, type SamplePacket, type StreamStatus } from './webSocketSource';
+
+// Just enough of the browser WebSocket for the client; tests play the server
+class FakeSocket {
+  static readonly OPEN = 1;
+  static instances: FakeSocket[] = [];
+  readonly url: string;
+  readyState = 0;
+  binaryType = 'blob';
+  sent: string[] = [];
+  onopen: (() => void) | null = null;
+  onmessage: ((event: { data: unknown }) => void) | null = null;
+  onerror: (() => void) | null = null;
+  onclose: ((event: { code: number; reason: string }) => void) | null = null;
+
+  constructor(url: string) {
+    this.url = url;
+    FakeSocket.instances.push(this);
+  }
+
+  send(data: string) {
+    this.sent.push(data);
+  }
+
+  close(code = 1000, reason = '') {
+    this.serverClose(code, reason);
+  }
+
+  serverOpen() {
+    this.readyState = FakeSocket.OPEN;
+    this.onopen?.();
+  }
+
+  serverSend(message: object) {
+    this.onmessage?.({ data: JSON.stringify(message) });
+  }
+
+  serverClose(code: number, reason = '') {
+    this.readyState = 3;
+    this.onclose?.({ code, reason });
+  }
+}
+
+describe('WebSocketEEGSource', () => {
+  let client: WebSocketEEGSource;
+  let statuses: StreamStatus[];
+  let packets: SamplePacket[];
+
+  const connect = () => {
+    client = new WebSocketEEGSource('ws://localhost:8765');
+    statuses = [];
+    packets = [];
+    client.onStatus(status => statuses.push(status));
+    client.onSamples(packet => packets.push(packet));
+    client.connect();
+    const socket = FakeSocket.instances[FakeSocket.instances.length - 1];
+    socket.serverOpen();
+    socket.serverSend({ type: 'hello', protocol: 1, channels: ['TP9'], sampleRate: 4 });
+    return socket;
+  };
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    FakeSocket.instances = [];
+    vi.stubGlobal('WebSocket', FakeSocket);
+  });
+
+  afterEach(() => {
+    client.disconnect();
+    vi.unstubAllGlobals();
+    vi.useRealTimers();
+  });
+
+  it('ends the stream without reconnecting when the server closes normally', async () => {
+    const socket = connect();
+    socket.serverSend({ type: 'samples', seq: 0, data: [[1, 2, 3, 4]] });
+    socket.serverClose(1000, 'end of recording');
+    await vi.advanceTimersByTimeAsync(30000);
+    expect(FakeSocket.instances).toHaveLength(1);
+    expect(statuses).toEqual(['connecting', 'streaming', 'closed']);
+    // Samples queued before the close are still delivered
+    expect(packets.map(p => p.seq)).toEqual([0]);
+  });
+
+  it('reconnects after an unexpected close', async () => {
+    const socket = connect();
+    socket.serverClose(1006);
+    expect(statuses[statuses.length - 1]).toBe('reconnecting');
+    await vi.advanceTimersByTimeAsync(500);
+    expect(FakeSocket.instances).toHaveLength(2);
+  });
+
+  it('closes the socket after an invalid stream header', async () => {
+    const socket = connect();
+    socket.serverSend({ type: 'hello', protocol: 1, channels: ['TP9', 7], sampleRate: 4 });
+    expect(statuses[statuses.length - 1]).toBe('error');
+    expect(socket.readyState).toBe(3);
+    // A late valid header does not revive the stream
+    socket.serverSend({ type: 'hello', protocol: 1, channels: ['TP9'], sampleRate: 4 });
+    await vi.advanceTimersByTimeAsync(30000);
+    expect(statuses[statuses.length - 1]).toBe('error');
+    expect(FakeSocket.instances).toHaveLength(1);
+  });
+});
@@ -0,0 +1,344 @@
+/**
+ * WebSocket EEG stream client.
+ *
+ * Frame protocol (version 1). Text frames are JSON; sample packets may be sent
+ * either as JSON or as binary frames.
+ *
+ * Server → client
+ *   {"type":"hello","protocol":1,"channels":["TP9","AF7"],"sampleRate":256,"units":"uV"}
+ *       Stream header. Must arrive before any samples; re-sending it resets
+ *       the stream (e.g. when the server switches recordings).
+ *   {"type":"samples","seq":42,"data":[[...ch0],[...ch1]]}
+ *       Channel-major sample block; every channel has the same length.
+ *   {"type":"marker","text":"Eyes closed"}
+ *       Event at the current stream position.
+ *   Binary sample packet, little-endian:
+ *       u8 magic 0xEE | u8 version 1 | u16 channelCount | u32 seq |
+ *       u16 samplesPerChannel | u16 reserved | f32[channelCount × samples]
+ *       (channel-major, microvolts)
+ *
+ * Client → server
+ *   {"type":"pause"} / {"type":"resume"}
+ *       Flow control. Sent when the client's receive queue crosses its high /
+ *       low watermark; servers should also hold back while their socket's
+ *       send buffer is full.
+ *
+ * `seq` increases by one per packet; gaps are counted as dropped packets. On
+ * an unexpected close the client reconnects with exponential backoff. A
+ * normal close (code 1000) from the server ends the stream: queued samples are
+ * still delivered, then the status becomes `closed`.
+ */
+
+export type StreamStatus = 'idle' | 'connecting' | 'streaming' | 'reconnecting' | 'closed' | 'error';
+
+export interface StreamHeader {
+  channels: string[];
+  sampleRate: number;
+}
+
+export interface SamplePacket {
+  seq: number;
+  data: Float32Array[];
+}
+
+export interface StreamStats {
+  packets: number;
+  droppedPackets: number;
+  // Packets discarded locally because the receive queue overflowed
+  overflowPackets: number;
+  queued: number;
+}
+
+export interface WebSocketSourceOptions {
+  reconnect?: boolean;
+  maxReconnectAttempts?: number;
+  // Receive queue bounds, in seconds of samples
+  highWatermarkSeconds?: number;
+  lowWatermarkSeconds?: number;
+  maxQueueSeconds?: number;
+}
+
+type Listener<T> = (value: T) => void;
+
+export const PROTOCOL_VERSION = 1;
+const BINARY_MAGIC = 0xee;
+const BINARY_HEADER_BYTES = 12;
+// Queue is drained on this interval so bursts are spread over several frames
+const DRAIN_INTERVAL_MS = 40;
+const NORMAL_CLOSURE = 1000;
+
+const DEFAULT_OPTIONS: Required<WebSocketSourceOptions> = {
+  reconnect: true,
+  maxReconnectAttempts: 8,
+  highWatermarkSeconds: 2,
+  lowWatermarkSeconds: 0.5,
+  maxQueueSeconds: 5,
+};
+
+/** Decodes a binary sample packet; returns null if the frame is not one. */
+export const decodeBinaryPacket = (buffer: ArrayBuffer): SamplePacket | null => {
+  if (buffer.byteLength < BINARY_HEADER_BYTES) return null;
+  const view = new DataView(buffer);
+  if (view.getUint8(0) !== BINARY_MAGIC || view.getUint8(1) !== PROTOCOL_VERSION) return null;
+  const channels = view.getUint16(2, true);
+  const seq = view.getUint32(4, true);
+  const samples = view.getUint16(8, true);
+  if (buffer.byteLength < BINARY_HEADER_BYTES + channels * samples * 4) return null;
+  const data = Array.from({ length: channels }, (_, c) => {
+    const out = new Float32Array(samples);
+    const base = BINARY_HEADER_BYTES + c * samples * 4;
+    for (let i = 0; i < samples; i++) out[i] = view.getFloat32(base + i * 4, true);
+    return out;
+  });
+  return { seq, data };
+};
+
+export class WebSocketEEGSource {
+  readonly url: string;
+  private options: Required<WebSocketSourceOptions>;
+  private socket: WebSocket | null = null;
+  private header: StreamHeader | null = null;
+  private queue: SamplePacket[] = [];
+  private queuedSamples = 0;
+  private paused = false;
+  private lastSeq: number | null = null;
+  private attempts = 0;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private drainTimer: ReturnType<typeof setInterval> | null = null;
+  private stopped = true;
+  private status: StreamStatus = 'idle';
+  private stats: StreamStats = { packets: 0, droppedPackets: 0, overflowPackets: 0, queued: 0 };
+
+  private statusListeners = new Set<Listener<StreamStatus>>();
+  private headerListeners = new Set<Listener<StreamHeader>>();
+  private sampleListeners = new Set<Listener<SamplePacket>>();
+  private markerListeners = new Set<Listener<string>>();
+  private errorListeners = new Set<Listener<string>>();
+
+  constructor(url: string, options: WebSocketSourceOptions = {}) {
+    this.url = url;
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  getStatus() {
+    return this.status;
+  }
+
+  getHeader() {
+    return this.header;
+  }
+
+  getStats(): StreamStats {
+    return { ...this.stats, queued: this.queue.length };
+  }
+
+  onStatus(listener: Listener<StreamStatus>) {
+    this.statusListeners.add(listener);
+    return () => this.statusListeners.delete(listener);
+  }
+
+  onHeader(listener: Listener<StreamHeader>) {
+    this.headerListeners.add(listener);
+    return () => this.headerListeners.delete(listener);
+  }
+
+  onSamples(listener: Listener<SamplePacket>) {
+    this.sampleListeners.add(listener);
+    return () => this.sampleListeners.delete(listener);
+  }
+
+  onMarker(listener: Listener<string>) {
+    this.markerListeners.add(listener);
+    return () => this.markerListeners.delete(listener);
+  }
+
+  onError(listener: Listener<string>) {
+    this.errorListeners.add(listener);
+    return () => this.errorListeners.delete(listener);
+  }
+
+  connect() {
+    if (!/^wss?:\/\//i.test(this.url)) {
+      this.fail(`Invalid URL "${this.url}" (expected ws://host:port)`);
+      return;
+    }
+    this.stopped = false;
+    this.attempts = 0;
+    this.open();
+    if (!this.drainTimer) this.drainTimer = setInterval(() => this.drain(), DRAIN_INTERVAL_MS);
+  }
+
+  disconnect() {
+    this.stopped = true;
+    if (this.reconnectTimer) clearTimeout(this.reconnectTimer);
+    if (this.drainTimer) clearInterval(this.drainTimer);
+    this.reconnectTimer = null;
+    this.drainTimer = null;
+    this.socket?.close(NORMAL_CLOSURE, 'client disconnect');
+    this.socket = null;
+    this.queue = [];
+    this.queuedSamples = 0;
+    this.setStatus('closed');
+  }
+
+  private open() {
+    this.setStatus(this.attempts === 0 ? 'connecting' : 'reconnecting');
+    let socket: WebSocket;
+    try {
+      socket = new WebSocket(this.url);
+    } catch (e) {
+      this.fail(e instanceof Error ? e.message : 'Could not open WebSocket');
+      return;
+    }
+    socket.binaryType = 'arraybuffer';
+    this.socket = socket;
+    this.paused = false;
+    this.lastSeq = null;
+
+    socket.onopen = () => {
+      this.attempts = 0;
+    };
+    socket.onmessage = event => {
+      if (this.socket === socket) this.handleMessage(event.data);
+    };
+    socket.onerror = () => {
+      this.errorListeners.forEach(l => l(`Connection error on ${this.url}`));
+    };
+    socket.onclose = event => {
+      if (this.socket !== socket) return;
+      this.socket = null;
+      if (this.stopped) return;
+      // The server ended the stream (e.g. a replay without looping); drain() finishes it
+      if (event.code === NORMAL_CLOSURE) {
+        this.stopped = true;
+        return;
+      }
+      this.scheduleReconnect();
+    };
+  }
+
+  private scheduleReconnect() {
+    if (!this.options.reconnect || this.attempts >= this.options.maxReconnectAttempts) {
+      this.fail(`Lost connection to ${this.url}`);
+      return;
+    }
+    this.attempts++;
+    const delay = Math.min(10000, 500 * 2 ** (this.attempts - 1));
+    this.setStatus('reconnecting');
+    this.reconnectTimer = setTimeout(() => this.open(), delay);
+  }
+
+  private handleMessage(data: unknown) {
+    if (data instanceof ArrayBuffer) {
+      const packet = decodeBinaryPacket(data);
+      if (packet) this.enqueue(packet);
+      else this.errorListeners.forEach(l => l('Ignored malformed binary frame'));
+      return;
+    }
+    if (typeof data !== 'string') return;
+    let message: { type?: string; [key: string]: unknown };
+    try {
+      message = JSON.parse(data);
+    } catch {
+      this.errorListeners.forEach(l => l('Ignored non-JSON text frame'));
+      return;
+    }
+    switch (message.type) {
+      case 'hello': {
+        const channels = message.channels as string[];
+        const sampleRate = Number(message.sampleRate);
+        if (!Array.isArray(channels) || !channels.every(c => typeof c === 'string') || !(sampleRate > 0)) {
+          this.fail('Server sent an invalid stream header');
+          return;
+        }
+        this.header = { channels, sampleRate };
+        this.queue = [];
+        this.queuedSamples = 0;
+        this.lastSeq = null;
+        this.headerListeners.forEach(l => l(this.header as StreamHeader));
+        this.setStatus('streaming');
+        break;
+      }
+      case 'samples': {
+        const rows = message.data as number[][];
+        if (!Array.isArray(rows)) return;
+        this.enqueue({ seq: Number(message.seq ?? 0), data: rows.map(r => Float32Array.from(r)) });
+        break;
+      }
+      case 'marker':
+        if (typeof message.text === 'string') this.markerListeners.forEach(l => l(message.text as string));
+        break;
+      default:
+        break;
+    }
+  }
+
+  private enqueue(packet: SamplePacket) {
+    if (!this.header) return;
+    this.stats.packets++;
+    if (this.lastSeq !== null && packet.seq > this.lastSeq + 1) {
+      this.stats.droppedPackets += packet.seq - this.lastSeq - 1;
+    }
+    this.lastSeq = packet.seq;
+
+    const rate = this.header.sampleRate;
+    this.queue.push(packet);
+    this.queuedSamples += packet.data[0]?.length ?? 0;
+    // Hard cap: drop the oldest packets rather than fall further behind real time
+    while (this.queuedSamples > this.options.maxQueueSeconds * rate && this.queue.length > 1) {
+      const dropped = this.queue.shift() as SamplePacket;
+      this.queuedSamples -= dropped.data[0]?.length ?? 0;
+      this.stats.overflowPackets++;
+    }
+    if (!this.paused && this.queuedSamples > this.options.highWatermarkSeconds * rate) {
+      this.paused = true;
+      this.send({ type: 'pause' });
+    }
+  }
+
+  private drain() {
+    if (this.stopped && this.queue.length === 0) {
+      if (this.drainTimer) clearInterval(this.drainTimer);
+      this.drainTimer = null;
+      this.setStatus('closed');
+      return;
+    }
+    if (!this.header || this.queue.length === 0) return;
+    // Release up to twice real time per tick (four times while paused) so a backlog drains without blocking the UI
+    const budget = Math.max(1, Math.ceil((this.header.sampleRate * DRAIN_INTERVAL_MS) / 1000) * (this.paused ? 4 : 2));
+    let released = 0;
+    while (this.queue.length > 0 && released < budget) {
+      const packet = this.queue.shift() as SamplePacket;
+      const n = packet.data[0]?.length ?? 0;
+      this.queuedSamples -= n;
+      released += n;
+      this.sampleListeners.forEach(l => l(packet));
+    }
+    if (this.paused && this.queuedSamples < this.options.lowWatermarkSeconds * this.header.sampleRate) {
+      this.paused = false;
+      this.send({ type: 'resume' });
+    }
+  }
+
+  private send(message: object) {
+    if (this.socket?.readyState === WebSocket.OPEN) this.socket.send(JSON.stringify(message));
+  }
+
+  private fail(message: string) {
+    this.errorListeners.forEach(l => l(message));
+    this.setStatus('error');
+    this.stopped = true;
+    if (this.drainTimer) clearInterval(this.drainTimer);
+    this.drainTimer = null;
+    // Nothing drains a stream in error; close it so it cannot resume behind the status
+    const socket = this.socket;
+    this.socket = null;
+    socket?.close(NORMAL_CLOSURE, 'client error');
+  }
+
+  private setStatus(status: StreamStatus) {
+    if (this.status === status) return;
+    this.status = status;
+    this.statusListeners.forEach(l => l(status));
+  }
+}
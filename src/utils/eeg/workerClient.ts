@@ -0,0 +1,110 @@
+/**
+ * Main-thread side of the EEG worker.
+ *
+ * `request` posts a typed call and resolves with its result. By default the
+ * buffers of every typed array in the params are transferred, so callers
+ * pass copies of anything they still need. Errors thrown in the worker are
+ * rebuilt here, keeping `RecordingParseError` and its row issues.
+ *
+ * Without Web Workers (tests, old browsers), or after the worker fails to
+ * load, the same handlers run on this thread behind the same interface.
+ */
+
+import { RecordingParseError } from './formats';
+import { createEEGWorkerHandlers } from './workerHandlers';
+import {
+  transferablesOf,
+  type EEGWorkerHandlers,
+  type EEGWorkerMethod,
+  type EEGWorkerParams,
+  type EEGWorkerResponse,
+  type EEGWorkerResult,
+  type SerializedError,
+} from './workerProtocol';
+
+interface Pending {
+  resolve: (value: unknown) => void;
+  reject: (error: Error) => void;
+}
+
+const reviveError = ({ name, message, issues }: SerializedError): Error => {
+  if (name === 'RecordingParseError') return new RecordingParseError(message, issues);
+  const error = new Error(message);
+  error.name = name;
+  return error;
+};
+
+const createDefaultWorker = () =>
+  typeof Worker === 'undefined' ? null : new Worker(new URL('../../workers/eegWorker.ts', import.meta.url), { type: 'module' });
+
+export class EEGWorkerClient {
+  private worker: Worker | null = null;
+  private local: EEGWorkerHandlers | null = null;
+  private pending = new Map<number, Pending>();
+  private nextId = 1;
+
+  constructor(createWorker: () => Worker | null = createDefaultWorker) {
+    try {
+      this.worker = createWorker();
+    } catch {
+      // Workers blocked or unsupported: requests run on this thread
+    }
+    if (!this.worker) return;
+    this.worker.onmessage = (event: MessageEvent<EEGWorkerResponse>) => this.settle(event.data);
+    this.worker.onerror = event => {
+      event.preventDefault();
+      this.fail(event.message || 'EEG worker failed to load');
+    };
+  }
+
+  /** True while requests are handled by a worker rather than this thread. */
+  get threaded() {
+    return this.worker !== null;
+  }
+
+  request<M extends EEGWorkerMethod>(
+    method: M,
+    params: EEGWorkerParams<M>,
+    transfer: Transferable[] = transferablesOf(params),
+  ): Promise<EEGWorkerResult<M>> {
+    if (!this.worker) return this.runLocally(method, params);
+    const id = this.nextId++;
+    const worker = this.worker;
+    return new Promise<EEGWorkerResult<M>>((resolve, reject) => {
+      this.pending.set(id, { resolve: resolve as (value: unknown) => void, reject });
+      worker.postMessage({ id, method, params }, transfer);
+    });
+  }
+
+  terminate() {
+    this.fail('EEG worker stopped');
+  }
+
+  private runLocally<M extends EEGWorkerMethod>(method: M, params: EEGWorkerParams<M>) {
+    this.local ??= createEEGWorkerHandlers();
+    const handler = this.local[method] as (params: EEGWorkerParams<M>) => EEGWorkerResult<M>;
+    return new Promise<EEGWorkerResult<M>>(resolve => resolve(handler(params)));
+  }
+
+  private settle(response: EEGWorkerResponse) {
+    const pending = this.pending.get(response.id);
+    if (!pending) return;
+    this.pending.delete(response.id);
+    if ('error' in response) pending.reject(reviveError(response.error));
+    else pending.resolve(response.result);
+  }
+
+  // Rejects everything in flight and carries on without the worker
+  private fail(message: string) {
+    this.worker?.terminate();
+    this.worker = null;
+    const error = new Error(message);
+    this.pending.forEach(p => p.reject(error));
+    this.pending.clear();
+  }
+}
+
+let shared: EEGWorkerClient | null = null;
+
+/** The app-wide EEG worker, started on first use. */
+export const getEEGWorker = () => (shared ??= new EEGWorkerClient());
@@ -0,0 +1,75 @@
+/**
+ * Implementations of the EEG worker methods (see workerProtocol.ts). The
+ * worker entry wires them to `onmessage`; the client calls them directly when
+ * Web Workers are unavailable. State (parsed EDF files, open streams) lives in
+ * the closure, one set per worker.
+ */
+
+import { labelFrames } from './brainStateRules';
+import { edfToRecording, parseEdf, type EdfFile } from './edf';
+import { parseRecordingText } from './formats';
+import { trainWithValidation } from './personalClassifier';
+import { EEGStreamProcessor, processRecording } from './signalProcessing';
+import { scoreSleep } from './sleepStaging';
+import { generateRecording } from './synthetic';
+import type { EEGWorkerHandlers } from './workerProtocol';
+
+export const createEEGWorkerHandlers = (): EEGWorkerHandlers => {
+  const edfFiles = new Map<number, EdfFile>();
+  const streams = new Map<number, EEGStreamProcessor>();
+  let nextHandle = 1;
+
+  const edfFile = (handle: number) => {
+    const edf = edfFiles.get(handle);
+    if (!edf) throw new Error('EDF file is no longer loaded');
+    return edf;
+  };
+
+  return {
+    parseRecordingText: ({ text, fileName, options }) => {
+      const parsed = parseRecordingText(text, fileName, options);
+      return { parsed, frames: processRecording(parsed.recording) };
+    },
+
+    parseEdf: ({ buffer }) => {
+      const edf = parseEdf(buffer);
+      const handle = nextHandle++;
+      edfFiles.set(handle, edf);
+      return { handle, header: edf.header, annotations: edf.annotations };
+    },
+
+    loadEdf: ({ handle, channels }) => {
+      const recording = edfToRecording(edfFile(handle), channels);
+      // Channels can share memory with the kept file, which must survive the transfer
+      const own = { ...recording, data: recording.data.map(channel => channel.slice()) };
+      return { recording: own, frames: processRecording(own) };
+    },
+
+    releaseEdf: ({ handle }) => {
+      edfFiles.delete(handle);
+    },
+
+    openStream: ({ stream, sampleRate, channels, options }) => {
+      streams.set(stream, new EEGStreamProcessor(sampleRate, channels.length, options, channels));
+    },
+
+    pushSamples: ({ stream, data }) => streams.get(stream)?.push(data) ?? [],
+
+    closeStream: ({ stream }) => {
+      streams.delete(stream);
+    },
+
+    labelFrames: ({ ruleSet, frames, model }) => labelFrames(ruleSet, frames, model ?? null),
+
+    trainModel: ({ examples, labels, options }) => trainWithValidation(examples, labels, options),
+
+    scoreSleep: ({ recording }) => scoreSleep(recording),
+
+    scoreSleepEdf: ({ handle, channels }) => scoreSleep(edfToRecording(edfFile(handle), channels)),
+
+    generateRecording: ({ scenario, seed }) => {
+      const recording = generateRecording(scenario, seed);
+      return { recording, frames: processRecording(recording) };
+    },
+  };
+};
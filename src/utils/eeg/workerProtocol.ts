@@ -0,0 +1,124 @@
+/**
+ * Message protocol of the EEG worker (src/workers/eegWorker.ts).
+ *
+ * Every request names a method and carries its params; the worker answers
+ * with the same id and either the result or a serialised error. Sample data
+ * travels as Float32Arrays whose buffers are transferred rather than copied,
+ * in both directions, so the sender must not touch them after posting.
+ *
+ * Methods:
+ *
+ *   parseRecordingText  parse a CSV/JSON export and run the band-power pipeline
+ *   parseEdf            read an EDF/EDF+ file; the samples stay in the worker
+ *                       under the returned handle until `loadEdf`/`releaseEdf`
+ *   loadEdf             build a recording from chosen EDF channels and process it
+ *   releaseEdf          drop a parsed EDF file
+ *   openStream          start a streaming pipeline for a live source
+ *   pushSamples         feed a stream; returns the frames completed by the chunk
+ *   closeStream         drop a stream
+ *   labelFrames         brain states for every frame of a recording
+ *   trainModel          cross-validate and fit a personal classifier
+ *   scoreSleep          sleep stages and metrics for a recording
+ *   scoreSleepEdf       the same for chosen channels of a parsed EDF file
+ *   generateRecording   synthesise a whole scenario and process it
+ */
+
+import type { EEGAnnotation, EEGRecording, MetricFrame } from '@/types/eeg';
+import type { BrainState, BrainStateRuleSet } from './brainStateRules';
+import type { EdfHeader } from './edf';
+import type { ParsedRecording, ParseIssue, ParseOptions } from './formats';
+import type { ModelLabel, PersonalModel, TrainingExample, TrainOptions } from './personalClassifier';
+import type { ProcessingOptions } from './signalProcessing';
+import type { SleepScoring } from './sleepStaging';
+import type { SyntheticScenario } from './synthetic';
+
+export interface ParsedEdfHandle {
+  handle: number;
+  header: EdfHeader;
+  annotations: EEGAnnotation[];
+}
+
+export interface ProcessedRecording {
+  recording: EEGRecording;
+  frames: MetricFrame[];
+}
+
+export interface EEGWorkerMethods {
+  parseRecordingText: {
+    params: { text: string; fileName: string; options?: ParseOptions };
+    result: { parsed: ParsedRecording; frames: MetricFrame[] };
+  };
+  parseEdf: { params: { buffer: ArrayBuffer }; result: ParsedEdfHandle };
+  loadEdf: { params: { handle: number; channels: number[] }; result: ProcessedRecording };
+  releaseEdf: { params: { handle: number }; result: void };
+  openStream: {
+    params: { stream: number; sampleRate: number; channels: string[]; options?: ProcessingOptions };
+    result: void;
+  };
+  pushSamples: { params: { stream: number; data: Float32Array[] }; result: MetricFrame[] };
+  closeStream: { params: { stream: number }; result: void };
+  labelFrames: {
+    params: { ruleSet: BrainStateRuleSet; frames: MetricFrame[]; model?: PersonalModel | null };
+    result: BrainState[];
+  };
+  trainModel: {
+    params: { examples: TrainingExample[]; labels: ModelLabel[]; options: TrainOptions };
+    result: PersonalModel;
+  };
+  scoreSleep: { params: { recording: EEGRecording }; result: SleepScoring };
+  scoreSleepEdf: { params: { handle: number; channels: number[] }; result: SleepScoring };
+  generateRecording: { params: { scenario: SyntheticScenario; seed: number }; result: ProcessedRecording };
+}
+
+export type EEGWorkerMethod = keyof EEGWorkerMethods;
+export type EEGWorkerParams<M extends EEGWorkerMethod> = EEGWorkerMethods[M]['params'];
+export type EEGWorkerResult<M extends EEGWorkerMethod> = EEGWorkerMethods[M]['result'];
+
+export type EEGWorkerHandlers = {
+  [M in EEGWorkerMethod]: (params: EEGWorkerParams<M>) => EEGWorkerResult<M>;
+};
+
+export interface EEGWorkerRequest<M extends EEGWorkerMethod = EEGWorkerMethod> {
+  id: number;
+  method: M;
+  params: EEGWorkerParams<M>;
+}
+
+export interface SerializedError {
+  name: string;
+  message: string;
+  // Row problems of a RecordingParseError
+  issues?: ParseIssue[];
+}
+
+export type EEGWorkerResponse =
+  | { id: number; ok: true; result: unknown }
+  | { id: number; ok: false; error: SerializedError };
+
+export const serializeError = (error: unknown): SerializedError => {
+  if (!(error instanceof Error)) return { name: 'Error', message: String(error) };
+  const issues = (error as Error & { issues?: ParseIssue[] }).issues;
+  return { name: error.name, message: error.message, ...(Array.isArray(issues) ? { issues } : {}) };
+};
+
+/**
+ * Buffers of every typed array in `value` (searching plain objects and
+ * arrays), each once, for the transfer list of `postMessage`.
+ */
+export const transferablesOf = (value: unknown): ArrayBuffer[] => {
+  const found = new Set<ArrayBuffer>();
+  const visit = (v: unknown) => {
+    if (!v || typeof v !== 'object') return;
+    if (ArrayBuffer.isView(v)) {
+      if (v.buffer instanceof ArrayBuffer) found.add(v.buffer);
+    } else if (v instanceof ArrayBuffer) {
+      found.add(v);
+    } else if (Array.isArray(v)) {
+      v.forEach(visit);
+    } else if (Object.getPrototypeOf(v) === Object.prototype) {
+      Object.values(v).forEach(visit);
+    }
+  };
+  visit(value);
+  return [...found];
+};
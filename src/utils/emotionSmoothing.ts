@@ -0,0 +1,114 @@
+/**
+ * Temporal smoothing of facial emotion results.
+ *
+ * Single camera frames are noisy: the strongest expression often changes from
+ * one analysis to the next. The smoother keeps an exponential moving average
+ * of the whole expression distribution and only changes the reported emotion
+ * when another expression
+ *
+ *   leads clearly   its averaged score beats the current emotion's by at
+ *                   least `changeThreshold`
+ *   leads for long  it keeps that lead for `minDwellSeconds`
+ *
+ * Frames whose strongest expression scores below `minConfidence` are skipped,
+ * so uncertain frames neither move the average nor the label. The averaging
+ * weight follows the time between frames, so irregular intervals and gaps
+ * without a face are handled. Settings live in src/config/emotionSmoothing.json.
+ */
+
+import { z } from 'zod';
+import settingsJson from '@/config/emotionSmoothing.json';
+
+const settingsSchema = z.object({
+  // Time for an old frame's weight in the average to halve; 0 disables averaging
+  halfLifeSeconds: z.number().min(0),
+  minDwellSeconds: z.number().min(0),
+  // 0–1 score of a frame's strongest expression
+  minConfidence: z.number().min(0).max(1),
+  // 0–1 lead in averaged score needed to switch emotion
+  changeThreshold: z.number().min(0).max(1),
+});
+
+export type EmotionSmoothingSettings = z.infer<typeof settingsSchema>;
+
+export const DEFAULT_EMOTION_SMOOTHING: EmotionSmoothingSettings = settingsSchema.parse(settingsJson);
+
+export interface EmotionFrame {
+  // Score per emotion, summing to about 1
+  scores: Record<string, number>;
+}
+
+export interface SmoothedEmotion {
+  emotion: string;
+  // Averaged score of `emotion`
+  confidence: number;
+  scores: Record<string, number>;
+}
+
+const leader = (scores: Record<string, number>) =>
+  Object.entries(scores).reduce<[string, number]>((best, entry) => (entry[1] > best[1] ? entry : best), ['neutral', -1]);
+
+/** Stateful smoother over a timeline of frames; one per camera session. */
+export class EmotionSmoother {
+  private settings: EmotionSmoothingSettings;
+  private scores: Record<string, number> | null = null;
+  private current: string | null = null;
+  private candidate: { emotion: string; since: number } | null = null;
+  private lastTime: number | null = null;
+
+  constructor(settings: EmotionSmoothingSettings = DEFAULT_EMOTION_SMOOTHING) {
+    this.settings = settings;
+  }
+
+  /** Latest smoothed result; null until a frame has passed the confidence gate. */
+  get state(): SmoothedEmotion | null {
+    if (!this.scores || !this.current) return null;
+    return {
+      emotion: this.current,
+      confidence: this.scores[this.current] ?? 0,
+      scores: { ...this.scores },
+    };
+  }
+
+  reset() {
+    this.scores = null;
+    this.current = null;
+    this.candidate = null;
+    this.lastTime = null;
+  }
+
+  /** Adds the frame observed at `time` seconds; time going backwards starts over. */
+  update(frame: EmotionFrame, time: number): SmoothedEmotion | null {
+    if (this.lastTime !== null && time < this.lastTime) this.reset();
+    if (leader(frame.scores)[1] < this.settings.minConfidence) return this.state;
+
+    const { halfLifeSeconds, minDwellSeconds, changeThreshold } = this.settings;
+    const weight = this.scores === null || this.lastTime === null || halfLifeSeconds === 0
+      ? 1
+      : 1 - 2 ** (-(time - this.lastTime) / halfLifeSeconds);
+    this.lastTime = time;
+
+    const previous = this.scores ?? {};
+    const emotions = new Set([...Object.keys(previous), ...Object.keys(frame.scores)]);
+    this.scores = Object.fromEntries(
+      [...emotions].map(e => [e, (previous[e] ?? 0) + weight * ((frame.scores[e] ?? 0) - (previous[e] ?? 0))]),
+    );
+
+    const [top, topScore] = leader(this.scores);
+    if (!this.current) {
+      this.current = top;
+      return this.state;
+    }
+    if (top === this.current || topScore - (this.scores[this.current] ?? 0) < changeThreshold) {
+      this.candidate = null;
+      return this.state;
+    }
+
+    if (!this.candidate || this.candidate.emotion !== top) this.candidate = { emotion: top, since: time };
+    if (time - this.candidate.since >= minDwellSeconds) {
+      this.current = top;
+      this.candidate = null;
+    }
+    return this.state;
+  }
+}
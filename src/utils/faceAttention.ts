@@ -0,0 +1,179 @@
+/**
+ * Attention and engagement from face landmarks.
+ *
+ * Head pose
+ *   Six of face-api.js's 68 landmarks (nose tip, chin, outer eye corners,
+ *   mouth corners) are matched to a generic 3D face. As in solvePnP, the pose
+ *   is the rotation that best projects the 3D points onto the landmarks; at
+ *   webcam distance a scaled orthographic camera is accurate enough, so the
+ *   projection is solved by linear least squares and its first two rows are
+ *   orthonormalised into a rotation. Angles are in degrees:
+ *     yaw    positive when the head turns towards the image's right
+ *     pitch  positive when the head tilts down
+ *     roll   positive when the head leans counter-clockwise in the image
+ *   The 68-point model has no iris points, so gaze is taken as the head's
+ *   direction: deviation d = √(yaw² + pitch²).
+ *
+ * Scores, over the frames of the last ATTENTION_WINDOW_SECONDS (frames
+ * without a face count as absent):
+ *   frame attention  1 for d ≤ 10°, 0 for d ≥ 35°, linear in between; 0 when
+ *                    absent
+ *   attention        100 × mean frame attention
+ *   presence         share of frames with a face
+ *   on screen        share of frames with a face and d ≤ 20°
+ *   stability        1 − (mean head movement between consecutive face
+ *                    frames, |Δyaw| + |Δpitch| + |Δroll| in °/s) / 60, at least 0
+ *   engagement       100 × (0.7 × on screen + 0.3 × presence × stability)
+ * Attention is how closely the head points at the screen; engagement also
+ * rewards keeping still and staying in view.
+ */
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export interface HeadPose {
+  yaw: number;
+  pitch: number;
+  roll: number;
+}
+
+export interface AttentionEstimate {
+  // 0–100
+  attention: number;
+  engagement: number;
+  // 0–1 shares of the window's frames
+  presence: number;
+  onScreen: number;
+  // Pose in the latest frame; null when it had no face
+  pose: HeadPose | null;
+  // Whether the latest frame's head points at the screen
+  facingScreen: boolean;
+}
+
+export const ATTENTION_WINDOW_SECONDS = 10;
+// Deviation limits of the formulas above
+const FULL_ATTENTION_DEGREES = 10;
+const NO_ATTENTION_DEGREES = 35;
+export const ON_SCREEN_DEGREES = 20;
+const MAX_MOVEMENT_DEGREES_PER_SECOND = 60;
+
+// Generic 3D face in millimetre-like units: x towards the image's right, y up,
+// z out of the face; paired with the 68-point landmark indices
+const MODEL_POINTS: Array<{ index: number; point: [number, number, number] }> = [
+  { index: 30, point: [0, 0, 0] }, // nose tip
+  { index: 8, point: [0, -330, -65] }, // chin
+  { index: 36, point: [-225, 170, -135] }, // outer corner of the eye on the image's left
+  { index: 45, point: [225, 170, -135] }, // outer corner of the eye on the image's right
+  { index: 48, point: [-150, -150, -125] }, // mouth corner on the image's left
+  { index: 54, point: [150, -150, -125] }, // mouth corner on the image's right
+];
+
+const RAD = 180 / Math.PI;
+
+// Solves the square system a·x = b by Gaussian elimination; null when singular
+const solve = (a: number[][], b: number[]): number[] | null => {
+  const n = b.length;
+  const m = a.map((row, i) => [...row, b[i]]);
+  for (let col = 0; col < n; col++) {
+    const pivot = m.slice(col).reduce((best, row, i) => (Math.abs(row[col]) > Math.abs(m[best][col]) ? col + i : best), col);
+    if (Math.abs(m[pivot][col]) < 1e-9) return null;
+    [m[col], m[pivot]] = [m[pivot], m[col]];
+    for (let r = 0; r < n; r++) {
+      if (r === col) continue;
+      const f = m[r][col] / m[col][col];
+      for (let c = col; c <= n; c++) m[r][c] -= f * m[col][c];
+    }
+  }
+  return m.map((row, i) => row[n] / row[i]);
+};
+
+const cross = (a: number[], b: number[]) => [a[1] * b[2] - a[2] * b[1], a[2] * b[0] - a[0] * b[2], a[0] * b[1] - a[1] * b[0]];
+const dot = (a: number[], b: number[]) => a.reduce((sum, v, i) => sum + v * b[i], 0);
+const normalise = (a: number[]) => {
+  const length = Math.hypot(...a);
+  return a.map(v => v / length);
+};
+
+/** Head pose from 68 face landmarks in image coordinates (y down); null if they are degenerate. */
+export const estimateHeadPose = (landmarks: Point[]): HeadPose | null => {
+  if (landmarks.length < 68) return null;
+  // Least squares for [X Y Z 1]·[r | t] = image x and = −image y (y up)
+  const rows = MODEL_POINTS.map(({ point }) => [...point, 1]);
+  const ata = [0, 1, 2, 3].map(i => [0, 1, 2, 3].map(j => rows.reduce((sum, row) => sum + row[i] * row[j], 0)));
+  const fit = (value: (p: Point) => number) =>
+    solve(ata, [0, 1, 2, 3].map(i => rows.reduce((sum, row, k) => sum + row[i] * value(landmarks[MODEL_POINTS[k].index]), 0)));
+  const px = fit(p => p.x);
+  const py = fit(p => -p.y);
+  if (!px || !py) return null;
+
+  const r1 = normalise(px.slice(0, 3));
+  const r2raw = py.slice(0, 3);
+  const r2 = normalise(r2raw.map((v, i) => v - dot(r2raw, r1) * r1[i]));
+  const r3 = cross(r1, r2);
+  if (![...r1, ...r2, ...r3].every(Number.isFinite)) return null;
+
+  // Rotation rows r1, r2, r3 = Rz(roll)·Ry(yaw)·Rx(pitch)
+  return {
+    yaw: Math.asin(Math.max(-1, Math.min(1, -r3[0]))) * RAD,
+    pitch: Math.atan2(r3[1], r3[2]) * RAD,
+    roll: Math.atan2(r2[0], r1[0]) * RAD,
+  };
+};
+
+/** Angle in degrees between the head's direction and the camera axis. */
+export const headDeviation = (pose: HeadPose) => Math.hypot(pose.yaw, pose.pitch);
+
+const frameAttention = (pose: HeadPose | null) => {
+  if (!pose) return 0;
+  const d = headDeviation(pose);
+  return Math.max(0, Math.min(1, (NO_ATTENTION_DEGREES - d) / (NO_ATTENTION_DEGREES - FULL_ATTENTION_DEGREES)));
+};
+
+/** Rolling attention and engagement over the recent frames; one per camera session. */
+export class AttentionTracker {
+  private windowSeconds: number;
+  private frames: Array<{ time: number; pose: HeadPose | null }> = [];
+
+  constructor(windowSeconds = ATTENTION_WINDOW_SECONDS) {
+    this.windowSeconds = windowSeconds;
+  }
+
+  reset() {
+    this.frames = [];
+  }
+
+  /** Adds the frame observed at `time` seconds, with null when no face was found. */
+  update(pose: HeadPose | null, time: number): AttentionEstimate {
+    if (this.frames.length > 0 && time < this.frames[this.frames.length - 1].time) this.reset();
+    this.frames.push({ time, pose });
+    this.frames = this.frames.filter(f => f.time > time - this.windowSeconds);
+
+    const frames = this.frames;
+    const present = frames.filter(f => f.pose);
+    const presence = present.length / frames.length;
+    const onScreen = present.filter(f => headDeviation(f.pose as HeadPose) <= ON_SCREEN_DEGREES).length / frames.length;
+
+    let movement = 0;
+    let moved = 0;
+    frames.forEach((f, i) => {
+      const prev = frames[i - 1];
+      if (!prev?.pose || !f.pose || f.time <= prev.time) return;
+      const change = Math.abs(f.pose.yaw - prev.pose.yaw) + Math.abs(f.pose.pitch - prev.pose.pitch) + Math.abs(f.pose.roll - prev.pose.roll);
+      movement += change / (f.time - prev.time);
+      moved += 1;
+    });
+    const stability = moved > 0 ? Math.max(0, 1 - movement / moved / MAX_MOVEMENT_DEGREES_PER_SECOND) : 1;
+
+    const attention = frames.reduce((sum, f) => sum + frameAttention(f.pose), 0) / frames.length;
+    return {
+      attention: Math.round(100 * attention),
+      engagement: Math.round(100 * (0.7 * onScreen + 0.3 * presence * stability)),
+      presence,
+      onScreen,
+      pose,
+      facingScreen: !!pose && headDeviation(pose) <= ON_SCREEN_DEGREES,
+    };
+  }
+}
@@ -0,0 +1,72 @@
+/**
+ * Neutral-face calibration.
+ *
+ * face-api.js scores some people's resting face as partly sad or angry. The
+ * calibration averages the expression scores while the user holds a relaxed,
+ * neutral face; later frames are scored against that baseline. Each
+ * non-neutral emotion keeps only what exceeds its resting score, rescaled so
+ * that a full expression still scores 1, and whatever is left goes to neutral:
+ *
+ *   adjusted(e) = max(0, score(e) − rest(e)) / (1 − rest(e))
+ *   neutral     = 1 − Σ adjusted (the scores are renormalised if that is < 0)
+ *
+ * So a resting face reads as neutral, while a real frown still reads as sad.
+ * Baselines are stored per profile (hooks/useProfiles.ts).
+ */
+
+export interface FaceBaseline {
+  version: 1;
+  createdAt: string;
+  frames: number;
+  // Mean resting score per emotion
+  scores: Record<string, number>;
+}
+
+// Frames with a face needed for a usable baseline
+export const MIN_FACE_FRAMES = 10;
+// Capture length and sampling interval of the calibration
+export const FACE_CALIBRATION_SECONDS = 6;
+export const FACE_CALIBRATION_INTERVAL_MS = 200;
+
+// A resting score this high leaves too little range to rescale
+const MAX_REST_SCORE = 0.95;
+
+/** Mean of the captured distributions; throws when too few frames had a face. */
+export const computeFaceBaseline = (frames: Array<Record<string, number>>): FaceBaseline => {
+  if (frames.length < MIN_FACE_FRAMES) {
+    throw new Error(`Only ${frames.length} frames showed a face; at least ${MIN_FACE_FRAMES} are needed`);
+  }
+  const sums: Record<string, number> = {};
+  frames.forEach(frame => {
+    Object.entries(frame).forEach(([emotion, score]) => {
+      sums[emotion] = (sums[emotion] ?? 0) + score;
+    });
+  });
+  const scores = Object.fromEntries(Object.entries(sums).map(([emotion, sum]) => [emotion, sum / frames.length]));
+  return { version: 1, createdAt: new Date().toISOString(), frames: frames.length, scores };
+};
+
+/** Scores relative to the user's neutral face; unchanged without a baseline. */
+export const applyFaceBaseline = (scores: Record<string, number>, baseline: FaceBaseline | null): Record<string, number> => {
+  if (!baseline) return scores;
+  const adjusted: Record<string, number> = {};
+  Object.entries(scores).forEach(([emotion, score]) => {
+    if (emotion === 'neutral') return;
+    const rest = Math.min(baseline.scores[emotion] ?? 0, MAX_REST_SCORE);
+    adjusted[emotion] = Math.max(0, score - rest) / (1 - rest);
+  });
+  const expressive = Object.values(adjusted).reduce((sum, v) => sum + v, 0);
+  if (expressive <= 1) return { ...adjusted, neutral: 1 - expressive };
+  return { ...Object.fromEntries(Object.entries(adjusted).map(([emotion, v]) => [emotion, v / expressive])), neutral: 0 };
+};
+
+export const isFaceBaseline = (value: unknown): value is FaceBaseline => {
+  const baseline = value as FaceBaseline | null;
+  return (
+    !!baseline &&
+    baseline.version === 1 &&
+    typeof baseline.scores === 'object' &&
+    baseline.scores !== null &&
+    Object.values(baseline.scores).every(v => Number.isFinite(v) && v >= 0 && v <= 1)
+  );
+};
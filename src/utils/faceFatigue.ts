@@ -0,0 +1,151 @@
+/**
+ * Blink and PERCLOS drowsiness detection from face landmarks.
+ *
+ * Eye aspect ratio (Soukupová & Čech, 2016), per eye from its six 68-point
+ * landmarks p1…p6 and averaged over both eyes:
+ *
+ *   EAR = (|p2 − p6| + |p3 − p5|) / (2 |p1 − p4|)
+ *
+ * It is about 0.3 with the eyes open and falls towards 0 as they close. Open
+ * eyes differ between people, so a sample counts as closed when its EAR is
+ * below CLOSED_FRACTION of the user's open-eye EAR (the 80th percentile of the
+ * window; DEFAULT_OPEN_EAR until there are enough samples).
+ *
+ * Over the last FATIGUE_WINDOW_SECONDS, counting only time with a face:
+ *   blinks      closures of at most MAX_BLINK_MS; longer ones are not blinks
+ *               but still count towards PERCLOS
+ *   blink rate  blinks per minute
+ *   PERCLOS     share of time with the eyes closed
+ *   drowsiness  100 × (0.6 × P + 0.25 × D + 0.15 × R), each term clamped to 0–1:
+ *                 P = (PERCLOS − 0.05) / 0.20          (0.15 and above is drowsy)
+ *                 D = (mean blink ms − 150) / 250      (slow blinks)
+ *                 R = (blinks per minute − 20) / 15    (frequent blinks)
+ * The score needs MIN_FATIGUE_SECONDS of face time; before that it is null.
+ * Blinks shorter than the sampling interval can be missed, so the eyes are
+ * sampled much faster than the expressions.
+ */
+
+import type { EEGMetrics } from '@/types/eeg';
+import type { AttentionEstimate, Point } from './faceAttention';
+
+export interface FatigueEstimate {
+  // Latest EAR; null when the latest sample had no face
+  ear: number | null;
+  eyesClosed: boolean;
+  blinkRate: number;
+  meanBlinkMs: number | null;
+  perclos: number;
+  drowsiness: number | null;
+  // Achieved eye samples per second
+  sampleRate: number;
+}
+
+export const FATIGUE_WINDOW_SECONDS = 60;
+export const MIN_FATIGUE_SECONDS = 20;
+export const EYE_SAMPLE_MS = 100;
+export const MAX_BLINK_MS = 500;
+const CLOSED_FRACTION = 0.65;
+const DEFAULT_OPEN_EAR = 0.3;
+// Samples needed before the open-eye EAR is taken from the user
+const MIN_OPEN_SAMPLES = 30;
+// Longer gaps between samples (a stalled tab, a slow frame) count only this long
+const MAX_SAMPLE_GAP_SECONDS = 0.5;
+
+const EYES = [
+  [36, 37, 38, 39, 40, 41],
+  [42, 43, 44, 45, 46, 47],
+];
+
+const distance = (a: Point, b: Point) => Math.hypot(a.x - b.x, a.y - b.y);
+const clamp01 = (v: number) => Math.max(0, Math.min(1, v));
+
+/** Mean eye aspect ratio of both eyes; null if the landmarks are incomplete or degenerate. */
+export const eyeAspectRatio = (landmarks: Point[]): number | null => {
+  if (landmarks.length < 68) return null;
+  const ratios = EYES.map(([p1, p2, p3, p4, p5, p6]) => {
+    const width = distance(landmarks[p1], landmarks[p4]);
+    return width > 0 ? (distance(landmarks[p2], landmarks[p6]) + distance(landmarks[p3], landmarks[p5])) / (2 * width) : NaN;
+  });
+  const ear = (ratios[0] + ratios[1]) / 2;
+  return Number.isFinite(ear) ? ear : null;
+};
+
+/** Rolling blink, PERCLOS and drowsiness estimate; one per camera session. */
+export class FatigueTracker {
+  private samples: Array<{ time: number; ear: number | null }> = [];
+
+  reset() {
+    this.samples = [];
+  }
+
+  /** Adds the eye sample taken at `time` seconds, with null when no face was found. */
+  update(ear: number | null, time: number): FatigueEstimate {
+    if (this.samples.length > 0 && time < this.samples[this.samples.length - 1].time) this.reset();
+    this.samples.push({ time, ear });
+    this.samples = this.samples.filter(s => s.time > time - FATIGUE_WINDOW_SECONDS);
+
+    const samples = this.samples;
+    const ears = samples.flatMap(s => (s.ear === null ? [] : [s.ear])).sort((a, b) => a - b);
+    const openEar = ears.length >= MIN_OPEN_SAMPLES ? ears[Math.floor(ears.length * 0.8)] : DEFAULT_OPEN_EAR;
+    const threshold = CLOSED_FRACTION * openEar;
+    const closed = (ear: number | null) => ear !== null && ear < threshold;
+
+    let faceTime = 0;
+    let closedTime = 0;
+    const blinks: number[] = [];
+    let closedSince: number | null = null;
+    samples.forEach((s, i) => {
+      const prev = samples[i - 1];
+      if (prev && prev.ear !== null && s.ear !== null) {
+        const dt = Math.min(s.time - prev.time, MAX_SAMPLE_GAP_SECONDS);
+        faceTime += dt;
+        if (closed(prev.ear)) closedTime += dt;
+      }
+      // A closure ends when the eyes reopen; one interrupted by a lost face is dropped
+      if (closed(s.ear)) {
+        closedSince ??= s.time;
+      } else {
+        if (closedSince !== null && s.ear !== null && (s.time - closedSince) * 1000 <= MAX_BLINK_MS) blinks.push((s.time - closedSince) * 1000);
+        closedSince = null;
+      }
+    });
+
+    const perclos = faceTime > 0 ? closedTime / faceTime : 0;
+    const blinkRate = faceTime > 0 ? blinks.length / (faceTime / 60) : 0;
+    const meanBlinkMs = blinks.length > 0 ? blinks.reduce((sum, d) => sum + d, 0) / blinks.length : null;
+    const drowsiness = faceTime < MIN_FATIGUE_SECONDS
+      ? null
+      : Math.round(
+          100 *
+            (0.6 * clamp01((perclos - 0.05) / 0.2) +
+              0.25 * clamp01(((meanBlinkMs ?? 0) - 150) / 250) +
+              0.15 * clamp01((blinkRate - 20) / 15)),
+        );
+    const span = samples.length > 1 ? samples[samples.length - 1].time - samples[0].time : 0;
+
+    return {
+      ear,
+      eyesClosed: closed(ear),
+      blinkRate,
+      meanBlinkMs,
+      perclos,
+      drowsiness,
+      sampleRate: span > 0 ? (samples.length - 1) / span : 0,
+    };
+  }
+}
+
+// Relaxation is not measured by the camera; the midpoint keeps the
+// relaxation rules from firing
+const CAMERA_RELAXATION = 50;
+
+/**
+ * Camera readings as EEG metrics, so the brain-state rules can label them.
+ * Attention only counts time with the eyes open: head attention × (1 − PERCLOS).
+ */
+export const cameraMetrics = (attention: AttentionEstimate, fatigue: FatigueEstimate): EEGMetrics => ({
+  attention: Math.round(attention.attention * (1 - fatigue.perclos)),
+  relaxation: CAMERA_RELAXATION,
+  drowsiness: fatigue.drowsiness ?? 0,
+  engagement: attention.engagement,
+});
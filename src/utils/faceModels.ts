@@ -0,0 +1,151 @@
+/**
+ * face-api.js model loading.
+ *
+ * The tiny face detector, 68-point landmark and expression weights are served
+ * from this site (public/models/face-api, copied from the package named in
+ * src/config/faceModels.json) instead of a CDN, so facial emotion detection
+ * also works offline. Every file must match its SHA-256 integrity hash before
+ * it is used. Verified files are kept with the Cache API so later visits do
+ * not download them again; a cached copy that fails the check is dropped and
+ * fetched afresh.
+ */
+
+import * as faceapi from 'face-api.js';
+import { z } from 'zod';
+import configJson from '@/config/faceModels.json';
+
+const configSchema = z.object({
+  source: z.string(),
+  // Relative to the app's base URL
+  path: z.string(),
+  // Cache API cache holding verified files; rename it when the files change
+  cache: z.string(),
+  models: z.array(z.object({ net: z.string(), name: z.string(), label: z.string() })).min(1),
+  // File name → "sha256-<base64 digest>", as in subresource integrity
+  integrity: z.record(z.string(), z.string().regex(/^sha256-[A-Za-z0-9+/]+=*$/)),
+});
+
+export type FaceModelConfig = z.infer<typeof configSchema>;
+
+export const FACE_MODELS: FaceModelConfig = configSchema.parse(configJson);
+
+// One weights manifest group: shard files and the tensors packed into them
+const manifestSchema = z.array(
+  z.object({
+    paths: z.array(z.string()).min(1),
+    weights: z.array(z.looseObject({ name: z.string(), shape: z.array(z.number()), dtype: z.string() })),
+  }),
+);
+
+export class FaceModelError extends Error {
+  file: string | null;
+
+  constructor(message: string, file: string | null = null) {
+    super(message);
+    this.name = 'FaceModelError';
+    this.file = file;
+  }
+}
+
+export interface FaceModelLoad {
+  // Files served from the cache and from the network
+  cached: number;
+  fetched: number;
+}
+
+const toBase64 = (buffer: ArrayBuffer) => {
+  let binary = '';
+  new Uint8Array(buffer).forEach(byte => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+};
+
+/** True when `buffer` hashes to `integrity` ("sha256-<base64>"). */
+export const checkIntegrity = async (buffer: ArrayBuffer, integrity: string) =>
+  `sha256-${toBase64(await crypto.subtle.digest('SHA-256', buffer))}` === integrity;
+
+const openCache = async (): Promise<Cache | null> => {
+  if (typeof caches === 'undefined') return null;
+  try {
+    return await caches.open(FACE_MODELS.cache);
+  } catch {
+    // Cache API blocked (e.g. some private windows): fetch every visit
+    return null;
+  }
+};
+
+async function readFile(file: string, baseUrl: string, cache: Cache | null, load: FaceModelLoad): Promise<ArrayBuffer> {
+  const integrity = FACE_MODELS.integrity[file];
+  if (!integrity) throw new FaceModelError(`${file} has no integrity hash`, file);
+  const url = `${baseUrl}${file}`;
+
+  const cached = cache ? await cache.match(url) : undefined;
+  if (cached) {
+    const buffer = await cached.arrayBuffer();
+    if (await checkIntegrity(buffer, integrity)) {
+      load.cached += 1;
+      return buffer;
+    }
+    await cache?.delete(url);
+  }
+
+  let response: Response;
+  try {
+    response = await fetch(url);
+  } catch {
+    throw new FaceModelError(`${file} could not be downloaded`, file);
+  }
+  if (!response.ok) throw new FaceModelError(`${file} could not be downloaded (HTTP ${response.status})`, file);
+  const buffer = await response.arrayBuffer();
+  if (!(await checkIntegrity(buffer, integrity))) throw new FaceModelError(`${file} failed its integrity check`, file);
+  load.fetched += 1;
+
+  try {
+    await cache?.put(url, new Response(buffer));
+  } catch {
+    // Over quota: the file is downloaded again next visit
+  }
+  return buffer;
+}
+
+async function loadModel(model: FaceModelConfig['models'][number], baseUrl: string, cache: Cache | null, load: FaceModelLoad) {
+  const net = faceapi.nets[model.net];
+  if (!net) throw new FaceModelError(`face-api.js has no network called ${model.net}`);
+
+  const manifestFile = `${model.name}-weights_manifest.json`;
+  const parsed = manifestSchema.safeParse(JSON.parse(new TextDecoder().decode(await readFile(manifestFile, baseUrl, cache, load))));
+  if (!parsed.success) throw new FaceModelError(`${manifestFile} is not a weights manifest`, manifestFile);
+
+  const shards = await Promise.all(parsed.data.flatMap(group => group.paths).map(path => readFile(path, baseUrl, cache, load)));
+  const weights = faceapi.tf.io.decodeWeights(
+    faceapi.tf.io.concatenateArrayBuffers(shards),
+    parsed.data.flatMap(group => group.weights),
+  );
+  net.loadFromWeightMap(weights);
+}
+
+/**
+ * Loads every model in FACE_MODELS into face-api.js's shared networks.
+ * Rejects with a FaceModelError when a file is missing or fails its check.
+ */
+export async function loadFaceModels(baseUrl = `${import.meta.env.BASE_URL}${FACE_MODELS.path}/`): Promise<FaceModelLoad> {
+  if (!globalThis.crypto?.subtle) {
+    throw new FaceModelError('Model integrity cannot be checked outside a secure context (https or localhost)');
+  }
+  const cache = await openCache();
+  const load: FaceModelLoad = { cached: 0, fetched: 0 };
+  await Promise.all(FACE_MODELS.models.map(model => loadModel(model, baseUrl, cache, load)));
+  return load;
+}
+
+let loading: Promise<FaceModelLoad> | null = null;
+
+/** Loads the models once per page; a failed load is retried on the next call. */
+export const ensureFaceModels = (): Promise<FaceModelLoad> => {
+  loading ??= loadFaceModels().catch(error => {
+    loading = null;
+    throw error;
+  });
+  return loading;
+};
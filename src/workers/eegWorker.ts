@@ -0,0 +1,35 @@
+/**
+ * EEG worker: parsing, filtering, feature extraction and batch classification
+ * off the main thread. Requests are handled one at a time in arrival order,
+ * so stream frames come back in sample order. See utils/eeg/workerProtocol.ts.
+ */
+
+import { createEEGWorkerHandlers } from '@/utils/eeg/workerHandlers';
+import {
+  serializeError,
+  transferablesOf,
+  type EEGWorkerMethod,
+  type EEGWorkerRequest,
+  type EEGWorkerResponse,
+} from '@/utils/eeg/workerProtocol';
+
+// The app is type-checked against the DOM library, which has no worker scope
+interface WorkerScope {
+  onmessage: ((event: MessageEvent<EEGWorkerRequest>) => void) | null;
+  postMessage(message: EEGWorkerResponse, transfer: Transferable[]): void;
+}
+
+const scope = self as unknown as WorkerScope;
+const handlers = createEEGWorkerHandlers();
+
+scope.onmessage = ({ data: request }) => {
+  const { id, method, params } = request;
+  try {
+    const handler = handlers[method] as (params: unknown) => unknown;
+    if (!handler) throw new Error(`Unknown EEG worker method "${method as EEGWorkerMethod}"`);
+    const result = handler(params);
+    scope.postMessage({ id, ok: true, result }, transferablesOf(result));
+  } catch (error) {
+    scope.postMessage({ id, ok: false, error: serializeError(error) }, []);
+  }
+};